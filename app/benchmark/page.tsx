@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import * as THREE from "three";
+import { GpuParticleSystem } from "@/lib/gpu-particles";
+import {
+  BENCHMARK_PARTICLE_COUNTS,
+  BenchmarkResult,
+  benchmarkSimulation,
+} from "@/lib/simulation/benchmark";
+import { PlasmaTorusSimulation } from "@/lib/simulation/plasma-torus-simulation";
+
+// Let React paint between runs
+const nextFrame = () => new Promise((resolve) => window.setTimeout(resolve, 0));
+
+/**
+ * Headless particle benchmark: steps the simulation at each particle count
+ * on the CPU and, where WebGL2 float render targets exist, on the GPU, and
+ * reports particle steps per millisecond. Nothing is rendered, so it also
+ * runs in headless browsers; results are logged with console.table.
+ */
+export default function Benchmark() {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [status, setStatus] = useState("Starting…");
+
+  useEffect(() => {
+    let cancelled = false;
+    const renderer = new THREE.WebGLRenderer({
+      canvas: document.createElement("canvas"),
+    });
+    const gpuSupported = GpuParticleSystem.isSupported(renderer);
+
+    const run = async () => {
+      const completed: BenchmarkResult[] = [];
+      for (const path of gpuSupported ? ["cpu", "gpu"] : ["cpu"]) {
+        for (const maxParticles of BENCHMARK_PARTICLE_COUNTS) {
+          if (cancelled) return;
+          setStatus(`Running ${path} with ${maxParticles} particles…`);
+          await nextFrame();
+
+          const simulation = new PlasmaTorusSimulation({ maxParticles }, 1);
+          const gpu =
+            path === "gpu" ? new GpuParticleSystem(renderer, simulation) : null;
+          simulation.particleIntegrator = gpu;
+          completed.push(
+            benchmarkSimulation(path, simulation, undefined, () =>
+              gpu?.finish()
+            )
+          );
+          gpu?.dispose();
+          setResults([...completed]);
+        }
+      }
+      console.table(completed);
+      setStatus(
+        gpuSupported
+          ? "Done"
+          : "Done (GPU path unsupported: needs WebGL2 float render targets)"
+      );
+    };
+
+    run();
+
+    return () => {
+      cancelled = true;
+      renderer.dispose();
+    };
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-black text-white p-8 space-y-4 text-sm">
+      <h1 className="text-xl font-bold">Particle benchmark</h1>
+      <p className="text-gray-300">{status}</p>
+      <table className="border-collapse">
+        <thead>
+          <tr className="text-left text-blue-400">
+            <th className="pr-6">Path</th>
+            <th className="pr-6">Integrator</th>
+            <th className="pr-6 text-right">Particles</th>
+            <th className="pr-6 text-right">Steps</th>
+            <th className="pr-6 text-right">Time (ms)</th>
+            <th className="text-right">Particles/ms</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result) => (
+            <tr key={`${result.path}-${result.particles}`}>
+              <td className="pr-6">{result.path.toUpperCase()}</td>
+              <td className="pr-6">{result.integrator}</td>
+              <td className="pr-6 text-right">
+                {result.particles.toLocaleString()}
+              </td>
+              <td className="pr-6 text-right">{result.steps}</td>
+              <td className="pr-6 text-right">
+                {Math.round(result.milliseconds)}
+              </td>
+              <td className="text-right">
+                {Math.round(result.particlesPerMs).toLocaleString()}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
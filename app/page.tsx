@@ -1,62 +1,712 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
+import CameraControls from "@/components/camera-controls";
+import CaptureControls from "@/components/capture-controls";
+import ControlPanel from "@/components/control-panel";
+import DiagnosticsPanel from "@/components/diagnostics-panel";
+import EphemerisControls from "@/components/ephemeris-controls";
+import EruptionTimeline, {
+  ActivitySamples,
+} from "@/components/eruption-timeline";
+import ExportControls from "@/components/export-controls";
+import ObservationControls from "@/components/observation-controls";
+import ParticleInspector from "@/components/particle-inspector";
+import ScaleBar from "@/components/scale-bar";
+import SolarWindControls from "@/components/solar-wind-controls";
+import SpeciesLegend from "@/components/species-legend";
+import VolcanoActivity from "@/components/volcano-activity";
+import {
+  CameraKeyframe,
+  CameraShot,
+  DEFAULT_FOV,
+  InfoSection,
+  keyframeAt,
+  sampleCameraPath,
+} from "@/lib/camera-path";
+import {
+  cameraPreset,
+  CameraAnchor,
+  CameraFollow,
+  CameraPresetName,
+  followAnchor,
+} from "@/lib/camera-rig";
+import { GUIDED_TOUR, Tour } from "@/lib/camera-tours";
+import {
+  canvasToPng,
+  CaptureSettings,
+  FrameCapture,
+  FrameSink,
+  PngSequence,
+  RecordingSettings,
+  WebmRecording,
+} from "@/lib/capture";
+import { downloadBlob } from "@/lib/download";
+import { GpuParticleSystem } from "@/lib/gpu-particles";
+import { auroraIntensity, AuroralFootprints, FluxTube } from "@/lib/io-aurora";
+import { MagnetosphereSurfaces } from "@/lib/magnetosphere-surfaces";
+import { ParticleTrail } from "@/lib/particle-trail";
+import {
+  ExportFormat,
+  exportSnapshot,
+  exportTimeSeries,
+  parseSnapshot,
+} from "@/lib/run-export";
+import { decodeScenario, encodeScenario, Triple } from "@/lib/scenario-url";
+import { createMoonTexture, MoonTextureStyle } from "@/lib/moon-textures";
+import {
+  computeDiagnostics,
+  Diagnostics,
+  ReferenceProfile,
+} from "@/lib/simulation/diagnostics";
+import {
+  dateFromJulianDay,
+  JupiterEphemeris,
+} from "@/lib/simulation/ephemeris";
+import {
+  ERUPTION_SCENARIOS,
+  EruptionScenario,
+  parseEruptionScenario,
+} from "@/lib/simulation/eruption-scenarios";
+import { traceFieldLine } from "@/lib/simulation/field-lines";
+import {
+  dipoleAxis,
+  dipoleCentre,
+  sphericalToBody,
+  Vec3,
+  worldToBody,
+} from "@/lib/simulation/magnetic-field";
+import {
+  parseSolarWindSeries,
+  sceneStandoff,
+  SOLAR_WIND_PRESETS,
+  SolarWindSeries,
+  SUN_POSITION,
+} from "@/lib/simulation/magnetosphere";
+import {
+  MOON_ORBITS,
+  MoonName,
+  MoonOrbit,
+  orbitRadius,
+} from "@/lib/simulation/moons";
+import {
+  DEFAULT_PARAMS,
+  IO_RADIUS,
+  JUPITER_RADIUS,
+  SimulationParams,
+} from "@/lib/simulation/params";
+import {
+  EphemerisClock,
+  PlasmaTorusSimulation,
+  SimulationState,
+} from "@/lib/simulation/plasma-torus-simulation";
+import {
+  inspectParticle,
+  ParticleDetails,
+} from "@/lib/simulation/particle-inspector";
+import { randomSeed } from "@/lib/simulation/random";
+import {
+  createFramePose,
+  framePose,
+  ReferenceFrameName,
+} from "@/lib/simulation/reference-frames";
+import {
+  SimulationSource,
+  SimulationWorkerClient,
+} from "@/lib/simulation/simulation-worker-client";
+import {
+  ActivityTrace,
+  TimeSeriesRecorder,
+} from "@/lib/simulation/time-series";
+import { relativeIonDensity } from "@/lib/simulation/torus-density";
+import { TORUS_MODELS } from "@/lib/simulation/torus-models";
+import { ioLShell } from "@/lib/simulation/units";
+import {
+  IO_VOLCANOES,
+  synchronousRotation,
+  volcanoNormal,
+} from "@/lib/simulation/volcanoes";
+import {
+  canObserve,
+  observationCanvas,
+  ObservationImage,
+  ObservationSettings,
+  observationToFits,
+  observationToPng,
+  observe,
+  observerCamera,
+  TYPICAL_EARTH_DISTANCE,
+} from "@/lib/synthetic-observation";
+
+const FIELD_LINE_LONGITUDES = 12;
+const FIELD_LINE_SHELLS = [1.6, 2.4, 4]; // Equatorial distance, planet radii
+const FOOTPRINT_OVAL_POINTS = 90;
+const FRAME_TRANSITION = 1.5; // Seconds to swing between reference frames
+const PICK_ANGLE = 0.01; // Radians either side of the pointer a click reaches
+const CLICK_TOLERANCE = 4; // Pixels the pointer may move and still click
+
+// The simulation updates its ephemeris in place, so React state gets a copy
+const copyEphemeris = (ephemeris: JupiterEphemeris | null) =>
+  ephemeris && { ...ephemeris, longitudes: { ...ephemeris.longitudes } };
+
+// Field lines are regenerated whenever one of these parameters changes
+const fieldModelKey = (params: SimulationParams) =>
+  [
+    params.fieldModel,
+    params.magneticTilt,
+    params.dipoleOffsetX,
+    params.dipoleOffsetY,
+    params.dipoleOffsetZ,
+    params.magnetodisc,
+    params.sceneScale, // Moves Io's footprint ovals
+  ].join();
+
+// Line geometry from body-frame points, scaled to scene units
+const bodyGeometry = (points: number[], scale: number) =>
+  new THREE.BufferGeometry().setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(
+      points.map((value) => value * scale),
+      3
+    )
+  );
 
-const MAX_PARTICLES = 1000;
-const MAGNETIC_TILT = Math.PI / 10; // ~18 degrees tilt
-const JUPITER_ROTATION_SPEED = 0.002;
-const MAGNETIC_FIELD_STRENGTH = 0.2; // Increased field strength
-const TORUS_RADIUS = 10; // Slightly inside Io's orbit
-const NUM_FIELD_LINES = 16;
-const FIELD_LINE_POINTS = 50;
-const FIELD_LINE_LENGTH = 20;
-const MAX_DISTANCE = 30; // Maximum allowed distance from Jupiter
-const MIN_DISTANCE = 3; // Minimum allowed distance from Jupiter
-
-// Volcanic eruption parameters
-const ERUPTION_DURATION = 100; // How long an eruption lasts
-const ERUPTION_COOLDOWN = 200; // Minimum time between eruptions
-const ERUPTION_CHANCE = 0.005; // Chance to start a new eruption when not in cooldown
-const PARTICLES_PER_FRAME_DURING_ERUPTION = 5; // How many particles to emit during active eruption
-const BASE_EMISSION_RATE = 0.1; // Background emission rate when not erupting
-
-// Moon orbital parameters (scaled for visualization)
-const MOONS = {
-  IO: {
-    RADIUS: 0.5,
-    ORBIT_RADIUS: 12,
-    ORBIT_SPEED: 0.005,
+// Moon appearance; orbits come from MOON_ORBITS (scaled for visualization)
+const MOONS: Record<
+  MoonName,
+  {
+    RADIUS: number;
+    COLOR: number;
+    EMISSIVE: number;
+    TEXTURE?: MoonTextureStyle;
+  }
+> = {
+  io: {
+    RADIUS: IO_RADIUS,
     COLOR: 0xffff00, // Bright yellow
     EMISSIVE: 0x441100,
   },
+  europa: {
+    RADIUS: 0.43, // Radii relative to Io
+    COLOR: 0xffffff,
+    EMISSIVE: 0x111111,
+    TEXTURE: "europa",
+  },
+  ganymede: {
+    RADIUS: 0.72,
+    COLOR: 0xffffff,
+    EMISSIVE: 0x111111,
+    TEXTURE: "ganymede",
+  },
+  callisto: {
+    RADIUS: 0.66,
+    COLOR: 0xffffff,
+    EMISSIVE: 0x111111,
+    TEXTURE: "callisto",
+  },
+};
+
+// Orbit ring colors
+const ORBIT_COLORS: Record<MoonName, number> = {
+  io: 0xffff00,
+  europa: 0x99ccff,
+  ganymede: 0xccbbaa,
+  callisto: 0x998877,
+};
+
+// Text sprite that always faces the camera
+const createLabel = (text: string, color: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = 256;
+  canvas.height = 64;
+  const context = canvas.getContext("2d");
+  if (context) {
+    context.font = "bold 36px sans-serif";
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.fillStyle = `#${new THREE.Color(color).getHexString()}`;
+    context.fillText(text, 128, 32);
+  }
+  const material = new THREE.SpriteMaterial({
+    map: new THREE.CanvasTexture(canvas),
+    transparent: true,
+    depthWrite: false,
+  });
+  const label = new THREE.Sprite(material);
+  label.scale.set(4, 1, 1);
+  return label;
+};
+
+interface View {
+  camera: THREE.PerspectiveCamera;
+  controls: OrbitControls;
+}
+
+// Whole-run state in and out of whichever simulation is active
+interface StateTransfer {
+  snapshot: () => Promise<SimulationState>;
+  restore: (state: SimulationState) => void;
+}
+
+// Offline rendering of the canvas; see lib/capture
+interface Capture {
+  screenshot: (settings: CaptureSettings) => Promise<Blob>;
+  record: (
+    settings: RecordingSettings,
+    onFrame: (frame: number) => void
+  ) => Promise<{ blob: Blob; frames: number }>;
+  cancel: () => void;
+}
+
+// Synthetic telescope images; see lib/synthetic-observation
+interface Observatory {
+  observe: (settings: ObservationSettings) => ObservationImage;
+}
+
+// Camera moves that outlive a single frame: following a subject and playing
+// a tour
+interface CameraDirector {
+  shot: () => CameraShot;
+  goTo: (shot: CameraShot) => void;
+  follow: (follow: CameraFollow) => void;
+  play: (
+    path: CameraKeyframe[],
+    onKeyframe: (keyframe: CameraKeyframe | null) => void,
+    onEnd: () => void
+  ) => void;
+  stop: () => void;
+}
+
+// The particle picked for the inspector, released from the panel
+interface ParticlePicker {
+  release: () => void;
+}
+
+// Keyframes in playing order; the editor leaves them in the order typed
+const sortedPath = (keyframes: CameraKeyframe[]) =>
+  keyframes.slice().sort((a, b) => a.time - b.time);
+
+// Mirror the seed, parameters, real-date clock, preset scenarios and camera
+// pose into the URL hash so the current scene can be shared as a link
+const writeScenarioUrl = (simulation: SimulationSource, view?: View) => {
+  const hash = encodeScenario({
+    seed: simulation.seed,
+    params: simulation.params,
+    ephemeris: simulation.ephemerisClock ?? undefined,
+    eruptionScenario: simulation.eruptionScenario ?? undefined,
+    solarWind: simulation.solarWind ?? undefined,
+    camera: view && {
+      position: view.camera.position.toArray() as Triple,
+      target: view.controls.target.toArray() as Triple,
+    },
+  });
+  window.history.replaceState(null, "", `#${hash}`);
 };
 
 export default function Home() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const particleSystemRef = useRef<{
-    positions: Float32Array;
-    velocities: Float32Array;
-    colors: Float32Array;
-    geometry: THREE.BufferGeometry;
-    activeParticles: number;
-  }>({
-    positions: new Float32Array(MAX_PARTICLES * 3),
-    velocities: new Float32Array(MAX_PARTICLES * 3),
-    colors: new Float32Array(MAX_PARTICLES * 3),
-    geometry: new THREE.BufferGeometry(),
-    activeParticles: 0,
+  const simulationRef = useRef<SimulationSource | null>(null);
+  const viewRef = useRef<View | undefined>(undefined);
+  const stateTransferRef = useRef<StateTransfer | null>(null);
+  const captureRef = useRef<Capture | null>(null);
+  const observatoryRef = useRef<Observatory | null>(null);
+  const directorRef = useRef<CameraDirector | null>(null);
+  const pickerRef = useRef<ParticlePicker | null>(null);
+  const [seed, setSeed] = useState(0);
+  const [params, setParams] = useState<SimulationParams>({
+    ...DEFAULT_PARAMS,
   });
-  const eruption = useRef<{
-    isActive: boolean;
-    countdown: number;
-    cooldown: number;
-  }>({
-    isActive: false,
-    countdown: 0,
-    cooldown: 0,
+  const [ephemerisClock, setEphemerisClock] = useState<EphemerisClock | null>(
+    null
+  );
+  const [ephemeris, setEphemeris] = useState<JupiterEphemeris | null>(null);
+  const [speciesCounts, setSpeciesCounts] = useState<number[]>([]);
+  const [liveParticles, setLiveParticles] = useState(0);
+  const [unitsPerPixel, setUnitsPerPixel] = useState(0); // At the orbit target
+  const [cursor, setCursor] = useState<Vec3 | null>(null);
+  const [losses, setLosses] = useState<number[]>([]);
+  const [erupting, setErupting] = useState<boolean[]>([]);
+  const [eruptionScenario, setEruptionScenario] =
+    useState<EruptionScenario | null>(null);
+  const [simulationTime, setSimulationTime] = useState(0);
+  const activityRef = useRef(new ActivityTrace());
+  const [activity, setActivity] = useState<ActivitySamples>({
+    times: [],
+    live: [],
+    eruptions: [],
   });
+  const [timelineStatus, setTimelineStatus] = useState<string | null>(null);
+  const [solarWind, setSolarWind] = useState<SolarWindSeries | null>(null);
+  const [solarWindStatus, setSolarWindStatus] = useState<string | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const playback = useRef({ paused: false, speed: 1 });
+  const [gpuParticles, setGpuParticles] = useState(false);
+  const [gpuSupported, setGpuSupported] = useState(false);
+  const [particleStatus, setParticleStatus] = useState<string | null>(null);
+  const particleBackend = useRef({ gpu: false });
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  const [referenceProfile, setReferenceProfile] =
+    useState<ReferenceProfile | null>(null);
+  const overlays = useRef({ diagnostics: false });
+  const [referenceFrame, setReferenceFrame] =
+    useState<ReferenceFrameName>("inertial");
+  const referenceFrameRef = useRef<ReferenceFrameName>("inertial");
+  const recorderRef = useRef(new TimeSeriesRecorder());
+  const [recording, setRecording] = useState(false);
+  const [recorded, setRecorded] = useState({ samples: 0, eruptions: 0 });
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const recordingRef = useRef(false);
+  const [capturing, setCapturing] = useState(false);
+  const [captureStatus, setCaptureStatus] = useState<string | null>(null);
+  const [observing, setObserving] = useState(false);
+  const [observationSupported, setObservationSupported] = useState(false);
+  const [observationStatus, setObservationStatus] = useState<string | null>(
+    null
+  );
+  const [observationPreview, setObservationPreview] = useState<string | null>(
+    null
+  );
+  const [follow, setFollow] = useState<CameraFollow>({ type: "none" });
+  const [fov, setFov] = useState(DEFAULT_FOV);
+  const [tour, setTour] = useState<Tour>(GUIDED_TOUR);
+  const [playingTour, setPlayingTour] = useState(false);
+  const [narration, setNarration] = useState<CameraKeyframe | null>(null);
+  const [cameraStatus, setCameraStatus] = useState<string | null>(null);
+  const [inspecting, setInspecting] = useState(false);
+  const [inspected, setInspected] = useState<ParticleDetails | null>(null);
+  const [inspectorStatus, setInspectorStatus] = useState<string | null>(null);
+
+  const updateParams = (changes: Partial<SimulationParams>) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    simulation.setParams(changes);
+    setParams({ ...simulation.params });
+    writeScenarioUrl(simulation, viewRef.current);
+  };
+
+  const resetParams = () => updateParams(DEFAULT_PARAMS);
+
+  const restart = (newSeed: number) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    simulation.reset(newSeed);
+    setSeed(simulation.seed);
+    writeScenarioUrl(simulation, viewRef.current);
+  };
+
+  const changeEphemerisClock = (clock: EphemerisClock | null) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    simulation.setEphemerisClock(clock);
+    setEphemerisClock(clock);
+    setEphemeris(copyEphemeris(simulation.ephemeris));
+    writeScenarioUrl(simulation, viewRef.current);
+  };
+
+  // A scenario plays from the start of the run, so choosing one restarts it
+  const changeEruptionScenario = (scenario: EruptionScenario | null) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    simulation.setEruptionScenario(scenario);
+    setEruptionScenario(scenario);
+    if (scenario) {
+      restart(simulation.seed);
+      setTimelineStatus(`Playing ${scenario.name} from t = 0`);
+    } else {
+      setTimelineStatus(null);
+      writeScenarioUrl(simulation, viewRef.current);
+    }
+  };
+
+  const loadEruptionScenario = async (file: File) => {
+    try {
+      changeEruptionScenario(
+        parseEruptionScenario(JSON.parse(await file.text()))
+      );
+    } catch (error) {
+      setTimelineStatus(
+        `Could not load ${file.name}: ${(error as Error).message}`
+      );
+    }
+  };
+
+  // Random runs save the first preset, as a template to edit
+  const saveEruptionScenario = () => {
+    const scenario = eruptionScenario ?? ERUPTION_SCENARIOS[0];
+    downloadBlob(
+      new Blob([JSON.stringify(scenario, null, 2)], {
+        type: "application/json",
+      }),
+      `${scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`
+    );
+  };
+
+  // Like an eruption scenario, a series plays from the start of the run
+  const changeSolarWind = (series: SolarWindSeries | null) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    simulation.setSolarWind(series);
+    setSolarWind(series);
+    if (series) {
+      restart(simulation.seed);
+      setSolarWindStatus(
+        simulation.params.magnetopause
+          ? `Playing ${series.name} from t = 0`
+          : `Playing ${series.name} from t = 0; turn on the magnetopause to see it`
+      );
+    } else {
+      setSolarWindStatus(null);
+      writeScenarioUrl(simulation, viewRef.current);
+    }
+  };
+
+  const loadSolarWind = async (file: File) => {
+    try {
+      changeSolarWind(parseSolarWindSeries(JSON.parse(await file.text())));
+    } catch (error) {
+      setSolarWindStatus(
+        `Could not load ${file.name}: ${(error as Error).message}`
+      );
+    }
+  };
+
+  // A steady wind saves the first preset, as a template to edit
+  const saveSolarWind = () => {
+    const series = solarWind ?? SOLAR_WIND_PRESETS[0];
+    downloadBlob(
+      new Blob([JSON.stringify(series, null, 2)], {
+        type: "application/json",
+      }),
+      `${series.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`
+    );
+  };
+
+  const copyLink = () => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    writeScenarioUrl(simulation, viewRef.current);
+    navigator.clipboard?.writeText(window.location.href);
+  };
+
+  const togglePause = () => {
+    playback.current.paused = !playback.current.paused;
+    setPaused(playback.current.paused);
+  };
+
+  const changeSpeed = (value: number) => {
+    playback.current.speed = value;
+    setSpeed(value);
+  };
+
+  const changeShowDiagnostics = (show: boolean) => {
+    overlays.current.diagnostics = show;
+    setShowDiagnostics(show);
+    if (!show) setDiagnostics(null);
+  };
+
+  // The animation loop swings the view over to the new frame
+  const changeReferenceFrame = (frame: ReferenceFrameName) => {
+    referenceFrameRef.current = frame;
+    setReferenceFrame(frame);
+  };
+
+  const saveSnapshot = async (format: ExportFormat) => {
+    const transfer = stateTransferRef.current;
+    if (!transfer) return;
+    const state = await transfer.snapshot();
+    downloadBlob(
+      exportSnapshot(state, format),
+      `io-torus-snapshot-${Math.round(state.time)}s.${format}`
+    );
+  };
+
+  const importSnapshot = async (file: File) => {
+    const simulation = simulationRef.current;
+    const transfer = stateTransferRef.current;
+    if (!simulation || !transfer) return;
+    try {
+      const state = parseSnapshot(await file.arrayBuffer());
+      transfer.restore(state);
+      setParams({ ...state.params });
+      setSeed(state.seed);
+      setEphemerisClock(state.ephemerisClock);
+      setEphemeris(null);
+      setEruptionScenario(state.eruptionScenario);
+      setSolarWind(state.solarWind);
+      writeScenarioUrl(simulation, viewRef.current);
+      setExportStatus(
+        `Restored ${file.name} at t = ${state.time.toFixed(1)} s`
+      );
+    } catch (error) {
+      setExportStatus(
+        `Could not import ${file.name}: ${(error as Error).message}`
+      );
+    }
+  };
+
+  const changeRecording = (enabled: boolean) => {
+    recordingRef.current = enabled;
+    setRecording(enabled);
+  };
+
+  const saveTimeSeries = (format: ExportFormat) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    downloadBlob(
+      exportTimeSeries(
+        recorderRef.current,
+        simulation.params.maxDistance,
+        format
+      ),
+      `io-torus-time-series.${format}`
+    );
+  };
+
+  const clearTimeSeries = () => {
+    recorderRef.current.clear();
+    setRecorded({ samples: 0, eruptions: 0 });
+  };
+
+  const takeScreenshot = async (settings: CaptureSettings) => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    downloadBlob(
+      await capture.screenshot(settings),
+      `io-torus-${settings.width}x${settings.height}.png`
+    );
+  };
+
+  const recordFrames = async (settings: RecordingSettings) => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    setCapturing(true);
+    setCaptureStatus(`Frame 0 / ${settings.frames}`);
+    try {
+      const { blob, frames } = await capture.record(settings, (frame) =>
+        setCaptureStatus(`Frame ${frame} / ${settings.frames}`)
+      );
+      const extension = settings.format === "webm" ? "webm" : "zip";
+      downloadBlob(
+        blob,
+        `io-torus-${settings.width}x${settings.height}.${extension}`
+      );
+      setCaptureStatus(`Saved ${frames} frames`);
+    } catch (error) {
+      setCaptureStatus(`Capture failed: ${(error as Error).message}`);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const takeObservation = async (settings: ObservationSettings) => {
+    const observatory = observatoryRef.current;
+    if (!observatory) return;
+    setObserving(true);
+    setObservationStatus("Observing…");
+    try {
+      const image = observatory.observe(settings);
+      const name = `io-torus-${settings.line}-${settings.observer}`;
+      downloadBlob(
+        settings.format === "fits"
+          ? new Blob([observationToFits(image)], {
+              type: "application/fits",
+            })
+          : await observationToPng(image, name),
+        `${name}.${settings.format === "fits" ? "fits" : "zip"}`
+      );
+      const preview = URL.createObjectURL(
+        await canvasToPng(observationCanvas(image).canvas)
+      );
+      setObservationPreview((previous) => {
+        if (previous) URL.revokeObjectURL(previous);
+        return preview;
+      });
+      setObservationStatus(
+        `Saved ${image.width} × ${image.height}, Jupiter ${image.wcs.jupiterRadius.toFixed(1)}″ in radius`
+      );
+    } catch (error) {
+      setObservationStatus(`Observation failed: ${(error as Error).message}`);
+    } finally {
+      setObserving(false);
+    }
+  };
+
+  // The info panel section the tour's narration is about stands out
+  const sectionClass = (section: InfoSection) =>
+    `space-y-2 rounded transition-shadow ${
+      narration?.section === section ? "ring-2 ring-yellow-300 p-2 -m-2" : ""
+    }`;
+
+  const stopTour = () => {
+    directorRef.current?.stop();
+    setPlayingTour(false);
+    setNarration(null);
+  };
+
+  const changeFollow = (changed: CameraFollow) => {
+    directorRef.current?.follow(changed);
+    setFollow(changed);
+  };
+
+  const goTo = (shot: CameraShot) => {
+    const director = directorRef.current;
+    if (!director) return;
+    stopTour();
+    director.goTo(shot);
+    setFov(shot.fov);
+  };
+
+  const applyPreset = (name: CameraPresetName) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    const preset = cameraPreset(name, simulation);
+    goTo(preset.shot);
+    changeFollow(preset.follow);
+  };
+
+  const changeFov = (value: number) => {
+    const director = directorRef.current;
+    if (director) goTo({ ...director.shot(), fov: value });
+  };
+
+  const playTour = () => {
+    const director = directorRef.current;
+    if (!director || tour.keyframes.length === 0) return;
+    changeFollow({ type: "none" });
+    setPlayingTour(true);
+    director.play(sortedPath(tour.keyframes), setNarration, () => {
+      setPlayingTour(false);
+      setNarration(null);
+      setFov(director.shot().fov);
+    });
+  };
+
+  const followInspected = () => {
+    if (inspected) changeFollow({ type: "particle", index: inspected.index });
+  };
+
+  // Keep the current radial profile, labelled with the torus model that
+  // made it, to compare against after switching models
+  const holdReferenceProfile = () => {
+    if (!diagnostics) return;
+    setReferenceProfile({
+      label: TORUS_MODELS.find(({ name }) => name === params.torusModel)!.label,
+      frame: referenceFrame,
+      maxDistance: diagnostics.maxDistance,
+      radial: diagnostics.radial.slice(),
+    });
+  };
+
+  // The animation loop moves the particles between CPU and GPU
+  const changeGpuParticles = (enabled: boolean) => {
+    particleBackend.current.gpu = enabled;
+    setGpuParticles(enabled);
+    setParticleStatus(null);
+  };
 
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -64,33 +714,44 @@ export default function Home() {
     // Scene setup
     const scene = new THREE.Scene();
     scene.background = new THREE.Color(0x000000);
+    // Everything the simulation places goes in here, which is posed as the
+    // inverse of the chosen reference frame; the camera stays outside
+    const frameGroup = new THREE.Group();
+    scene.add(frameGroup);
     const camera = new THREE.PerspectiveCamera(
       75,
       window.innerWidth / window.innerHeight,
       0.1,
-      1000
+      4000 // The magnetopause's flanks at true scale
     );
     const renderer = new THREE.WebGLRenderer({
       canvas: canvasRef.current,
       antialias: true,
+      alpha: true, // Transparent captures; the scene background is opaque
     });
     renderer.setSize(window.innerWidth, window.innerHeight);
+    setGpuSupported(GpuParticleSystem.isSupported(renderer));
+    setObservationSupported(canObserve(renderer));
 
     // Texture loader
     const textureLoader = new THREE.TextureLoader();
 
     // Jupiter with texture
-    const jupiterGeometry = new THREE.SphereGeometry(5, 64, 64);
+    const jupiterGeometry = new THREE.SphereGeometry(JUPITER_RADIUS, 64, 64);
     const jupiterTexture = textureLoader.load("/jupiter_texture.jpg");
     jupiterTexture.wrapS = jupiterTexture.wrapT = THREE.RepeatWrapping;
+    // Io's auroral footprints glow through an emissive layer
+    const aurora = new AuroralFootprints();
     const jupiterMaterial = new THREE.MeshPhongMaterial({
       map: jupiterTexture,
       bumpScale: 0.05,
       specular: new THREE.Color(0x222222),
       shininess: 5,
+      emissive: new THREE.Color(0xffffff),
+      emissiveMap: aurora.texture,
     });
     const jupiter = new THREE.Mesh(jupiterGeometry, jupiterMaterial);
-    scene.add(jupiter);
+    frameGroup.add(jupiter);
 
     // Magnetic field axis visualization
     const magneticAxisGeometry = new THREE.CylinderGeometry(0.1, 0.1, 15, 8);
@@ -103,50 +764,86 @@ export default function Home() {
       magneticAxisGeometry,
       magneticAxisMaterial
     );
-    magneticAxis.rotation.x = MAGNETIC_TILT;
     jupiter.add(magneticAxis);
 
     // Create moons and their orbits
-    const createMoon = (params: typeof MOONS.IO, name: string) => {
+    const createMoon = (orbit: MoonOrbit) => {
+      const params = MOONS[orbit.name];
       const moonGeometry = new THREE.SphereGeometry(params.RADIUS, 32, 32);
       const moonMaterial = new THREE.MeshPhongMaterial({
         color: params.COLOR,
         emissive: params.EMISSIVE,
+        map: params.TEXTURE ? createMoonTexture(params.TEXTURE) : null,
         shininess: 20,
         specular: new THREE.Color(0x333333),
       });
       const moon = new THREE.Mesh(moonGeometry, moonMaterial);
-      scene.add(moon);
+      frameGroup.add(moon);
 
-      // Enhanced orbit line
-      const orbitGeometry = new THREE.RingGeometry(
-        params.ORBIT_RADIUS,
-        params.ORBIT_RADIUS + 0.2, // Slightly thicker orbit line
-        128
-      );
+      const label = createLabel(orbit.label, ORBIT_COLORS[orbit.name]);
+      label.position.y = params.RADIUS + 0.8;
+      moon.add(label);
+
+      // Enhanced orbit line, sized by placeOrbits
+      const orbitGeometry = new THREE.BufferGeometry();
       const orbitMaterial = new THREE.MeshBasicMaterial({
-        color: params.COLOR,
+        color: ORBIT_COLORS[orbit.name],
         side: THREE.DoubleSide,
         transparent: true,
         opacity: 0.3, // Slightly more visible
       });
       const orbitLine = new THREE.Mesh(orbitGeometry, orbitMaterial);
       orbitLine.rotation.x = Math.PI / 2;
-      scene.add(orbitLine);
+      frameGroup.add(orbitLine);
 
-      return { moon, orbitLine, name };
+      return { moon, orbitLine, orbit, name: orbit.name };
     };
 
     // Create all moons
-    const io = createMoon(MOONS.IO, "Io");
+    const moons = MOON_ORBITS.map(createMoon);
+
+    // Size the orbit lines for a scene scale
+    let orbitLineScale = "";
+    const placeOrbits = () => {
+      orbitLineScale = simulation.params.sceneScale;
+      moons.forEach(({ orbitLine, orbit }) => {
+        const radius = orbitRadius(orbit, simulation.params.sceneScale);
+        orbitLine.geometry.dispose();
+        orbitLine.geometry = new THREE.RingGeometry(
+          radius,
+          radius + 0.2, // Slightly thicker orbit line
+          128
+        );
+      });
+    };
+
+    // Hotspot markers on Io's surface, in its synchronously rotating frame;
+    // erupting ones glow
+    const io = moons.find(({ name }) => name === "io")!.moon;
+    const volcanoMarkerGeometry = new THREE.SphereGeometry(0.05, 8, 8);
+    const volcanoMarkers = IO_VOLCANOES.map((volcano) => {
+      const marker = new THREE.Mesh(
+        volcanoMarkerGeometry,
+        new THREE.MeshBasicMaterial({ color: 0x663300 })
+      );
+      marker.position
+        .fromArray(volcanoNormal(volcano, [0, 0, 0]))
+        .multiplyScalar(IO_RADIUS);
+      io.add(marker);
+      return marker;
+    });
 
     // Lighting
     const ambientLight = new THREE.AmbientLight(0x404040, 1.0);
-    scene.add(ambientLight);
+    frameGroup.add(ambientLight);
 
     const mainLight = new THREE.PointLight(0xffffff, 2.0);
-    mainLight.position.set(50, 20, 50);
-    scene.add(mainLight);
+    mainLight.position.fromArray(SUN_POSITION);
+    frameGroup.add(mainLight);
+
+    // Magnetopause and bow shock, facing the light; see updateScene
+    const magnetosphere = new MagnetosphereSurfaces();
+    frameGroup.add(magnetosphere.object);
 
     // Camera position
     camera.position.z = 40;
@@ -156,66 +853,164 @@ export default function Home() {
     const controls = new OrbitControls(camera, renderer.domElement);
     controls.enableDamping = true;
     controls.dampingFactor = 0.05;
-    controls.minDistance = 20;
-    controls.maxDistance = 80;
-
-    // Calculate magnetic field vector at a point
-    const getMagneticFieldVector = (
-      position: THREE.Vector3,
-      jupiterRotation: number
-    ): THREE.Vector3 => {
-      // Transform position to magnetic field coordinates
-      const magneticPos = position.clone();
-      magneticPos.applyAxisAngle(new THREE.Vector3(1, 0, 0), MAGNETIC_TILT);
-      magneticPos.applyAxisAngle(new THREE.Vector3(0, 1, 0), jupiterRotation);
+    // Close enough to fill the view with Io, far enough for the Earth view
+    // and the whole magnetosphere
+    controls.minDistance = IO_RADIUS * 2;
+    controls.maxDistance = 1000;
+    const view = { camera, controls };
+    viewRef.current = view;
 
-      // Calculate dipole field
-      const r = magneticPos.length();
-      const r2 = r * r;
-      const r5 = r2 * r2 * r;
-
-      // B = (3(m·r)r - mr²)/r⁵
-      const m = new THREE.Vector3(0, 1, 0); // Magnetic moment along y-axis
-      const mDotR = m.dot(magneticPos);
+    // Particle System Setup
+    const particleGeometry = new THREE.BufferGeometry();
+    // The CPU path steps in a worker where shared memory is available; the
+    // GPU path (and the fallback) steps `local` on this thread
+    const local = new PlasmaTorusSimulation();
+    const worker = SimulationWorkerClient.isSupported()
+      ? new SimulationWorkerClient(local.snapshot())
+      : null;
+    let simulation: SimulationSource = worker ?? local;
+    simulationRef.current = simulation;
+    // The particle picked for the inspector, pinned so that emission passes
+    // over its slot; see updateSelection
+    let selected: { index: number; generation: number } | null = null;
+    const switchSource = (source: SimulationSource) => {
+      // The pin belongs to the viewer, so it moves to the new source
+      if (selected) {
+        simulation.setPinned(selected.index, false);
+        source.setPinned(selected.index, true);
+      }
+      simulation = source;
+      simulationRef.current = source;
+    };
+    stateTransferRef.current = {
+      snapshot: () =>
+        simulation === worker
+          ? worker.snapshot()
+          : Promise.resolve(local.snapshot()),
+      restore: (state) => {
+        if (simulation === worker) {
+          worker.load(state);
+        } else {
+          local.restore(state);
+        }
+      },
+    };
 
-      const field = new THREE.Vector3();
-      field.copy(magneticPos).multiplyScalar(3 * mDotR);
-      field.sub(m.multiplyScalar(r2));
-      field.divideScalar(r5);
+    // Restore a shared scenario from the URL hash
+    let lastHash = "";
+    const applyScenario = () => {
+      const scenario = decodeScenario(window.location.hash);
+      simulation.setParams({ ...DEFAULT_PARAMS, ...scenario.params });
+      simulation.setEphemerisClock(scenario.ephemeris ?? null);
+      simulation.setEruptionScenario(scenario.eruptionScenario ?? null);
+      simulation.setSolarWind(scenario.solarWind ?? null);
+      simulation.reset(scenario.seed ?? randomSeed());
+      if (scenario.camera) {
+        camera.position.fromArray(scenario.camera.position);
+        controls.target.fromArray(scenario.camera.target);
+        controls.update();
+      }
+      setParams({ ...simulation.params });
+      setSeed(simulation.seed);
+      setEphemerisClock(simulation.ephemerisClock);
+      setEphemeris(copyEphemeris(simulation.ephemeris));
+      setEruptionScenario(simulation.eruptionScenario);
+      setSolarWind(simulation.solarWind);
+      writeScenarioUrl(simulation, view);
+      lastHash = window.location.hash;
+    };
 
-      // Transform back to world coordinates
-      field.applyAxisAngle(new THREE.Vector3(0, 1, 0), -jupiterRotation);
-      field.applyAxisAngle(new THREE.Vector3(1, 0, 0), -MAGNETIC_TILT);
+    applyScenario();
 
-      return field.multiplyScalar(MAGNETIC_FIELD_STRENGTH);
+    const handleHashChange = () => {
+      if (window.location.hash !== lastHash) applyScenario();
+    };
+    const handleCameraEnd = () => {
+      writeScenarioUrl(simulation, view);
+      lastHash = window.location.hash;
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    controls.addEventListener("end", handleCameraEnd);
+
+    // GPU-resident particles, when enabled; see updateParticleBackend
+    let gpu: GpuParticleSystem | null = null;
+
+    // Refresh the real-date readout, species legend and particle budget a
+    // few times a second
+    const ephemerisInterval = window.setInterval(() => {
+      setEphemeris(copyEphemeris(simulation.ephemeris));
+      if (selected) setInspected(inspectParticle(simulation, selected.index));
+      setSpeciesCounts(gpu ? gpu.speciesCounts() : simulation.speciesCounts());
+      setLiveParticles(simulation.liveParticles);
+      setLosses(simulation.losses.slice());
+      setErupting(simulation.volcanoes.map(({ isActive }) => isActive));
+      const trace = activityRef.current;
+      trace.record(simulation);
+      setSimulationTime(simulation.time);
+      setActivity({
+        times: trace.times.slice(),
+        live: trace.live.slice(),
+        eruptions: trace.eruptions.slice(),
+      });
+    }, 250);
+
+    // Bin the particles for the diagnostics overlay while it is open. GPU
+    // particles are read back first, so this runs less often
+    const viewProjection = new THREE.Matrix4();
+    const diagnosticsFrame = createFramePose();
+    const diagnosticsInterval = window.setInterval(() => {
+      if (!overlays.current.diagnostics) return;
+      gpu?.sync();
+      viewProjection.multiplyMatrices(
+        camera.projectionMatrix,
+        camera.matrixWorldInverse
+      );
+      setDiagnostics(
+        computeDiagnostics(
+          simulation,
+          framePose(referenceFrameRef.current, simulation, diagnosticsFrame),
+          simulation.params.maxDistance,
+          viewProjection.elements
+        )
+      );
+    }, 500);
+
+    // Plasma density around Io, which sets how bright its flux tube glows
+    const densityInterval = window.setInterval(() => {
+      gpu?.sync();
+      ioDensity = relativeIonDensity(
+        simulation,
+        simulation.ioPosition,
+        simulation.params.torusRadius
+      );
+    }, 500);
+
+    // Sample the time series while recording
+    const recordingInterval = window.setInterval(() => {
+      if (!recordingRef.current) return;
+      const recorder = recorderRef.current;
+      gpu?.sync();
+      recorder.record(simulation);
+      setRecorded({
+        samples: recorder.samples.length,
+        eruptions: recorder.eruptions.length,
+      });
+    }, 500);
+
+    // (Re)bind the simulation buffers, which are reallocated when the
+    // particle limit changes
+    const bindParticleBuffers = () => {
+      particleGeometry.setAttribute(
+        "position",
+        new THREE.BufferAttribute(simulation.positions, 3)
+      );
+      particleGeometry.setAttribute(
+        "color",
+        new THREE.BufferAttribute(simulation.colors, 3)
+      );
     };
 
-    // Particle System Setup
-    const particleGeometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(MAX_PARTICLES * 3);
-    const colors = new Float32Array(MAX_PARTICLES * 3);
-    const velocities = new Float32Array(MAX_PARTICLES * 3);
-
-    // Initialize all particles
-    for (let i = 0; i < MAX_PARTICLES; i++) {
-      const i3 = i * 3;
-      positions[i3] = 0;
-      positions[i3 + 1] = 0;
-      positions[i3 + 2] = 0;
-
-      colors[i3] = 1.0; // Red
-      colors[i3 + 1] = 0.5; // Green
-      colors[i3 + 2] = 0.2; // Blue
-    }
-
-    particleGeometry.setAttribute(
-      "position",
-      new THREE.BufferAttribute(positions, 3)
-    );
-    particleGeometry.setAttribute(
-      "color",
-      new THREE.BufferAttribute(colors, 3)
-    );
+    bindParticleBuffers();
 
     const particleMaterial = new THREE.PointsMaterial({
       size: 0.2,
@@ -226,339 +1021,669 @@ export default function Home() {
     });
 
     const particles = new THREE.Points(particleGeometry, particleMaterial);
-    scene.add(particles);
+    frameGroup.add(particles);
+
+    const detachGpu = () => {
+      if (!gpu) return;
+      frameGroup.remove(gpu.points);
+      gpu.dispose();
+      local.particleIntegrator = null;
+      gpu = null;
+    };
+
+    // Hand the particles to the GPU or back to the CPU as requested. The GPU
+    // system is sized to the particle limit, so it is rebuilt when the limit
+    // changes (the simulation syncs its state back before reallocating). The
+    // GPU needs the run on this thread, so it is taken back from the worker
+    // first and returned afterwards
+    let handingOver = false;
+    const updateParticleBackend = () => {
+      if (handingOver) return;
+      if (!particleBackend.current.gpu) {
+        if (gpu) {
+          gpu.sync();
+          detachGpu();
+          particles.visible = true;
+          if (worker) {
+            worker.load(local.snapshot());
+            switchSource(worker);
+          }
+        }
+        return;
+      }
+      if (simulation === worker) {
+        handingOver = true;
+        worker.pause();
+        worker
+          .snapshot()
+          .then((state) => {
+            local.restore(state);
+            switchSource(local);
+          })
+          .catch((error: Error) => {
+            // Stay on the worker, which the animation loop resumes, rather
+            // than retrying the handover every frame
+            particleBackend.current.gpu = false;
+            setGpuParticles(false);
+            setParticleStatus(`Could not move to the GPU: ${error.message}`);
+            if (!playback.current.paused) {
+              worker.start(playback.current.speed);
+            }
+          })
+          .finally(() => {
+            handingOver = false;
+          });
+        return;
+      }
+      if (gpu?.capacity === local.maxParticles) return;
 
-    // Store particle system reference
-    particleSystemRef.current = {
-      positions,
-      velocities,
-      colors,
-      geometry: particleGeometry,
-      activeParticles: 0,
+      detachGpu();
+      gpu = new GpuParticleSystem(renderer, local);
+      local.particleIntegrator = gpu;
+      frameGroup.add(gpu.points);
+      particles.visible = false;
     };
 
-    // Create magnetic field lines
+    // Magnetic field lines traced through the simulation's field model. They
+    // live in Jupiter's body frame, so they rotate with the planet
+    const fieldLineMaterial = new THREE.LineBasicMaterial({
+      color: 0x4444ff,
+      transparent: true,
+      opacity: 0.3,
+    });
+    const footprintMaterial = new THREE.LineBasicMaterial({
+      color: 0xffdd33,
+      transparent: true,
+      opacity: 0.6,
+    });
     const fieldLines: THREE.Line[] = [];
+    const fieldLineStart: Vec3 = [0, 0, 0];
+    let fieldLineKey = "";
     const createFieldLines = () => {
+      const model = simulation.params;
+      fieldLineKey = fieldModelKey(model);
+
+      // Orient the axis marker along the model's dipole
+      const axis = dipoleAxis(model, [0, 0, 0]);
+      magneticAxis.quaternion.setFromUnitVectors(
+        new THREE.Vector3(0, 1, 0),
+        new THREE.Vector3().fromArray(axis)
+      );
+      magneticAxis.position
+        .fromArray(dipoleCentre(model, [0, 0, 0]))
+        .multiplyScalar(JUPITER_RADIUS);
+
       // Clear existing field lines
-      fieldLines.forEach((line) => scene.remove(line));
+      fieldLines.forEach((line) => {
+        jupiter.remove(line);
+        line.geometry.dispose();
+      });
       fieldLines.length = 0;
 
-      // Create new field lines
-      for (let i = 0; i < NUM_FIELD_LINES; i++) {
-        const angle = (i / NUM_FIELD_LINES) * Math.PI * 2;
-        const startRadius = 1.0; // Start from near Jupiter's surface
-
-        // Create points for the field line
-        const points: THREE.Vector3[] = [];
-        for (let j = 0; j < FIELD_LINE_POINTS; j++) {
-          const t = j / (FIELD_LINE_POINTS - 1);
-          const radius = startRadius + t * FIELD_LINE_LENGTH;
-
-          // Parametric equations for magnetic field line
-          const theta = angle;
-          const phi =
-            Math.PI / 2 - (Math.PI - MAGNETIC_TILT) * Math.cos(t * Math.PI);
-
-          const x = radius * Math.sin(phi) * Math.cos(theta);
-          const y = radius * Math.cos(phi);
-          const z = radius * Math.sin(phi) * Math.sin(theta);
-
-          points.push(new THREE.Vector3(x, y, z));
+      // Lines through the equator at each shell and longitude
+      FIELD_LINE_SHELLS.forEach((shell) => {
+        for (let i = 0; i < FIELD_LINE_LONGITUDES; i++) {
+          const longitude = (i / FIELD_LINE_LONGITUDES) * Math.PI * 2;
+          sphericalToBody(shell, Math.PI / 2, longitude, fieldLineStart);
+          const { points } = traceFieldLine(fieldLineStart, model);
+          fieldLines.push(
+            new THREE.Line(
+              bodyGeometry(points, JUPITER_RADIUS),
+              fieldLineMaterial
+            )
+          );
         }
+      });
 
-        // Create the line geometry
-        const geometry = new THREE.BufferGeometry().setFromPoints(points);
-        const material = new THREE.LineBasicMaterial({
-          color: 0x4444ff,
-          transparent: true,
-          opacity: 0.3,
-        });
-        const line = new THREE.Line(geometry, material);
-
-        // Create the mirrored line (opposite pole)
-        const mirroredPoints = points.map(
-          (p) => new THREE.Vector3(p.x, -p.y, p.z)
+      // Io's footprint ovals: where the field lines through Io's orbit, at
+      // every System III longitude, meet the surface
+      const ovals: Record<"north" | "south", number[]> = {
+        north: [],
+        south: [],
+      };
+      for (let i = 0; i < FOOTPRINT_OVAL_POINTS; i++) {
+        const longitude = (i / FOOTPRINT_OVAL_POINTS) * Math.PI * 2;
+        sphericalToBody(
+          ioLShell(model.sceneScale),
+          Math.PI / 2,
+          longitude,
+          fieldLineStart
         );
-        const mirroredGeometry = new THREE.BufferGeometry().setFromPoints(
-          mirroredPoints
+        traceFieldLine(fieldLineStart, model).footprints.forEach((footprint) =>
+          ovals[footprint[1] > 0 ? "north" : "south"].push(...footprint)
         );
-        const mirroredLine = new THREE.Line(mirroredGeometry, material);
+      }
+      fieldLines.push(
+        new THREE.LineLoop(
+          bodyGeometry(ovals.north, JUPITER_RADIUS * 1.005),
+          footprintMaterial
+        ),
+        new THREE.LineLoop(
+          bodyGeometry(ovals.south, JUPITER_RADIUS * 1.005),
+          footprintMaterial
+        )
+      );
+
+      fieldLines.forEach((line) => jupiter.add(line));
+    };
 
-        fieldLines.push(line, mirroredLine);
-        scene.add(line, mirroredLine);
+    // Io's flux tube and its footprints, retraced every frame as Io and
+    // Jupiter move. Both glow brighter the denser the plasma around Io
+    const fluxTube = new FluxTube();
+    jupiter.add(fluxTube.object);
+    let ioDensity = 0;
+    let auroraTime = -Infinity;
+
+    const ioBodyPosition: Vec3 = [0, 0, 0];
+    const updateFluxTube = () => {
+      const [x, y, z] = simulation.ioPosition;
+      worldToBody(x, y, z, simulation.jupiterRotation, ioBodyPosition);
+      const { points, footprints } = traceFieldLine(
+        ioBodyPosition,
+        simulation.params,
+        ioLShell(simulation.params.sceneScale) * 2
+      );
+      const intensity = auroraIntensity(ioDensity);
+      fluxTube.update(points, JUPITER_RADIUS);
+      fluxTube.intensity = intensity;
+
+      // The footprint tails only grow while time runs; a run that went back
+      // in time was reset or replaced
+      if (simulation.time < auroraTime) aurora.clear();
+      if (simulation.time !== auroraTime) {
+        aurora.update(footprints, intensity);
+        auroraTime = simulation.time;
       }
     };
 
     createFieldLines();
 
-    // Animation
-    let angle = 0;
-    const animate = () => {
-      requestAnimationFrame(animate);
-
-      // Rotate Jupiter and magnetic field
-      jupiter.rotation.y += JUPITER_ROTATION_SPEED;
-
-      // Update field lines
-      fieldLines.forEach((line) => {
-        line.rotation.y = jupiter.rotation.y;
-      });
-
-      // Update Io position
-      io.moon.position.x =
-        MOONS.IO.ORBIT_RADIUS * Math.cos(angle * MOONS.IO.ORBIT_SPEED);
-      io.moon.position.z =
-        MOONS.IO.ORBIT_RADIUS * Math.sin(angle * MOONS.IO.ORBIT_SPEED);
-
-      angle += 1;
-
-      // Update particle system to use new io.moon reference
-      if (particleSystemRef.current) {
-        const { positions, velocities, colors, geometry, activeParticles } =
-          particleSystemRef.current;
-
-        // Emit new particles from Io
-        // Update eruption state
-        if (eruption.current.isActive) {
-          // During active eruption
-          eruption.current.countdown--;
-          if (eruption.current.countdown <= 0) {
-            // End eruption and start cooldown
-            eruption.current.isActive = false;
-            eruption.current.cooldown = ERUPTION_COOLDOWN;
-          }
+    // Pose the frame group as the inverse of the reference frame, easing
+    // from the previous frame to the new one. Both frames move with the
+    // simulation, so the blend is recomputed every frame
+    let frameFrom: ReferenceFrameName = "inertial";
+    let frameTo: ReferenceFrameName = "inertial";
+    let frameSwitched = -Infinity;
+    let frameYaw = 0;
+    let frameSettled = true; // Not swinging between frames
+    const poseFrom = createFramePose();
+    const poseTo = createFramePose();
+    const rotationFrom = new THREE.Quaternion();
+    const rotationTo = new THREE.Quaternion();
+    const originFrom = new THREE.Vector3();
+    const originTo = new THREE.Vector3();
+    const updateFrame = () => {
+      if (referenceFrameRef.current !== frameTo) {
+        frameFrom = frameTo;
+        frameTo = referenceFrameRef.current;
+        frameSwitched = performance.now();
+      }
+      framePose(frameTo, simulation, poseTo);
+      rotationTo.fromArray(poseTo.rotation);
+      originTo.fromArray(poseTo.origin);
+      frameYaw = poseTo.yaw;
+
+      const progress = Math.min(
+        (performance.now() - frameSwitched) / 1000 / FRAME_TRANSITION,
+        1
+      );
+      frameSettled = progress >= 1;
+      if (!frameSettled) {
+        const blend = progress * progress * (3 - 2 * progress);
+        framePose(frameFrom, simulation, poseFrom);
+        rotationTo.copy(
+          rotationFrom.fromArray(poseFrom.rotation).slerp(rotationTo, blend)
+        );
+        originTo.copy(
+          originFrom.fromArray(poseFrom.origin).lerp(originTo, blend)
+        );
+        // Turn the short way round
+        const turn =
+          ((((poseTo.yaw - poseFrom.yaw + Math.PI) % (2 * Math.PI)) +
+            2 * Math.PI) %
+            (2 * Math.PI)) -
+          Math.PI;
+        frameYaw = poseFrom.yaw + turn * blend;
+      }
 
-          // Emit multiple particles per frame during eruption
-          for (let e = 0; e < PARTICLES_PER_FRAME_DURING_ERUPTION; e++) {
-            if (Math.random() < 0.8) {
-              // 80% chance per particle during eruption
-              let particleIndex;
-              if (activeParticles < MAX_PARTICLES) {
-                particleIndex = activeParticles;
-                particleSystemRef.current.activeParticles++;
-              } else {
-                particleIndex = Math.floor(Math.random() * MAX_PARTICLES);
-              }
-
-              const i3 = particleIndex * 3;
-
-              // More energetic emission during eruption
-              const eruptionOffset = 1.2; // Larger spread during eruption
-              positions[i3] =
-                io.moon.position.x + (Math.random() - 0.5) * eruptionOffset;
-              positions[i3 + 1] =
-                io.moon.position.y + (Math.random() - 0.5) * eruptionOffset;
-              positions[i3 + 2] =
-                io.moon.position.z + (Math.random() - 0.5) * eruptionOffset;
-
-              // Higher initial velocity during eruption
-              const radialDir = new THREE.Vector3(
-                positions[i3],
-                positions[i3 + 1],
-                positions[i3 + 2]
-              );
-              radialDir.normalize();
+      frameGroup.quaternion.copy(rotationTo).invert();
+      frameGroup.position
+        .copy(originTo)
+        .applyQuaternion(frameGroup.quaternion)
+        .negate();
+      frameGroup.updateMatrixWorld();
+    };
 
-              const eruptionSpeed = 0.04 + Math.random() * 0.02; // Faster initial speed
-              velocities[i3] = radialDir.x * eruptionSpeed;
-              velocities[i3 + 1] = radialDir.y * eruptionSpeed;
-              velocities[i3 + 2] = radialDir.z * eruptionSpeed;
+    // The picked particle's trail, in the coordinates of the reference frame
+    // it is seen in, and a marker on the particle itself
+    const trail = new ParticleTrail();
+    scene.add(trail.object);
+    const selectionMarker = new THREE.Mesh(
+      new THREE.SphereGeometry(0.15, 12, 8),
+      new THREE.MeshBasicMaterial({ color: 0xffffff, wireframe: true })
+    );
+    selectionMarker.visible = false;
+    frameGroup.add(selectionMarker);
+    let trailTime = -Infinity;
+    const trailPoint = new THREE.Vector3();
+
+    const select = (index: number | null, status: string | null = null) => {
+      if (selected) {
+        simulation.setPinned(selected.index, false);
+        if (
+          following.type === "particle" &&
+          following.index === selected.index
+        ) {
+          following = { type: "none" };
+          setFollow(following);
+        }
+      }
+      selected =
+        index === null
+          ? null
+          : { index, generation: simulation.generations[index] };
+      if (selected) simulation.setPinned(selected.index, true);
+      trail.clear();
+      trailTime = -Infinity;
+      selectionMarker.visible = selected !== null;
+      setInspecting(selected !== null || status !== null);
+      setInspected(selected && inspectParticle(simulation, selected.index));
+      setInspectorStatus(status);
+    };
 
-              // Brighter initial color during eruption
-              colors[i3] = 1.0; // Red
-              colors[i3 + 1] = 0.7; // More green for brighter appearance
-              colors[i3 + 2] = 0.3; // More blue for brighter appearance
-            }
-          }
-        } else {
-          // Not in active eruption
-          if (eruption.current.cooldown > 0) {
-            eruption.current.cooldown--;
-          } else if (Math.random() < ERUPTION_CHANCE) {
-            // Start new eruption
-            eruption.current.isActive = true;
-            eruption.current.countdown = ERUPTION_DURATION;
-          } else {
-            // Background emission
-            if (Math.random() < BASE_EMISSION_RATE) {
-              let particleIndex;
-              if (activeParticles < MAX_PARTICLES) {
-                particleIndex = activeParticles;
-                particleSystemRef.current.activeParticles++;
-              } else {
-                particleIndex = Math.floor(Math.random() * MAX_PARTICLES);
-              }
-
-              const i3 = particleIndex * 3;
-
-              // Normal emission
-              positions[i3] = io.moon.position.x + (Math.random() - 0.5) * 0.8;
-              positions[i3 + 1] =
-                io.moon.position.y + (Math.random() - 0.5) * 0.8;
-              positions[i3 + 2] =
-                io.moon.position.z + (Math.random() - 0.5) * 0.8;
-
-              const radialDir = new THREE.Vector3(
-                positions[i3],
-                positions[i3 + 1],
-                positions[i3 + 2]
-              );
-              radialDir.normalize();
+    // Follow the picked particle until it is lost. Pinning keeps emission
+    // off its slot, but the other loss channels still apply, and a reset or
+    // a restored snapshot replaces every particle
+    const updateSelection = () => {
+      if (!selected) return;
+      const { index, generation } = selected;
+      if (gpu) {
+        select(null, "Inspecting particles needs the CPU path");
+        return;
+      }
+      if (
+        simulation.generations[index] !== generation ||
+        simulation.time < trailTime
+      ) {
+        select(null, `Particle #${index} is gone; its slot holds a new one`);
+        return;
+      }
+      if (!simulation.alive[index]) {
+        select(null, `Particle #${index} was lost`);
+        return;
+      }
 
-              const speed = 0.02 + Math.random() * 0.01;
-              velocities[i3] = radialDir.x * speed;
-              velocities[i3 + 1] = radialDir.y * speed;
-              velocities[i3 + 2] = radialDir.z * speed;
+      const i3 = index * 3;
+      const { positions, colors } = simulation;
+      selectionMarker.position.fromArray(positions, i3);
+      trail.setColor(colors[i3], colors[i3 + 1], colors[i3 + 2]);
+      // The trail only makes sense in one frame, so it restarts on a switch
+      if (!frameSettled) {
+        trail.clear();
+      } else if (simulation.time !== trailTime) {
+        trailPoint
+          .fromArray(positions, i3)
+          .applyMatrix4(frameGroup.matrixWorld);
+        trail.push(trailPoint.x, trailPoint.y, trailPoint.z);
+      }
+      trailTime = simulation.time;
+    };
 
-              colors[i3] = 1.0; // Red
-              colors[i3 + 1] = 0.5; // Green
-              colors[i3 + 2] = 0.2; // Blue
-            }
-          }
+    // Pick the particle nearest the pointer's ray on a click (not a drag)
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    let pressed: { x: number; y: number } | null = null;
+    const aim = (event: PointerEvent) => {
+      const bounds = renderer.domElement.getBoundingClientRect();
+      pointer.set(
+        ((event.clientX - bounds.left) / bounds.width) * 2 - 1,
+        -((event.clientY - bounds.top) / bounds.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+    };
+    const pick = (event: PointerEvent) => {
+      if (gpu) {
+        select(null, "Inspecting particles needs the CPU path");
+        return;
+      }
+      aim(event);
+      raycaster.params.Points.threshold =
+        PICK_ANGLE * camera.position.distanceTo(controls.target);
+      particleGeometry.computeBoundingSphere(); // The particles have moved
+      let nearest: THREE.Intersection | null = null;
+      for (const hit of raycaster.intersectObject(particles)) {
+        if (hit.index === undefined || !simulation.alive[hit.index]) continue;
+        if (!nearest || hit.distanceToRay! < nearest.distanceToRay!) {
+          nearest = hit;
         }
+      }
+      if (nearest) select(nearest.index!);
+    };
+    const handlePointerDown = (event: PointerEvent) => {
+      pressed =
+        event.button === 0 ? { x: event.clientX, y: event.clientY } : null;
+    };
+    const handlePointerUp = (event: PointerEvent) => {
+      if (
+        pressed &&
+        Math.hypot(event.clientX - pressed.x, event.clientY - pressed.y) <=
+          CLICK_TOLERANCE
+      ) {
+        pick(event);
+      }
+      pressed = null;
+    };
+    renderer.domElement.addEventListener("pointerdown", handlePointerDown);
+    renderer.domElement.addEventListener("pointerup", handlePointerUp);
+    pickerRef.current = { release: () => select(null) };
+
+    // Where the pointer meets the simulation frame's equatorial plane, for
+    // the coordinate readout
+    const equator = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    const cursorRay = new THREE.Ray();
+    const cursorPoint = new THREE.Vector3();
+    const worldToFrame = new THREE.Matrix4();
+    let cursor: Vec3 | null = null;
+    const handlePointerMove = (event: PointerEvent) => {
+      aim(event);
+      worldToFrame.copy(frameGroup.matrixWorld).invert();
+      cursor = cursorRay
+        .copy(raycaster.ray)
+        .applyMatrix4(worldToFrame)
+        .intersectPlane(equator, cursorPoint)
+        ? [cursorPoint.x, 0, cursorPoint.z]
+        : null;
+    };
+    const handlePointerLeave = () => (cursor = null);
+    renderer.domElement.addEventListener("pointermove", handlePointerMove);
+    renderer.domElement.addEventListener("pointerleave", handlePointerLeave);
+
+    // Refresh the scale bar, sized at the distance of the orbit target, and
+    // the cursor readout a few times a second
+    const scaleInterval = window.setInterval(() => {
+      setUnitsPerPixel(
+        (2 *
+          camera.position.distanceTo(controls.target) *
+          Math.tan(THREE.MathUtils.degToRad(camera.fov / 2))) /
+          renderer.domElement.clientHeight
+      );
+      setCursor(cursor);
+    }, 250);
+
+    // Bring the scene up to date with the simulation's state
+    const updateScene = () => {
+      updateFrame();
+      // Apply parameter changes that affect the scene
+      if (fieldModelKey(simulation.params) !== fieldLineKey) {
+        createFieldLines();
+      }
+      if (simulation.params.sceneScale !== orbitLineScale) placeOrbits();
+      magnetosphere.update(
+        sceneStandoff(simulation.solarWind, simulation.params, simulation.time)
+      );
+      if (particleGeometry.attributes.position.array !== simulation.positions) {
+        bindParticleBuffers();
+      }
 
-        // Update existing particles (update Io position references)
-        const numParticlesToUpdate = Math.max(MAX_PARTICLES, activeParticles);
-        for (let i = 0; i < numParticlesToUpdate; i++) {
-          const i3 = i * 3;
-
-          // Skip invalid particles
-          if (
-            isNaN(positions[i3]) ||
-            isNaN(positions[i3 + 1]) ||
-            isNaN(positions[i3 + 2])
-          ) {
-            // Reset invalid particle back to Io
-            positions[i3] = io.moon.position.x;
-            positions[i3 + 1] = io.moon.position.y;
-            positions[i3 + 2] = io.moon.position.z;
-            velocities[i3] = 0;
-            velocities[i3 + 1] = 0;
-            velocities[i3 + 2] = 0;
-            continue;
-          }
+      // Rotate Jupiter and, as its children, the field lines
+      jupiter.rotation.y = simulation.jupiterRotation;
+      updateFluxTube();
 
-          const position = new THREE.Vector3(
-            positions[i3],
-            positions[i3 + 1],
-            positions[i3 + 2]
-          );
+      // Update moon positions from the shared ephemeris time
+      moons.forEach(({ moon, name }) => {
+        moon.position.fromArray(simulation.moonPositions[name]);
+      });
+      io.rotation.y = synchronousRotation(simulation.ioPosition);
+      volcanoMarkers.forEach((marker, i) =>
+        marker.material.color.setHex(
+          simulation.volcanoes[i].isActive ? 0xff5500 : 0x663300
+        )
+      );
 
-          // Check if particle is too far or too close
-          const distance = position.length();
-          if (distance > MAX_DISTANCE || distance < MIN_DISTANCE) {
-            // Reset particle back to Io
-            positions[i3] = io.moon.position.x + (Math.random() - 0.5) * 0.8;
-            positions[i3 + 1] =
-              io.moon.position.y + (Math.random() - 0.5) * 0.8;
-            positions[i3 + 2] =
-              io.moon.position.z + (Math.random() - 0.5) * 0.8;
-            velocities[i3] = 0;
-            velocities[i3 + 1] = 0;
-            velocities[i3 + 2] = 0;
-            continue;
-          }
+      updateSelection();
 
-          const velocity = new THREE.Vector3(
-            velocities[i3],
-            velocities[i3 + 1],
-            velocities[i3 + 2]
-          );
+      // Update geometry attributes; the GPU path draws from its own textures
+      if (!gpu) {
+        particleGeometry.attributes.position.needsUpdate = true;
+        particleGeometry.attributes.color.needsUpdate = true;
+      }
+    };
 
-          // Get magnetic field at particle position
-          const B = getMagneticFieldVector(position, jupiter.rotation.y);
+    const applyShot = (shot: CameraShot) => {
+      camera.position.fromArray(shot.position);
+      controls.target.fromArray(shot.target);
+      if (camera.fov !== shot.fov) {
+        camera.fov = shot.fov;
+        camera.updateProjectionMatrix();
+      }
+      camera.lookAt(controls.target);
+    };
 
-          // Calculate magnetic force (F = qv × B)
-          const force = velocity.clone().cross(B);
+    // Carry the camera and its target along with the followed subject. On
+    // picking up a subject the view first recentres on it, keeping the
+    // camera's offset
+    let following: CameraFollow = { type: "none" };
+    let anchored = false;
+    const anchor: CameraAnchor = { point: [0, 0, 0], angle: 0 };
+    const anchorPoint = new THREE.Vector3();
+    const lastAnchorPoint = new THREE.Vector3();
+    let lastAnchorAngle = 0;
+    const yAxis = new THREE.Vector3(0, 1, 0);
+    const cameraOffset = new THREE.Vector3();
+    const followCamera = () => {
+      // GPU particles live on the GPU; reading back just to follow one is
+      // costly but keeps the camera on it
+      if (following.type === "particle") gpu?.sync();
+      if (!followAnchor(following, simulation, anchor)) {
+        anchored = false;
+        return;
+      }
+      // The subject as drawn, and its angle as seen in the reference frame
+      anchorPoint.fromArray(anchor.point).applyMatrix4(frameGroup.matrixWorld);
+      anchor.angle -= frameYaw;
+      if (!anchored) {
+        cameraOffset.subVectors(anchorPoint, controls.target);
+        camera.position.add(cameraOffset);
+        controls.target.copy(anchorPoint);
+      } else {
+        const turn = anchor.angle - lastAnchorAngle;
+        [camera.position, controls.target].forEach((point) => {
+          cameraOffset
+            .subVectors(point, lastAnchorPoint)
+            .applyAxisAngle(yAxis, turn);
+          point.addVectors(anchorPoint, cameraOffset);
+        });
+      }
+      lastAnchorPoint.copy(anchorPoint);
+      lastAnchorAngle = anchor.angle;
+      anchored = true;
+    };
 
-          // Update velocity with magnetic force (with safety check)
-          if (!isNaN(force.length())) {
-            velocity.add(force);
-          }
+    // Tours play in real time, whatever the simulation speed
+    let tourPlayback: {
+      path: CameraKeyframe[];
+      start: number;
+      keyframe: number;
+      onKeyframe: (keyframe: CameraKeyframe | null) => void;
+      onEnd: () => void;
+    } | null = null;
+    const tourShot: CameraShot = {
+      position: [0, 0, 0],
+      target: [0, 0, 0],
+      fov: DEFAULT_FOV,
+    };
+    const updateTour = () => {
+      if (!tourPlayback) return false;
+      const { path, start } = tourPlayback;
+      const time = (performance.now() - start) / 1000;
+      applyShot(sampleCameraPath(path, time, tourShot));
+      const keyframe = keyframeAt(path, time);
+      if (keyframe !== tourPlayback.keyframe) {
+        tourPlayback.keyframe = keyframe;
+        tourPlayback.onKeyframe(path[keyframe] ?? null);
+      }
+      if (time > path[path.length - 1].time) {
+        const { onEnd } = tourPlayback;
+        tourPlayback = null;
+        onEnd();
+      }
+      return true;
+    };
 
-          // Apply corotation with Jupiter's magnetic field
-          const corotationSpeed =
-            JUPITER_ROTATION_SPEED * (1.0 - Math.exp(-position.length() / 15));
-          const corotation = new THREE.Vector3(-position.z, 0, position.x)
-            .normalize()
-            .multiplyScalar(corotationSpeed);
+    directorRef.current = {
+      shot: () => ({
+        position: camera.position.toArray() as Triple,
+        target: controls.target.toArray() as Triple,
+        fov: camera.fov,
+      }),
+      goTo: (shot) => {
+        applyShot(shot);
+        controls.update();
+      },
+      follow: (changed) => {
+        following = changed;
+        anchored = false;
+      },
+      play: (path, onKeyframe, onEnd) => {
+        tourPlayback = {
+          path,
+          start: performance.now(),
+          keyframe: -2, // Report the first keyframe, even before it starts
+          onKeyframe,
+          onEnd,
+        };
+      },
+      stop: () => {
+        tourPlayback = null;
+      },
+    };
 
-          if (!isNaN(corotation.length())) {
-            velocity.add(corotation);
-          }
+    // Animation; paused while a recording renders frames itself
+    const clock = new THREE.Clock();
+    let capturing = false;
+    const animate = () => {
+      requestAnimationFrame(animate);
+      if (capturing) return;
 
-          // Add containment forces to keep particles in a torus
-          const idealRadius = TORUS_RADIUS;
+      updateParticleBackend();
 
-          // Radial containment
-          const radialForce = new THREE.Vector3().copy(position).normalize();
-          const radialStrength =
-            distance > idealRadius
-              ? -0.01 * (distance - idealRadius)
-              : 0.01 * (idealRadius - distance);
+      // Advance the physics by real elapsed time in fixed steps, or let the
+      // worker do so and pick up its latest state
+      const elapsed = clock.getDelta();
+      if (simulation === worker) {
+        if (playback.current.paused) {
+          worker.pause();
+        } else {
+          worker.start(playback.current.speed);
+        }
+        worker.update();
+      } else if (!playback.current.paused) {
+        local.advance(elapsed * playback.current.speed);
+      }
 
-          if (!isNaN(radialStrength)) {
-            radialForce.multiplyScalar(radialStrength);
-            velocity.add(radialForce);
-          }
+      updateScene();
+      if (!updateTour()) {
+        followCamera();
+        controls.update();
+      }
+      renderer.render(scene, camera);
+    };
 
-          // Vertical containment (stronger than before)
-          velocity.y *= 0.95; // Dampen vertical motion
+    animate();
 
-          // Add a small force towards the magnetic equator
-          const heightForce = new THREE.Vector3(0, -position.y * 0.02, 0);
-          velocity.add(heightForce);
+    // Recordings step `local` once per frame on this thread, so a run in
+    // the worker is taken back for the duration and returned afterwards
+    let cancelled = false;
+    const pathShot: CameraShot = {
+      position: [0, 0, 0],
+      target: [0, 0, 0],
+      fov: DEFAULT_FOV,
+    };
+    captureRef.current = {
+      screenshot: (settings) => {
+        const frameCapture = new FrameCapture(
+          renderer,
+          scene,
+          camera,
+          settings
+        );
+        const canvas = frameCapture.render();
+        frameCapture.close();
+        return canvasToPng(canvas);
+      },
+      record: async (settings, onFrame) => {
+        capturing = true;
+        cancelled = false;
+        if (simulation === worker) {
+          worker.pause();
+          local.restore(await worker.snapshot());
+          switchSource(local);
+        }
 
-          // Limit maximum velocity
-          const maxSpeed = 0.2;
-          const currentSpeed = velocity.length();
-          if (currentSpeed > maxSpeed) {
-            velocity.multiplyScalar(maxSpeed / currentSpeed);
+        const frameCapture = new FrameCapture(
+          renderer,
+          scene,
+          camera,
+          settings
+        );
+        const path = sortedPath(settings.path);
+        let frames = 0;
+        try {
+          const sink: FrameSink =
+            settings.format === "webm"
+              ? new WebmRecording(frameCapture.canvas, settings.fps)
+              : new PngSequence(frameCapture.canvas);
+          while (frames < settings.frames && !cancelled) {
+            local.step();
+            updateScene();
+            if (path.length > 0) {
+              applyShot(
+                sampleCameraPath(path, frames / settings.fps, pathShot)
+              );
+            } else {
+              followCamera();
+              controls.update();
+            }
+            frameCapture.render();
+            await sink.add(frames);
+            onFrame(++frames);
           }
-
-          // Safety check before updating position
-          if (!isNaN(velocity.length())) {
-            positions[i3] += velocity.x;
-            positions[i3 + 1] += velocity.y;
-            positions[i3 + 2] += velocity.z;
-
-            velocities[i3] = velocity.x;
-            velocities[i3 + 1] = velocity.y;
-            velocities[i3 + 2] = velocity.z;
-
-            // Update color based on ionization (distance from Io)
-            const distanceFromIo = new THREE.Vector3(
-              positions[i3] - io.moon.position.x,
-              positions[i3 + 1] - io.moon.position.y,
-              positions[i3 + 2] - io.moon.position.z
-            ).length();
-
-            const ionization = Math.min(1.0, distanceFromIo / 5.0);
-            colors[i3] = Math.max(0.2, 1.0 - ionization); // Red
-            colors[i3 + 1] = 0.3 + ionization * 0.2; // Green
-            colors[i3 + 2] = 0.2 + ionization * 0.8; // Blue
-          } else {
-            // Reset particle if velocity becomes invalid
-            positions[i3] = io.moon.position.x;
-            positions[i3 + 1] = io.moon.position.y;
-            positions[i3 + 2] = io.moon.position.z;
-            velocities[i3] = 0;
-            velocities[i3 + 1] = 0;
-            velocities[i3 + 2] = 0;
+          return { blob: await sink.finish(), frames };
+        } finally {
+          frameCapture.close();
+          if (worker && !particleBackend.current.gpu) {
+            worker.load(local.snapshot());
+            switchSource(worker);
           }
+          clock.getDelta(); // Don't replay the capture time in real time
+          capturing = false;
         }
-
-        // Update geometry attributes
-        geometry.attributes.position.needsUpdate = true;
-        geometry.attributes.color.needsUpdate = true;
-      }
-
-      controls.update();
-      renderer.render(scene, camera);
+      },
+      cancel: () => {
+        cancelled = true;
+      },
     };
 
-    animate();
+    // Observations read the particles on this thread, so the GPU's are
+    // synced back first
+    observatoryRef.current = {
+      observe: (settings) => {
+        gpu?.sync();
+        const { ephemeris } = simulation;
+        return observe(
+          renderer,
+          simulation,
+          observerCamera(
+            settings,
+            ephemeris?.earthDistance ?? TYPICAL_EARTH_DISTANCE,
+            camera,
+            frameGroup
+          ),
+          settings,
+          ephemeris && dateFromJulianDay(ephemeris.julianDay).toISOString()
+        );
+      },
+    };
 
     // Handle window resize
     const handleResize = () => {
@@ -571,6 +1696,28 @@ export default function Home() {
 
     return () => {
       window.removeEventListener("resize", handleResize);
+      window.removeEventListener("hashchange", handleHashChange);
+      window.clearInterval(ephemerisInterval);
+      window.clearInterval(scaleInterval);
+      window.clearInterval(diagnosticsInterval);
+      window.clearInterval(recordingInterval);
+      window.clearInterval(densityInterval);
+      controls.removeEventListener("end", handleCameraEnd);
+      renderer.domElement.removeEventListener("pointerdown", handlePointerDown);
+      renderer.domElement.removeEventListener("pointerup", handlePointerUp);
+      renderer.domElement.removeEventListener("pointermove", handlePointerMove);
+      renderer.domElement.removeEventListener(
+        "pointerleave",
+        handlePointerLeave
+      );
+      detachGpu();
+      fluxTube.dispose();
+      aurora.dispose();
+      magnetosphere.dispose();
+      trail.dispose();
+      selectionMarker.geometry.dispose();
+      selectionMarker.material.dispose();
+      worker?.dispose();
     };
   }, []);
 
@@ -578,6 +1725,144 @@ export default function Home() {
     <div className="relative w-full h-screen">
       <canvas ref={canvasRef} className="w-full h-full" />
 
+      <ControlPanel
+        seed={seed}
+        params={params}
+        paused={paused}
+        speed={speed}
+        onParamsChange={updateParams}
+        onReset={resetParams}
+        onTogglePause={togglePause}
+        onStep={() => simulationRef.current?.step()}
+        onSpeedChange={changeSpeed}
+        onRestart={restart}
+        onCopyLink={copyLink}
+        gpuParticles={gpuParticles}
+        gpuSupported={gpuSupported}
+        particleStatus={particleStatus}
+        onGpuParticlesChange={changeGpuParticles}
+        showDiagnostics={showDiagnostics}
+        onShowDiagnosticsChange={changeShowDiagnostics}
+        referenceFrame={referenceFrame}
+        onReferenceFrameChange={changeReferenceFrame}
+        scriptedEruptions={eruptionScenario !== null}
+        drivenSolarWind={solarWind !== null}
+      >
+        <CameraControls
+          follow={follow}
+          fov={fov}
+          tour={tour}
+          playing={playingTour}
+          status={cameraStatus}
+          onPreset={applyPreset}
+          onFollowChange={changeFollow}
+          onFovChange={changeFov}
+          onTourChange={setTour}
+          onGoTo={({ position, target, fov }) =>
+            goTo({ position, target, fov: fov ?? DEFAULT_FOV })
+          }
+          onPlay={playTour}
+          onStop={stopTour}
+          onStatus={setCameraStatus}
+          currentShot={() => directorRef.current?.shot()}
+        />
+        <EphemerisControls
+          clock={ephemerisClock}
+          ephemeris={ephemeris}
+          onClockChange={changeEphemerisClock}
+        />
+        <EruptionTimeline
+          scenario={eruptionScenario}
+          time={simulationTime}
+          activity={activity}
+          capacity={params.maxParticles}
+          status={timelineStatus}
+          onScenarioChange={changeEruptionScenario}
+          onLoadScenario={loadEruptionScenario}
+          onSaveScenario={saveEruptionScenario}
+        />
+        <SolarWindControls
+          series={solarWind}
+          steadyPressure={params.solarWindPressure}
+          magnetopause={params.magnetopause}
+          time={simulationTime}
+          status={solarWindStatus}
+          onSeriesChange={changeSolarWind}
+          onLoadSeries={loadSolarWind}
+          onSaveSeries={saveSolarWind}
+        />
+        <ExportControls
+          recording={recording}
+          samples={recorded.samples}
+          eruptions={recorded.eruptions}
+          status={exportStatus}
+          onExportSnapshot={saveSnapshot}
+          onImportSnapshot={importSnapshot}
+          onRecordingChange={changeRecording}
+          onExportTimeSeries={saveTimeSeries}
+          onClearTimeSeries={clearTimeSeries}
+        />
+        <CaptureControls
+          busy={capturing}
+          status={captureStatus}
+          onScreenshot={takeScreenshot}
+          onRecord={recordFrames}
+          onCancel={() => captureRef.current?.cancel()}
+          tour={tour}
+        />
+        <ObservationControls
+          supported={observationSupported}
+          busy={observing}
+          status={observationStatus}
+          preview={observationPreview}
+          onObserve={takeObservation}
+        />
+      </ControlPanel>
+
+      {showDiagnostics && (
+        <DiagnosticsPanel
+          diagnostics={diagnostics}
+          torusRadius={params.torusRadius}
+          sceneScale={params.sceneScale}
+          frame={referenceFrame}
+          reference={referenceProfile}
+          onHoldReference={holdReferenceProfile}
+          onClearReference={() => setReferenceProfile(null)}
+        />
+      )}
+
+      {narration?.narration && (
+        <div className="absolute bottom-20 left-1/2 -translate-x-1/2 bg-black/70 text-white px-4 py-2 rounded-lg max-w-xl text-center">
+          {narration.narration}
+        </div>
+      )}
+
+      {inspecting && (
+        <ParticleInspector
+          details={inspected}
+          status={inspectorStatus}
+          following={
+            follow.type === "particle" && follow.index === inspected?.index
+          }
+          onFollow={followInspected}
+          onClose={() => pickerRef.current?.release()}
+        />
+      )}
+
+      <ScaleBar
+        sceneScale={params.sceneScale}
+        unitsPerPixel={unitsPerPixel}
+        cursor={cursor}
+      />
+
+      <SpeciesLegend
+        counts={speciesCounts}
+        live={liveParticles}
+        capacity={params.maxParticles}
+        losses={losses}
+      />
+      <VolcanoActivity erupting={erupting} />
+
       {/* Info Panel */}
       <div className="absolute top-4 left-4 bg-black/70 text-white p-4 rounded-lg max-w-xl space-y-4">
         <h1 className="text-xl font-bold">
@@ -585,32 +1870,70 @@ export default function Home() {
         </h1>
 
         <div className="text-sm space-y-2">
-          <p className="font-semibold text-yellow-400">
-            Io&apos;s Volcanic Activity:
-          </p>
-          <p>
-            Io, Jupiter&apos;s innermost Galilean moon, is the most volcanically
-            active body in the solar system. Its volcanoes eject sulfur dioxide
-            and other materials into space (shown as red particles).
-          </p>
+          <div className={sectionClass("volcanoes")}>
+            <p className="font-semibold text-yellow-400">
+              Io&apos;s Volcanic Activity:
+            </p>
+            <p>
+              Io, Jupiter&apos;s innermost Galilean moon, is the most
+              volcanically active body in the solar system. Its volcanoes eject
+              sulfur dioxide and other materials into space (shown as yellow SO₂
+              particles). Each hotspot in the catalog (Loki, Pele, Prometheus,
+              Tvashtar and others) erupts on its own schedule from its real
+              location on Io&apos;s surface, which always faces Jupiter the same
+              way; plumes launch in a cone whose speed follows the plume&apos;s
+              height.
+            </p>
+          </div>
 
-          <p className="font-semibold text-blue-400 mt-2">Plasma Formation:</p>
-          <p>
-            The ejected material becomes ionized by solar radiation and electron
-            collisions, transforming into a plasma (shown by particles turning
-            blue). This plasma gets trapped by Jupiter&apos;s powerful magnetic
-            field.
-          </p>
+          <div className={sectionClass("plasma")}>
+            <p className="font-semibold text-blue-400 mt-2">
+              Plasma Formation:
+            </p>
+            <p>
+              SO₂ dissociates into sulfur and oxygen atoms, which electron
+              impact ionizes into S⁺, S²⁺, S³⁺, O⁺ and O²⁺; charge exchange with
+              the neutral cloud lowers charge states again. Neutrals fly
+              ballistically until ionized, after which Jupiter&apos;s magnetic
+              field picks them up, gyrating faster for higher charge-to-mass
+              ratios. Each species has its own color in the legend below. Radial
+              transport slowly carries ions outwards, and in the transport torus
+              model the centrifugal force gathers them at the centrifugal
+              equator, between the spin and magnetic equators; others recombine,
+              escape or rain into Jupiter, and the legend tallies each loss.
+            </p>
+          </div>
 
-          <p className="font-semibold text-green-400 mt-2">
-            Magnetic Field Interaction:
-          </p>
-          <p>
-            Jupiter&apos;s magnetic field (blue lines) is tilted by ~10° from
-            its rotation axis (green line). The field captures the plasma and
-            forces it to corotate with Jupiter, forming a torus-shaped ring of
-            charged particles around Jupiter&apos;s equator.
-          </p>
+          <div className={sectionClass("moons")}>
+            <p className="font-semibold text-sky-300 mt-2">
+              The Galilean Moons:
+            </p>
+            <p>
+              Io, Europa and Ganymede are locked in the 1:2:4 Laplace resonance,
+              with Callisto orbiting further out. Europa and the outer moons
+              also supply neutrals and plasma, but far less than Io; enable
+              their sources in the controls to compare (sources beyond the outer
+              boundary are ignored).
+            </p>
+          </div>
+
+          <div className={sectionClass("field")}>
+            <p className="font-semibold text-green-400 mt-2">
+              Magnetic Field Interaction:
+            </p>
+            <p>
+              Jupiter&apos;s magnetic field (blue lines) is tilted by ~10° from
+              its rotation axis (green line). The field captures the plasma and
+              forces it to corotate with Jupiter, forming a torus-shaped ring of
+              charged particles around Jupiter&apos;s equator. The lines are
+              traced through the same field model the particles feel: an offset
+              tilted dipole or the Juno JRM09 spherical harmonic model.
+              Io&apos;s flux tube (the glowing yellow Alfvén wing, brighter
+              where the torus around Io is denser) links Io to its auroral
+              footprints: bright spots on Jupiter trailing fading tails, which
+              trace out the yellow ovals as Jupiter rotates beneath Io.
+            </p>
+          </div>
 
           <div className="mt-4 border-t border-gray-600 pt-4">
             <p className="font-semibold text-purple-400">
@@ -649,7 +1972,7 @@ export default function Home() {
 
           <p className="text-xs italic mt-4">
             Controls: Click and drag to rotate view • Scroll to zoom •
-            Right-click and drag to pan
+            Right-click and drag to pan • Click a particle to inspect it
           </p>
         </div>
       </div>
@@ -0,0 +1,297 @@
+"use client";
+
+import { CameraKeyframe, CameraShot, INFO_SECTIONS } from "@/lib/camera-path";
+import {
+  CAMERA_PRESETS,
+  CameraFollow,
+  CameraPresetName,
+} from "@/lib/camera-rig";
+import { GUIDED_TOUR, parseTour, Tour } from "@/lib/camera-tours";
+import { downloadBlob } from "@/lib/download";
+import { MOON_ORBITS, MoonName } from "@/lib/simulation/moons";
+
+interface CameraControlsProps {
+  follow: CameraFollow;
+  fov: number;
+  tour: Tour;
+  playing: boolean;
+  status: string | null;
+  onPreset: (name: CameraPresetName) => void;
+  onFollowChange: (follow: CameraFollow) => void;
+  onFovChange: (fov: number) => void;
+  onTourChange: (tour: Tour) => void;
+  onGoTo: (keyframe: CameraKeyframe) => void;
+  onPlay: () => void;
+  onStop: () => void;
+  onStatus: (status: string) => void;
+  currentShot: () => CameraShot | undefined;
+}
+
+const KEYFRAME_SPACING = 4; // Seconds between keyframes added from the view
+
+const BUTTON =
+  "flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50";
+const INPUT = "bg-gray-800 rounded px-1";
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Select value for each follow mode; moons are keyed by name
+const followValue = (follow: CameraFollow) =>
+  follow.type === "moon" ? follow.moon : follow.type;
+
+export default function CameraControls({
+  follow,
+  fov,
+  tour,
+  playing,
+  status,
+  onPreset,
+  onFollowChange,
+  onFovChange,
+  onTourChange,
+  onGoTo,
+  onPlay,
+  onStop,
+  onStatus,
+  currentShot,
+}: CameraControlsProps) {
+  const { keyframes } = tour;
+
+  const updateKeyframe = (index: number, changes: Partial<CameraKeyframe>) =>
+    onTourChange({
+      ...tour,
+      keyframes: keyframes.map((keyframe, i) =>
+        i === index ? { ...keyframe, ...changes } : keyframe
+      ),
+    });
+
+  const addKeyframe = () => {
+    const shot = currentShot();
+    if (!shot) return;
+    const last = keyframes[keyframes.length - 1];
+    onTourChange({
+      ...tour,
+      keyframes: [
+        ...keyframes,
+        {
+          time: last ? last.time + KEYFRAME_SPACING : 0,
+          position: shot.position.map(round) as CameraShot["position"],
+          target: shot.target.map(round) as CameraShot["target"],
+          fov: round(shot.fov),
+        },
+      ],
+    });
+  };
+
+  const changeFollow = (value: string) => {
+    if (value === "particle") {
+      onFollowChange({ type: "particle", index: 0 });
+    } else if (MOON_ORBITS.some(({ name }) => name === value)) {
+      onFollowChange({ type: "moon", moon: value as MoonName });
+    } else {
+      onFollowChange({ type: value } as CameraFollow);
+    }
+  };
+
+  const loadTour = async (file: File) => {
+    try {
+      onTourChange(parseTour(JSON.parse(await file.text())));
+      onStatus(`Loaded ${file.name}`);
+    } catch (error) {
+      onStatus(`Could not load ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const saveTour = () =>
+    downloadBlob(
+      new Blob([JSON.stringify(tour, null, 2)], { type: "application/json" }),
+      `${tour.name.replace(/[^\w-]+/g, "-").toLowerCase() || "tour"}.json`
+    );
+
+  return (
+    <div className="space-y-2">
+      <p className="font-semibold text-blue-400">Camera</p>
+
+      <div className="grid grid-cols-3 gap-1 text-xs">
+        {CAMERA_PRESETS.map(({ name, label }) => (
+          <button
+            key={name}
+            className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+            onClick={() => onPreset(name)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-xs">
+        <span>Follow</span>
+        <span className="flex gap-1">
+          <select
+            className={INPUT}
+            value={followValue(follow)}
+            onChange={(e) => changeFollow(e.target.value)}
+          >
+            <option value="none">Nothing</option>
+            {MOON_ORBITS.map(({ name, label }) => (
+              <option key={name} value={name}>
+                {label}
+              </option>
+            ))}
+            <option value="io-orbit">Io, riding along</option>
+            <option value="corotating">Jupiter&apos;s rotation</option>
+            <option value="particle">Particle</option>
+          </select>
+          {follow.type === "particle" && (
+            <input
+              type="number"
+              className={`${INPUT} w-20`}
+              min={0}
+              value={follow.index}
+              onChange={(e) =>
+                onFollowChange({
+                  type: "particle",
+                  index: Math.max(0, Math.round(+e.target.value)),
+                })
+              }
+            />
+          )}
+        </span>
+      </label>
+
+      <label className="block text-xs">
+        <span className="flex justify-between">
+          <span>Field of view</span>
+          <span>{Math.round(fov)}°</span>
+        </span>
+        <input
+          type="range"
+          className="w-full"
+          min={5}
+          max={120}
+          step={1}
+          value={fov}
+          onChange={(e) => onFovChange(Number(e.target.value))}
+        />
+      </label>
+
+      <div className="space-y-1">
+        <input
+          className={`${INPUT} w-full text-xs`}
+          value={tour.name}
+          onChange={(e) => onTourChange({ ...tour, name: e.target.value })}
+        />
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {keyframes.map((keyframe, i) => (
+            <div key={i} className="flex gap-1 text-xs">
+              <input
+                type="number"
+                className={`${INPUT} w-12`}
+                min={0}
+                step={0.5}
+                value={keyframe.time}
+                onChange={(e) =>
+                  updateKeyframe(i, { time: Math.max(0, +e.target.value) })
+                }
+              />
+              <input
+                className={`${INPUT} flex-1 min-w-0`}
+                placeholder="Narration"
+                value={keyframe.narration ?? ""}
+                onChange={(e) =>
+                  updateKeyframe(i, {
+                    narration: e.target.value || undefined,
+                  })
+                }
+              />
+              <select
+                className={INPUT}
+                value={keyframe.section ?? ""}
+                onChange={(e) =>
+                  updateKeyframe(i, {
+                    section:
+                      (e.target.value as CameraKeyframe["section"]) ||
+                      undefined,
+                  })
+                }
+              >
+                <option value="">-</option>
+                {INFO_SECTIONS.map((section) => (
+                  <option key={section} value={section}>
+                    {section}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="px-1 rounded bg-gray-700 hover:bg-gray-600"
+                title="Move the camera here"
+                onClick={() => onGoTo(keyframe)}
+              >
+                Go
+              </button>
+              <button
+                className="px-1 rounded bg-gray-700 hover:bg-gray-600"
+                title="Delete keyframe"
+                onClick={() =>
+                  onTourChange({
+                    ...tour,
+                    keyframes: keyframes.filter((_, j) => j !== i),
+                  })
+                }
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 text-xs">
+          <button className={BUTTON} onClick={addKeyframe}>
+            Add current view
+          </button>
+          {playing ? (
+            <button className={BUTTON} onClick={onStop}>
+              Stop tour
+            </button>
+          ) : (
+            <button
+              className={BUTTON}
+              disabled={keyframes.length === 0}
+              onClick={onPlay}
+            >
+              Play tour
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2 text-xs">
+          <button className={BUTTON} onClick={saveTour}>
+            Save
+          </button>
+          <label className={`${BUTTON} text-center cursor-pointer`}>
+            Load
+            <input
+              type="file"
+              accept=".json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadTour(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          <button className={BUTTON} onClick={() => onTourChange(GUIDED_TOUR)}>
+            Guided
+          </button>
+          <button
+            className={BUTTON}
+            onClick={() => onTourChange({ ...tour, keyframes: [] })}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {status && <p className="text-xs text-gray-300">{status}</p>}
+    </div>
+  );
+}
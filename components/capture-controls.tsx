@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CAPTURE_RESOLUTIONS,
+  CaptureFormat,
+  CaptureSettings,
+  RecordingSettings,
+} from "@/lib/capture";
+import { Tour } from "@/lib/camera-tours";
+
+interface CaptureControlsProps {
+  busy: boolean;
+  status: string | null;
+  onScreenshot: (settings: CaptureSettings) => void;
+  onRecord: (settings: RecordingSettings) => void;
+  onCancel: () => void;
+  tour: Tour;
+}
+
+const FPS_OPTIONS = [24, 30, 60];
+const MAX_FRAMES = 36000; // Ten minutes at 60 fps
+
+const BUTTON =
+  "flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50";
+const INPUT = "w-20 bg-gray-800 rounded px-1";
+
+export default function CaptureControls({
+  busy,
+  status,
+  onScreenshot,
+  onRecord,
+  onCancel,
+  tour,
+}: CaptureControlsProps) {
+  const [width, setWidth] = useState(1920);
+  const [height, setHeight] = useState(1080);
+  const [transparent, setTransparent] = useState(false);
+  const [frames, setFrames] = useState(300);
+  const [fps, setFps] = useState(30);
+  const [format, setFormat] = useState<CaptureFormat>("webm");
+  const [followTour, setFollowTour] = useState(false);
+
+  const settings = { width, height, transparent };
+
+  const record = () =>
+    onRecord({
+      ...settings,
+      frames,
+      fps,
+      format,
+      path: followTour ? tour.keyframes : [],
+    });
+
+  return (
+    <div className="space-y-2">
+      <p className="font-semibold text-blue-400">Capture</p>
+
+      <div className="flex items-center gap-2 text-xs">
+        <select
+          className="bg-gray-800 rounded px-1"
+          value={`${width}x${height}`}
+          onChange={(e) => {
+            const [w, h] = e.target.value.split("x").map(Number);
+            if (w && h) {
+              setWidth(w);
+              setHeight(h);
+            }
+          }}
+        >
+          {CAPTURE_RESOLUTIONS.map(([w, h]) => (
+            <option key={w} value={`${w}x${h}`}>
+              {w} × {h}
+            </option>
+          ))}
+          {!CAPTURE_RESOLUTIONS.some(
+            ([w, h]) => w === width && h === height
+          ) && <option value={`${width}x${height}`}>Custom</option>}
+        </select>
+        <input
+          type="number"
+          className={INPUT}
+          min={16}
+          value={width}
+          onChange={(e) => setWidth(Math.max(16, Number(e.target.value)))}
+        />
+        <input
+          type="number"
+          className={INPUT}
+          min={16}
+          value={height}
+          onChange={(e) => setHeight(Math.max(16, Number(e.target.value)))}
+        />
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-xs">
+        <span>Transparent background (PNG)</span>
+        <input
+          type="checkbox"
+          checked={transparent}
+          onChange={(e) => setTransparent(e.target.checked)}
+        />
+      </label>
+
+      <button
+        className={`${BUTTON} w-full`}
+        disabled={busy}
+        onClick={() => onScreenshot(settings)}
+      >
+        Screenshot
+      </button>
+
+      <div className="flex items-center gap-2 text-xs">
+        <input
+          type="number"
+          className={INPUT}
+          min={1}
+          max={MAX_FRAMES}
+          value={frames}
+          onChange={(e) =>
+            setFrames(
+              Math.min(MAX_FRAMES, Math.max(1, Math.round(+e.target.value)))
+            )
+          }
+        />
+        <span>frames at</span>
+        <select
+          className="bg-gray-800 rounded px-1"
+          value={fps}
+          onChange={(e) => setFps(Number(e.target.value))}
+        >
+          {FPS_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option} fps
+            </option>
+          ))}
+        </select>
+        <select
+          className="bg-gray-800 rounded px-1"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as CaptureFormat)}
+        >
+          <option value="webm">WebM</option>
+          <option value="png">PNG zip</option>
+        </select>
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-xs">
+        <span>
+          Follow the camera tour
+          <span className="text-gray-400">
+            {" "}
+            ({tour.keyframes.length} keyframes)
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          checked={followTour}
+          disabled={tour.keyframes.length === 0}
+          onChange={(e) => setFollowTour(e.target.checked)}
+        />
+      </label>
+
+      <div className="flex gap-2">
+        <button className={BUTTON} disabled={busy} onClick={record}>
+          Record
+        </button>
+        <button className={BUTTON} disabled={!busy} onClick={onCancel}>
+          Stop
+        </button>
+      </div>
+
+      {status && <p className="text-xs text-gray-300">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { ReactNode } from "react";
+import { INTEGRATORS, IntegratorName } from "@/lib/simulation/integrators";
+import { FIELD_MODELS, FieldModelName } from "@/lib/simulation/magnetic-field";
+import { TORUS_MODELS, TorusModelName } from "@/lib/simulation/torus-models";
+import { PARAM_CONTROLS, SimulationParams } from "@/lib/simulation/params";
+import { randomSeed } from "@/lib/simulation/random";
+import {
+  REFERENCE_FRAMES,
+  ReferenceFrameName,
+} from "@/lib/simulation/reference-frames";
+import {
+  SCENE_SCALES,
+  SceneScaleName,
+  sceneScaleParams,
+} from "@/lib/simulation/units";
+
+export const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4];
+
+const GROUPS = [
+  "Magnetosphere",
+  "Torus",
+  "Eruptions",
+  "Chemistry",
+  "Orbits",
+] as const;
+
+interface ControlPanelProps {
+  seed: number;
+  params: SimulationParams;
+  paused: boolean;
+  speed: number;
+  onParamsChange: (params: Partial<SimulationParams>) => void;
+  onReset: () => void;
+  onTogglePause: () => void;
+  onStep: () => void;
+  onSpeedChange: (speed: number) => void;
+  onRestart: (seed: number) => void;
+  onCopyLink: () => void;
+  gpuParticles: boolean;
+  gpuSupported: boolean;
+  particleStatus: string | null; // Why the GPU could not be used, if so
+  onGpuParticlesChange: (enabled: boolean) => void;
+  showDiagnostics: boolean;
+  onShowDiagnosticsChange: (show: boolean) => void;
+  referenceFrame: ReferenceFrameName;
+  onReferenceFrameChange: (frame: ReferenceFrameName) => void;
+  scriptedEruptions: boolean; // A scenario times the eruptions
+  drivenSolarWind: boolean; // A series sets the solar wind pressure
+  children?: ReactNode; // Extra sections shown above the parameter sliders
+}
+
+// Round a displayed value to the precision implied by the slider step
+const formatValue = (value: number, step: number) => {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return value.toFixed(decimals);
+};
+
+// Slider position for a value, and back; logarithmic sliders move through
+// powers of ten and snap to the step
+const toSlider = (value: number, logarithmic?: boolean) =>
+  logarithmic ? Math.log10(value) : value;
+const fromSlider = (position: number, step: number, logarithmic?: boolean) =>
+  logarithmic
+    ? Math.max(step, Math.round(10 ** position / step) * step)
+    : position;
+
+export default function ControlPanel({
+  seed,
+  params,
+  paused,
+  speed,
+  onParamsChange,
+  onReset,
+  onTogglePause,
+  onStep,
+  onSpeedChange,
+  onRestart,
+  onCopyLink,
+  gpuParticles,
+  gpuSupported,
+  particleStatus,
+  onGpuParticlesChange,
+  showDiagnostics,
+  onShowDiagnosticsChange,
+  referenceFrame,
+  onReferenceFrameChange,
+  scriptedEruptions,
+  drivenSolarWind,
+  children,
+}: ControlPanelProps) {
+  return (
+    <div className="absolute top-4 right-4 bg-black/70 text-white p-4 rounded-lg w-80 max-h-[calc(100vh-2rem)] overflow-y-auto space-y-4 text-sm">
+      <h2 className="text-lg font-bold">Simulation Controls</h2>
+
+      {/* Playback */}
+      <div className="flex items-center gap-2">
+        <button
+          className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+          onClick={onTogglePause}
+        >
+          {paused ? "Play" : "Pause"}
+        </button>
+        <button
+          className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          onClick={onStep}
+          disabled={!paused}
+        >
+          Step
+        </button>
+        <select
+          className="ml-auto bg-gray-800 rounded px-1 py-1"
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+        >
+          {SPEED_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option}×
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Reproducible runs */}
+      <div className="space-y-2">
+        <label className="flex items-center justify-between gap-2">
+          <span>Seed</span>
+          <input
+            type="number"
+            className="w-32 bg-gray-800 rounded px-1 py-1 text-right"
+            min={0}
+            value={seed}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isInteger(value) && value >= 0) onRestart(value);
+            }}
+          />
+        </label>
+        <div className="flex gap-2">
+          <button
+            className="flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+            onClick={() => onRestart(seed)}
+          >
+            Restart
+          </button>
+          <button
+            className="flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+            onClick={() => onRestart(randomSeed())}
+          >
+            New seed
+          </button>
+          <button
+            className="flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+            onClick={onCopyLink}
+          >
+            Copy link
+          </button>
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Integrator</span>
+        <select
+          className="bg-gray-800 rounded px-1 py-1"
+          value={params.integrator}
+          onChange={(e) =>
+            onParamsChange({ integrator: e.target.value as IntegratorName })
+          }
+        >
+          {INTEGRATORS.map(({ name, label }) => (
+            <option key={name} value={name}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Particle update</span>
+        <select
+          className="bg-gray-800 rounded px-1 py-1"
+          value={gpuParticles ? "gpu" : "cpu"}
+          onChange={(e) => onGpuParticlesChange(e.target.value === "gpu")}
+        >
+          <option value="cpu">CPU</option>
+          <option value="gpu" disabled={!gpuSupported}>
+            GPU{gpuSupported ? "" : " (unsupported)"}
+          </option>
+        </select>
+      </label>
+      {particleStatus && (
+        <p className="text-xs text-gray-300">{particleStatus}</p>
+      )}
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Field model</span>
+        <select
+          className="bg-gray-800 rounded px-1 py-1"
+          value={params.fieldModel}
+          onChange={(e) =>
+            onParamsChange({ fieldModel: e.target.value as FieldModelName })
+          }
+        >
+          {FIELD_MODELS.map(({ name, label }) => (
+            <option key={name} value={name}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Torus model</span>
+        <select
+          className="bg-gray-800 rounded px-1 py-1"
+          value={params.torusModel}
+          onChange={(e) =>
+            onParamsChange({ torusModel: e.target.value as TorusModelName })
+          }
+        >
+          {TORUS_MODELS.map(({ name, label }) => (
+            <option key={name} value={name}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Scene scale</span>
+        <select
+          className="bg-gray-800 rounded px-1 py-1"
+          value={params.sceneScale}
+          onChange={(e) =>
+            onParamsChange(sceneScaleParams(e.target.value as SceneScaleName))
+          }
+        >
+          {SCENE_SCALES.map(({ name, label }) => (
+            <option key={name} value={name}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Europa, Ganymede &amp; Callisto sources</span>
+        <input
+          type="checkbox"
+          checked={params.moonSources}
+          onChange={(e) => onParamsChange({ moonSources: e.target.checked })}
+        />
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Magnetodisc field</span>
+        <input
+          type="checkbox"
+          checked={params.magnetodisc}
+          onChange={(e) => onParamsChange({ magnetodisc: e.target.checked })}
+        />
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Magnetopause &amp; bow shock</span>
+        <input
+          type="checkbox"
+          checked={params.magnetopause}
+          onChange={(e) => onParamsChange({ magnetopause: e.target.checked })}
+        />
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Reference frame</span>
+        <select
+          className="bg-gray-800 rounded px-1 py-1"
+          value={referenceFrame}
+          onChange={(e) =>
+            onReferenceFrameChange(e.target.value as ReferenceFrameName)
+          }
+        >
+          {REFERENCE_FRAMES.map(({ name, label }) => (
+            <option key={name} value={name}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Diagnostics overlay</span>
+        <input
+          type="checkbox"
+          checked={showDiagnostics}
+          onChange={(e) => onShowDiagnosticsChange(e.target.checked)}
+        />
+      </label>
+
+      {children}
+
+      {GROUPS.map((group) => (
+        <div key={group} className="space-y-2">
+          <p className="font-semibold text-blue-400">{group}</p>
+          {PARAM_CONTROLS.filter((control) => control.group === group).map(
+            ({
+              key,
+              label,
+              min,
+              max,
+              step,
+              scale = 1,
+              logarithmic,
+              dipoleOnly,
+              torusModel,
+              randomOnly,
+              steadyWindOnly,
+            }) => {
+              const inactive =
+                (dipoleOnly && params.fieldModel !== "dipole") ||
+                (torusModel !== undefined &&
+                  torusModel !== params.torusModel) ||
+                (randomOnly && scriptedEruptions) ||
+                (steadyWindOnly && (drivenSolarWind || !params.magnetopause));
+              return (
+                <label
+                  key={key}
+                  className={inactive ? "block opacity-50" : "block"}
+                >
+                  <span className="flex justify-between text-xs">
+                    <span>{label}</span>
+                    <span className="text-gray-300">
+                      {formatValue(params[key] * scale, step)}
+                    </span>
+                  </span>
+                  <input
+                    type="range"
+                    className="w-full"
+                    min={toSlider(min, logarithmic)}
+                    max={toSlider(max, logarithmic)}
+                    step={logarithmic ? "any" : step}
+                    disabled={inactive}
+                    value={toSlider(params[key] * scale, logarithmic)}
+                    onChange={(e) =>
+                      onParamsChange({
+                        [key]:
+                          fromSlider(
+                            Number(e.target.value),
+                            step,
+                            logarithmic
+                          ) / scale,
+                      } as Partial<SimulationParams>)
+                    }
+                  />
+                </label>
+              );
+            }
+          )}
+        </div>
+      ))}
+
+      <button
+        className="w-full px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+        onClick={onReset}
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  COLUMN_MAP_HEIGHT,
+  COLUMN_MAP_WIDTH,
+  Diagnostics,
+  ReferenceProfile,
+} from "@/lib/simulation/diagnostics";
+import { MOON_ORBITS, orbitRadius } from "@/lib/simulation/moons";
+import {
+  REFERENCE_FRAMES,
+  ReferenceFrameName,
+} from "@/lib/simulation/reference-frames";
+import { SPECIES } from "@/lib/simulation/species";
+import {
+  SceneScaleName,
+  toJupiterRadii,
+  toKilometresPerSecond,
+} from "@/lib/simulation/units";
+
+interface DiagnosticsPanelProps {
+  diagnostics: Diagnostics | null;
+  torusRadius: number;
+  sceneScale: SceneScaleName;
+  frame: ReferenceFrameName;
+  reference: ReferenceProfile | null;
+  onHoldReference: () => void;
+  onClearReference: () => void;
+}
+
+// A second histogram drawn as a line over the bars, on its own range
+interface Overlay {
+  values: Float32Array;
+  max: number;
+}
+
+interface HistogramProps {
+  label: string;
+  values: Float32Array;
+  range: [number, number];
+  unit: string;
+  markers?: { value: number; color: string }[];
+  readout?: string;
+  overlay?: Overlay;
+}
+
+// Bar chart of one histogram, with optional vertical marker lines and an
+// overlaid line; each is scaled to its own peak, so shapes compare
+function Histogram({
+  label,
+  values,
+  range: [min, max],
+  unit,
+  markers = [],
+  readout,
+  overlay,
+}: HistogramProps) {
+  const peak = Math.max(1, ...Array.from(values));
+  const toX = (value: number) => ((value - min) / (max - min)) * values.length;
+  const overlayPeak = overlay ? Math.max(1, ...Array.from(overlay.values)) : 1;
+
+  return (
+    <div className="space-y-1">
+      <p className="flex justify-between text-xs">
+        <span>{label}</span>
+        {readout && <span className="text-gray-300">{readout}</span>}
+      </p>
+      <svg
+        className="w-full h-12 bg-gray-900 rounded"
+        viewBox={`0 0 ${values.length} 1`}
+        preserveAspectRatio="none"
+      >
+        {Array.from(values, (value, bin) => (
+          <rect
+            key={bin}
+            x={bin + 0.1}
+            y={1 - value / peak}
+            width={0.8}
+            height={value / peak}
+            fill="#60a5fa"
+          />
+        ))}
+        {overlay && (
+          <polyline
+            points={Array.from(
+              overlay.values,
+              (value, bin) =>
+                `${toX(((bin + 0.5) / overlay.values.length) * overlay.max)},${
+                  1 - value / overlayPeak
+                }`
+            ).join(" ")}
+            fill="none"
+            stroke="#fb923c"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {markers.map(({ value, color }) => (
+          <line
+            key={color}
+            x1={toX(value)}
+            x2={toX(value)}
+            y1={0}
+            y2={1}
+            stroke={color}
+            strokeWidth={0.3}
+          />
+        ))}
+      </svg>
+      <p className="flex justify-between text-[10px] text-gray-400">
+        <span>
+          {Math.round(min * 10) / 10}
+          {unit}
+        </span>
+        <span>
+          {Math.round(max * 10) / 10}
+          {unit}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+// Column density on a logarithmic black-to-white scale
+function ColumnDensityMap({ values }: { values: Float32Array }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    const image = context.createImageData(COLUMN_MAP_WIDTH, COLUMN_MAP_HEIGHT);
+    const peak = Math.log1p(Math.max(1, ...Array.from(values)));
+    values.forEach((value, pixel) => {
+      const level = Math.round((Math.log1p(value) / peak) * 255);
+      image.data[pixel * 4] = level;
+      image.data[pixel * 4 + 1] = Math.round(level * 0.8);
+      image.data[pixel * 4 + 2] = Math.round(level * 0.5);
+      image.data[pixel * 4 + 3] = 255;
+    });
+    context.putImageData(image, 0, 0);
+  }, [values]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={COLUMN_MAP_WIDTH}
+      height={COLUMN_MAP_HEIGHT}
+      className="w-full rounded [image-rendering:pixelated]"
+    />
+  );
+}
+
+export default function DiagnosticsPanel({
+  diagnostics,
+  torusRadius,
+  sceneScale,
+  frame,
+  reference,
+  onHoldReference,
+  onClearReference,
+}: DiagnosticsPanelProps) {
+  // Io-centred distances are from Io, so the torus markers don't apply
+  const jupiterCentred = frame !== "io";
+  const frameLabel = REFERENCE_FRAMES.find(({ name }) => name === frame)!.label;
+  const radii = (units: number) => toJupiterRadii(units, sceneScale);
+  const overlay =
+    reference && reference.frame === frame
+      ? { values: reference.radial, max: radii(reference.maxDistance) }
+      : undefined;
+
+  return (
+    <div className="absolute top-4 right-[22rem] bg-black/70 text-white p-4 rounded-lg w-72 max-h-[calc(100vh-2rem)] overflow-y-auto space-y-3 text-sm">
+      <h2 className="text-lg font-bold">Diagnostics</h2>
+      {!diagnostics ? (
+        <p className="text-gray-400 text-xs">Collecting…</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400">
+            {diagnostics.sampled.toLocaleString()} particles binned of{" "}
+            {diagnostics.particles.toLocaleString()}
+          </p>
+
+          <p className="text-xs text-gray-400">{frameLabel} frame</p>
+
+          <Histogram
+            label={jupiterCentred ? "Radial profile" : "Distance from Io"}
+            values={diagnostics.radial}
+            range={[0, radii(diagnostics.maxDistance)]}
+            unit=" Rⱼ"
+            markers={
+              jupiterCentred
+                ? [
+                    { value: radii(torusRadius), color: "#f472b6" },
+                    {
+                      value: radii(orbitRadius(MOON_ORBITS[0], sceneScale)),
+                      color: "#facc15",
+                    },
+                  ]
+                : []
+            }
+            readout={`peak ${radii(diagnostics.peakRadius).toFixed(2)} Rⱼ`}
+            overlay={overlay}
+          />
+          {jupiterCentred && (
+            <p className="text-[10px] text-gray-400">
+              <span className="text-pink-400">Torus radius</span> ·{" "}
+              <span className="text-yellow-400">Io&apos;s orbit</span>
+            </p>
+          )}
+          <div className="flex items-center justify-between gap-2 text-[10px] text-gray-400">
+            {reference ? (
+              <>
+                <span>
+                  <span className="text-orange-400">{reference.label}</span>
+                  {overlay ? "" : " (held in another frame)"}
+                </span>
+                <button
+                  className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-white"
+                  onClick={onClearReference}
+                >
+                  Clear
+                </button>
+              </>
+            ) : (
+              <>
+                <span>Hold this profile to compare against</span>
+                <button
+                  className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-white"
+                  onClick={onHoldReference}
+                >
+                  Hold
+                </button>
+              </>
+            )}
+          </div>
+
+          <Histogram
+            label="Latitude"
+            values={diagnostics.latitude}
+            range={[-90, 90]}
+            unit="°"
+            readout={`ion scale height ${radii(diagnostics.scaleHeight).toFixed(2)} Rⱼ`}
+          />
+
+          <Histogram
+            label={`${frameLabel} longitude`}
+            values={diagnostics.longitude}
+            range={[0, 360]}
+            unit="°W"
+          />
+
+          {diagnostics.columnDensity && (
+            <div className="space-y-1">
+              <p className="text-xs">Column density (camera view)</p>
+              <ColumnDensityMap values={diagnostics.columnDensity} />
+            </div>
+          )}
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left font-normal">Species</th>
+                <th className="text-right font-normal">Count</th>
+                <th className="text-right font-normal">Mean speed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SPECIES.map(({ key, label }, index) => (
+                <tr key={key}>
+                  <td>{label}</td>
+                  <td className="text-right tabular-nums">
+                    {diagnostics.speciesCounts[index].toLocaleString()}
+                  </td>
+                  <td className="text-right tabular-nums">
+                    {toKilometresPerSecond(
+                      diagnostics.meanSpeed[index],
+                      sceneScale
+                    ).toFixed(1)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-gray-400">
+            Mean speed (km/s) stands in for temperature. Distances are in
+            Jupiter radii at the{" "}
+            {sceneScale === "true" ? "true" : "artistic orbits'"} scale.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import {
+  dateFromJulianDay,
+  EPHEMERIS_RATES,
+  JupiterEphemeris,
+  julianDay,
+} from "@/lib/simulation/ephemeris";
+import { EphemerisClock } from "@/lib/simulation/plasma-torus-simulation";
+
+interface EphemerisControlsProps {
+  clock: EphemerisClock | null;
+  ephemeris: JupiterEphemeris | null;
+  onClockChange: (clock: EphemerisClock | null) => void;
+}
+
+// datetime-local inputs have no time zone, so they are read and written as UTC
+const toInputValue = (jd: number) =>
+  dateFromJulianDay(jd).toISOString().slice(0, 16);
+
+const fromInputValue = (value: string) => {
+  const time = Date.parse(`${value}:00Z`);
+  return Number.isFinite(time) ? julianDay(new Date(time)) : null;
+};
+
+export default function EphemerisControls({
+  clock,
+  ephemeris,
+  onClockChange,
+}: EphemerisControlsProps) {
+  const daysPerSecond = clock
+    ? clock.daysPerSecond
+    : EPHEMERIS_RATES[0].daysPerSecond;
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-blue-400">Real date (UTC)</span>
+        <input
+          type="checkbox"
+          checked={clock !== null}
+          onChange={(e) =>
+            onClockChange(
+              e.target.checked
+                ? { epoch: julianDay(new Date()), daysPerSecond }
+                : null
+            )
+          }
+        />
+      </label>
+
+      {clock && (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="datetime-local"
+              className="flex-1 bg-gray-800 rounded px-1 py-1"
+              value={toInputValue(clock.epoch)}
+              onChange={(e) => {
+                const epoch = fromInputValue(e.target.value);
+                if (epoch !== null) onClockChange({ ...clock, epoch });
+              }}
+            />
+            <button
+              className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+              onClick={() =>
+                onClockChange({ ...clock, epoch: julianDay(new Date()) })
+              }
+            >
+              Now
+            </button>
+          </div>
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Rate</span>
+            <select
+              className="bg-gray-800 rounded px-1 py-1"
+              value={daysPerSecond}
+              onChange={(e) =>
+                onClockChange({
+                  ...clock,
+                  daysPerSecond: Number(e.target.value),
+                })
+              }
+            >
+              {EPHEMERIS_RATES.map(({ label, daysPerSecond }) => (
+                <option key={label} value={daysPerSecond}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {ephemeris && (
+            <div className="text-xs text-gray-300 space-y-1">
+              <p>{dateFromJulianDay(ephemeris.julianDay).toISOString()}</p>
+              <p>
+                Central meridian (System III):{" "}
+                {ephemeris.centralMeridian.toFixed(1)}°
+              </p>
+              <p>
+                Io System III longitude: {ephemeris.ioSystemIII.toFixed(1)}°
+              </p>
+              <p>
+                Io orbital phase: {ephemeris.longitudes.io.toFixed(1)}° from
+                superior conjunction
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ERUPTION_SCENARIOS,
+  EruptionScenario,
+  eventStrength,
+  scenarioEnd,
+} from "@/lib/simulation/eruption-scenarios";
+import { EruptionEvent } from "@/lib/simulation/time-series";
+import { IO_VOLCANOES } from "@/lib/simulation/volcanoes";
+
+// Copies of an ActivityTrace's samples
+export interface ActivitySamples {
+  times: number[];
+  live: number[];
+  eruptions: EruptionEvent[];
+}
+
+interface EruptionTimelineProps {
+  scenario: EruptionScenario | null; // Null for random eruptions
+  time: number;
+  activity: ActivitySamples;
+  capacity: number;
+  status: string | null;
+  onScenarioChange: (scenario: EruptionScenario | null) => void;
+  onLoadScenario: (file: File) => void;
+  onSaveScenario: () => void;
+}
+
+const SPAN = 120; // Seconds shown at once
+const LEAD = 0.4; // Share of the view ahead of now while following the run
+const WIDTH = 300;
+const GUTTER = 56; // Volcano names
+const LANE = 8;
+const TRACE = 36; // Height of the particle-count trace
+const PROFILE_SAMPLES = 24; // Points along each event's output curve
+
+const BUTTON = "flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600";
+
+export default function EruptionTimeline({
+  scenario,
+  time,
+  activity,
+  capacity,
+  status,
+  onScenarioChange,
+  onLoadScenario,
+  onSaveScenario,
+}: EruptionTimelineProps) {
+  const [viewTime, setViewTime] = useState<number | null>(null); // Null follows the run
+
+  const start =
+    viewTime === null
+      ? Math.max(0, time - SPAN * (1 - LEAD))
+      : viewTime - SPAN / 2;
+  const end = start + SPAN;
+  const x = (t: number) => GUTTER + ((t - start) / SPAN) * (WIDTH - GUTTER);
+  const lanesTop = TRACE + 4;
+  const height = lanesTop + IO_VOLCANOES.length * LANE;
+  const laneY = (volcano: string | number) =>
+    lanesTop +
+    (typeof volcano === "number"
+      ? volcano
+      : IO_VOLCANOES.findIndex(({ name }) => name === volcano)) *
+      LANE;
+
+  const peakStrength = scenario
+    ? Math.max(1, ...scenario.events.map(({ strength }) => strength))
+    : 1;
+  const scrubEnd = Math.max(time, scenario ? scenarioEnd(scenario) : 0, SPAN);
+
+  const tracePoints = activity.times
+    .map((t, i) =>
+      t >= start && t <= end
+        ? `${x(t)},${TRACE - (activity.live[i] / Math.max(1, capacity)) * TRACE}`
+        : null
+    )
+    .filter((point) => point !== null)
+    .join(" ");
+
+  const presetIndex = scenario ? ERUPTION_SCENARIOS.indexOf(scenario) : -1;
+  const mode = !scenario
+    ? "random"
+    : presetIndex >= 0
+      ? String(presetIndex)
+      : "custom";
+
+  return (
+    <div className="space-y-2">
+      <p className="font-semibold text-blue-400">Eruption timeline</p>
+
+      <select
+        className="w-full bg-gray-800 rounded px-1 py-1 text-xs"
+        value={mode}
+        onChange={(e) =>
+          onScenarioChange(
+            e.target.value === "random"
+              ? null
+              : ERUPTION_SCENARIOS[Number(e.target.value)]
+          )
+        }
+      >
+        <option value="random">Random eruptions</option>
+        {ERUPTION_SCENARIOS.map(({ name }, index) => (
+          <option key={name} value={index}>
+            Scenario: {name}
+          </option>
+        ))}
+        {mode === "custom" && (
+          <option value="custom">Loaded: {scenario?.name}</option>
+        )}
+      </select>
+      {scenario?.description && (
+        <p className="text-xs text-gray-400">{scenario.description}</p>
+      )}
+      {mode === "custom" && (
+        <p className="text-xs text-gray-400">
+          Loaded files are not included in shared links
+        </p>
+      )}
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full bg-gray-900 rounded"
+      >
+        <text x={2} y={10} className="fill-gray-400" fontSize={7}>
+          Live particles
+        </text>
+        <polyline
+          points={tracePoints}
+          fill="none"
+          stroke="rgb(96 165 250)"
+          strokeWidth={1}
+        />
+
+        {IO_VOLCANOES.map(({ name }, index) => (
+          <text
+            key={name}
+            x={2}
+            y={laneY(index) + LANE - 1.5}
+            className="fill-gray-400"
+            fontSize={6}
+          >
+            {name}
+          </text>
+        ))}
+
+        {scenario?.events.map((event, index) => {
+          const eventEnd = event.start + event.duration;
+          if (eventEnd < start || event.start > end) return null;
+          const top = laneY(event.volcano);
+          const points = Array.from({ length: PROFILE_SAMPLES + 1 }, (_, i) => {
+            const t = event.start + (event.duration * i) / PROFILE_SAMPLES;
+            const output = eventStrength(event, Math.min(t, eventEnd - 1e-6));
+            return `${x(t)},${top + LANE - (output / peakStrength) * (LANE - 1)}`;
+          });
+          const fill =
+            eventEnd <= time
+              ? "rgb(120 53 15)" // Over
+              : event.start <= time
+                ? "rgb(249 115 22)" // Erupting
+                : "rgb(253 186 116)"; // To come
+          return (
+            <polygon
+              key={index}
+              points={`${x(event.start)},${top + LANE} ${points.join(" ")} ${x(eventEnd)},${top + LANE}`}
+              fill={fill}
+              fillOpacity={event.start > time ? 0.5 : 1}
+            >
+              <title>
+                {event.label ?? event.volcano}: {event.strength}× from{" "}
+                {event.start} s for {event.duration} s, {event.decay}
+              </title>
+            </polygon>
+          );
+        })}
+
+        {activity.eruptions
+          .filter(({ time: t }) => t >= start && t <= end)
+          .map(({ time: t, volcano }, index) => (
+            <circle
+              key={index}
+              cx={x(t)}
+              cy={laneY(volcano) + LANE / 2}
+              r={2}
+              fill="rgb(249 115 22)"
+            />
+          ))}
+
+        {time >= start && time <= end && (
+          <line
+            x1={x(time)}
+            x2={x(time)}
+            y1={0}
+            y2={height}
+            stroke="white"
+            strokeWidth={0.75}
+          />
+        )}
+      </svg>
+
+      <div className="flex items-center gap-2 text-xs">
+        <input
+          type="range"
+          className="flex-1"
+          min={0}
+          max={scrubEnd}
+          step={1}
+          value={viewTime ?? Math.min(time, scrubEnd)}
+          onChange={(e) => setViewTime(Number(e.target.value))}
+        />
+        <button
+          className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          disabled={viewTime === null}
+          onClick={() => setViewTime(null)}
+        >
+          Live
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 tabular-nums">
+        {start.toFixed(0)}–{end.toFixed(0)} s · now {time.toFixed(0)} s
+      </p>
+
+      <div className="flex gap-2 text-xs">
+        <label className={`${BUTTON} text-center cursor-pointer`}>
+          Load JSON
+          <input
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadScenario(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <button className={BUTTON} onClick={onSaveScenario}>
+          Save JSON
+        </button>
+      </div>
+      {status && <p className="text-xs text-gray-300">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { ExportFormat } from "@/lib/run-export";
+
+interface ExportControlsProps {
+  recording: boolean;
+  samples: number;
+  eruptions: number;
+  status: string | null;
+  onExportSnapshot: (format: ExportFormat) => void;
+  onImportSnapshot: (file: File) => void;
+  onRecordingChange: (recording: boolean) => void;
+  onExportTimeSeries: (format: ExportFormat) => void;
+  onClearTimeSeries: () => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+  { format: "npz", label: "NumPy" },
+];
+
+const BUTTON = "flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600";
+
+export default function ExportControls({
+  recording,
+  samples,
+  eruptions,
+  status,
+  onExportSnapshot,
+  onImportSnapshot,
+  onRecordingChange,
+  onExportTimeSeries,
+  onClearTimeSeries,
+}: ExportControlsProps) {
+  return (
+    <div className="space-y-2">
+      <p className="font-semibold text-blue-400">Export</p>
+
+      <div className="space-y-1">
+        <p className="text-xs">Snapshot of every particle</p>
+        <div className="flex gap-2">
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              className={BUTTON}
+              onClick={() => onExportSnapshot(format)}
+            >
+              {label}
+            </button>
+          ))}
+          <label className={`${BUTTON} text-center cursor-pointer`}>
+            Import
+            <input
+              type="file"
+              accept=".json,.npz"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportSnapshot(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center justify-between gap-2 text-xs">
+          <span>
+            Record time series
+            <span className="text-gray-400">
+              {" "}
+              ({samples} samples, {eruptions} eruptions)
+            </span>
+          </span>
+          <input
+            type="checkbox"
+            checked={recording}
+            onChange={(e) => onRecordingChange(e.target.checked)}
+          />
+        </label>
+        <div className="flex gap-2">
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              className={`${BUTTON} disabled:opacity-50`}
+              disabled={samples === 0}
+              onClick={() => onExportTimeSeries(format)}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            className={`${BUTTON} disabled:opacity-50`}
+            disabled={samples === 0}
+            onClick={onClearTimeSeries}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {status && <p className="text-xs text-gray-300">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import {
+  EMISSION_LINES,
+  EmissionLineName,
+} from "@/lib/simulation/emission-lines";
+import {
+  OBSERVERS,
+  ObservationFormat,
+  ObservationSettings,
+  ObserverName,
+} from "@/lib/synthetic-observation";
+
+interface ObservationControlsProps {
+  supported: boolean;
+  busy: boolean;
+  status: string | null;
+  preview: string | null; // Object URL of the last image
+  onObserve: (settings: ObservationSettings) => void;
+}
+
+const BUTTON =
+  "w-full px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50";
+const INPUT = "w-20 bg-gray-800 rounded px-1";
+
+export default function ObservationControls({
+  supported,
+  busy,
+  status,
+  preview,
+  onObserve,
+}: ObservationControlsProps) {
+  const [observer, setObserver] = useState<ObserverName>("earth");
+  const [line, setLine] = useState<EmissionLineName>("sii-673");
+  const [width, setWidth] = useState(640);
+  const [height, setHeight] = useState(320);
+  const [pixelScale, setPixelScale] = useState(OBSERVERS[0].pixelScale);
+  const [psf, setPsf] = useState(1);
+  const [format, setFormat] = useState<ObservationFormat>("fits");
+
+  // Each observer starts from a pixel scale that frames the torus
+  const changeObserver = (name: ObserverName) => {
+    const option = OBSERVERS.find((entry) => entry.name === name)!;
+    setObserver(name);
+    setPixelScale(option.pixelScale);
+    setPsf(2 * option.pixelScale);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="font-semibold text-blue-400">Synthetic observation</p>
+
+      <div className="flex items-center gap-2 text-xs">
+        <select
+          className="flex-1 bg-gray-800 rounded px-1"
+          value={observer}
+          onChange={(e) => changeObserver(e.target.value as ObserverName)}
+        >
+          {OBSERVERS.map(({ name, label }) => (
+            <option key={name} value={name}>
+              From {label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="flex-1 bg-gray-800 rounded px-1"
+          value={line}
+          onChange={(e) => setLine(e.target.value as EmissionLineName)}
+        >
+          {EMISSION_LINES.map(({ name, label }) => (
+            <option key={name} value={name}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs">
+        <span>Detector</span>
+        <input
+          type="number"
+          className={INPUT}
+          min={16}
+          value={width}
+          onChange={(e) => setWidth(Math.max(16, Math.round(+e.target.value)))}
+        />
+        <input
+          type="number"
+          className={INPUT}
+          min={16}
+          value={height}
+          onChange={(e) => setHeight(Math.max(16, Math.round(+e.target.value)))}
+        />
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-xs">
+        <span>Pixel scale (arcsec)</span>
+        <input
+          type="number"
+          className={INPUT}
+          min={0.001}
+          step="any"
+          value={pixelScale}
+          onChange={(e) => setPixelScale(Math.max(0.001, +e.target.value))}
+        />
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs">
+        <span>PSF FWHM (arcsec)</span>
+        <input
+          type="number"
+          className={INPUT}
+          min={0}
+          step="any"
+          value={psf}
+          onChange={(e) => setPsf(Math.max(0, +e.target.value))}
+        />
+      </label>
+
+      <div className="flex items-center gap-2 text-xs">
+        <select
+          className="flex-1 bg-gray-800 rounded px-1"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ObservationFormat)}
+        >
+          <option value="fits">FITS</option>
+          <option value="png">PNG + WCS sidecar (zip)</option>
+        </select>
+      </div>
+
+      <button
+        className={BUTTON}
+        disabled={busy || !supported}
+        onClick={() =>
+          onObserve({
+            observer,
+            line,
+            width,
+            height,
+            pixelScale,
+            psf,
+            format,
+          })
+        }
+      >
+        Observe
+      </button>
+
+      {!supported && (
+        <p className="text-xs text-gray-400">
+          Needs WebGL 2 with float render targets.
+        </p>
+      )}
+      {status && <p className="text-xs text-gray-300">{status}</p>}
+      {preview && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={preview}
+          alt="Last synthetic observation"
+          className="w-full rounded bg-black"
+          style={{ imageRendering: "pixelated" }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { ParticleDetails } from "@/lib/simulation/particle-inspector";
+import { SPECIES } from "@/lib/simulation/species";
+import { TIME_SCALE } from "@/lib/simulation/units";
+
+interface ParticleInspectorProps {
+  details: ParticleDetails | null;
+  status: string | null; // Shown when there is no particle to describe
+  following: boolean;
+  onFollow: () => void;
+  onClose: () => void;
+}
+
+const BUTTON =
+  "flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50";
+
+const toCss = ([red, green, blue]: number[]) =>
+  `rgb(${red * 255}, ${green * 255}, ${blue * 255})`;
+
+// One label and value row
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-2">
+      <span className="text-gray-400">{label}</span>
+      <span className="tabular-nums text-right">{value}</span>
+    </div>
+  );
+}
+
+export default function ParticleInspector({
+  details,
+  status,
+  following,
+  onFollow,
+  onClose,
+}: ParticleInspectorProps) {
+  const species = details && SPECIES[details.species];
+
+  return (
+    <div className="absolute bottom-20 right-[22rem] bg-black/70 text-white px-4 py-3 rounded-lg text-xs space-y-2 w-60">
+      <p className="flex justify-between font-semibold text-cyan-300">
+        <span>Particle {details ? `#${details.index}` : ""}</span>
+        {species && (
+          <span className="flex items-center gap-1">
+            <span
+              className="inline-block w-2 h-2 rounded-full"
+              style={{ backgroundColor: toCss(species.color) }}
+            />
+            {species.label}
+          </span>
+        )}
+      </p>
+
+      {details ? (
+        <div className="space-y-1">
+          <Row label="Source" value={details.source} />
+          <Row label="Born" value={`t = ${details.birthTime.toFixed(1)} s`} />
+          <Row
+            label="Age"
+            value={`${details.age.toFixed(1)} s (${((details.age * TIME_SCALE) / 3600).toFixed(1)} h real)`}
+          />
+          <Row label="Distance" value={`${details.distance.toFixed(2)} Rⱼ`} />
+          <Row label="Speed" value={`${details.speed.toFixed(1)} km/s`} />
+          <Row
+            label="Field"
+            value={`${Math.round(details.field).toLocaleString()} nT`}
+          />
+          <Row
+            label="L-shell"
+            value={
+              Number.isFinite(details.lShell)
+                ? `${details.lShell.toFixed(2)} Rⱼ`
+                : "Open"
+            }
+          />
+          <Row
+            label="Pitch angle"
+            value={`${details.pitchAngle.toFixed(0)}°`}
+          />
+          <Row label="Generation" value={String(details.generation)} />
+        </div>
+      ) : (
+        <p className="text-gray-400">{status}</p>
+      )}
+
+      <div className="flex gap-2">
+        <button className={BUTTON} disabled={!details} onClick={onFollow}>
+          {following ? "Following" : "Follow"}
+        </button>
+        <button className={BUTTON} onClick={onClose}>
+          Release
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { Vec3 } from "@/lib/simulation/magnetic-field";
+import {
+  fromJupiterRadii,
+  JUPITER_RADIUS_KM,
+  SceneScaleName,
+  toJupiterRadii,
+} from "@/lib/simulation/units";
+
+interface ScaleBarProps {
+  sceneScale: SceneScaleName;
+  unitsPerPixel: number; // Scene units per screen pixel at the orbit target
+  cursor: Vec3 | null; // Point under the pointer on the equatorial plane
+}
+
+const MAX_WIDTH = 120; // Pixels
+
+// Longest 1, 2 or 5 × 10ⁿ that is no longer than `length`
+const roundLength = (length: number) => {
+  const power = 10 ** Math.floor(Math.log10(length));
+  return [5, 2, 1].find((step) => step * power <= length)! * power;
+};
+
+const formatKilometres = (radii: number) =>
+  `${Number((radii * JUPITER_RADIUS_KM).toPrecision(3)).toLocaleString()} km`;
+
+export default function ScaleBar({
+  sceneScale,
+  unitsPerPixel,
+  cursor,
+}: ScaleBarProps) {
+  const radii = (units: number) => toJupiterRadii(units, sceneScale);
+  const length =
+    unitsPerPixel > 0 ? roundLength(radii(MAX_WIDTH * unitsPerPixel)) : 0;
+  const [x, , z] = cursor ?? [0, 0, 0];
+  const distance = radii(Math.hypot(x, z));
+
+  return (
+    <div className="absolute bottom-4 right-[22rem] bg-black/70 text-white px-4 py-2 rounded-lg text-xs space-y-1 tabular-nums">
+      {length > 0 && (
+        <div className="space-y-0.5">
+          <div
+            className="h-1.5 border-x border-b border-white"
+            style={{
+              width: fromJupiterRadii(length, sceneScale) / unitsPerPixel,
+            }}
+          />
+          <p>
+            {length} Rⱼ · {formatKilometres(length)}
+          </p>
+        </div>
+      )}
+      <p className="text-gray-300">
+        {cursor
+          ? `x ${radii(x).toFixed(2)}, z ${radii(z).toFixed(2)} Rⱼ · r ${distance.toFixed(2)} Rⱼ (${formatKilometres(distance)})`
+          : "Point at the equatorial plane"}
+      </p>
+      <p className="text-gray-400">
+        {sceneScale === "true"
+          ? "True scale"
+          : "Artistic scale: orbits drawn closer in"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import {
+  BOW_SHOCK_RATIO,
+  magnetopauseStandoff,
+  SOLAR_WIND_PRESETS,
+  solarWindHours,
+  SolarWindSeries,
+  upstreamPressure,
+} from "@/lib/simulation/magnetosphere";
+
+interface SolarWindControlsProps {
+  series: SolarWindSeries | null; // Null for a steady solar wind
+  steadyPressure: number; // nPa, the solarWindPressure parameter
+  magnetopause: boolean;
+  time: number;
+  status: string | null;
+  onSeriesChange: (series: SolarWindSeries | null) => void;
+  onLoadSeries: (file: File) => void;
+  onSaveSeries: () => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 48;
+const MIN_PRESSURE = 0.01; // nPa, the bottom of the plot's log scale
+const MAX_PRESSURE = 1;
+
+const BUTTON = "flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600";
+
+// Height in the plot for a pressure, on a log scale
+const pressureY = (pressure: number) => {
+  const span = Math.log10(MAX_PRESSURE / MIN_PRESSURE);
+  const fraction = Math.log10(pressure / MIN_PRESSURE) / span;
+  return HEIGHT - Math.min(Math.max(fraction, 0), 1) * HEIGHT;
+};
+
+export default function SolarWindControls({
+  series,
+  steadyPressure,
+  magnetopause,
+  time,
+  status,
+  onSeriesChange,
+  onLoadSeries,
+  onSaveSeries,
+}: SolarWindControlsProps) {
+  const pressure = upstreamPressure(series, steadyPressure, time);
+  const standoff = magnetopauseStandoff(pressure);
+  const hours = solarWindHours(time);
+
+  const samples = series?.samples ?? [];
+  const end = Math.max(1, hours, ...samples.map(({ hours }) => hours));
+  const x = (h: number) => (h / end) * WIDTH;
+  const points = samples
+    .map(({ hours, pressure }) => `${x(hours)},${pressureY(pressure)}`)
+    .join(" ");
+
+  const presetIndex = series ? SOLAR_WIND_PRESETS.indexOf(series) : -1;
+  const mode = !series
+    ? "steady"
+    : presetIndex >= 0
+      ? String(presetIndex)
+      : "custom";
+
+  return (
+    <div className="space-y-2">
+      <p className="font-semibold text-blue-400">Solar wind</p>
+
+      <select
+        className="w-full bg-gray-800 rounded px-1 py-1 text-xs"
+        value={mode}
+        onChange={(e) =>
+          onSeriesChange(
+            e.target.value === "steady"
+              ? null
+              : SOLAR_WIND_PRESETS[Number(e.target.value)]
+          )
+        }
+      >
+        <option value="steady">Steady wind</option>
+        {SOLAR_WIND_PRESETS.map(({ name }, index) => (
+          <option key={name} value={index}>
+            Series: {name}
+          </option>
+        ))}
+        {mode === "custom" && (
+          <option value="custom">Loaded: {series?.name}</option>
+        )}
+      </select>
+      {series?.description && (
+        <p className="text-xs text-gray-400">{series.description}</p>
+      )}
+      {mode === "custom" && (
+        <p className="text-xs text-gray-400">
+          Loaded files are not included in shared links
+        </p>
+      )}
+
+      {series && (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full bg-gray-900 rounded"
+        >
+          <polyline
+            points={[
+              `0,${pressureY(samples[0].pressure)}`,
+              points,
+              `${WIDTH},${pressureY(samples[samples.length - 1].pressure)}`,
+            ].join(" ")}
+            fill="none"
+            stroke="rgb(251 191 36)"
+            strokeWidth={1}
+          />
+          <line
+            x1={x(hours)}
+            x2={x(hours)}
+            y1={0}
+            y2={HEIGHT}
+            stroke="white"
+            strokeWidth={0.75}
+          />
+        </svg>
+      )}
+
+      <p className="text-xs text-gray-300 tabular-nums">
+        {pressure.toFixed(3)} nPa · magnetopause {standoff.toFixed(0)} Rⱼ · bow
+        shock {(standoff * BOW_SHOCK_RATIO).toFixed(0)} Rⱼ
+      </p>
+      <p className="text-xs text-gray-400 tabular-nums">
+        {hours.toFixed(1)} h since the run began
+        {magnetopause ? "" : " · magnetopause off"}
+      </p>
+
+      <div className="flex gap-2 text-xs">
+        <label className={`${BUTTON} text-center cursor-pointer`}>
+          Load JSON
+          <input
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadSeries(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <button className={BUTTON} onClick={onSaveSeries}>
+          Save JSON
+        </button>
+      </div>
+      {status && <p className="text-xs text-gray-300">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { LOSS_CHANNELS } from "@/lib/simulation/lifecycle";
+import { SPECIES } from "@/lib/simulation/species";
+
+interface SpeciesLegendProps {
+  counts: number[]; // Indexed like SPECIES
+  live: number;
+  capacity: number;
+  losses: number[]; // Particles lost so far, indexed like LOSS_CHANNELS
+}
+
+const toCss = ([red, green, blue]: number[]) =>
+  `rgb(${red * 255}, ${green * 255}, ${blue * 255})`;
+
+export default function SpeciesLegend({
+  counts,
+  live,
+  capacity,
+  losses,
+}: SpeciesLegendProps) {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/70 text-white px-4 py-2 rounded-lg text-xs space-y-1">
+      <div className="flex gap-4">
+        {SPECIES.map(({ key, label, charge, color }, index) => (
+          <div key={key} className="flex items-center gap-1">
+            <span
+              className="inline-block w-3 h-3 rounded-full"
+              style={{ backgroundColor: toCss(color) }}
+            />
+            <span className={charge === 0 ? "text-gray-300" : undefined}>
+              {label}
+            </span>
+            <span className="text-gray-400 tabular-nums">
+              {total > 0 ? ((counts[index] / total) * 100).toFixed(0) : 0}%
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-3 text-gray-400 tabular-nums">
+        <span className="text-white">
+          {live.toLocaleString()} / {capacity.toLocaleString()} live
+        </span>
+        {LOSS_CHANNELS.map(({ name, label }, index) => (
+          <span key={name}>
+            {label} {(losses[index] ?? 0).toLocaleString()}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
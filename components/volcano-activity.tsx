@@ -0,0 +1,30 @@
+"use client";
+
+import { IO_VOLCANOES } from "@/lib/simulation/volcanoes";
+
+interface VolcanoActivityProps {
+  erupting: boolean[]; // Indexed like IO_VOLCANOES
+}
+
+export default function VolcanoActivity({ erupting }: VolcanoActivityProps) {
+  const active = IO_VOLCANOES.filter((_, index) => erupting[index]);
+
+  return (
+    <div className="absolute bottom-4 left-4 bg-black/70 text-white px-4 py-2 rounded-lg text-xs space-y-1 w-48">
+      <p className="font-semibold text-orange-400">Erupting on Io</p>
+      {active.length === 0 ? (
+        <p className="text-gray-400">All volcanoes quiet</p>
+      ) : (
+        active.map(({ name, plumeHeight, so2Output }) => (
+          <div key={name} className="flex items-center gap-2">
+            <span className="inline-block w-2 h-2 rounded-full bg-orange-500 animate-pulse" />
+            <span>{name}</span>
+            <span className="ml-auto text-gray-400 tabular-nums">
+              {plumeHeight} km · {so2Output} t/s
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  CameraKeyframe,
+  CameraShot,
+  DEFAULT_FOV,
+  keyframeAt,
+  parseCameraPath,
+  sampleCameraPath,
+} from "./camera-path";
+
+const PATH: CameraKeyframe[] = [
+  { time: 0, position: [20, 5, 0], target: [0, 0, 0] },
+  { time: 2, position: [0, 5, 20], target: [0, 0, 0], fov: 50 },
+  { time: 5, position: [-20, 10, 0], target: [6, 0, 0] },
+];
+
+const shot = (): CameraShot => ({
+  position: [0, 0, 0],
+  target: [0, 0, 0],
+  fov: 0,
+});
+
+describe("camera path", () => {
+  test("the spline passes through every keyframe", () => {
+    for (const keyframe of PATH) {
+      const { position, target, fov } = sampleCameraPath(
+        PATH,
+        keyframe.time,
+        shot()
+      );
+      assert.deepEqual(position, keyframe.position);
+      assert.deepEqual(target, keyframe.target);
+      assert.equal(fov, keyframe.fov ?? DEFAULT_FOV);
+    }
+  });
+
+  test("the camera holds still before the first and after the last keyframe", () => {
+    assert.deepEqual(sampleCameraPath(PATH, -3, shot()).position, [20, 5, 0]);
+    assert.deepEqual(sampleCameraPath(PATH, 9, shot()).position, [-20, 10, 0]);
+  });
+
+  test("the camera moves smoothly between keyframes", () => {
+    let previous = sampleCameraPath(PATH, 0, shot());
+    for (let time = 0.05; time <= 5; time += 0.05) {
+      const next = sampleCameraPath(PATH, time, shot());
+      const step = Math.hypot(
+        next.position[0] - previous.position[0],
+        next.position[1] - previous.position[1],
+        next.position[2] - previous.position[2]
+      );
+      assert.ok(step < 1.5, `jump of ${step} at ${time}`);
+      previous = next;
+    }
+  });
+
+  test("keyframeAt finds the keyframe most recently passed", () => {
+    assert.equal(keyframeAt(PATH, -1), -1);
+    assert.equal(keyframeAt(PATH, 0), 0);
+    assert.equal(keyframeAt(PATH, 4.9), 1);
+    assert.equal(keyframeAt(PATH, 100), 2);
+  });
+
+  test("paths are validated and sorted by time", () => {
+    const path = parseCameraPath([PATH[2], PATH[0], PATH[1]]);
+    assert.deepEqual(
+      path.map(({ time }) => time),
+      [0, 2, 5]
+    );
+    for (const bad of [
+      {},
+      [{ ...PATH[0], time: "soon" }],
+      [{ ...PATH[0], position: [1, 2] }],
+      [{ ...PATH[0], fov: 180 }],
+    ]) {
+      assert.throws(() => parseCameraPath(bad), /Malformed camera path/);
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { CameraPose, Triple } from "./scenario-url";
+
+// The perspective camera's vertical field of view unless a keyframe sets one
+export const DEFAULT_FOV = 75;
+
+// Sections of the info panel a narrated keyframe can point at
+export type InfoSection = "volcanoes" | "plasma" | "moons" | "field";
+
+export const INFO_SECTIONS: InfoSection[] = [
+  "volcanoes",
+  "plasma",
+  "moons",
+  "field",
+];
+
+/**
+ * A camera pose pinned to a time, in seconds into a recording or tour. Tour
+ * keyframes may also carry narration shown from that time on, and the info
+ * panel section it refers to.
+ */
+export interface CameraKeyframe extends CameraPose {
+  time: number;
+  fov?: number; // Degrees; DEFAULT_FOV when left out
+  narration?: string;
+  section?: InfoSection;
+}
+
+// Where the camera is, what it looks at and how wide it sees
+export interface CameraShot extends CameraPose {
+  fov: number;
+}
+
+const isTriple = (value: unknown): value is Triple =>
+  Array.isArray(value) &&
+  value.length === 3 &&
+  value.every((component) => Number.isFinite(component));
+
+/**
+ * Validate a scripted camera path, e.g. parsed from JSON, and sort it by
+ * time. Throws on anything that is not a list of keyframes.
+ */
+export const parseCameraPath = (value: unknown): CameraKeyframe[] => {
+  if (!Array.isArray(value)) throw new Error("Malformed camera path");
+  return value
+    .map((keyframe) => {
+      if (
+        typeof keyframe !== "object" ||
+        keyframe === null ||
+        !Number.isFinite(keyframe.time) ||
+        !isTriple(keyframe.position) ||
+        !isTriple(keyframe.target) ||
+        (keyframe.fov !== undefined &&
+          !(keyframe.fov > 0 && keyframe.fov < 180)) ||
+        (keyframe.narration !== undefined &&
+          typeof keyframe.narration !== "string") ||
+        (keyframe.section !== undefined &&
+          !INFO_SECTIONS.includes(keyframe.section))
+      ) {
+        throw new Error("Malformed camera path");
+      }
+      const { time, position, target, fov, narration, section } =
+        keyframe as CameraKeyframe;
+      return { time, position, target, fov, narration, section };
+    })
+    .sort((a, b) => a.time - b.time);
+};
+
+// Uniform Catmull-Rom interpolation between p1 and p2
+const catmullRom = (
+  p0: number,
+  p1: number,
+  p2: number,
+  p3: number,
+  u: number
+) =>
+  0.5 *
+  (2 * p1 +
+    (p2 - p0) * u +
+    (2 * p0 - 5 * p1 + 4 * p2 - p3) * u * u +
+    (3 * p1 - p0 - 3 * p2 + p3) * u * u * u);
+
+// Index of the keyframe most recently passed at `time`, or -1 before the first
+export const keyframeAt = (path: CameraKeyframe[], time: number) => {
+  let index = -1;
+  while (index < path.length - 1 && path[index + 1].time <= time) index++;
+  return index;
+};
+
+/**
+ * Camera shot along a path at `time`, written into `out`. The path passes
+ * through every keyframe on a smooth spline and holds still before the
+ * first and after the last.
+ */
+export const sampleCameraPath = (
+  path: CameraKeyframe[],
+  time: number,
+  out: CameraShot
+): CameraShot => {
+  let i = 0;
+  while (i < path.length - 2 && time >= path[i + 1].time) i++;
+  const k1 = path[i];
+  const k2 = path[Math.min(i + 1, path.length - 1)];
+  const k0 = path[Math.max(i - 1, 0)];
+  const k3 = path[Math.min(i + 2, path.length - 1)];
+  const span = k2.time - k1.time;
+  const u = span > 0 ? Math.min(Math.max((time - k1.time) / span, 0), 1) : 0;
+
+  (["position", "target"] as const).forEach((key) => {
+    for (let axis = 0; axis < 3; axis++) {
+      out[key][axis] = catmullRom(
+        k0[key][axis],
+        k1[key][axis],
+        k2[key][axis],
+        k3[key][axis],
+        u
+      );
+    }
+  });
+  const fov = (keyframe: CameraKeyframe) => keyframe.fov ?? DEFAULT_FOV;
+  out.fov = catmullRom(fov(k0), fov(k1), fov(k2), fov(k3), u);
+  return out;
+};
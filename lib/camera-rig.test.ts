@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  CAMERA_PRESETS,
+  CameraAnchor,
+  cameraPreset,
+  followAnchor,
+} from "./camera-rig";
+import { GUIDED_TOUR, parseTour } from "./camera-tours";
+import { FIXED_TIMESTEP } from "./simulation/params";
+import { PlasmaTorusSimulation } from "./simulation/plasma-torus-simulation";
+
+const anchor = (): CameraAnchor => ({ point: [0, 0, 0], angle: 0 });
+
+const run = () => {
+  const simulation = new PlasmaTorusSimulation({ maxParticles: 500 }, 11);
+  for (let i = 0; i < 120; i++) simulation.step(FIXED_TIMESTEP);
+  return simulation;
+};
+
+describe("camera rig", () => {
+  test("following a moon carries the camera with it", () => {
+    const simulation = run();
+    const { point, angle } = followAnchor(
+      { type: "moon", moon: "europa" },
+      simulation,
+      anchor()
+    )!;
+    assert.deepEqual(point, Array.from(simulation.moonPositions.europa));
+    assert.equal(angle, 0);
+  });
+
+  test("riding with Io turns the camera with Io's orbit", () => {
+    const simulation = run();
+    const { point, angle } = followAnchor(
+      { type: "io-orbit" },
+      simulation,
+      anchor()
+    )!;
+    const [x, , z] = simulation.ioPosition;
+    assert.deepEqual(point, Array.from(simulation.ioPosition));
+    assert.ok(Math.abs(Math.cos(angle) - x / Math.hypot(x, z)) < 1e-12);
+    assert.ok(Math.abs(Math.sin(angle) + z / Math.hypot(x, z)) < 1e-12);
+  });
+
+  test("the co-rotating frame turns with Jupiter about its centre", () => {
+    const simulation = run();
+    const { point, angle } = followAnchor(
+      { type: "corotating" },
+      simulation,
+      anchor()
+    )!;
+    assert.deepEqual(point, [0, 0, 0]);
+    assert.equal(angle, simulation.jupiterRotation);
+  });
+
+  test("a followed particle is dropped once its slot is free", () => {
+    const simulation = run();
+    const index = simulation.alive.indexOf(1);
+    assert.ok(index >= 0);
+    const follow = { type: "particle", index } as const;
+    assert.deepEqual(
+      followAnchor(follow, simulation, anchor())?.point,
+      Array.from(simulation.positions.subarray(index * 3, index * 3 + 3))
+    );
+    simulation.lose(index, 0);
+    assert.equal(followAnchor(follow, simulation, anchor()), null);
+    assert.equal(followAnchor({ type: "none" }, simulation, anchor()), null);
+  });
+
+  test("every preset opens on a shot with a target and a field of view", () => {
+    const simulation = run();
+    for (const { name } of CAMERA_PRESETS) {
+      const { shot } = cameraPreset(name, simulation);
+      assert.ok(shot.fov > 0 && shot.fov < 180, name);
+      assert.notDeepEqual(shot.position, shot.target, name);
+    }
+    const { shot, follow } = cameraPreset("io", simulation);
+    assert.deepEqual(shot.target, Array.from(simulation.ioPosition));
+    assert.deepEqual(follow, { type: "io-orbit" });
+  });
+});
+
+describe("camera tours", () => {
+  test("the guided tour survives a round trip through JSON", () => {
+    const tour = parseTour(JSON.parse(JSON.stringify(GUIDED_TOUR)));
+    assert.equal(JSON.stringify(tour), JSON.stringify(GUIDED_TOUR));
+  });
+
+  test("tours need a name and valid narrated keyframes", () => {
+    const [keyframe] = GUIDED_TOUR.keyframes;
+    for (const bad of [
+      null,
+      { keyframes: [keyframe] },
+      { name: "Tour", keyframes: [{ ...keyframe, section: "rings" }] },
+      { name: "Tour", keyframes: [{ ...keyframe, narration: 7 }] },
+    ]) {
+      assert.throws(() => parseTour(bad), /Malformed/);
+    }
+  });
+});
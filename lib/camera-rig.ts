@@ -0,0 +1,136 @@
+import { CameraShot, DEFAULT_FOV } from "./camera-path";
+import { Vec3 } from "./simulation/magnetic-field";
+import { MoonName } from "./simulation/moons";
+import { SimulationSource } from "./simulation/simulation-worker-client";
+
+/**
+ * What the camera moves with. Following a moon or particle carries the
+ * camera along with it; riding along with Io also turns it with Io around
+ * Jupiter, and the co-rotating frame turns it with Jupiter's spin, so the
+ * view holds still in that frame.
+ */
+export type CameraFollow =
+  | { type: "none" }
+  | { type: "moon"; moon: MoonName }
+  | { type: "particle"; index: number }
+  | { type: "io-orbit" }
+  | { type: "corotating" };
+
+// The point the camera is carried along with, and the angle about the
+// rotation axis it turns with
+export interface CameraAnchor {
+  point: Vec3;
+  angle: number;
+}
+
+const setPoint = (out: CameraAnchor, x: number, y: number, z: number) => {
+  out.point[0] = x;
+  out.point[1] = y;
+  out.point[2] = z;
+};
+
+// Where the followed subject is now, or null if there is nothing to follow
+export const followAnchor = (
+  follow: CameraFollow,
+  simulation: SimulationSource,
+  out: CameraAnchor
+): CameraAnchor | null => {
+  out.angle = 0;
+  switch (follow.type) {
+    case "moon": {
+      const [x, y, z] = simulation.moonPositions[follow.moon];
+      setPoint(out, x, y, z);
+      return out;
+    }
+    case "particle": {
+      if (!simulation.alive[follow.index]) return null;
+      const { positions } = simulation;
+      const offset = follow.index * 3;
+      setPoint(
+        out,
+        positions[offset],
+        positions[offset + 1],
+        positions[offset + 2]
+      );
+      return out;
+    }
+    case "io-orbit": {
+      const [x, y, z] = simulation.ioPosition;
+      setPoint(out, x, y, z);
+      out.angle = Math.atan2(-z, x); // Prograde runs from +x towards -z
+      return out;
+    }
+    case "corotating":
+      setPoint(out, 0, 0, 0);
+      out.angle = simulation.jupiterRotation;
+      return out;
+    default:
+      return null;
+  }
+};
+
+export type CameraPresetName =
+  "equatorial" | "pole" | "io" | "corotating" | "earth";
+
+export const CAMERA_PRESETS: { name: CameraPresetName; label: string }[] = [
+  { name: "equatorial", label: "Equatorial" },
+  { name: "pole", label: "Pole-on" },
+  { name: "io", label: "Ride with Io" },
+  { name: "corotating", label: "Co-rotating" },
+  { name: "earth", label: "From Earth" },
+];
+
+// Earth lies along -x in the ephemeris; from that far away the system only
+// fills a telescope-like field of view
+const EARTH_DISTANCE = 250;
+const EARTH_FOV = 15;
+
+/**
+ * The opening shot of a preset for the simulation's current state, and what
+ * the camera follows from there.
+ */
+export const cameraPreset = (
+  name: CameraPresetName,
+  simulation: SimulationSource
+): { shot: CameraShot; follow: CameraFollow } => {
+  switch (name) {
+    case "equatorial":
+      return {
+        shot: { position: [0, 2, 45], target: [0, 0, 0], fov: DEFAULT_FOV },
+        follow: { type: "none" },
+      };
+    case "pole":
+      // Slightly off the axis, where the camera's up direction is defined
+      return {
+        shot: { position: [0, 70, 0.01], target: [0, 0, 0], fov: DEFAULT_FOV },
+        follow: { type: "none" },
+      };
+    case "io": {
+      // Just outside Io's orbit, looking back past Io at Jupiter
+      const [x, y, z] = simulation.ioPosition;
+      const scale = 1 + 4 / Math.hypot(x, z);
+      return {
+        shot: {
+          position: [x * scale, y + 1.5, z * scale],
+          target: [x, y, z],
+          fov: 60,
+        },
+        follow: { type: "io-orbit" },
+      };
+    }
+    case "corotating":
+      return {
+        shot: { position: [0, 20, 40], target: [0, 0, 0], fov: DEFAULT_FOV },
+        follow: { type: "corotating" },
+      };
+    case "earth":
+      return {
+        shot: {
+          position: [-EARTH_DISTANCE, 0, 0],
+          target: [0, 0, 0],
+          fov: EARTH_FOV,
+        },
+        follow: { type: "none" },
+      };
+  }
+};
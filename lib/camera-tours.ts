@@ -0,0 +1,71 @@
+import { CameraKeyframe, parseCameraPath } from "./camera-path";
+
+/**
+ * A named, narrated camera path. Saved tours are plain JSON in this shape, so
+ * they can be edited by hand and loaded again.
+ */
+export interface Tour {
+  name: string;
+  keyframes: CameraKeyframe[];
+}
+
+export const parseTour = (value: unknown): Tour => {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Malformed tour");
+  }
+  const { name, keyframes } = value as Partial<Tour>;
+  if (typeof name !== "string") throw new Error("Malformed tour");
+  return { name, keyframes: parseCameraPath(keyframes) };
+};
+
+// A short introduction that walks through the info panel's sections
+export const GUIDED_TOUR: Tour = {
+  name: "Guided tour",
+  keyframes: [
+    {
+      time: 0,
+      position: [0, 20, 40],
+      target: [0, 0, 0],
+      narration:
+        "Io orbits Jupiter inside a ring of plasma it supplies itself: the Io plasma torus.",
+    },
+    {
+      time: 6,
+      position: [17, 3, 4],
+      target: [12, 0, 0],
+      fov: 50,
+      narration:
+        "Io's volcanoes throw sulfur dioxide hundreds of kilometres up, seeding a neutral cloud along its orbit.",
+      section: "volcanoes",
+    },
+    {
+      time: 14,
+      position: [4, 6, 24],
+      target: [6, 0, 6],
+      narration:
+        "Sulfur and oxygen break apart and are ionized, and the new ions are swept up by the magnetic field.",
+      section: "plasma",
+    },
+    {
+      time: 22,
+      position: [0, 70, 0.01],
+      target: [0, 0, 0],
+      narration:
+        "From above the pole, Europa, Ganymede and Callisto circle further out in the Laplace resonance.",
+      section: "moons",
+    },
+    {
+      time: 30,
+      position: [-30, 6, 16],
+      target: [0, 0, 0],
+      narration:
+        "Jupiter's tilted field drags the torus around once every ten hours, and Io's flux tube links it to the aurora.",
+      section: "field",
+    },
+    {
+      time: 38,
+      position: [0, 20, 40],
+      target: [0, 0, 0],
+    },
+  ],
+};
@@ -0,0 +1,195 @@
+// Offline capture of the WebGL canvas: stills, WebM video and zipped PNG
+// sequences rendered at a fixed resolution, independent of the window size
+// and of how long each frame takes to render
+
+import * as THREE from "three";
+import { CameraKeyframe } from "./camera-path";
+import { ZipWriter } from "./zip";
+
+export type CaptureFormat = "webm" | "png";
+
+export interface CaptureSettings {
+  width: number;
+  height: number;
+  transparent: boolean; // Leave the background out, for PNG output
+}
+
+export interface RecordingSettings extends CaptureSettings {
+  frames: number; // One simulation step per frame
+  fps: number;
+  format: CaptureFormat;
+  path: CameraKeyframe[]; // Empty to keep the interactive camera
+}
+
+export const CAPTURE_RESOLUTIONS: [number, number][] = [
+  [1280, 720],
+  [1920, 1080],
+  [2560, 1440],
+  [3840, 2160],
+];
+
+const WEBM_TYPES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+// Bits per pixel per frame; generous, since the particles are mostly noise
+const WEBM_BITS_PER_PIXEL = 0.15;
+
+const delay = (ms: number) =>
+  new Promise((resolve) => window.setTimeout(resolve, ms));
+
+export const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode PNG")),
+      "image/png"
+    )
+  );
+
+/**
+ * Renders the scene at a fixed size and copies each frame into its own 2D
+ * canvas. While open, the renderer's drawing buffer is resized (its CSS size
+ * is left alone, so the page layout does not move) and the camera's aspect
+ * ratio matches the capture; close() puts both back.
+ */
+export class FrameCapture {
+  readonly canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private size = new THREE.Vector2();
+  private pixelRatio: number;
+  private aspect: number;
+  private background: THREE.Scene["background"];
+
+  constructor(
+    private renderer: THREE.WebGLRenderer,
+    private scene: THREE.Scene,
+    private camera: THREE.PerspectiveCamera,
+    { width, height, transparent }: CaptureSettings
+  ) {
+    renderer.getSize(this.size);
+    this.pixelRatio = renderer.getPixelRatio();
+    this.aspect = camera.aspect;
+    this.background = scene.background;
+
+    renderer.setPixelRatio(1);
+    renderer.setSize(width, height, false);
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+    if (transparent) scene.background = null;
+
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.context = this.canvas.getContext("2d")!;
+  }
+
+  // The copy has to happen straight after rendering, before the browser
+  // composites and clears the drawing buffer
+  render() {
+    this.renderer.render(this.scene, this.camera);
+    this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.context.drawImage(this.renderer.domElement, 0, 0);
+    return this.canvas;
+  }
+
+  close() {
+    this.renderer.setPixelRatio(this.pixelRatio);
+    this.renderer.setSize(this.size.x, this.size.y);
+    this.camera.aspect = this.aspect;
+    this.camera.updateProjectionMatrix();
+    this.scene.background = this.background;
+  }
+}
+
+// Destination for the frames of a recording, drawn one at a time into the
+// canvas it was created with
+export interface FrameSink {
+  add: (frame: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+// Each frame as a numbered PNG in a zip archive
+export class PngSequence implements FrameSink {
+  private zip = new ZipWriter();
+
+  constructor(private canvas: HTMLCanvasElement) {}
+
+  async add(frame: number) {
+    const png = await canvasToPng(this.canvas);
+    this.zip.add(
+      `frame-${String(frame).padStart(5, "0")}.png`,
+      new Uint8Array(await png.arrayBuffer())
+    );
+  }
+
+  async finish() {
+    return this.zip.finish();
+  }
+}
+
+/**
+ * A WebM video through MediaRecorder. MediaRecorder timestamps frames by wall
+ * clock, so the recorder is paused while each frame renders and resumed for
+ * exactly one frame interval around it; every frame then lasts 1/fps in the
+ * video however long it took to produce.
+ */
+export class WebmRecording implements FrameSink {
+  private track: CanvasCaptureMediaStreamTrack;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+
+  static isSupported() {
+    return (
+      typeof MediaRecorder !== "undefined" &&
+      WEBM_TYPES.some((type) => MediaRecorder.isTypeSupported(type))
+    );
+  }
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    private fps: number
+  ) {
+    const mimeType = WEBM_TYPES.find(
+      (type) =>
+        typeof MediaRecorder !== "undefined" &&
+        MediaRecorder.isTypeSupported(type)
+    );
+    if (!mimeType) {
+      throw new Error("WebM recording is not supported in this browser");
+    }
+    const stream = canvas.captureStream(0);
+    this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    this.recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: Math.round(
+        canvas.width * canvas.height * fps * WEBM_BITS_PER_PIXEL
+      ),
+    });
+    this.recorder.ondataavailable = ({ data }) => {
+      if (data.size > 0) this.chunks.push(data);
+    };
+    this.recorder.start();
+    this.recorder.pause();
+  }
+
+  async add() {
+    this.recorder.resume();
+    this.track.requestFrame();
+    await delay(1000 / this.fps);
+    this.recorder.pause();
+  }
+
+  finish() {
+    return new Promise<Blob>((resolve) => {
+      this.recorder.onstop = () => {
+        this.track.stop();
+        resolve(new Blob(this.chunks, { type: "video/webm" }));
+      };
+      this.recorder.resume();
+      this.recorder.stop();
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { encodeFits } from "./fits";
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("encodeFits", () => {
+  const bytes = encodeFits(Float32Array.of(1, -2.5, 3, 0.125, 5, 6), 3, 2, [
+    { keyword: "object", value: "Io's torus", comment: "Target" },
+    { keyword: "EXPTIME", value: 0.5 },
+    { keyword: "CDELT1", value: 2.5e-7 },
+    { keyword: "SIMULATD", value: false },
+  ]);
+
+  test("the header and data fill whole 2880-byte records", () => {
+    assert.equal(bytes.length, 2 * 2880);
+  });
+
+  test("cards are 80 characters, mandatory keywords first, ending in END", () => {
+    const header = text(bytes.subarray(0, 2880));
+    const cards = header.match(/.{80}/g)!;
+    assert.deepEqual(
+      cards.slice(0, 10).map((card) => card.slice(0, 8).trim()),
+      [
+        "SIMPLE",
+        "BITPIX",
+        "NAXIS",
+        "NAXIS1",
+        "NAXIS2",
+        "OBJECT",
+        "EXPTIME",
+        "CDELT1",
+        "SIMULATD",
+        "END",
+      ]
+    );
+    assert.equal(cards[0].slice(10, 30), "T".padStart(20));
+    assert.equal(cards[1].slice(10, 30), "-32".padStart(20));
+    assert.equal(cards[3].slice(10, 30), "3".padStart(20));
+    assert.match(cards[5], /^OBJECT  = 'Io''s torus' \/ Target +$/);
+    assert.equal(cards[6].slice(10, 30), "0.5000000000".padStart(20));
+    assert.equal(cards[7].slice(10, 30), "2.500000000E-7".padStart(20));
+    assert.equal(cards[8].slice(10, 30), "F".padStart(20));
+    assert.equal(cards.slice(10).join("").trim(), "");
+  });
+
+  test("pixels are big-endian 32-bit floats", () => {
+    const view = new DataView(bytes.buffer, 2880);
+    const pixels = Array.from({ length: 6 }, (_, i) =>
+      view.getFloat32(i * 4, false)
+    );
+    assert.deepEqual(pixels, [1, -2.5, 3, 0.125, 5, 6]);
+    assert.ok(bytes.subarray(2880 + 24).every((byte) => byte === 0));
+  });
+});
@@ -0,0 +1,68 @@
+// Single-image FITS files: a primary header of 80-character cards and a
+// big-endian 32-bit float image, both padded to 2880-byte records. Enough
+// for astropy.io.fits, DS9 and SAOImage to open.
+
+import { ascii } from "./zip";
+
+export type FitsValue = string | number | boolean;
+
+export interface FitsCard {
+  keyword: string; // Up to eight characters
+  value: FitsValue;
+  comment?: string;
+}
+
+const RECORD = 2880;
+const CARD = 80;
+
+const padRecord = (length: number) => Math.ceil(length / RECORD) * RECORD;
+
+// Fixed format: strings quoted from column 11, other values right-aligned
+// to column 30
+const formatValue = (value: FitsValue) => {
+  if (typeof value === "string") {
+    return `'${value.replace(/'/g, "''").padEnd(8)}'`;
+  }
+  if (typeof value === "boolean") return (value ? "T" : "F").padStart(20);
+  const text = Number.isInteger(value)
+    ? String(value)
+    : value.toPrecision(10).toUpperCase();
+  return text.padStart(20);
+};
+
+const formatCard = ({ keyword, value, comment }: FitsCard) => {
+  const card = `${keyword.toUpperCase().padEnd(8)}= ${formatValue(value)}`;
+  return (comment ? `${card} / ${comment}` : card).slice(0, CARD).padEnd(CARD);
+};
+
+/**
+ * Encode a width × height image, stored row by row from the bottom left as
+ * FITS expects, with `cards` added after the mandatory keywords.
+ */
+export const encodeFits = (
+  data: Float32Array,
+  width: number,
+  height: number,
+  cards: FitsCard[]
+): Uint8Array => {
+  const header =
+    [
+      { keyword: "SIMPLE", value: true, comment: "Conforms to FITS" },
+      { keyword: "BITPIX", value: -32, comment: "32-bit IEEE float" },
+      { keyword: "NAXIS", value: 2 },
+      { keyword: "NAXIS1", value: width },
+      { keyword: "NAXIS2", value: height },
+      ...cards,
+    ]
+      .map(formatCard)
+      .join("") + "END".padEnd(CARD);
+
+  const headerLength = padRecord(header.length);
+  const bytes = new Uint8Array(headerLength + padRecord(data.byteLength));
+  bytes.set(ascii(header.padEnd(headerLength)));
+  const view = new DataView(bytes.buffer, headerLength);
+  for (let i = 0; i < width * height; i++) {
+    view.setFloat32(i * 4, data[i], false);
+  }
+  return bytes;
+};
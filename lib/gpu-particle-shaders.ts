@@ -0,0 +1,412 @@
+// GLSL for GpuParticleSystem. The step shader mirrors
+// PlasmaTorusSimulation.updateParticles and its force model line for line;
+// keep the two in sync.
+
+/**
+ * One fixed step for every particle, run once per state texture: with
+ * OUTPUT_POSITION defined it writes (position, species), otherwise
+ * (velocity, time the particle leaves the torus as an ion). Both passes make
+ * identical random draws, so they agree. An empty slot stores -1 - the loss
+ * channel it was emptied through in place of its species, and is left alone.
+ */
+export const STEP_SHADER = /* glsl */ `
+uniform float particleCount;
+uniform float frames;
+uniform float time;
+uniform uint stepSeed;
+uniform int integrator; // 0 Euler, 1 Boris, 2 RK4
+
+uniform float jupiterRotation;
+uniform int fieldModel; // 0 dipole, 1 spherical harmonics
+uniform float magneticTilt;
+uniform vec3 dipoleOffset;
+uniform float fieldStrength;
+uniform int harmonicDegree;
+uniform float harmonicG[HARMONIC_SIZE];
+uniform float harmonicH[HARMONIC_SIZE];
+uniform float dipoleMoment;
+uniform bool magnetodisc;
+uniform vec3 discAxis; // Body frame
+
+uniform int torusModel; // 0 artistic, 1 transport
+uniform float outflowRate;
+uniform float jupiterRotationSpeed;
+uniform float torusRadius;
+uniform float minDistance;
+uniform float maxDistance;
+uniform float magnetopauseStandoff; // 0 while the magnetopause is off
+uniform vec3 ioPosition;
+
+uniform float chargeToMass[SPECIES_COUNT];
+uniform float transitionChance[SPECIES_COUNT * MAX_TRANSITIONS];
+uniform vec3 transitionProducts[SPECIES_COUNT * MAX_TRANSITIONS]; // -1 if unused
+uniform float recombinationChance[SPECIES_COUNT];
+
+uint rngState;
+
+uint hash(uint x) {
+  x ^= x >> 16;
+  x *= 0x7feb352du;
+  x ^= x >> 15;
+  x *= 0x846ca68bu;
+  x ^= x >> 16;
+  return x;
+}
+
+float random() {
+  rngState = hash(rngState);
+  return float(rngState >> 8) / 16777216.0;
+}
+
+// Internal field in the body frame, planet radii, unit dipole moment
+vec3 internalField(vec3 p) {
+  if (fieldModel == 0) {
+    vec3 d = p - dipoleOffset;
+    vec3 m = vec3(0.0, cos(magneticTilt), sin(magneticTilt));
+    float r2 = dot(d, d);
+    float r5 = r2 * r2 * sqrt(r2);
+    return (3.0 * dot(m, d) * d - m * r2) / r5;
+  }
+
+  float horizontal = length(p.xz);
+  float r = length(p);
+  float cosTheta = p.y / r;
+  float sinTheta = horizontal / r;
+  float longitude = atan(p.x, p.z) + BODY_Z_LONGITUDE;
+  int size = harmonicDegree + 1;
+
+  float P[HARMONIC_SIZE];
+  float dP[HARMONIC_SIZE];
+  for (int i = 0; i < HARMONIC_SIZE; i++) {
+    P[i] = 0.0;
+    dP[i] = 0.0;
+  }
+  P[0] = 1.0;
+  for (int n = 1; n <= harmonicDegree; n++) {
+    for (int m = 0; m <= n; m++) {
+      int i = n * size + m;
+      int above = (n - 1) * size + m;
+      if (m == n) {
+        int diagonal = above - 1;
+        P[i] = sinTheta * P[diagonal];
+        dP[i] = sinTheta * dP[diagonal] + cosTheta * P[diagonal];
+      } else {
+        float k = n > 1
+          ? float((n - 1) * (n - 1) - m * m) / float((2 * n - 1) * (2 * n - 3))
+          : 0.0;
+        int twoAbove = n > 1 ? (n - 2) * size + m : 0;
+        P[i] = cosTheta * P[above] - k * P[twoAbove];
+        dP[i] = cosTheta * dP[above] - sinTheta * P[above] - k * dP[twoAbove];
+      }
+    }
+  }
+
+  float br = 0.0;
+  float btheta = 0.0;
+  float bphi = 0.0;
+  float radial = 1.0 / (r * r);
+  for (int n = 1; n <= harmonicDegree; n++) {
+    radial /= r;
+    for (int m = 0; m <= n; m++) {
+      int i = n * size + m;
+      float cosM = cos(float(m) * longitude);
+      float sinM = sin(float(m) * longitude);
+      float term = harmonicG[i] * cosM + harmonicH[i] * sinM;
+      br += float(n + 1) * radial * term * P[i];
+      btheta -= radial * term * dP[i];
+      bphi += radial * float(m) * (harmonicG[i] * sinM - harmonicH[i] * cosM) * P[i];
+    }
+  }
+  bphi /= max(sinTheta, 1e-9);
+
+  float sinAngle = horizontal > 0.0 ? p.x / horizontal : 0.0;
+  float cosAngle = horizontal > 0.0 ? p.z / horizontal : 1.0;
+  float bh = br * sinTheta + btheta * cosTheta;
+  return vec3(
+    bh * sinAngle + bphi * cosAngle,
+    br * cosTheta - btheta * sinTheta,
+    bh * cosAngle - bphi * sinAngle
+  ) / dipoleMoment;
+}
+
+// addMagnetodiscField
+vec3 magnetodiscField(vec3 p) {
+  float height = dot(p, discAxis);
+  vec3 radius = p - height * discAxis;
+  float rho = length(radius);
+  if (!(rho > 0.0)) return vec3(0.0);
+  float taper = rho < MAGNETODISC_INNER
+    ? (rho / MAGNETODISC_INNER) * (rho / MAGNETODISC_INNER)
+    : rho > MAGNETODISC_OUTER
+      ? (MAGNETODISC_OUTER / rho) * (MAGNETODISC_OUTER / rho)
+      : 1.0;
+  return radius * MAGNETODISC_STRENGTH * taper
+    * tanh(height / MAGNETODISC_HALF_THICKNESS) / (rho * rho);
+}
+
+// getBodyField
+vec3 bodyField(vec3 p) {
+  vec3 b = internalField(p);
+  return magnetodisc ? b + magnetodiscField(p) : b;
+}
+
+// outsideMagnetopause
+bool outsideMagnetopause(vec3 p) {
+  float sunward = dot(p, SUN_DIRECTION);
+  float r = length(p);
+  float cosAngle = r > 0.0 ? sunward / r : 1.0;
+  return r * pow((1.0 + cosAngle) / 2.0, MAGNETOPAUSE_FLARING) > magnetopauseStandoff ||
+    -sunward > MAGNETOTAIL_LENGTH * magnetopauseStandoff;
+}
+
+// getMagneticFieldVector, pre-scaled by q/m
+vec3 field(vec3 p, float qm) {
+  float c = cos(jupiterRotation);
+  float s = sin(jupiterRotation);
+  vec3 body = vec3(p.x * c - p.z * s, p.y, p.x * s + p.z * c) / JUPITER_RADIUS;
+  vec3 b = bodyField(body);
+  float scale = fieldStrength * qm / (JUPITER_RADIUS * JUPITER_RADIUS * JUPITER_RADIUS);
+  return vec3(b.x * c + b.z * s, b.y, -b.x * s + b.z * c) * scale;
+}
+
+// transportAcceleration
+vec3 transportAcceleration(vec3 p, vec3 v, float qm) {
+  float omega = jupiterRotationSpeed;
+  float rate = outflowRate;
+  vec3 b = field(p, qm);
+
+  vec3 u = vec3(omega * p.z + rate * p.x, 0.0, -omega * p.x + rate * p.z);
+  vec3 flow = vec3(
+    (rate * rate - omega * omega) * p.x + 2.0 * omega * rate * p.z,
+    0.0,
+    (rate * rate - omega * omega) * p.z - 2.0 * omega * rate * p.x
+  );
+
+  vec3 a = -cross(u, b);
+
+  float strength = length(b);
+  if (strength == 0.0) return a;
+  vec3 n = b / strength;
+
+  vec3 w = PICKUP_RATE * (u - v) + flow;
+  a += w - dot(w, n) * n;
+
+  float along =
+    CENTRIFUGAL_CONFINEMENT * omega * omega * dot(p.xz, n.xz) +
+    log(PARALLEL_DAMPING) * dot(v - u, n);
+  return a + along * n;
+}
+
+vec3 acceleration(vec3 p, vec3 v, float qm) {
+  // Neutrals move ballistically
+  if (qm == 0.0) return vec3(0.0);
+  if (torusModel == 1) return transportAcceleration(p, v, qm);
+
+  float radius = length(p);
+  float horizontal = length(p.xz);
+  vec3 a = vec3(0.0);
+  if (horizontal > 0.0) {
+    float corotationSpeed =
+      jupiterRotationSpeed * (1.0 - exp(-radius / COROTATION_SCALE));
+    a.x += p.z / horizontal * corotationSpeed;
+    a.z -= p.x / horizontal * corotationSpeed;
+  }
+  if (radius > 0.0) {
+    a += p / radius * (-RADIAL_CONTAINMENT * (radius - torusRadius));
+  }
+  a.y += log(VERTICAL_DAMPING) * v.y - p.y * EQUATORIAL_CONTAINMENT;
+  return a;
+}
+
+vec3 totalAcceleration(vec3 p, vec3 v, float qm) {
+  return cross(v, field(p, qm)) + acceleration(p, v, qm);
+}
+
+void eulerStep(inout vec3 p, inout vec3 v, float dt, float qm) {
+  v += totalAcceleration(p, v, qm) * dt;
+  p += v * dt;
+}
+
+void borisStep(inout vec3 p, inout vec3 v, float dt, float qm) {
+  float halfDt = dt / 2.0;
+  v += acceleration(p, v, qm) * halfDt;
+
+  vec3 t = field(p, qm) * halfDt;
+  vec3 s = 2.0 * t / (1.0 + dot(t, t));
+  vec3 prime = v + cross(v, t);
+  v += cross(prime, s);
+
+  v += acceleration(p, v, qm) * halfDt;
+  p += v * dt;
+}
+
+void rk4Step(inout vec3 p, inout vec3 v, float dt, float qm) {
+  float halfDt = dt / 2.0;
+  vec3 k1 = totalAcceleration(p, v, qm);
+  vec3 v2 = v + k1 * halfDt;
+  vec3 k2 = totalAcceleration(p + v * halfDt, v2, qm);
+  vec3 v3 = v + k2 * halfDt;
+  vec3 k3 = totalAcceleration(p + v2 * halfDt, v3, qm);
+  vec3 v4 = v + k3 * dt;
+  vec3 k4 = totalAcceleration(p + v3 * dt, v4, qm);
+  p += (v + 2.0 * v2 + 2.0 * v3 + v4) * dt / 6.0;
+  v += (k1 + 2.0 * k2 + 2.0 * k3 + k4) * dt / 6.0;
+}
+
+// Apply at most one chemistry transition
+float transition(float species) {
+  float roll = random();
+  int base = int(species) * MAX_TRANSITIONS;
+  for (int t = 0; t < MAX_TRANSITIONS; t++) {
+    float chance = transitionChance[base + t] * frames;
+    if (roll < chance) {
+      vec3 products = transitionProducts[base + t];
+      float count = products.z >= 0.0 ? 3.0 : products.y >= 0.0 ? 2.0 : 1.0;
+      int pick = int(random() * count);
+      return pick == 0 ? products.x : pick == 1 ? products.y : products.z;
+    }
+    roll -= chance;
+  }
+  return species;
+}
+
+void lose(out vec3 p, out vec3 v, out float species, int channel) {
+  species = -1.0 - float(channel);
+  p = vec3(0.0);
+  v = vec3(0.0);
+}
+
+bool invalid(vec3 value) {
+  return any(isnan(value));
+}
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec4 positionState = texture2D(texturePosition, uv);
+  vec4 velocityState = texture2D(textureVelocity, uv);
+  float index = floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+
+  vec3 p = positionState.xyz;
+  vec3 v = velocityState.xyz;
+  float species = positionState.w;
+  float deathTime = velocityState.w;
+
+  if (index < particleCount && species >= 0.0) {
+    rngState = hash(uint(index) ^ stepSeed);
+    bool charged = chargeToMass[int(species)] > 0.0;
+    bool bounded = charged && magnetopauseStandoff > 0.0;
+    float radius = length(p);
+
+    if (invalid(p)) {
+      lose(p, v, species, LOSS_NUMERICAL);
+    } else if (bounded && outsideMagnetopause(p)) {
+      lose(p, v, species, LOSS_MAGNETOPAUSE);
+    } else if (!bounded && radius > maxDistance) {
+      lose(p, v, species, charged ? LOSS_TRANSPORT : LOSS_ESCAPE);
+    } else if (radius < minDistance) {
+      lose(p, v, species, LOSS_PRECIPITATION);
+    } else if (charged && torusModel == 0 && time > deathTime) {
+      lose(p, v, species, LOSS_TRANSPORT);
+    } else {
+      species = transition(species);
+      if (random() < recombinationChance[int(species)] * frames) {
+        lose(p, v, species, LOSS_RECOMBINATION);
+      }
+    }
+
+    if (species >= 0.0) {
+      vec3 start = p;
+      float qm = chargeToMass[int(species)];
+      if (integrator == 0) {
+        eulerStep(p, v, frames, qm);
+      } else if (integrator == 1) {
+        borisStep(p, v, frames, qm);
+      } else {
+        rk4Step(p, v, frames, qm);
+      }
+
+      float speed = length(v);
+      if (integrator == 0 && speed > EULER_MAX_SPEED) {
+        float scale = EULER_MAX_SPEED / speed;
+        p = start + (p - start) * scale;
+        v *= scale;
+      }
+
+      if (invalid(p) || invalid(v)) {
+        lose(p, v, species, LOSS_NUMERICAL);
+      }
+    }
+  }
+
+#ifdef OUTPUT_POSITION
+  gl_FragColor = vec4(p, species);
+#else
+  gl_FragColor = vec4(v, deathTime);
+#endif
+}
+`;
+
+/**
+ * Scatters emitted particles into a state texture: each point covers the
+ * texel of one particle and writes its state.
+ */
+export const UPLOAD_VERTEX_SHADER = /* glsl */ `
+uniform vec2 resolution;
+attribute vec2 texel;
+attribute vec4 state;
+varying vec4 vState;
+
+void main() {
+  vState = state;
+  gl_Position = vec4((texel + 0.5) / resolution * 2.0 - 1.0, 0.0, 1.0);
+  gl_PointSize = 1.0;
+}
+`;
+
+export const UPLOAD_FRAGMENT_SHADER = /* glsl */ `
+varying vec4 vState;
+
+void main() {
+  gl_FragColor = vState;
+}
+`;
+
+/**
+ * Draws particles straight from the position texture, one point per
+ * particle addressed by gl_VertexID, sized like a PointsMaterial with size
+ * attenuation. Empty slots are clipped away.
+ */
+export const RENDER_VERTEX_SHADER = /* glsl */ `
+uniform sampler2D positionTexture;
+uniform vec2 resolution;
+uniform float size;
+uniform float scale;
+uniform vec3 speciesColors[SPECIES_COUNT];
+varying vec3 vColor;
+
+void main() {
+  float index = float(gl_VertexID);
+  vec2 texel = vec2(mod(index, resolution.x), floor(index / resolution.x));
+  vec4 state = texture2D(positionTexture, (texel + 0.5) / resolution);
+  if (state.w < 0.0) {
+    vColor = vec3(0.0);
+    gl_PointSize = 0.0;
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+    return;
+  }
+  vColor = speciesColors[int(state.w + 0.5)];
+
+  vec4 mvPosition = modelViewMatrix * vec4(state.xyz, 1.0);
+  gl_PointSize = size * (scale / -mvPosition.z);
+  gl_Position = projectionMatrix * mvPosition;
+}
+`;
+
+export const RENDER_FRAGMENT_SHADER = /* glsl */ `
+uniform float opacity;
+varying vec3 vColor;
+
+void main() {
+  gl_FragColor = vec4(vColor, opacity);
+}
+`;
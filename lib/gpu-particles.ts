@@ -0,0 +1,534 @@
+import * as THREE from "three";
+import {
+  GPUComputationRenderer,
+  Variable,
+} from "three/examples/jsm/misc/GPUComputationRenderer.js";
+import {
+  RENDER_FRAGMENT_SHADER,
+  RENDER_VERTEX_SHADER,
+  STEP_SHADER,
+  UPLOAD_FRAGMENT_SHADER,
+  UPLOAD_VERTEX_SHADER,
+} from "./gpu-particle-shaders";
+import { INTEGRATORS } from "./simulation/integrators";
+import { LOSS_INDEX, recombinationChance } from "./simulation/lifecycle";
+import {
+  BODY_Z_LONGITUDE,
+  dipoleAxis,
+  MAGNETODISC,
+  MAGNETODISC_STRENGTH,
+  SPHERICAL_HARMONIC_MODELS,
+  Vec3,
+} from "./simulation/magnetic-field";
+import {
+  MAGNETOPAUSE_FLARING,
+  MAGNETOTAIL_LENGTH,
+  SUN_DIRECTION,
+} from "./simulation/magnetosphere";
+import { JUPITER_RADIUS, REFERENCE_FRAME_RATE } from "./simulation/params";
+import {
+  COROTATION_SCALE,
+  EQUATORIAL_CONTAINMENT,
+  EULER_MAX_SPEED,
+  ParticleIntegrator,
+  PlasmaTorusSimulation,
+  RADIAL_CONTAINMENT,
+  VERTICAL_DAMPING,
+} from "./simulation/plasma-torus-simulation";
+import {
+  CHARGE_TO_MASS,
+  RATE_PARAMS,
+  SPECIES,
+  TRANSITIONS_BY_SPECIES,
+} from "./simulation/species";
+import {
+  CENTRIFUGAL_CONFINEMENT,
+  PARALLEL_DAMPING,
+  PICKUP_RATE,
+} from "./simulation/torus-models";
+
+const INTEGRATOR_INDEX = Object.fromEntries(
+  INTEGRATORS.map(({ name }, index) => [name, index])
+);
+
+const MAX_TRANSITIONS = Math.max(
+  ...TRANSITIONS_BY_SPECIES.map((transitions) => transitions.length)
+);
+
+// WebGL wants 32-bit uniform arrays
+const HARMONICS = Object.fromEntries(
+  Object.entries(SPHERICAL_HARMONIC_MODELS).map(([name, model]) => [
+    name,
+    { ...model, g: new Float32Array(model.g), h: new Float32Array(model.h) },
+  ])
+);
+const HARMONIC_SIZE = Math.max(
+  1,
+  ...Object.values(HARMONICS).map(({ degree }) => (degree + 1) ** 2)
+);
+
+// GLSL float literal
+const float = (value: number) =>
+  Number.isInteger(value) ? value.toFixed(1) : String(value);
+
+const DEFINES = `
+#define SPECIES_COUNT ${SPECIES.length}
+#define MAX_TRANSITIONS ${MAX_TRANSITIONS}
+#define HARMONIC_SIZE ${HARMONIC_SIZE}
+#define JUPITER_RADIUS ${float(JUPITER_RADIUS)}
+#define BODY_Z_LONGITUDE ${float(BODY_Z_LONGITUDE)}
+#define EULER_MAX_SPEED ${float(EULER_MAX_SPEED)}
+#define VERTICAL_DAMPING ${float(VERTICAL_DAMPING)}
+#define COROTATION_SCALE ${float(COROTATION_SCALE)}
+#define RADIAL_CONTAINMENT ${float(RADIAL_CONTAINMENT)}
+#define EQUATORIAL_CONTAINMENT ${float(EQUATORIAL_CONTAINMENT)}
+#define CENTRIFUGAL_CONFINEMENT ${float(CENTRIFUGAL_CONFINEMENT)}
+#define PARALLEL_DAMPING ${float(PARALLEL_DAMPING)}
+#define PICKUP_RATE ${float(PICKUP_RATE)}
+#define MAGNETODISC_INNER ${float(MAGNETODISC.inner)}
+#define MAGNETODISC_OUTER ${float(MAGNETODISC.outer)}
+#define MAGNETODISC_HALF_THICKNESS ${float(MAGNETODISC.halfThickness)}
+#define MAGNETODISC_STRENGTH ${float(MAGNETODISC_STRENGTH)}
+#define MAGNETOPAUSE_FLARING ${float(MAGNETOPAUSE_FLARING)}
+#define MAGNETOTAIL_LENGTH ${float(MAGNETOTAIL_LENGTH)}
+#define SUN_DIRECTION vec3(${SUN_DIRECTION.map(float).join(", ")})
+#define LOSS_TRANSPORT ${LOSS_INDEX.transport}
+#define LOSS_PRECIPITATION ${LOSS_INDEX.precipitation}
+#define LOSS_ESCAPE ${LOSS_INDEX.escape}
+#define LOSS_RECOMBINATION ${LOSS_INDEX.recombination}
+#define LOSS_NUMERICAL ${LOSS_INDEX.numerical}
+#define LOSS_MAGNETOPAUSE ${LOSS_INDEX.magnetopause}
+`;
+
+// Same integer hash as the step shader, for per-step seeds
+const hash = (value: number) => {
+  let x = value >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x7feb352d);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x846ca68b);
+  x ^= x >>> 16;
+  return x >>> 0;
+};
+
+// Products of each species' transitions, -1 where unused
+const TRANSITION_PRODUCTS = new Float32Array(
+  SPECIES.length * MAX_TRANSITIONS * 3
+).fill(-1);
+TRANSITIONS_BY_SPECIES.forEach((transitions, species) =>
+  transitions.forEach(({ to }, t) =>
+    TRANSITION_PRODUCTS.set(to, (species * MAX_TRANSITIONS + t) * 3)
+  )
+);
+
+/**
+ * Integrates a PlasmaTorusSimulation's particles on the GPU, with ping-pong
+ * float textures (GPUComputationRenderer) holding (position, species) and
+ * (velocity, end of residence time) per particle.
+ *
+ * The simulation still advances the geometry and decides emissions on the
+ * CPU; emitted particles are scattered into the state textures before each
+ * step. Physics matches the CPU path, but stochastic choices (chemistry,
+ * recombination) draw from a per-particle hash rather than the simulation's
+ * seeded stream, so runs are reproducible per path only. Particles lost on
+ * the GPU only free their slots and count towards `losses` when `sync`
+ * reads them back, so until then a full buffer overwrites them as if they
+ * were alive. `points` draws the particles straight from the position
+ * texture.
+ */
+export class GpuParticleSystem implements ParticleIntegrator {
+  readonly capacity: number;
+  readonly points: THREE.Points<THREE.BufferGeometry, THREE.ShaderMaterial>;
+  private readonly renderer: THREE.WebGLRenderer;
+  private readonly simulation: PlasmaTorusSimulation;
+  private readonly width: number;
+  private readonly height: number;
+  private readonly compute: GPUComputationRenderer;
+  private readonly positionVariable: Variable;
+  private readonly velocityVariable: Variable;
+  private readonly uniforms: Record<string, THREE.IUniform>;
+  private readonly transitionChance: Float32Array;
+  private readonly discAxis: Vec3 = [0, 0, 0];
+  private readonly uploadCamera = new THREE.Camera();
+  private readonly positionUpload: THREE.Points<
+    THREE.BufferGeometry,
+    THREE.ShaderMaterial
+  >;
+  private readonly velocityUpload: THREE.Points<
+    THREE.BufferGeometry,
+    THREE.ShaderMaterial
+  >;
+  private uploadCapacity = 0;
+  private readback: Float32Array | null = null;
+  private stepCount = 0;
+
+  static isSupported(renderer: THREE.WebGLRenderer) {
+    return (
+      renderer.capabilities.isWebGL2 &&
+      renderer.capabilities.maxVertexTextures > 0 &&
+      renderer.extensions.has("EXT_color_buffer_float")
+    );
+  }
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    simulation: PlasmaTorusSimulation
+  ) {
+    this.renderer = renderer;
+    this.simulation = simulation;
+    this.capacity = simulation.maxParticles;
+    this.width = Math.ceil(Math.sqrt(this.capacity));
+    this.height = Math.ceil(this.capacity / this.width);
+
+    this.compute = new GPUComputationRenderer(
+      this.width,
+      this.height,
+      renderer
+    );
+    const positionTexture = this.compute.createTexture();
+    const velocityTexture = this.compute.createTexture();
+    this.positionVariable = this.compute.addVariable(
+      "texturePosition",
+      `${DEFINES}#define OUTPUT_POSITION\n${STEP_SHADER}`,
+      positionTexture
+    );
+    this.velocityVariable = this.compute.addVariable(
+      "textureVelocity",
+      `${DEFINES}${STEP_SHADER}`,
+      velocityTexture
+    );
+    const variables = [this.positionVariable, this.velocityVariable];
+    variables.forEach((variable) =>
+      this.compute.setVariableDependencies(variable, variables)
+    );
+
+    // Both passes share one set of step uniforms
+    this.transitionChance = new Float32Array(SPECIES.length * MAX_TRANSITIONS);
+    this.uniforms = {
+      particleCount: { value: this.capacity },
+      frames: { value: 1 },
+      time: { value: 0 },
+      stepSeed: { value: 0 },
+      integrator: { value: 0 },
+      jupiterRotation: { value: 0 },
+      fieldModel: { value: 0 },
+      magneticTilt: { value: 0 },
+      dipoleOffset: { value: new THREE.Vector3() },
+      fieldStrength: { value: 0 },
+      harmonicDegree: { value: 0 },
+      harmonicG: { value: new Float32Array(HARMONIC_SIZE) },
+      harmonicH: { value: new Float32Array(HARMONIC_SIZE) },
+      dipoleMoment: { value: 1 },
+      magnetodisc: { value: false },
+      discAxis: { value: new THREE.Vector3() },
+      torusModel: { value: 0 },
+      outflowRate: { value: 0 },
+      jupiterRotationSpeed: { value: 0 },
+      torusRadius: { value: 0 },
+      minDistance: { value: 0 },
+      maxDistance: { value: 0 },
+      magnetopauseStandoff: { value: 0 },
+      ioPosition: { value: new THREE.Vector3() },
+      chargeToMass: { value: CHARGE_TO_MASS },
+      transitionChance: { value: this.transitionChance },
+      transitionProducts: { value: TRANSITION_PRODUCTS },
+      recombinationChance: { value: new Float32Array(SPECIES.length) },
+    };
+    variables.forEach((variable) =>
+      Object.assign(variable.material.uniforms, this.uniforms)
+    );
+
+    this.load();
+    const error = this.compute.init();
+    if (error) throw new Error(error);
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setDrawRange(0, this.capacity);
+    this.points = new THREE.Points(
+      geometry,
+      new THREE.ShaderMaterial({
+        uniforms: {
+          positionTexture: { value: null },
+          resolution: { value: new THREE.Vector2(this.width, this.height) },
+          size: { value: 0.2 },
+          scale: { value: 1 },
+          opacity: { value: 0.8 },
+          speciesColors: { value: SPECIES.flatMap(({ color }) => color) },
+        },
+        vertexShader: `${DEFINES}${RENDER_VERTEX_SHADER}`,
+        fragmentShader: RENDER_FRAGMENT_SHADER,
+        blending: THREE.AdditiveBlending,
+        transparent: true,
+      })
+    );
+    this.points.frustumCulled = false; // Positions only exist on the GPU
+
+    const drawingBufferSize = new THREE.Vector2();
+    this.points.onBeforeRender = (renderer) => {
+      const { uniforms } = this.points.material;
+      renderer.getDrawingBufferSize(drawingBufferSize);
+      uniforms.scale.value = drawingBufferSize.y / 2;
+      uniforms.positionTexture.value = this.compute.getCurrentRenderTarget(
+        this.positionVariable
+      ).texture;
+    };
+
+    this.positionUpload = this.createUpload();
+    this.velocityUpload = this.createUpload();
+  }
+
+  step(frames: number) {
+    const { simulation, uniforms } = this;
+    const { params } = simulation;
+    this.uploadEmitted();
+
+    uniforms.frames.value = frames;
+    uniforms.time.value = simulation.time;
+    uniforms.stepSeed.value = hash(simulation.seed ^ hash(this.stepCount++));
+    uniforms.integrator.value = INTEGRATOR_INDEX[params.integrator];
+    uniforms.jupiterRotation.value = simulation.jupiterRotation;
+
+    uniforms.fieldModel.value = params.fieldModel === "dipole" ? 0 : 1;
+    uniforms.magneticTilt.value = params.magneticTilt;
+    uniforms.dipoleOffset.value.set(
+      params.dipoleOffsetX,
+      params.dipoleOffsetY,
+      params.dipoleOffsetZ
+    );
+    uniforms.fieldStrength.value = params.magneticFieldStrength;
+    if (params.fieldModel !== "dipole") {
+      const harmonics = HARMONICS[params.fieldModel];
+      uniforms.harmonicDegree.value = harmonics.degree;
+      uniforms.harmonicG.value.set(harmonics.g);
+      uniforms.harmonicH.value.set(harmonics.h);
+      uniforms.dipoleMoment.value = harmonics.dipoleMoment;
+    }
+    uniforms.magnetodisc.value = params.magnetodisc;
+    uniforms.discAxis.value.fromArray(dipoleAxis(params, this.discAxis));
+
+    uniforms.torusModel.value = params.torusModel === "artistic" ? 0 : 1;
+    uniforms.outflowRate.value =
+      1 / (params.transportTime * REFERENCE_FRAME_RATE);
+    uniforms.jupiterRotationSpeed.value = params.jupiterRotationSpeed;
+    uniforms.torusRadius.value = params.torusRadius;
+    uniforms.minDistance.value = params.minDistance;
+    uniforms.maxDistance.value = params.maxDistance;
+    uniforms.magnetopauseStandoff.value = simulation.magnetopauseStandoff;
+    uniforms.ioPosition.value.fromArray(simulation.ioPosition);
+
+    for (let species = 0; species < SPECIES.length; species++) {
+      for (let t = 0; t < MAX_TRANSITIONS; t++) {
+        const transition = TRANSITIONS_BY_SPECIES[species][t];
+        this.transitionChance[species * MAX_TRANSITIONS + t] = transition
+          ? transition.rate * params[RATE_PARAMS[transition.kind]]
+          : 0;
+      }
+      uniforms.recombinationChance.value[species] =
+        recombinationChance(SPECIES[species].charge) * params.recombinationRate;
+    }
+
+    this.compute.compute();
+  }
+
+  reset() {
+    this.stepCount = 0;
+    this.load();
+    [this.positionVariable, this.velocityVariable].forEach((variable) =>
+      this.compute.renderTexture(
+        variable.initialValueTexture,
+        this.compute.getCurrentRenderTarget(variable)
+      )
+    );
+  }
+
+  sync() {
+    const { simulation } = this;
+    const { positions, velocities, alive } = simulation;
+    const positionState = this.read(this.positionVariable, this.height);
+    for (let i = 0; i < this.capacity; i++) {
+      if (!alive[i]) continue;
+      const species = Math.round(positionState[i * 4 + 3]);
+      if (species < 0) {
+        simulation.lose(i, -1 - species);
+        continue;
+      }
+      positions[i * 3] = positionState[i * 4];
+      positions[i * 3 + 1] = positionState[i * 4 + 1];
+      positions[i * 3 + 2] = positionState[i * 4 + 2];
+      simulation.setSpecies(i, species);
+    }
+    const velocityState = this.read(this.velocityVariable, this.height);
+    for (let i = 0; i < this.capacity; i++) {
+      if (!alive[i]) continue;
+      velocities[i * 3] = velocityState[i * 4];
+      velocities[i * 3 + 1] = velocityState[i * 4 + 1];
+      velocities[i * 3 + 2] = velocityState[i * 4 + 2];
+    }
+  }
+
+  /**
+   * Particles of each species, indexed like SPECIES, among at most `sample`
+   * particles read back from the GPU.
+   */
+  speciesCounts(sample = 65536) {
+    const rows = Math.min(this.height, Math.ceil(sample / this.width));
+    const state = this.read(this.positionVariable, rows);
+    const counts = SPECIES.map(() => 0);
+    const count = Math.min(this.capacity, rows * this.width);
+    for (let i = 0; i < count; i++) {
+      const species = Math.round(state[i * 4 + 3]);
+      if (species >= 0) counts[species]++;
+    }
+    return counts;
+  }
+
+  // Block until queued GPU work is done, by reading back one row of state
+  finish() {
+    this.read(this.positionVariable, 1);
+  }
+
+  dispose() {
+    this.compute.dispose();
+    [this.points, this.positionUpload, this.velocityUpload].forEach(
+      (points) => {
+        points.geometry.dispose();
+        points.material.dispose();
+      }
+    );
+  }
+
+  // Write the simulation's particle arrays into the initial state textures
+  private load() {
+    const { positions, velocities, species, alive } = this.simulation;
+    const position = this.positionVariable
+      .initialValueTexture as THREE.DataTexture;
+    const velocity = this.velocityVariable
+      .initialValueTexture as THREE.DataTexture;
+    const positionData = position.image.data as Float32Array;
+    const velocityData = velocity.image.data as Float32Array;
+    positionData.fill(0);
+    velocityData.fill(0);
+    for (let i = 0; i < this.capacity; i++) {
+      positionData[i * 4] = positions[i * 3];
+      positionData[i * 4 + 1] = positions[i * 3 + 1];
+      positionData[i * 4 + 2] = positions[i * 3 + 2];
+      positionData[i * 4 + 3] = alive[i] ? species[i] : -1;
+      velocityData[i * 4] = velocities[i * 3];
+      velocityData[i * 4 + 1] = velocities[i * 3 + 1];
+      velocityData[i * 4 + 2] = velocities[i * 3 + 2];
+      velocityData[i * 4 + 3] = this.deathTime(i);
+    }
+    position.needsUpdate = true;
+    velocity.needsUpdate = true;
+  }
+
+  // When an ion reaches the end of its residence time
+  private deathTime(index: number) {
+    const { birthTimes, lifetimes } = this.simulation;
+    return birthTimes[index] + lifetimes[index];
+  }
+
+  private read(variable: Variable, rows: number) {
+    const length = this.width * this.height * 4;
+    if (!this.readback || this.readback.length !== length) {
+      this.readback = new Float32Array(length);
+    }
+    this.renderer.readRenderTargetPixels(
+      this.compute.getCurrentRenderTarget(variable),
+      0,
+      0,
+      this.width,
+      rows,
+      this.readback
+    );
+    return this.readback;
+  }
+
+  private createUpload() {
+    const points = new THREE.Points(
+      new THREE.BufferGeometry(),
+      new THREE.ShaderMaterial({
+        uniforms: {
+          resolution: { value: new THREE.Vector2(this.width, this.height) },
+        },
+        vertexShader: UPLOAD_VERTEX_SHADER,
+        fragmentShader: UPLOAD_FRAGMENT_SHADER,
+        blending: THREE.NoBlending,
+        depthTest: false,
+        depthWrite: false,
+      })
+    );
+    points.frustumCulled = false;
+    return points;
+  }
+
+  // Scatter the particles emitted this step into the state textures
+  private uploadEmitted() {
+    const { emitted, positions, velocities, species } = this.simulation;
+    const count = emitted.length;
+    if (count === 0) return;
+
+    if (count > this.uploadCapacity) {
+      this.uploadCapacity = 2 ** Math.ceil(Math.log2(count));
+      const texel = new THREE.BufferAttribute(
+        new Float32Array(this.uploadCapacity * 2),
+        2
+      );
+      [this.positionUpload, this.velocityUpload].forEach(({ geometry }) => {
+        geometry.setAttribute("texel", texel);
+        geometry.setAttribute(
+          "state",
+          new THREE.BufferAttribute(
+            new Float32Array(this.uploadCapacity * 4),
+            4
+          )
+        );
+      });
+    }
+
+    const texel = this.positionUpload.geometry.attributes.texel;
+    const positionState = this.positionUpload.geometry.attributes.state;
+    const velocityState = this.velocityUpload.geometry.attributes.state;
+    for (let k = 0; k < count; k++) {
+      const i = emitted[k];
+      texel.setXY(k, i % this.width, Math.floor(i / this.width));
+      positionState.setXYZW(
+        k,
+        positions[i * 3],
+        positions[i * 3 + 1],
+        positions[i * 3 + 2],
+        species[i]
+      );
+      velocityState.setXYZW(
+        k,
+        velocities[i * 3],
+        velocities[i * 3 + 1],
+        velocities[i * 3 + 2],
+        this.deathTime(i)
+      );
+    }
+    texel.needsUpdate = true;
+    positionState.needsUpdate = true;
+    velocityState.needsUpdate = true;
+
+    this.renderUpload(this.positionUpload, this.positionVariable, count);
+    this.renderUpload(this.velocityUpload, this.velocityVariable, count);
+  }
+
+  // Draw uploaded points over a variable's current state without clearing it
+  private renderUpload(
+    upload: THREE.Points,
+    variable: Variable,
+    count: number
+  ) {
+    const { renderer } = this;
+    const target = renderer.getRenderTarget();
+    const autoClear = renderer.autoClear;
+    upload.geometry.setDrawRange(0, count);
+    renderer.autoClear = false;
+    renderer.setRenderTarget(this.compute.getCurrentRenderTarget(variable));
+    renderer.render(upload, this.uploadCamera);
+    renderer.setRenderTarget(target);
+    renderer.autoClear = autoClear;
+  }
+}
@@ -0,0 +1,17 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { auroraIntensity } from "./io-aurora";
+
+describe("auroraIntensity", () => {
+  test("the aurora stays dimly lit without plasma and brightens with it", () => {
+    assert.equal(auroraIntensity(0), 0.2);
+    assert.equal(auroraIntensity(1), 1);
+    assert.equal(auroraIntensity(10), 1);
+    let previous = auroraIntensity(0);
+    for (let density = 0.05; density <= 1; density += 0.05) {
+      const intensity = auroraIntensity(density);
+      assert.ok(intensity > previous);
+      previous = intensity;
+    }
+  });
+});
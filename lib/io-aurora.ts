@@ -0,0 +1,328 @@
+import * as THREE from "three";
+import { Vec3 } from "./simulation/magnetic-field";
+
+// Rings along the flux tube and vertices around each ring
+const TUBE_SEGMENTS = 160;
+const TUBE_SIDES = 10;
+
+// A bright core inside a wide, faint halo; radii in scene units
+const TUBE_LAYERS = [
+  { radius: 0.06, strength: 1 },
+  { radius: 0.22, strength: 0.35 },
+];
+
+const AURORA_WIDTH = 1024;
+const AURORA_HEIGHT = 512;
+const AURORA_COLOR = "170, 221, 255"; // Far-UV aurora, drawn as pale blue
+const SPOT_RADIUS = 10; // Canvas pixels at the equator
+// The footprint's tail fades out over this much travel across the surface,
+// in radians, and a longer jump (a reset or a new date) starts a new one
+const TAIL_LENGTH = 1.2;
+const TAIL_JUMP = 0.3;
+
+/**
+ * How bright Io's flux tube and footprints glow for the ion density around
+ * Io relative to the torus (see relativeIonDensity): dim but visible with
+ * no plasma, full brightness from about typical torus density up.
+ */
+export const auroraIntensity = (relativeDensity: number) =>
+  0.2 + 0.8 * Math.min(1, (2 * relativeDensity) / (1 + relativeDensity));
+
+const glowVertexShader = `
+  varying vec3 vNormal;
+  varying vec3 vView;
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    vNormal = normalize(normalMatrix * normal);
+    vView = normalize(-mvPosition.xyz);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+// Brightest where the tube is seen face on, fading towards its silhouette
+const glowFragmentShader = `
+  uniform vec3 color;
+  uniform float intensity;
+  varying vec3 vNormal;
+  varying vec3 vView;
+
+  void main() {
+    float facing = abs(dot(normalize(vNormal), normalize(vView)));
+    gl_FragColor = vec4(color * intensity * facing * facing, 1.0);
+  }
+`;
+
+/**
+ * Io's flux tube (the Alfvén wing linking Io to Jupiter's ionosphere) as a
+ * glowing tube laid along a traced field line. The geometry is allocated
+ * once and rebuilt in place each time the line moves.
+ */
+export class FluxTube {
+  readonly object = new THREE.Group();
+  private layers: {
+    geometry: THREE.BufferGeometry;
+    material: THREE.ShaderMaterial;
+    radius: number;
+    strength: number;
+  }[];
+  private lengths = new Float32Array(0);
+  private centre = new THREE.Vector3();
+  private tangent = new THREE.Vector3();
+  private normal = new THREE.Vector3();
+  private binormal = new THREE.Vector3();
+  private a = new THREE.Vector3();
+  private b = new THREE.Vector3();
+
+  constructor(color = 0xffdd33) {
+    const indices: number[] = [];
+    for (let j = 0; j < TUBE_SEGMENTS; j++) {
+      for (let k = 0; k < TUBE_SIDES; k++) {
+        const a = j * TUBE_SIDES + k;
+        const b = j * TUBE_SIDES + ((k + 1) % TUBE_SIDES);
+        indices.push(a, b, a + TUBE_SIDES, b, b + TUBE_SIDES, a + TUBE_SIDES);
+      }
+    }
+
+    this.layers = TUBE_LAYERS.map(({ radius, strength }) => {
+      const vertices = (TUBE_SEGMENTS + 1) * TUBE_SIDES * 3;
+      const geometry = new THREE.BufferGeometry();
+      geometry.setIndex(indices);
+      geometry.setAttribute(
+        "position",
+        new THREE.BufferAttribute(new Float32Array(vertices), 3)
+      );
+      geometry.setAttribute(
+        "normal",
+        new THREE.BufferAttribute(new Float32Array(vertices), 3)
+      );
+      const material = new THREE.ShaderMaterial({
+        uniforms: {
+          color: { value: new THREE.Color(color) },
+          intensity: { value: strength },
+        },
+        vertexShader: glowVertexShader,
+        fragmentShader: glowFragmentShader,
+        blending: THREE.AdditiveBlending,
+        transparent: true,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+      });
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.frustumCulled = false; // Its bounds change every frame
+      this.object.add(mesh);
+      return { geometry, material, radius, strength };
+    });
+  }
+
+  set intensity(value: number) {
+    this.layers.forEach(({ material, strength }) => {
+      material.uniforms.intensity.value = value * strength;
+    });
+  }
+
+  /**
+   * Lay the tube along a polyline (flat x, y, z triples), multiplied by
+   * `scale` into the parent's units. Rings are spaced evenly by length and
+   * oriented by parallel transport, so the tube doesn't twist.
+   */
+  update(points: number[], scale: number) {
+    const count = points.length / 3;
+    this.object.visible = count >= 2;
+    if (!this.object.visible) return;
+
+    if (this.lengths.length < count) this.lengths = new Float32Array(count);
+    const lengths = this.lengths;
+    lengths[0] = 0;
+    for (let i = 1; i < count; i++) {
+      lengths[i] =
+        lengths[i - 1] +
+        Math.hypot(
+          points[i * 3] - points[i * 3 - 3],
+          points[i * 3 + 1] - points[i * 3 - 2],
+          points[i * 3 + 2] - points[i * 3 - 1]
+        );
+    }
+    const total = lengths[count - 1];
+
+    const { centre, tangent, normal, binormal, a, b } = this;
+    let segment = 0;
+    for (let j = 0; j <= TUBE_SEGMENTS; j++) {
+      const distance = (j / TUBE_SEGMENTS) * total;
+      while (segment < count - 2 && lengths[segment + 1] < distance) segment++;
+      a.fromArray(points, segment * 3);
+      b.fromArray(points, segment * 3 + 3);
+      const span = lengths[segment + 1] - lengths[segment];
+      const t = span > 0 ? (distance - lengths[segment]) / span : 0;
+      centre.lerpVectors(a, b, t).multiplyScalar(scale);
+      tangent.subVectors(b, a).normalize();
+
+      // Carry the previous ring's normal over, or start from any
+      // perpendicular
+      if (j === 0) {
+        normal.set(
+          Math.abs(tangent.x) < 0.9 ? 1 : 0,
+          Math.abs(tangent.x) < 0.9 ? 0 : 1,
+          0
+        );
+      }
+      normal.addScaledVector(tangent, -normal.dot(tangent)).normalize();
+      binormal.crossVectors(tangent, normal);
+
+      this.layers.forEach(({ geometry, radius }) => {
+        const position = geometry.attributes.position.array as Float32Array;
+        const normals = geometry.attributes.normal.array as Float32Array;
+        for (let k = 0; k < TUBE_SIDES; k++) {
+          const angle = (k / TUBE_SIDES) * Math.PI * 2;
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          const offset = (j * TUBE_SIDES + k) * 3;
+          const nx = cos * normal.x + sin * binormal.x;
+          const ny = cos * normal.y + sin * binormal.y;
+          const nz = cos * normal.z + sin * binormal.z;
+          normals[offset] = nx;
+          normals[offset + 1] = ny;
+          normals[offset + 2] = nz;
+          position[offset] = centre.x + nx * radius;
+          position[offset + 1] = centre.y + ny * radius;
+          position[offset + 2] = centre.z + nz * radius;
+        }
+      });
+    }
+
+    this.layers.forEach(({ geometry }) => {
+      geometry.attributes.position.needsUpdate = true;
+      geometry.attributes.normal.needsUpdate = true;
+    });
+  }
+
+  dispose() {
+    this.layers.forEach(({ geometry, material }) => {
+      geometry.dispose();
+      material.dispose();
+    });
+  }
+}
+
+interface TrailPoint {
+  u: number; // Texture coordinates of the footprint
+  v: number;
+  travelled: number; // Distance the footprint had moved by then, radians
+}
+
+/**
+ * Io's auroral footprints and their tails, painted into an equirectangular
+ * emissive texture for Jupiter's sphere. Each hemisphere keeps a trail of
+ * recent footprint positions; as Jupiter turns beneath Io the footprint
+ * slides across the surface, and the trail fades with distance travelled
+ * rather than time, so the tail keeps its length at any speed.
+ */
+export class AuroralFootprints {
+  readonly texture: THREE.CanvasTexture;
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private trails: [TrailPoint[], TrailPoint[]] = [[], []]; // North, south
+  private travelled = [0, 0];
+
+  constructor() {
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = AURORA_WIDTH;
+    this.canvas.height = AURORA_HEIGHT;
+    this.context = this.canvas.getContext("2d")!;
+    this.texture = new THREE.CanvasTexture(this.canvas);
+    this.texture.colorSpace = THREE.SRGBColorSpace;
+    this.clear();
+  }
+
+  /**
+   * Add the current footprints (body-frame points on the surface, as from
+   * traceFieldLine) and repaint at the given intensity.
+   */
+  update(footprints: Vec3[], intensity: number) {
+    footprints.forEach(([x, y, z]) => {
+      const hemisphere = y > 0 ? 0 : 1;
+      const trail = this.trails[hemisphere];
+      // Matches three's SphereGeometry texture coordinates
+      const u = (((Math.atan2(z, -x) / (2 * Math.PI)) % 1) + 1) % 1;
+      const v = Math.acos(y / Math.hypot(x, y, z)) / Math.PI;
+
+      const last = trail[trail.length - 1];
+      if (last) {
+        const du = ((u - last.u + 1.5) % 1) - 0.5;
+        const step =
+          Math.hypot(du * Math.sin(v * Math.PI), v - last.v) * 2 * Math.PI;
+        if (step > TAIL_JUMP) {
+          trail.length = 0;
+        } else {
+          this.travelled[hemisphere] += step;
+        }
+      }
+      const travelled = this.travelled[hemisphere];
+      trail.push({ u, v, travelled });
+      while (trail.length > 1 && travelled - trail[0].travelled > TAIL_LENGTH) {
+        trail.shift();
+      }
+    });
+    this.paint(intensity);
+  }
+
+  clear() {
+    this.trails = [[], []];
+    this.paint(0);
+  }
+
+  private paint(intensity: number) {
+    const { context } = this;
+    context.fillStyle = "#000";
+    context.fillRect(0, 0, AURORA_WIDTH, AURORA_HEIGHT);
+    context.lineCap = "round";
+
+    this.trails.forEach((trail, hemisphere) => {
+      const head = trail[trail.length - 1];
+      if (!head) return;
+      const travelled = this.travelled[hemisphere];
+
+      // The tail thins and fades away from the spot
+      for (let i = 1; i < trail.length; i++) {
+        const from = trail[i - 1];
+        const to = trail[i];
+        if (Math.abs(to.u - from.u) > 0.5) continue; // Wraps round the map
+        const fade = 1 - (travelled - to.travelled) / TAIL_LENGTH;
+        context.strokeStyle = `rgba(${AURORA_COLOR}, ${intensity * fade * fade * 0.8})`;
+        context.lineWidth = SPOT_RADIUS * (0.4 + 0.6 * fade);
+        context.beginPath();
+        context.moveTo(from.u * AURORA_WIDTH, from.v * AURORA_HEIGHT);
+        context.lineTo(to.u * AURORA_WIDTH, to.v * AURORA_HEIGHT);
+        context.stroke();
+      }
+
+      // The spot, widened in longitude so it stays round on the sphere
+      const stretch = 1 / Math.max(0.2, Math.sin(head.v * Math.PI));
+      context.save();
+      context.translate(head.u * AURORA_WIDTH, head.v * AURORA_HEIGHT);
+      context.scale(stretch, 1);
+      const spot = context.createRadialGradient(
+        0,
+        0,
+        0,
+        0,
+        0,
+        SPOT_RADIUS * 1.5
+      );
+      spot.addColorStop(0, `rgba(255, 255, 255, ${intensity})`);
+      spot.addColorStop(0.4, `rgba(${AURORA_COLOR}, ${intensity * 0.8})`);
+      spot.addColorStop(1, `rgba(${AURORA_COLOR}, 0)`);
+      context.fillStyle = spot;
+      context.beginPath();
+      context.arc(0, 0, SPOT_RADIUS * 1.5, 0, Math.PI * 2);
+      context.fill();
+      context.restore();
+    });
+
+    this.texture.needsUpdate = true;
+  }
+
+  dispose() {
+    this.texture.dispose();
+  }
+}
@@ -0,0 +1,80 @@
+import * as THREE from "three";
+import {
+  boundaryRadius,
+  BOW_SHOCK_FLARING,
+  BOW_SHOCK_RATIO,
+  MAGNETOPAUSE_FLARING,
+  MAGNETOTAIL_ANGLE,
+  SUN_DIRECTION,
+} from "./simulation/magnetosphere";
+
+const PROFILE_POINTS = 48;
+const SEGMENTS = 64;
+
+// Profile of a boundary with a standoff of 1, from the nose back to
+// MAGNETOTAIL_ANGLE, for a lathe about +y
+const boundaryProfile = (flaring: number) =>
+  Array.from({ length: PROFILE_POINTS + 1 }, (_, i) => {
+    const angle = (i / PROFILE_POINTS) * MAGNETOTAIL_ANGLE;
+    const radius = boundaryRadius(1, flaring, Math.cos(angle));
+    return new THREE.Vector2(
+      Math.max(radius * Math.sin(angle), 1e-6), // Lathes need x > 0
+      radius * Math.cos(angle)
+    );
+  });
+
+type BoundaryMesh = THREE.Mesh<THREE.LatheGeometry, THREE.MeshBasicMaterial>;
+
+/**
+ * The magnetopause and bow shock as faint shells facing the Sun. Both are
+ * built once with a unit standoff and scaled to the current one, so
+ * following the solar wind never rebuilds geometry. They are drawn from
+ * both sides without writing depth, so particles inside stay visible.
+ */
+export class MagnetosphereSurfaces {
+  readonly object = new THREE.Group();
+  private readonly magnetopause: BoundaryMesh;
+  private readonly bowShock: BoundaryMesh;
+
+  constructor() {
+    const surface = (
+      flaring: number,
+      color: number,
+      opacity: number
+    ): BoundaryMesh =>
+      new THREE.Mesh(
+        new THREE.LatheGeometry(boundaryProfile(flaring), SEGMENTS),
+        new THREE.MeshBasicMaterial({
+          color,
+          transparent: true,
+          opacity,
+          side: THREE.DoubleSide,
+          depthWrite: false,
+        })
+      );
+    this.magnetopause = surface(MAGNETOPAUSE_FLARING, 0x3399ff, 0.12);
+    this.bowShock = surface(BOW_SHOCK_FLARING, 0xffaa44, 0.06);
+    this.object.add(this.magnetopause, this.bowShock);
+    this.object.quaternion.setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3().fromArray(SUN_DIRECTION)
+    );
+    this.object.visible = false;
+  }
+
+  // Show the surfaces for a magnetopause `standoff` scene units out, or
+  // hide them with 0
+  update(standoff: number) {
+    this.object.visible = standoff > 0;
+    if (standoff <= 0) return;
+    this.magnetopause.scale.setScalar(standoff);
+    this.bowShock.scale.setScalar(standoff * BOW_SHOCK_RATIO);
+  }
+
+  dispose() {
+    [this.magnetopause, this.bowShock].forEach((mesh) => {
+      mesh.geometry.dispose();
+      mesh.material.dispose();
+    });
+  }
+}
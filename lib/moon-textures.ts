@@ -0,0 +1,96 @@
+import * as THREE from "three";
+import { createRandom, Random } from "./simulation/random";
+
+export type MoonTextureStyle = "europa" | "ganymede" | "callisto";
+
+const WIDTH = 512;
+const HEIGHT = 256;
+
+const blotches = (
+  context: CanvasRenderingContext2D,
+  random: Random,
+  count: number,
+  maxRadius: number,
+  colors: string[]
+) => {
+  for (let i = 0; i < count; i++) {
+    context.fillStyle = colors[Math.floor(random() * colors.length)];
+    context.beginPath();
+    context.ellipse(
+      random() * WIDTH,
+      random() * HEIGHT,
+      (0.3 + random()) * maxRadius,
+      (0.2 + random() * 0.6) * maxRadius,
+      random() * Math.PI,
+      0,
+      Math.PI * 2
+    );
+    context.fill();
+  }
+};
+
+// Europa: bright water ice crossed by reddish-brown lineae
+const paintEuropa = (context: CanvasRenderingContext2D, random: Random) => {
+  context.fillStyle = "#d9d4c7";
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+  blotches(context, random, 60, 30, ["#c9b9a0", "#e8e4da", "#b8a58a"]);
+
+  context.lineWidth = 1.5;
+  for (let i = 0; i < 70; i++) {
+    context.strokeStyle = random() < 0.5 ? "#8a5a3c" : "#a0704c";
+    context.beginPath();
+    let x = random() * WIDTH;
+    let y = random() * HEIGHT;
+    const heading = random() * Math.PI * 2;
+    context.moveTo(x, y);
+    for (let j = 0; j < 12; j++) {
+      x += Math.cos(heading + (random() - 0.5) * 0.4) * 20;
+      y += Math.sin(heading + (random() - 0.5) * 0.4) * 10;
+      context.lineTo(x, y);
+    }
+    context.stroke();
+  }
+};
+
+// Ganymede: dark ancient terrain broken up by bright grooved terrain
+const paintGanymede = (context: CanvasRenderingContext2D, random: Random) => {
+  context.fillStyle = "#6e665c";
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+  blotches(context, random, 90, 40, ["#a39a8c", "#8c8476", "#b7aea0"]);
+  blotches(context, random, 30, 25, ["#4f4840", "#5c554b"]);
+  blotches(context, random, 40, 3, ["#e6e1d8"]);
+};
+
+// Callisto: uniformly dark, saturated with bright crater ejecta
+const paintCallisto = (context: CanvasRenderingContext2D, random: Random) => {
+  context.fillStyle = "#4a4239";
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+  blotches(context, random, 60, 30, ["#3b342d", "#574e43"]);
+  blotches(context, random, 250, 3, ["#d8d2c6", "#b5ada0", "#9c9385"]);
+};
+
+const PAINTERS: Record<
+  MoonTextureStyle,
+  (context: CanvasRenderingContext2D, random: Random) => void
+> = {
+  europa: paintEuropa,
+  ganymede: paintGanymede,
+  callisto: paintCallisto,
+};
+
+/**
+ * Procedural equirectangular surface map for a moon without a bundled
+ * texture image. The pattern is seeded, so every load looks the same.
+ */
+export const createMoonTexture = (style: MoonTextureStyle, seed = 1) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const context = canvas.getContext("2d");
+  if (context) PAINTERS[style](context, createRandom(seed));
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.wrapS = THREE.RepeatWrapping;
+  return texture;
+};
@@ -0,0 +1,164 @@
+// NumPy .npy arrays bundled in an uncompressed .npz (zip) archive, the
+// format np.savez writes and np.load reads; readable without any extra
+// Python packages, and trivially copied into HDF5 with h5py
+
+import { ascii, ZipWriter } from "./zip";
+
+export type NumericArray =
+  | Float32Array
+  | Float64Array
+  | Int32Array
+  | Uint32Array
+  | Uint16Array
+  | Uint8Array;
+
+export interface NpyArray {
+  data: NumericArray;
+  shape: number[];
+}
+
+const DTYPES: [string, new (length: number) => NumericArray][] = [
+  ["<f4", Float32Array],
+  ["<f8", Float64Array],
+  ["<i4", Int32Array],
+  ["<u4", Uint32Array],
+  ["<u2", Uint16Array],
+  ["|u1", Uint8Array],
+];
+
+const MAGIC = "\x93NUMPY";
+
+const fromAscii = (bytes: Uint8Array) =>
+  String.fromCharCode.apply(null, Array.from(bytes));
+
+/**
+ * Encode one array as a version 1.0 .npy file. `shape` defaults to a flat
+ * array; its product must equal the array's length.
+ */
+export const encodeNpy = (
+  data: NumericArray,
+  shape: number[] = [data.length]
+): Uint8Array => {
+  const entry = DTYPES.find(([, type]) => data instanceof type);
+  if (!entry) throw new Error("Unsupported array type");
+  const dims = shape.length === 1 ? `${shape[0]},` : shape.join(", ");
+
+  // The header is padded so that the data starts on a 64-byte boundary
+  let header = `{'descr': '${entry[0]}', 'fortran_order': False, 'shape': (${dims}), }`;
+  const unpadded = MAGIC.length + 4 + header.length + 1;
+  header += " ".repeat((64 - (unpadded % 64)) % 64) + "\n";
+
+  const bytes = new Uint8Array(
+    MAGIC.length + 4 + header.length + data.byteLength
+  );
+  bytes.set(ascii(MAGIC));
+  bytes[6] = 1; // Format version 1.0
+  bytes[7] = 0;
+  new DataView(bytes.buffer).setUint16(8, header.length, true);
+  bytes.set(ascii(header), 10);
+  bytes.set(
+    new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+    10 + header.length
+  );
+  return bytes;
+};
+
+// Decode a .npy file written by encodeNpy or NumPy (little-endian, C order)
+export const decodeNpy = (bytes: Uint8Array): NpyArray => {
+  if (fromAscii(bytes.subarray(0, 6)) !== MAGIC) {
+    throw new Error("Not a .npy file");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const major = bytes[6];
+  const headerLength =
+    major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = major === 1 ? 10 : 12;
+  const header = fromAscii(
+    bytes.subarray(headerStart, headerStart + headerLength)
+  );
+
+  const descr = /'descr':\s*'([^']+)'/.exec(header)?.[1];
+  const shapeText = /'shape':\s*\(([^)]*)\)/.exec(header)?.[1];
+  const entry = DTYPES.find(([name]) => name === descr);
+  if (!entry || shapeText === undefined || /True/.test(header)) {
+    throw new Error(`Unsupported .npy header: ${header.trim()}`);
+  }
+  const shape = shapeText
+    .split(",")
+    .map((dim) => dim.trim())
+    .filter(Boolean)
+    .map(Number);
+  const length = shape.reduce((product, dim) => product * dim, 1);
+
+  // Copy so the result is aligned regardless of where the file sat
+  const data = new entry[1](length);
+  const start = headerStart + headerLength;
+  new Uint8Array(data.buffer).set(
+    bytes.subarray(start, start + data.byteLength)
+  );
+  return { data, shape };
+};
+
+/**
+ * Bundle named arrays into an uncompressed .npz archive; each name gets a
+ * ".npy" member.
+ */
+export const encodeNpz = (arrays: Record<string, NpyArray>): Blob => {
+  const zip = new ZipWriter();
+  Object.entries(arrays).forEach(([name, { data, shape }]) =>
+    zip.add(`${name}.npy`, encodeNpy(data, shape))
+  );
+  return zip.finish("application/octet-stream");
+};
+
+// Read every .npy member of an uncompressed .npz archive, keyed by name
+export const decodeNpz = (buffer: ArrayBuffer): Record<string, NpyArray> => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const arrays: Record<string, NpyArray> = {};
+
+  // Walk the central directory, which holds reliable sizes and offsets
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a .npz archive");
+  const count = view.getUint16(end + 10, true);
+  let entry = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(entry, true) !== 0x02014b50) {
+      throw new Error("Corrupt .npz archive");
+    }
+    const method = view.getUint16(entry + 10, true);
+    const size = view.getUint32(entry + 20, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const extraLength = view.getUint16(entry + 30, true);
+    const commentLength = view.getUint16(entry + 32, true);
+    const localOffset = view.getUint32(entry + 42, true);
+    const name = fromAscii(bytes.subarray(entry + 46, entry + 46 + nameLength));
+    if (method !== 0) {
+      throw new Error("Compressed .npz archives are not supported");
+    }
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    if (name.endsWith(".npy")) {
+      arrays[name.slice(0, -4)] = decodeNpy(
+        bytes.subarray(dataStart, dataStart + size)
+      );
+    }
+    entry += 46 + nameLength + extraLength + commentLength;
+  }
+  return arrays;
+};
+
+// UTF-8 bytes of a JSON value, for metadata stored as a uint8 array
+export const jsonToNpy = (value: unknown): NpyArray => {
+  const data = new TextEncoder().encode(JSON.stringify(value));
+  return { data, shape: [data.length] };
+};
+
+export const npyToJson = ({ data }: NpyArray): unknown =>
+  JSON.parse(new TextDecoder().decode(data));
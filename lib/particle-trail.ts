@@ -0,0 +1,93 @@
+import * as THREE from "three";
+
+const TRAIL_POINTS = 300; // Five seconds of steps at 60 fps
+
+/**
+ * A particle's recent path as a line that fades from its color at the head
+ * to nothing at the tail. Points go into a ring buffer and are laid out oldest
+ * first on every push, so the line never reallocates. It draws additively,
+ * so fading to black is fading out.
+ */
+export class ParticleTrail {
+  readonly object: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  private ring = new Float32Array(TRAIL_POINTS * 3);
+  private head = 0; // Next slot to write in the ring
+  private count = 0;
+  private color = [1, 1, 1]; // Linear RGB, like the particles' colors
+
+  constructor() {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(new Float32Array(TRAIL_POINTS * 3), 3)
+    );
+    geometry.setAttribute(
+      "color",
+      new THREE.BufferAttribute(new Float32Array(TRAIL_POINTS * 3), 3)
+    );
+    geometry.setDrawRange(0, 0);
+    this.object = new THREE.Line(
+      geometry,
+      new THREE.LineBasicMaterial({
+        vertexColors: true,
+        blending: THREE.AdditiveBlending,
+        transparent: true,
+        depthWrite: false,
+      })
+    );
+    this.object.frustumCulled = false; // Its bounds change every frame
+  }
+
+  // Recolor the trail, e.g. when the particle changes species
+  setColor(red: number, green: number, blue: number) {
+    const { color } = this;
+    if (color[0] === red && color[1] === green && color[2] === blue) return;
+    color[0] = red;
+    color[1] = green;
+    color[2] = blue;
+    this.layout();
+  }
+
+  push(x: number, y: number, z: number) {
+    const offset = this.head * 3;
+    this.ring[offset] = x;
+    this.ring[offset + 1] = y;
+    this.ring[offset + 2] = z;
+    this.head = (this.head + 1) % TRAIL_POINTS;
+    this.count = Math.min(this.count + 1, TRAIL_POINTS);
+    this.layout();
+  }
+
+  clear() {
+    this.count = 0;
+    this.head = 0;
+    this.object.geometry.setDrawRange(0, 0);
+  }
+
+  dispose() {
+    this.object.geometry.dispose();
+    this.object.material.dispose();
+  }
+
+  private layout() {
+    const { geometry } = this.object;
+    const positions = geometry.attributes.position.array as Float32Array;
+    const colors = geometry.attributes.color.array as Float32Array;
+    const { count, ring, color } = this;
+    const start = (this.head - count + TRAIL_POINTS) % TRAIL_POINTS;
+    for (let i = 0; i < count; i++) {
+      const from = ((start + i) % TRAIL_POINTS) * 3;
+      const to = i * 3;
+      const fade = ((i + 1) / count) ** 2;
+      positions[to] = ring[from];
+      positions[to + 1] = ring[from + 1];
+      positions[to + 2] = ring[from + 2];
+      colors[to] = color[0] * fade;
+      colors[to + 1] = color[1] * fade;
+      colors[to + 2] = color[2] * fade;
+    }
+    geometry.setDrawRange(0, count);
+    geometry.attributes.position.needsUpdate = true;
+    geometry.attributes.color.needsUpdate = true;
+  }
+}
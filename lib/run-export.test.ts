@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  EXPORT_VERSION,
+  exportSnapshot,
+  exportTimeSeries,
+  parseSnapshot,
+  SNAPSHOT_FORMAT,
+} from "./run-export";
+import { RADIAL_BINS } from "./simulation/diagnostics";
+import { LOSS_CHANNELS } from "./simulation/lifecycle";
+import { DEFAULT_PARAMS, FIXED_TIMESTEP } from "./simulation/params";
+import { PlasmaTorusSimulation } from "./simulation/plasma-torus-simulation";
+import { TimeSeriesRecorder } from "./simulation/time-series";
+
+const run = (steps: number) => {
+  const simulation = new PlasmaTorusSimulation({ maxParticles: 2000 }, 5);
+  for (let i = 0; i < steps; i++) simulation.step(FIXED_TIMESTEP);
+  return simulation;
+};
+
+const bytes = (blob: Blob) => blob.arrayBuffer();
+
+const encode = (value: unknown) =>
+  new TextEncoder().encode(JSON.stringify(value)).buffer as ArrayBuffer;
+
+const text = async (blob: Blob) => new TextDecoder().decode(await bytes(blob));
+
+describe("run export", () => {
+  for (const format of ["json", "npz"] as const) {
+    test(`a ${format} snapshot restores to the same run`, async () => {
+      const original = run(300);
+      const state = parseSnapshot(
+        await bytes(exportSnapshot(original.snapshot(), format))
+      );
+      assert.deepEqual(state, original.snapshot());
+
+      const restored = new PlasmaTorusSimulation({}, 1);
+      restored.restore(state);
+      for (let i = 0; i < 100; i++) {
+        original.step(FIXED_TIMESTEP);
+        restored.step(FIXED_TIMESTEP);
+      }
+      assert.deepEqual(restored.positions, original.positions);
+      assert.deepEqual(restored.losses, original.losses);
+    });
+  }
+
+  test("a CSV snapshot has a metadata comment and a row per slot", async () => {
+    const lines = (await text(exportSnapshot(run(50).snapshot(), "csv")))
+      .trimEnd()
+      .split("\n");
+    const metadata = JSON.parse(lines[0].slice(2));
+    assert.equal(metadata.format, SNAPSHOT_FORMAT);
+    assert.equal(metadata.version, EXPORT_VERSION);
+    assert.match(lines[1], /^index,species,x,y,z,/);
+    assert.equal(lines.length, 2 + 2000);
+  });
+
+  test("snapshots from before newer parameters and losses still load", async () => {
+    const json = JSON.parse(
+      await text(exportSnapshot(run(50).snapshot(), "json"))
+    );
+    delete json.params.magnetopause;
+    delete json.params.sceneScale;
+    json.losses = json.losses.slice(0, 2);
+    const state = parseSnapshot(encode(json));
+    assert.equal(state.params.magnetopause, DEFAULT_PARAMS.magnetopause);
+    assert.equal(state.params.sceneScale, DEFAULT_PARAMS.sceneScale);
+    assert.deepEqual(state.losses, [
+      ...json.losses,
+      ...LOSS_CHANNELS.slice(2).map(() => 0),
+    ]);
+  });
+
+  test("files that are not snapshots are rejected", async () => {
+    const json = JSON.parse(
+      await text(exportSnapshot(run(50).snapshot(), "json"))
+    );
+    assert.throws(
+      () =>
+        parseSnapshot(new TextEncoder().encode("nope").buffer as ArrayBuffer),
+      /neither JSON nor/
+    );
+    assert.throws(() => parseSnapshot(encode({ format: "x" })), /Not a/);
+    assert.throws(
+      () => parseSnapshot(encode({ ...json, version: EXPORT_VERSION + 1 })),
+      /Not a/
+    );
+    assert.throws(
+      () => parseSnapshot(encode({ ...json, volcanoes: [] })),
+      /volcano catalog/
+    );
+    assert.throws(
+      () => parseSnapshot(encode({ ...json, species: json.species.slice(1) })),
+      /do not match/
+    );
+  });
+
+  test("the time series has a CSV row per sample", async () => {
+    const simulation = run(0);
+    const recorder = new TimeSeriesRecorder();
+    for (let i = 0; i < 3; i++) {
+      for (let s = 0; s < 60; s++) simulation.step(FIXED_TIMESTEP);
+      recorder.record(simulation);
+    }
+    const lines = (await text(exportTimeSeries(recorder, 20, "csv")))
+      .trimEnd()
+      .split("\n");
+    assert.equal(lines.length, 2 + 3);
+    assert.equal(lines[1].split(",").length, lines[2].split(",").length);
+    assert.equal(
+      lines[1].split(",").filter((c) => c.startsWith("radial_")).length,
+      RADIAL_BINS
+    );
+  });
+});
@@ -0,0 +1,443 @@
+import { decodeNpz, encodeNpz, jsonToNpy, npyToJson } from "./npz";
+import { RADIAL_BINS } from "./simulation/diagnostics";
+import { parseEruptionScenario } from "./simulation/eruption-scenarios";
+import { INTEGRATORS } from "./simulation/integrators";
+import { LOSS_CHANNELS } from "./simulation/lifecycle";
+import { FIELD_MODELS } from "./simulation/magnetic-field";
+import { parseSolarWindSeries } from "./simulation/magnetosphere";
+import { DEFAULT_PARAMS, SimulationParams } from "./simulation/params";
+import {
+  EruptionState,
+  SimulationState,
+  SOURCE_NAMES,
+} from "./simulation/plasma-torus-simulation";
+import { SPECIES } from "./simulation/species";
+import { TimeSeriesRecorder } from "./simulation/time-series";
+import { TORUS_MODELS } from "./simulation/torus-models";
+import { SCENE_SCALES } from "./simulation/units";
+import { IO_VOLCANOES } from "./simulation/volcanoes";
+
+export const SNAPSHOT_FORMAT = "io-plasma-torus-snapshot";
+export const TIME_SERIES_FORMAT = "io-plasma-torus-time-series";
+export const EXPORT_VERSION = 2;
+
+export type ExportFormat = "csv" | "json" | "npz";
+
+const SPECIES_NAMES = SPECIES.map(({ key }) => key);
+const VOLCANO_NAMES = IO_VOLCANOES.map(({ name }) => name);
+const LOSS_NAMES = LOSS_CHANNELS.map(({ name }) => name);
+
+// Everything in a snapshot besides the particle arrays
+const snapshotMetadata = (state: SimulationState) => ({
+  format: SNAPSHOT_FORMAT,
+  version: EXPORT_VERSION,
+  params: state.params,
+  seed: state.seed,
+  randomState: state.randomState,
+  time: state.time,
+  jupiterRotation: state.jupiterRotation,
+  ephemerisDays: state.ephemerisDays,
+  ephemerisClock: state.ephemerisClock,
+  eruptionScenario: state.eruptionScenario,
+  solarWind: state.solarWind,
+  volcanoes: state.volcanoes,
+  activeParticles: state.activeParticles,
+  allocationCursor: state.allocationCursor,
+  losses: state.losses,
+  speciesNames: SPECIES_NAMES,
+  volcanoNames: VOLCANO_NAMES,
+  sourceNames: SOURCE_NAMES,
+  lossChannels: LOSS_NAMES,
+});
+
+/**
+ * Full particle state plus parameters, seed, clock, eruption scenario and
+ * solar wind series, in one of three formats:
+ *
+ * - json: one object with the particle arrays as flat number arrays
+ * - csv: one row per particle, with the metadata as a leading JSON comment
+ * - npz: NumPy archive with positions and velocities (n×3 float32), species
+ *   and alive (n uint8), birth_times (n float64), lifetimes (n float32),
+ *   generations (n uint32), sources (n uint16) and the metadata as UTF-8
+ *   JSON bytes
+ *
+ * Slots that are not alive hold no particle. Sources index the metadata's
+ * `sourceNames`, and its `losses` count lost particles per `lossChannels`.
+ * JSON and npz snapshots can be imported again with parseSnapshot.
+ */
+export const exportSnapshot = (
+  state: SimulationState,
+  format: ExportFormat
+): Blob => {
+  const metadata = snapshotMetadata(state);
+  const {
+    positions,
+    velocities,
+    species,
+    alive,
+    birthTimes,
+    lifetimes,
+    generations,
+    sources,
+  } = state;
+  const particles = species.length;
+
+  if (format === "npz") {
+    return encodeNpz({
+      positions: { data: positions, shape: [particles, 3] },
+      velocities: { data: velocities, shape: [particles, 3] },
+      species: { data: species, shape: [particles] },
+      alive: { data: alive, shape: [particles] },
+      birth_times: { data: birthTimes, shape: [particles] },
+      lifetimes: { data: lifetimes, shape: [particles] },
+      generations: { data: generations, shape: [particles] },
+      sources: { data: sources, shape: [particles] },
+      metadata: jsonToNpy(metadata),
+    });
+  }
+
+  if (format === "json") {
+    return new Blob(
+      [
+        JSON.stringify({
+          ...metadata,
+          positions: Array.from(positions),
+          velocities: Array.from(velocities),
+          species: Array.from(species),
+          alive: Array.from(alive),
+          birthTimes: Array.from(birthTimes),
+          lifetimes: Array.from(lifetimes),
+          generations: Array.from(generations),
+          sources: Array.from(sources),
+        }),
+      ],
+      { type: "application/json" }
+    );
+  }
+
+  const rows = [
+    `# ${JSON.stringify(metadata)}`,
+    "index,species,x,y,z,vx,vy,vz,alive,birth_time,lifetime,generation,source",
+  ];
+  for (let i = 0; i < particles; i++) {
+    const i3 = i * 3;
+    rows.push(
+      [
+        i,
+        SPECIES_NAMES[species[i]],
+        positions[i3],
+        positions[i3 + 1],
+        positions[i3 + 2],
+        velocities[i3],
+        velocities[i3 + 1],
+        velocities[i3 + 2],
+        alive[i],
+        birthTimes[i],
+        lifetimes[i],
+        generations[i],
+        SOURCE_NAMES[sources[i]],
+      ].join(",")
+    );
+  }
+  return new Blob([rows.join("\n") + "\n"], { type: "text/csv" });
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Whether `params` is a complete, valid SimulationParams
+export const isParams = (params: unknown): params is SimulationParams => {
+  if (typeof params !== "object" || params === null) return false;
+  const record = params as Record<string, unknown>;
+  return (
+    (Object.keys(DEFAULT_PARAMS) as (keyof SimulationParams)[]).every(
+      (key) => typeof record[key] === typeof DEFAULT_PARAMS[key]
+    ) &&
+    INTEGRATORS.some(({ name }) => name === record.integrator) &&
+    FIELD_MODELS.some(({ name }) => name === record.fieldModel) &&
+    TORUS_MODELS.some(({ name }) => name === record.torusModel) &&
+    SCENE_SCALES.some(({ name }) => name === record.sceneScale) &&
+    Number.isInteger(record.maxParticles) &&
+    (record.maxParticles as number) > 0
+  );
+};
+
+const isEruptionState = (volcano: unknown): volcano is EruptionState => {
+  const { isActive, countdown, cooldown, eruptions } = (volcano ??
+    {}) as Record<string, unknown>;
+  return (
+    typeof isActive === "boolean" &&
+    isFiniteNumber(countdown) &&
+    isFiniteNumber(cooldown) &&
+    isFiniteNumber(eruptions)
+  );
+};
+
+// Per-particle arrays as decoded, named like SimulationState's
+const PARTICLE_COLUMNS = [
+  "positions",
+  "velocities",
+  "species",
+  "alive",
+  "birthTimes",
+  "lifetimes",
+  "generations",
+  "sources",
+] as const;
+
+type ParticleColumns = Record<
+  (typeof PARTICLE_COLUMNS)[number],
+  ArrayLike<number>
+>;
+
+// The npz member holding each column
+const NPZ_NAMES: Record<keyof ParticleColumns, string> = {
+  positions: "positions",
+  velocities: "velocities",
+  species: "species",
+  alive: "alive",
+  birthTimes: "birth_times",
+  lifetimes: "lifetimes",
+  generations: "generations",
+  sources: "sources",
+};
+
+const outOfRange = (values: ArrayLike<number>, count: number) =>
+  Array.prototype.some.call(
+    values,
+    (value: number) => !(value >= 0 && value < count)
+  );
+
+// Check a decoded snapshot field by field and assemble a restorable state
+const toSimulationState = (
+  metadata: unknown,
+  {
+    positions,
+    velocities,
+    species,
+    alive,
+    birthTimes,
+    lifetimes,
+    generations,
+    sources,
+  }: ParticleColumns
+): SimulationState => {
+  const fields = (metadata ?? {}) as Record<string, unknown>;
+  const { volcanoes, ephemerisClock, losses: savedLosses } = fields;
+  const clock = ephemerisClock as Record<string, unknown> | null;
+  // Parameters and loss channels added since a snapshot was taken keep
+  // their defaults, which match how it ran
+  const params =
+    typeof fields.params === "object" && fields.params !== null
+      ? { ...DEFAULT_PARAMS, ...fields.params }
+      : fields.params;
+  const losses = Array.isArray(savedLosses)
+    ? LOSS_CHANNELS.map((_, index) => savedLosses[index] ?? 0)
+    : savedLosses;
+  if (
+    fields.format !== SNAPSHOT_FORMAT ||
+    fields.version !== EXPORT_VERSION ||
+    !isParams(params) ||
+    !["seed", "randomState", "time", "jupiterRotation", "ephemerisDays"].every(
+      (key) => isFiniteNumber(fields[key])
+    ) ||
+    !Number.isInteger(fields.activeParticles) ||
+    !Number.isInteger(fields.allocationCursor) ||
+    !Array.isArray(losses) ||
+    (savedLosses as unknown[]).length > LOSS_CHANNELS.length ||
+    !losses.every(isFiniteNumber) ||
+    (clock !== null &&
+      !(isFiniteNumber(clock?.epoch) && isFiniteNumber(clock?.daysPerSecond)))
+  ) {
+    throw new Error("Not a plasma torus snapshot");
+  }
+  if (
+    !Array.isArray(volcanoes) ||
+    volcanoes.length !== IO_VOLCANOES.length ||
+    !volcanoes.every(isEruptionState)
+  ) {
+    throw new Error("Snapshot was taken with a different volcano catalog");
+  }
+
+  const particles = params.maxParticles;
+  if (
+    positions.length !== particles * 3 ||
+    velocities.length !== particles * 3 ||
+    [species, alive, birthTimes, lifetimes, generations, sources].some(
+      ({ length }) => length !== particles
+    ) ||
+    outOfRange(species, SPECIES.length) ||
+    outOfRange(alive, 2) ||
+    outOfRange(sources, SOURCE_NAMES.length)
+  ) {
+    throw new Error("Snapshot particle arrays do not match maxParticles");
+  }
+
+  return {
+    params: { ...params },
+    seed: fields.seed as number,
+    randomState: fields.randomState as number,
+    time: fields.time as number,
+    jupiterRotation: fields.jupiterRotation as number,
+    ephemerisDays: fields.ephemerisDays as number,
+    ephemerisClock: clock && {
+      epoch: clock.epoch as number,
+      daysPerSecond: clock.daysPerSecond as number,
+    },
+    // Absent from snapshots taken before scenarios existed
+    eruptionScenario:
+      (fields.eruptionScenario ?? null) === null
+        ? null
+        : parseEruptionScenario(fields.eruptionScenario),
+    // Likewise before the solar wind could be driven
+    solarWind:
+      (fields.solarWind ?? null) === null
+        ? null
+        : parseSolarWindSeries(fields.solarWind),
+    volcanoes: volcanoes.map((volcano) => ({ ...volcano })),
+    activeParticles: Math.min(fields.activeParticles as number, particles),
+    allocationCursor: (fields.allocationCursor as number) % particles,
+    losses: losses as number[],
+    positions: Float32Array.from(positions),
+    velocities: Float32Array.from(velocities),
+    species: Uint8Array.from(species),
+    alive: Uint8Array.from(alive),
+    birthTimes: Float64Array.from(birthTimes),
+    lifetimes: Float32Array.from(lifetimes),
+    generations: Uint32Array.from(generations),
+    sources: Uint16Array.from(sources),
+  };
+};
+
+/**
+ * Read a snapshot written by exportSnapshot as JSON or npz (told apart by
+ * the zip signature). Throws if the file is not a valid snapshot.
+ */
+export const parseSnapshot = (buffer: ArrayBuffer): SimulationState => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    const arrays = decodeNpz(buffer);
+    const { metadata } = arrays;
+    if (
+      !metadata ||
+      PARTICLE_COLUMNS.some((column) => !arrays[NPZ_NAMES[column]])
+    ) {
+      throw new Error("Not a plasma torus snapshot");
+    }
+    const columns = Object.fromEntries(
+      PARTICLE_COLUMNS.map((column) => [column, arrays[NPZ_NAMES[column]].data])
+    ) as unknown as ParticleColumns;
+    return toSimulationState(npyToJson(metadata), columns);
+  }
+
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("Snapshot is neither JSON nor a .npz archive");
+  }
+  if (PARTICLE_COLUMNS.some((column) => !Array.isArray(json[column]))) {
+    throw new Error("Not a plasma torus snapshot");
+  }
+  return toSimulationState(json, json as unknown as ParticleColumns);
+};
+
+/**
+ * Recorded diagnostics: per-sample time, species counts, peak radius, ion
+ * scale height and radial profile, plus every eruption start. CSV has one
+ * row per sample (eruptions started since the previous sample in their own
+ * column); npz has one array per quantity, samples along the first axis.
+ */
+export const exportTimeSeries = (
+  { samples, eruptions }: TimeSeriesRecorder,
+  maxDistance: number,
+  format: ExportFormat
+): Blob => {
+  const metadata = {
+    format: TIME_SERIES_FORMAT,
+    version: EXPORT_VERSION,
+    speciesNames: SPECIES_NAMES,
+    volcanoNames: VOLCANO_NAMES,
+    radialBins: RADIAL_BINS,
+    maxDistance,
+  };
+
+  if (format === "npz") {
+    const count = samples.length;
+    return encodeNpz({
+      time: {
+        data: Float64Array.from(samples, ({ time }) => time),
+        shape: [count],
+      },
+      species_counts: {
+        data: Float64Array.from(samples.flatMap((s) => s.speciesCounts)),
+        shape: [count, SPECIES.length],
+      },
+      peak_radius: {
+        data: Float64Array.from(samples, ({ peakRadius }) => peakRadius),
+        shape: [count],
+      },
+      scale_height: {
+        data: Float64Array.from(samples, ({ scaleHeight }) => scaleHeight),
+        shape: [count],
+      },
+      radial_profile: {
+        data: Float64Array.from(samples.flatMap((s) => s.radial)),
+        shape: [count, RADIAL_BINS],
+      },
+      eruption_time: {
+        data: Float64Array.from(eruptions, ({ time }) => time),
+        shape: [eruptions.length],
+      },
+      eruption_volcano: {
+        data: Int32Array.from(eruptions, ({ volcano }) => volcano),
+        shape: [eruptions.length],
+      },
+      metadata: jsonToNpy(metadata),
+    });
+  }
+
+  if (format === "json") {
+    return new Blob(
+      [
+        JSON.stringify({
+          ...metadata,
+          samples,
+          eruptions: eruptions.map(({ time, volcano }) => ({
+            time,
+            volcano: VOLCANO_NAMES[volcano],
+          })),
+        }),
+      ],
+      { type: "application/json" }
+    );
+  }
+
+  const header = [
+    "time",
+    ...SPECIES_NAMES.map((name) => `count_${name}`),
+    "peak_radius",
+    "scale_height",
+    "eruptions_started",
+    ...Array.from({ length: RADIAL_BINS }, (_, bin) => `radial_${bin}`),
+  ];
+  const rows = [`# ${JSON.stringify(metadata)}`, header.join(",")];
+  let event = 0;
+  samples.forEach((sample) => {
+    const started: string[] = [];
+    while (event < eruptions.length && eruptions[event].time <= sample.time) {
+      started.push(VOLCANO_NAMES[eruptions[event++].volcano]);
+    }
+    rows.push(
+      [
+        sample.time,
+        ...sample.speciesCounts,
+        sample.peakRadius,
+        sample.scaleHeight,
+        started.join(";"),
+        ...sample.radial,
+      ].join(",")
+    );
+  });
+  return new Blob([rows.join("\n") + "\n"], { type: "text/csv" });
+};
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { decodeScenario, encodeScenario, Scenario } from "./scenario-url";
+import { ERUPTION_SCENARIOS } from "./simulation/eruption-scenarios";
+import { SOLAR_WIND_PRESETS } from "./simulation/magnetosphere";
+import { DEFAULT_PARAMS } from "./simulation/params";
+
+describe("scenario URL", () => {
+  test("a scenario survives a round trip through the hash", () => {
+    const scenario: Scenario = {
+      seed: 3735928559,
+      params: {
+        integrator: "rk4",
+        fieldModel: "jrm09",
+        magneticTilt: 0.123456789012345,
+        maxParticles: 20000,
+        magnetopause: true,
+        sceneScale: "true",
+      },
+      ephemeris: { epoch: 2460000.5, daysPerSecond: 0.25 },
+      eruptionScenario: ERUPTION_SCENARIOS[0],
+      solarWind: SOLAR_WIND_PRESETS[1],
+      camera: { position: [1, 2, 3.5], target: [0, -1, 0] },
+    };
+    assert.deepEqual(decodeScenario(`#${encodeScenario(scenario)}`), scenario);
+  });
+
+  test("defaults are left out of the hash", () => {
+    assert.equal(encodeScenario({ params: { ...DEFAULT_PARAMS } }), "");
+    assert.equal(
+      encodeScenario({ params: { maxParticles: 10 } }),
+      "maxParticles=10"
+    );
+  });
+
+  test("loaded eruption scenarios and solar wind series are not shared", () => {
+    const hash = encodeScenario({
+      params: {},
+      eruptionScenario: { ...ERUPTION_SCENARIOS[0] },
+      solarWind: { ...SOLAR_WIND_PRESETS[0] },
+    });
+    assert.equal(hash, "");
+  });
+
+  test("unknown keys and malformed values are ignored", () => {
+    const scenario = decodeScenario(
+      "#seed=-4&integrator=leapfrog&magneticTilt=abc&magnetopause=yes" +
+        "&eruptions=Nothing&camera=1,2&target=0,0,0&colour=red"
+    );
+    assert.deepEqual(scenario, {
+      params: {},
+      eruptionScenario: undefined,
+      solarWind: undefined,
+    });
+  });
+
+  test("the particle limit is rounded and capped at the slider maximum", () => {
+    assert.equal(
+      decodeScenario("maxParticles=1e12").params.maxParticles,
+      1000000
+    );
+    assert.equal(decodeScenario("maxParticles=0.2").params.maxParticles, 1);
+  });
+});
@@ -0,0 +1,201 @@
+import { dateFromJulianDay, julianDay } from "./simulation/ephemeris";
+import {
+  ERUPTION_SCENARIOS,
+  EruptionScenario,
+} from "./simulation/eruption-scenarios";
+import { INTEGRATORS, IntegratorName } from "./simulation/integrators";
+import { FIELD_MODELS, FieldModelName } from "./simulation/magnetic-field";
+import {
+  SOLAR_WIND_PRESETS,
+  SolarWindSeries,
+} from "./simulation/magnetosphere";
+import {
+  DEFAULT_PARAMS,
+  NumericParam,
+  PARAM_CONTROLS,
+  SimulationParams,
+} from "./simulation/params";
+import { EphemerisClock } from "./simulation/plasma-torus-simulation";
+import { TORUS_MODELS, TorusModelName } from "./simulation/torus-models";
+import { SCENE_SCALES, SceneScaleName } from "./simulation/units";
+
+export type Triple = [number, number, number];
+
+export interface CameraPose {
+  position: Triple;
+  target: Triple;
+}
+
+/**
+ * Everything needed to reproduce a run: the PRNG seed, the parameters that
+ * differ from the defaults, the real-date clock if any, the eruption
+ * scenario and solar wind series if they are built-in presets, and where
+ * the camera was looking. Presets travel by name; files loaded by the user
+ * are too large for a link and are left out.
+ */
+export interface Scenario {
+  seed?: number;
+  params: Partial<SimulationParams>;
+  ephemeris?: EphemerisClock;
+  eruptionScenario?: EruptionScenario;
+  solarWind?: SolarWindSeries;
+  camera?: CameraPose;
+}
+
+const NUMERIC_PARAMS = Object.keys(DEFAULT_PARAMS).filter(
+  (key) => typeof DEFAULT_PARAMS[key as keyof SimulationParams] === "number"
+) as NumericParam[];
+
+// Switches, written as 1 or 0
+type BooleanParam = {
+  [K in keyof SimulationParams]: SimulationParams[K] extends boolean
+    ? K
+    : never;
+}[keyof SimulationParams];
+
+const BOOLEAN_PARAMS = Object.keys(DEFAULT_PARAMS).filter(
+  (key) => typeof DEFAULT_PARAMS[key as keyof SimulationParams] === "boolean"
+) as BooleanParam[];
+
+// Camera coordinates only need to survive a round trip visually
+const formatCoordinate = (value: number) =>
+  String(Math.round(value * 1000) / 1000);
+
+const parseTriple = (value: string): Triple | undefined => {
+  const parts = value.split(",").map(Number);
+  if (parts.length !== 3 || !parts.every(Number.isFinite)) return undefined;
+  return [parts[0], parts[1], parts[2]];
+};
+
+/**
+ * Serialize a scenario into a URL hash fragment (without the leading "#").
+ * Parameters are written at full precision so the shared run matches
+ * exactly; parameters equal to their defaults are omitted.
+ */
+export const encodeScenario = ({
+  seed,
+  params,
+  ephemeris,
+  eruptionScenario,
+  solarWind,
+  camera,
+}: Scenario): string => {
+  const query = new URLSearchParams();
+  if (seed !== undefined) query.set("seed", String(seed));
+
+  if (params.integrator && params.integrator !== DEFAULT_PARAMS.integrator) {
+    query.set("integrator", params.integrator);
+  }
+  if (params.fieldModel && params.fieldModel !== DEFAULT_PARAMS.fieldModel) {
+    query.set("fieldModel", params.fieldModel);
+  }
+  if (params.torusModel && params.torusModel !== DEFAULT_PARAMS.torusModel) {
+    query.set("torusModel", params.torusModel);
+  }
+  BOOLEAN_PARAMS.forEach((key) => {
+    const value = params[key];
+    if (value !== undefined && value !== DEFAULT_PARAMS[key]) {
+      query.set(key, value ? "1" : "0");
+    }
+  });
+  if (params.sceneScale && params.sceneScale !== DEFAULT_PARAMS.sceneScale) {
+    query.set("sceneScale", params.sceneScale);
+  }
+  NUMERIC_PARAMS.forEach((key) => {
+    const value = params[key];
+    if (value !== undefined && value !== DEFAULT_PARAMS[key]) {
+      query.set(key, String(value));
+    }
+  });
+
+  if (ephemeris) {
+    query.set("date", dateFromJulianDay(ephemeris.epoch).toISOString());
+    query.set("rate", String(ephemeris.daysPerSecond));
+  }
+
+  if (eruptionScenario && ERUPTION_SCENARIOS.includes(eruptionScenario)) {
+    query.set("eruptions", eruptionScenario.name);
+  }
+  if (solarWind && SOLAR_WIND_PRESETS.includes(solarWind)) {
+    query.set("solarWind", solarWind.name);
+  }
+
+  if (camera) {
+    query.set("camera", camera.position.map(formatCoordinate).join(","));
+    query.set("target", camera.target.map(formatCoordinate).join(","));
+  }
+  return query.toString();
+};
+
+/**
+ * Parse a URL hash fragment produced by `encodeScenario`. Unknown keys and
+ * malformed values are ignored so an edited link still loads.
+ */
+export const decodeScenario = (hash: string): Scenario => {
+  const query = new URLSearchParams(hash.replace(/^#/, ""));
+  const scenario: Scenario = { params: {} };
+
+  const seed = Number(query.get("seed"));
+  if (query.has("seed") && Number.isInteger(seed) && seed >= 0) {
+    scenario.seed = seed >>> 0;
+  }
+
+  const integrator = query.get("integrator");
+  if (INTEGRATORS.some(({ name }) => name === integrator)) {
+    scenario.params.integrator = integrator as IntegratorName;
+  }
+  const fieldModel = query.get("fieldModel");
+  if (FIELD_MODELS.some(({ name }) => name === fieldModel)) {
+    scenario.params.fieldModel = fieldModel as FieldModelName;
+  }
+  const torusModel = query.get("torusModel");
+  if (TORUS_MODELS.some(({ name }) => name === torusModel)) {
+    scenario.params.torusModel = torusModel as TorusModelName;
+  }
+  BOOLEAN_PARAMS.forEach((key) => {
+    const value = query.get(key);
+    if (value === "1" || value === "0") scenario.params[key] = value === "1";
+  });
+  const sceneScale = query.get("sceneScale");
+  if (SCENE_SCALES.some(({ name }) => name === sceneScale)) {
+    scenario.params.sceneScale = sceneScale as SceneScaleName;
+  }
+  NUMERIC_PARAMS.forEach((key) => {
+    const value = Number(query.get(key));
+    if (query.has(key) && Number.isFinite(value)) {
+      scenario.params[key] = value;
+    }
+  });
+  if (scenario.params.maxParticles !== undefined) {
+    const limits = PARAM_CONTROLS.find(({ key }) => key === "maxParticles");
+    scenario.params.maxParticles = Math.min(
+      Math.max(Math.round(scenario.params.maxParticles), 1),
+      limits ? limits.max : DEFAULT_PARAMS.maxParticles
+    );
+  }
+
+  const epoch = Date.parse(query.get("date") ?? "");
+  const rate = Number(query.get("rate"));
+  if (Number.isFinite(epoch) && Number.isFinite(rate)) {
+    scenario.ephemeris = {
+      epoch: julianDay(new Date(epoch)),
+      daysPerSecond: rate,
+    };
+  }
+
+  const eruptions = query.get("eruptions");
+  scenario.eruptionScenario = ERUPTION_SCENARIOS.find(
+    ({ name }) => name === eruptions
+  );
+  const solarWind = query.get("solarWind");
+  scenario.solarWind = SOLAR_WIND_PRESETS.find(
+    ({ name }) => name === solarWind
+  );
+
+  const position = parseTriple(query.get("camera") ?? "");
+  const target = parseTriple(query.get("target") ?? "");
+  if (position && target) {
+    scenario.camera = { position, target };
+  }
+  return scenario;
+};
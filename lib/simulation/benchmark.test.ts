@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { benchmarkSimulation, benchmarkSteps, fillTorus } from "./benchmark";
+import {
+  ParticleIntegrator,
+  PlasmaTorusSimulation,
+} from "./plasma-torus-simulation";
+
+describe("benchmark", () => {
+  test("fillTorus puts a live particle about the torus in every slot", () => {
+    const simulation = new PlasmaTorusSimulation({ maxParticles: 2000 }, 9);
+    fillTorus(simulation);
+    const { torusRadius } = simulation.params;
+    assert.equal(simulation.liveParticles, 2000);
+    assert.equal(simulation.activeParticles, 2000);
+    for (let i = 0; i < 2000; i++) {
+      assert.equal(simulation.alive[i], 1);
+      const { positions } = simulation;
+      const x = positions[i * 3];
+      const y = positions[i * 3 + 1];
+      const z = positions[i * 3 + 2];
+      assert.ok(Math.abs(Math.hypot(x, z) - torusRadius) <= 1.0001);
+      assert.ok(Math.abs(y) <= 1);
+    }
+  });
+
+  test("the buffer stays about full while the benchmark steps", () => {
+    const simulation = new PlasmaTorusSimulation({ maxParticles: 1000 }, 9);
+    const result = benchmarkSimulation("cpu", simulation, 20);
+    // Only the odd recombination frees a slot
+    assert.ok(result.particles > 990);
+    assert.equal(result.particles, simulation.liveParticles);
+    assert.equal(result.steps, 20);
+    assert.ok(result.particlesPerMs > 0);
+    assert.equal(
+      result.particlesPerMs,
+      (result.particles * result.steps) / result.milliseconds
+    );
+  });
+
+  test("small buffers take more steps, for about a million updates", () => {
+    assert.equal(benchmarkSteps(1000), 1000);
+    assert.equal(benchmarkSteps(1000000), 10);
+    assert.equal(benchmarkSteps(100000000), 10);
+  });
+});
+
+describe("ParticleIntegrator", () => {
+  // Records what the simulation hands over instead of integrating
+  const recorder = (simulation: PlasmaTorusSimulation) => {
+    const calls = { steps: [] as number[][], resets: 0, syncs: 0 };
+    const integrator: ParticleIntegrator = {
+      step: () => calls.steps.push(simulation.emitted.slice()),
+      reset: () => calls.resets++,
+      sync: () => calls.syncs++,
+    };
+    simulation.particleIntegrator = integrator;
+    return calls;
+  };
+
+  test("a particle integrator takes over the particles after emission", () => {
+    const simulation = new PlasmaTorusSimulation({}, 9);
+    const calls = recorder(simulation);
+    for (let i = 0; i < 60; i++) simulation.step();
+    assert.equal(calls.steps.length, 60);
+    const emitted = calls.steps.flat();
+    assert.ok(emitted.length > 0);
+    assert.equal(new Set(emitted).size, emitted.length);
+    assert.equal(simulation.emitted.length, 0);
+
+    // The simulation moves nothing itself, only writing new particles
+    const before = simulation.positions.slice();
+    simulation.step();
+    const written = calls.steps[calls.steps.length - 1];
+    for (let i = 0; i < simulation.maxParticles; i++) {
+      if (written.includes(i)) continue;
+      assert.deepEqual(
+        simulation.positions.subarray(i * 3, i * 3 + 3),
+        before.subarray(i * 3, i * 3 + 3)
+      );
+    }
+  });
+
+  test("snapshots sync from the integrator, and resets reach it", () => {
+    const simulation = new PlasmaTorusSimulation({}, 9);
+    const calls = recorder(simulation);
+    simulation.step();
+    const state = simulation.snapshot();
+    assert.equal(calls.syncs, 1);
+    simulation.reset();
+    simulation.restore(state);
+    assert.equal(calls.resets, 2);
+  });
+});
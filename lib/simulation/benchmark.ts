@@ -0,0 +1,84 @@
+import {
+  PlasmaTorusSimulation,
+  SOURCE_IO_ATMOSPHERE,
+} from "./plasma-torus-simulation";
+import { createRandom } from "./random";
+import { SPECIES_INDEX } from "./species";
+
+export const BENCHMARK_PARTICLE_COUNTS = [1000, 10000, 100000, 1000000];
+
+export interface BenchmarkResult {
+  path: string;
+  integrator: string;
+  particles: number;
+  steps: number;
+  milliseconds: number;
+  particlesPerMs: number; // Particle steps per millisecond
+}
+
+const FILL_SPREAD = 1; // Scene units either side of the torus radius
+
+/**
+ * Put a live O⁺ ion in every slot, scattered about the torus radius at
+ * rest and never due to leave, so every step updates the whole buffer
+ * however large it is. Emission then overwrites slots rather than filling
+ * empty ones, which keeps the buffer full.
+ */
+export const fillTorus = (simulation: PlasmaTorusSimulation) => {
+  const state = simulation.snapshot();
+  const random = createRandom(simulation.seed);
+  const { torusRadius } = simulation.params;
+  state.positions.fill(0);
+  state.velocities.fill(0);
+  for (let i = 0; i < simulation.maxParticles; i++) {
+    const angle = random() * 2 * Math.PI;
+    const radius = torusRadius + (random() * 2 - 1) * FILL_SPREAD;
+    state.positions[i * 3] = radius * Math.cos(angle);
+    state.positions[i * 3 + 1] = (random() * 2 - 1) * FILL_SPREAD;
+    state.positions[i * 3 + 2] = radius * Math.sin(angle);
+  }
+  state.species.fill(SPECIES_INDEX["O+"]);
+  state.alive.fill(1);
+  state.birthTimes.fill(state.time);
+  state.lifetimes.fill(Infinity);
+  state.generations.fill(1);
+  state.sources.fill(SOURCE_IO_ATMOSPHERE);
+  state.activeParticles = simulation.maxParticles;
+  state.allocationCursor = 0;
+  simulation.restore(state);
+};
+
+// Enough steps for about a million particle updates, and at least ten
+export const benchmarkSteps = (particles: number) =>
+  Math.max(10, Math.ceil(1000000 / particles));
+
+/**
+ * Time `steps` fixed steps of a simulation with every slot filled (see
+ * fillTorus), after a few untimed warm-up steps, and report its particle
+ * throughput over the particles live at the end. `finish` waits for queued
+ * work on paths that run asynchronously, such as the GPU.
+ */
+export const benchmarkSimulation = (
+  path: string,
+  simulation: PlasmaTorusSimulation,
+  steps = benchmarkSteps(simulation.maxParticles),
+  finish = () => {}
+): BenchmarkResult => {
+  fillTorus(simulation);
+  for (let i = 0; i < 5; i++) simulation.step();
+  finish();
+
+  const start = performance.now();
+  for (let i = 0; i < steps; i++) simulation.step();
+  finish();
+  const milliseconds = performance.now() - start;
+
+  return {
+    path,
+    integrator: simulation.params.integrator,
+    particles: simulation.liveParticles,
+    steps,
+    milliseconds,
+    particlesPerMs: (simulation.liveParticles * steps) / milliseconds,
+  };
+};
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  COLUMN_MAP_WIDTH,
+  DIAGNOSTICS_SAMPLE,
+  LATITUDE_BINS,
+  LONGITUDE_BINS,
+  RADIAL_BINS,
+  computeDiagnostics,
+} from "./diagnostics";
+import { createFramePose } from "./reference-frames";
+import { SPECIES_INDEX, SpeciesKey } from "./species";
+
+// Particles at the given positions and velocities; (0, 0, 0) is unemitted
+const particles = (
+  points: { position: number[]; velocity?: number[]; species: SpeciesKey }[]
+) => ({
+  positions: new Float32Array(points.flatMap(({ position }) => position)),
+  velocities: new Float32Array(
+    points.flatMap(({ velocity = [0, 0, 0] }) => velocity)
+  ),
+  species: new Uint8Array(points.map(({ species }) => SPECIES_INDEX[species])),
+});
+
+const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+describe("computeDiagnostics", () => {
+  test("bins emitted particles by distance, latitude and species", () => {
+    const diagnostics = computeDiagnostics(
+      particles([
+        { position: [5, 1, 0], velocity: [0, 0, 0.1], species: "S+" },
+        { position: [0, -1, 5], velocity: [0, 0, 0.3], species: "S+" },
+        { position: [-5, 0, 0], velocity: [0.2, 0, 0], species: "O" },
+        { position: [0, 0, 0], species: "S++" },
+      ]),
+      createFramePose(),
+      10,
+      null
+    );
+    assert.equal(diagnostics.particles, 4);
+    assert.equal(diagnostics.sampled, 3);
+    assert.equal(diagnostics.columnDensity, null);
+
+    const total = (histogram: Float32Array) =>
+      histogram.reduce((sum, count) => sum + count, 0);
+    assert.equal(total(diagnostics.radial), 3);
+    assert.equal(total(diagnostics.latitude), 3);
+    assert.equal(total(diagnostics.longitude), 3);
+    assert.equal(diagnostics.radial[RADIAL_BINS / 2], 3); // r = 5 to 5.1
+    // 11° north, on the equator and 11° south, in 5° bins
+    assert.equal(diagnostics.latitude[LATITUDE_BINS / 2 + 2], 1);
+    assert.equal(diagnostics.latitude[LATITUDE_BINS / 2], 1);
+    assert.equal(diagnostics.latitude[LATITUDE_BINS / 2 - 3], 1);
+
+    assert.equal(diagnostics.speciesCounts[SPECIES_INDEX["S+"]], 2);
+    assert.equal(diagnostics.speciesCounts[SPECIES_INDEX.O], 1);
+    assert.equal(diagnostics.speciesCounts[SPECIES_INDEX["S++"]], 0);
+    assert.ok(
+      Math.abs(diagnostics.meanSpeed[SPECIES_INDEX["S+"]] - 0.2) < 1e-6
+    );
+    assert.equal(diagnostics.meanSpeed[SPECIES_INDEX["S++"]], 0);
+    // Only the ions count towards the scale height
+    assert.equal(diagnostics.scaleHeight, 1);
+  });
+
+  test("the peak radius is the centre of the fullest bin", () => {
+    const diagnostics = computeDiagnostics(
+      particles([
+        { position: [5.9, 0, 0], species: "S+" },
+        { position: [0, 0, 5.9], species: "S+" },
+        { position: [8, 0, 0], species: "S+" },
+        { position: [20, 0, 0], species: "S+" }, // Beyond the histogram
+      ]),
+      createFramePose(),
+      10,
+      null
+    );
+    assert.equal(diagnostics.peakRadius, 5.875);
+    assert.equal(
+      diagnostics.radial.reduce((sum, count) => sum + count, 0),
+      3
+    );
+  });
+
+  test("a quarter turn about the pole moves a quarter of the longitude bins", () => {
+    const bin = (x: number, z: number) =>
+      computeDiagnostics(
+        particles([{ position: [x, 0, z], species: "S+" }]),
+        createFramePose(),
+        10,
+        null
+      ).longitude.findIndex((count) => count > 0);
+    const quarter = LONGITUDE_BINS / 4;
+    const a = bin(5, 0.01);
+    const b = bin(0.01, -5);
+    assert.equal((a - b + LONGITUDE_BINS) % LONGITUDE_BINS, quarter);
+  });
+
+  test("the column map counts particles in front of the camera", () => {
+    const { columnDensity } = computeDiagnostics(
+      particles([
+        { position: [0.5, 0.5, 0], species: "S+" },
+        { position: [0.5, 0.5, 0.2], species: "O+" },
+        { position: [2, 0, 0], species: "S+" }, // Off the map
+      ]),
+      createFramePose(),
+      10,
+      IDENTITY
+    );
+    assert.ok(columnDensity);
+    assert.equal(
+      columnDensity.reduce((sum, count) => sum + count, 0),
+      2
+    );
+    assert.equal(columnDensity[10 * COLUMN_MAP_WIDTH + 48], 2);
+  });
+
+  test("large runs are sampled and scaled up to the population", () => {
+    const count = DIAGNOSTICS_SAMPLE * 2 + 1;
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) positions[i * 3] = 5;
+    const diagnostics = computeDiagnostics(
+      {
+        positions,
+        velocities: new Float32Array(count * 3),
+        species: new Uint8Array(count).fill(SPECIES_INDEX["S+"]),
+      },
+      createFramePose(),
+      10,
+      null
+    );
+    assert.ok(diagnostics.sampled <= DIAGNOSTICS_SAMPLE);
+    assert.ok(
+      Math.abs(diagnostics.radial[RADIAL_BINS / 2] - count) < 1,
+      `${diagnostics.radial[RADIAL_BINS / 2]}`
+    );
+    assert.equal(diagnostics.speciesCounts[SPECIES_INDEX["S+"]], count);
+  });
+});
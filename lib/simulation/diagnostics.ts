@@ -0,0 +1,162 @@
+import { BODY_Z_LONGITUDE, Vec3 } from "./magnetic-field";
+import { FramePose, ReferenceFrameName, toFrame } from "./reference-frames";
+import { SPECIES } from "./species";
+
+export const RADIAL_BINS = 40;
+export const LATITUDE_BINS = 36; // 5° each
+export const LONGITUDE_BINS = 36; // 10° each
+export const COLUMN_MAP_WIDTH = 64;
+export const COLUMN_MAP_HEIGHT = 40;
+
+// Larger runs are binned from an evenly strided sample of about this size
+export const DIAGNOSTICS_SAMPLE = 200000;
+
+export interface ParticleArrays {
+  positions: Float32Array;
+  velocities: Float32Array;
+  species: Uint8Array;
+}
+
+/**
+ * Histograms and moments of the particle population. Counts are scaled up
+ * from the sample, so they estimate the whole population.
+ */
+export interface Diagnostics {
+  particles: number;
+  sampled: number;
+  maxDistance: number; // Outer edge of the radial histogram, scene units
+  radial: Float32Array; // Per bin of distance from the frame's origin
+  latitude: Float32Array; // From -90° to 90° about the frame's equator
+  longitude: Float32Array; // West longitude in the frame, 0° to 360°
+  columnDensity: Float32Array | null; // Row-major from the top left, per pixel
+  speciesCounts: number[]; // Indexed like SPECIES
+  meanSpeed: number[]; // Per species, scene units per frame
+  peakRadius: number; // Centre of the fullest radial bin
+  scaleHeight: number; // RMS distance of ions from the frame's equator
+}
+
+/**
+ * A radial profile held to compare the running one against, e.g. from the
+ * other torus model. It only compares in the frame it was binned in.
+ */
+export interface ReferenceProfile {
+  label: string;
+  frame: ReferenceFrameName;
+  maxDistance: number;
+  radial: Float32Array;
+}
+
+const position: Vec3 = [0, 0, 0];
+
+/**
+ * Bin the particles in a reference frame (see framePose); in System III,
+ * longitude zero is System III longitude zero. `viewProjection` (a
+ * column-major 4×4 matrix, as in three.js) projects frame coordinates onto
+ * the column-density map, which is skipped when it is null.
+ */
+export const computeDiagnostics = (
+  { positions, velocities, species }: ParticleArrays,
+  frame: FramePose,
+  maxDistance: number,
+  viewProjection: ArrayLike<number> | null
+): Diagnostics => {
+  const particles = species.length;
+  const stride = Math.max(1, Math.ceil(particles / DIAGNOSTICS_SAMPLE));
+  const radial = new Float32Array(RADIAL_BINS);
+  const latitude = new Float32Array(LATITUDE_BINS);
+  const longitude = new Float32Array(LONGITUDE_BINS);
+  const columnDensity = viewProjection
+    ? new Float32Array(COLUMN_MAP_WIDTH * COLUMN_MAP_HEIGHT)
+    : null;
+  const speciesCounts = SPECIES.map(() => 0);
+  const speedSums = SPECIES.map(() => 0);
+  const m = viewProjection;
+  let sampled = 0;
+  let ions = 0;
+  let heightSquares = 0;
+
+  for (let i = 0; i < particles; i += stride) {
+    const i3 = i * 3;
+    if (
+      !(Math.hypot(positions[i3], positions[i3 + 1], positions[i3 + 2]) > 0)
+    ) {
+      continue; // Not yet emitted, or invalid
+    }
+    const [x, y, z] = toFrame(
+      frame,
+      positions[i3],
+      positions[i3 + 1],
+      positions[i3 + 2],
+      position
+    );
+    const r = Math.hypot(x, y, z);
+    if (!(r > 0)) continue;
+    sampled++;
+
+    const s = species[i];
+    speciesCounts[s]++;
+    speedSums[s] += Math.hypot(
+      velocities[i3],
+      velocities[i3 + 1],
+      velocities[i3 + 2]
+    );
+    if (SPECIES[s].charge > 0) {
+      ions++;
+      heightSquares += y * y;
+    }
+
+    if (r < maxDistance) radial[Math.floor((r / maxDistance) * RADIAL_BINS)]++;
+    const lat = Math.asin(y / r);
+    latitude[
+      Math.min(
+        Math.floor((lat / Math.PI + 0.5) * LATITUDE_BINS),
+        LATITUDE_BINS - 1
+      )
+    ]++;
+
+    // West longitude, placed as in the body frame; see sphericalToBody
+    const angle = Math.atan2(x, z) + BODY_Z_LONGITUDE;
+    const west = (((-angle / (2 * Math.PI)) % 1) + 1) % 1;
+    longitude[
+      Math.min(Math.floor(west * LONGITUDE_BINS), LONGITUDE_BINS - 1)
+    ]++;
+
+    if (columnDensity && m) {
+      const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+      if (w <= 0) continue; // Behind the camera
+      const u = (m[0] * x + m[4] * y + m[8] * z + m[12]) / w;
+      const v = (m[1] * x + m[5] * y + m[9] * z + m[13]) / w;
+      if (Math.abs(u) >= 1 || Math.abs(v) >= 1) continue;
+      const column = Math.floor(((u + 1) / 2) * COLUMN_MAP_WIDTH);
+      const row = Math.floor(((1 - v) / 2) * COLUMN_MAP_HEIGHT);
+      columnDensity[row * COLUMN_MAP_WIDTH + column]++;
+    }
+  }
+
+  // Scale the sample up to the population
+  const scale = stride > 1 ? particles / Math.ceil(particles / stride) : 1;
+  for (const histogram of [radial, latitude, longitude, columnDensity]) {
+    histogram?.forEach((count, bin) => (histogram[bin] = count * scale));
+  }
+
+  let peakBin = 0;
+  radial.forEach((count, bin) => {
+    if (count > radial[peakBin]) peakBin = bin;
+  });
+
+  return {
+    particles,
+    sampled,
+    maxDistance,
+    radial,
+    latitude,
+    longitude,
+    columnDensity,
+    speciesCounts: speciesCounts.map((count) => Math.round(count * scale)),
+    meanSpeed: speedSums.map((sum, s) =>
+      speciesCounts[s] > 0 ? sum / speciesCounts[s] : 0
+    ),
+    peakRadius: ((peakBin + 0.5) / RADIAL_BINS) * maxDistance,
+    scaleHeight: ions > 0 ? Math.sqrt(heightSquares / ions) : 0,
+  };
+};
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  EMISSION_LINES,
+  EmissionLineName,
+  lineEmission,
+} from "./emission-lines";
+import { SPECIES_INDEX, SpeciesKey } from "./species";
+
+const line = (name: EmissionLineName) =>
+  EMISSION_LINES.find((candidate) => candidate.name === name)!;
+
+// Live particles of the given species at the given positions
+const particles = (
+  points: { position: number[]; species: SpeciesKey; alive?: boolean }[]
+) => ({
+  positions: new Float32Array(points.flatMap(({ position }) => position)),
+  species: Uint8Array.from(points, ({ species }) => SPECIES_INDEX[species]),
+  alive: Uint8Array.from(points, ({ alive = true }) => (alive ? 1 : 0)),
+});
+
+describe("lineEmission", () => {
+  test("only live ions of the line's species emit", () => {
+    const out = lineEmission(
+      particles([
+        { position: [6.2, 0.1, 0.1], species: "S+" },
+        { position: [6.3, 0.2, 0.3], species: "S++" },
+        { position: [6.4, 0.3, 0.5], species: "S" },
+        { position: [6.5, 0.4, 0.7], species: "S+", alive: false },
+      ]),
+      line("sii-673"),
+      new Float32Array(4).fill(9)
+    );
+    assert.ok(out[0] > 0);
+    assert.deepEqual(Array.from(out.subarray(1)), [0, 0, 0]);
+  });
+
+  test("emission follows the electron density and averages the line's weight", () => {
+    const out = lineEmission(
+      particles([
+        // A dense cell of S⁺ and S²⁺, and a lone S⁺ elsewhere
+        { position: [6.5, 0.5, 0.5], species: "S+" },
+        { position: [6.6, 0.4, 0.2], species: "S+" },
+        { position: [6.1, 0.9, 0.8], species: "S++" },
+        { position: [-8.5, 0.5, 0.5], species: "S+" },
+      ]),
+      line("sii-673"),
+      new Float32Array(4)
+    );
+    // Electron densities are 4 (1 + 1 + 2) and 1
+    assert.ok(Math.abs(out[0] / out[3] - 4) < 1e-6);
+    assert.equal(out[0], out[1]);
+    assert.equal(out[2], 0);
+    const mean = (out[0] + out[1] + out[3]) / 3;
+    assert.ok(Math.abs(mean - 1) < 1e-6);
+  });
+
+  test("bands weight each ion by its share of the band", () => {
+    const out = lineEmission(
+      particles([
+        { position: [6.5, 0.5, 0.5], species: "S++" },
+        { position: [6.5, 0.5, 0.5], species: "O+" },
+      ]),
+      line("euv"),
+      new Float32Array(2)
+    );
+    const { emitters } = line("euv");
+    assert.ok(
+      Math.abs(out[1] / out[0] - emitters["O+"]! / emitters["S++"]!) < 1e-6
+    );
+  });
+});
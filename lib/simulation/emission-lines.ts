@@ -0,0 +1,134 @@
+import { SPECIES, SPECIES_INDEX, SpeciesKey } from "./species";
+
+export type EmissionLineName =
+  "sii-673" | "siii-953" | "siii-68" | "siv-66" | "oii-83" | "euv";
+
+export interface EmissionLine {
+  name: EmissionLineName;
+  label: string;
+  wavelength: number; // nm; the band centre for a band
+  emitters: Partial<Record<SpeciesKey, number>>; // Relative emission per ion
+}
+
+/**
+ * Lines and bands the torus is imaged in. Ground-based images are taken in
+ * the red [S II] doublet and the near-infrared [S III] line; spacecraft
+ * (Voyager, Cassini, Hisaki, Juno) see the extreme-ultraviolet lines of
+ * S III, S IV and O II, or their sum over a band. Band weights follow the
+ * rough share of each ion in the torus's EUV power (Steffl et al. 2004).
+ */
+export const EMISSION_LINES: EmissionLine[] = [
+  {
+    name: "sii-673",
+    label: "[S II] 673.1 nm",
+    wavelength: 673.1,
+    emitters: { "S+": 1 },
+  },
+  {
+    name: "siii-953",
+    label: "[S III] 953.2 nm",
+    wavelength: 953.2,
+    emitters: { "S++": 1 },
+  },
+  {
+    name: "siii-68",
+    label: "S III 68.0 nm (EUV)",
+    wavelength: 68.0,
+    emitters: { "S++": 1 },
+  },
+  {
+    name: "siv-66",
+    label: "S IV 65.7 nm (EUV)",
+    wavelength: 65.7,
+    emitters: { "S+++": 1 },
+  },
+  {
+    name: "oii-83",
+    label: "O II 83.4 nm (EUV)",
+    wavelength: 83.4,
+    emitters: { "O+": 1 },
+  },
+  {
+    name: "euv",
+    label: "EUV band 55–145 nm",
+    wavelength: 100,
+    emitters: { "S+": 0.3, "S++": 1, "S+++": 0.5, "O+": 0.4, "O++": 0.2 },
+  },
+];
+
+// Side of the cells the electron density is binned in, scene units
+export const ELECTRON_DENSITY_CELL = 1;
+
+// Cells binned along each axis, centred on Jupiter; ions further out than
+// half of them (512 scene units) are left out
+const CELLS = 1024;
+
+const cellIndex = (coordinate: number) =>
+  Math.floor(coordinate / ELECTRON_DENSITY_CELL) + CELLS / 2;
+
+const cellKey = (x: number, y: number, z: number) => {
+  const ix = cellIndex(x);
+  const iy = cellIndex(y);
+  const iz = cellIndex(z);
+  const inside = (index: number) => index >= 0 && index < CELLS;
+  if (!inside(ix) || !inside(iy) || !inside(iz)) return -1;
+  return (ix * CELLS + iy) * CELLS + iz;
+};
+
+export interface EmittingParticles {
+  positions: Float32Array;
+  species: Uint8Array;
+  alive: Uint8Array;
+}
+
+/**
+ * Each particle's emission in a line, written to `out` (one value per
+ * slot, zero for empty slots and species that do not emit the line).
+ *
+ * The torus lines are collisionally excited, so an ion emits in proportion
+ * to the electron density around it. Electrons are taken to neutralise the
+ * ions, and their density is binned from the ions' charge in cubes of
+ * ELECTRON_DENSITY_CELL; it is expressed relative to the mean density the
+ * emitting ions see, so values stay near the line's weights whatever the
+ * particle count. Summed along a line of sight this is the emission measure
+ * ∫ n_ion n_e dl, up to the line's excitation rate.
+ */
+export const lineEmission = (
+  { positions, species, alive }: EmittingParticles,
+  line: EmissionLine,
+  out: Float32Array
+): Float32Array => {
+  const particles = species.length;
+  const weights = SPECIES.map(() => 0);
+  for (const [key, weight] of Object.entries(line.emitters)) {
+    weights[SPECIES_INDEX[key as SpeciesKey]] = weight;
+  }
+
+  const electrons = new Map<number, number>();
+  for (let i = 0; i < particles; i++) {
+    const charge = SPECIES[species[i]].charge;
+    if (!alive[i] || charge <= 0) continue;
+    const i3 = i * 3;
+    const key = cellKey(positions[i3], positions[i3 + 1], positions[i3 + 2]);
+    if (key >= 0) electrons.set(key, (electrons.get(key) ?? 0) + charge);
+  }
+
+  let emitters = 0;
+  let density = 0;
+  for (let i = 0; i < particles; i++) {
+    out[i] = 0;
+    if (!alive[i] || weights[species[i]] === 0) continue;
+    const i3 = i * 3;
+    const key = cellKey(positions[i3], positions[i3 + 1], positions[i3 + 2]);
+    const electronDensity = electrons.get(key) ?? 0;
+    out[i] = weights[species[i]] * electronDensity;
+    emitters++;
+    density += electronDensity;
+  }
+
+  if (density > 0) {
+    const scale = emitters / density;
+    for (let i = 0; i < particles; i++) out[i] *= scale;
+  }
+  return out;
+};
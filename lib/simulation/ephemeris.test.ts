@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  dateFromJulianDay,
+  DIPOLE_TILT_LONGITUDE,
+  julianDay,
+  jupiterEphemeris,
+  jupiterRotationFromMeridian,
+} from "./ephemeris";
+import { MOON_ORBITS, placeMoon } from "./moons";
+import { FIXED_TIMESTEP } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+
+const J2000 = new Date("2000-01-01T12:00:00Z");
+const EPOCH = julianDay(new Date("2024-03-01T00:00:00Z"));
+
+// Signed difference b − a between two angles in degrees, in (-180, 180]
+const angleBetween = (a: number, b: number) =>
+  ((((b - a) % 360) + 540) % 360) - 180;
+
+describe("ephemeris", () => {
+  test("Julian days convert to and from dates", () => {
+    assert.equal(julianDay(J2000), 2451545);
+    assert.equal(dateFromJulianDay(2451545).getTime(), J2000.getTime());
+    assert.equal(
+      dateFromJulianDay(EPOCH).toISOString(),
+      "2024-03-01T00:00:00.000Z"
+    );
+  });
+
+  test("Jupiter stays between 3.9 and 6.5 AU from Earth", () => {
+    for (let day = 0; day < 4400; day += 37) {
+      const { earthDistance } = jupiterEphemeris(EPOCH + day);
+      assert.ok(earthDistance > 3.9 && earthDistance < 6.5, `${earthDistance}`);
+    }
+  });
+
+  test("the central meridian turns once in about 9.9 hours", () => {
+    const hour = 1 / 24;
+    const start = jupiterEphemeris(EPOCH).centralMeridian;
+    const later = jupiterEphemeris(EPOCH + hour).centralMeridian;
+    assert.ok(Math.abs(angleBetween(start, later) - 870.27 / 24) < 0.5);
+  });
+
+  test("Io passes over System III once in about 13 hours", () => {
+    const start = jupiterEphemeris(EPOCH).ioSystemIII;
+    const later = jupiterEphemeris(EPOCH + 0.1).ioSystemIII;
+    // Jupiter outpaces Io by about 870.5 − 203.5 degrees a day
+    assert.ok(Math.abs(angleBetween(start, later) - 66.7) < 1);
+  });
+
+  test("the moons keep close to the Laplace resonance", () => {
+    for (let day = 0; day < 1000; day += 97) {
+      const { io, europa, ganymede } = jupiterEphemeris(EPOCH + day).longitudes;
+      // The mutual perturbations swing it by a few degrees
+      const laplace = io - 3 * europa + 2 * ganymede;
+      assert.ok(Math.abs(Math.abs(angleBetween(0, laplace)) - 180) < 4);
+    }
+  });
+
+  test("an existing result is filled in rather than replaced", () => {
+    const result = jupiterEphemeris(EPOCH);
+    const longitudes = { ...result.longitudes };
+    assert.equal(jupiterEphemeris(EPOCH + 1, result), result);
+    assert.equal(result.julianDay, EPOCH + 1);
+    assert.notDeepEqual(result.longitudes, longitudes);
+    assert.deepEqual(jupiterEphemeris(EPOCH + 1), result);
+  });
+
+  test("the dipole faces Earth when its longitude is on the meridian", () => {
+    // Earth lies along -x; the dipole's tilt is towards the body's +z
+    const angle = jupiterRotationFromMeridian(DIPOLE_TILT_LONGITUDE);
+    assert.ok(Math.abs(Math.sin(angle) + 1) < 1e-12);
+  });
+
+  test("a real-date run places Jupiter and the moons from the ephemeris", () => {
+    const simulation = new PlasmaTorusSimulation({}, 1);
+    simulation.setEphemerisClock({ epoch: EPOCH, daysPerSecond: 0.5 });
+    for (let i = 0; i < 120; i++) simulation.step(FIXED_TIMESTEP);
+    assert.ok(Math.abs(simulation.ephemerisDays - 1) < 1e-9);
+
+    const ephemeris = jupiterEphemeris(EPOCH + simulation.ephemerisDays);
+    assert.equal(
+      simulation.jupiterRotation,
+      jupiterRotationFromMeridian(ephemeris.centralMeridian)
+    );
+    MOON_ORBITS.forEach((moon) => {
+      const expected = placeMoon(
+        moon,
+        (ephemeris.longitudes[moon.name] * Math.PI) / 180,
+        [0, 0, 0]
+      );
+      simulation.moonPositions[moon.name].forEach((value, axis) =>
+        assert.ok(Math.abs(value - expected[axis]) < 1e-9, moon.name)
+      );
+    });
+  });
+});
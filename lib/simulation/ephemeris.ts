@@ -0,0 +1,112 @@
+import { MoonName } from "./moons";
+
+const DEG = Math.PI / 180;
+
+const J2000 = 2451545.0;
+
+// System III longitude toward which the dipole's north pole is tilted
+export const DIPOLE_TILT_LONGITUDE = 200.8;
+
+// Ephemeris playback rates offered in the UI, in days per real second
+export const EPHEMERIS_RATES = [
+  { label: "Real time", daysPerSecond: 1 / 86400 },
+  { label: "1 min/s", daysPerSecond: 1 / 1440 },
+  { label: "10 min/s", daysPerSecond: 1 / 144 },
+  { label: "1 h/s", daysPerSecond: 1 / 24 },
+  { label: "6 h/s", daysPerSecond: 1 / 4 },
+];
+
+export interface JupiterEphemeris {
+  julianDay: number;
+  centralMeridian: number; // System III longitude facing Earth, degrees
+  longitudes: Record<MoonName, number>; // Degrees prograde from +x (away from Earth)
+  ioSystemIII: number; // System III longitude beneath Io, degrees
+  earthDistance: number; // AU
+}
+
+const normalizeDegrees = (angle: number) => ((angle % 360) + 360) % 360;
+
+export const julianDay = (date: Date) => date.getTime() / 86400000 + 2440587.5;
+
+export const dateFromJulianDay = (julianDay: number) =>
+  new Date((julianDay - 2440587.5) * 86400000);
+
+/**
+ * Jupiter's System III central meridian and the Galilean moons' orbital
+ * phases at a Julian day, after Meeus, Astronomical Algorithms ch. 43-44
+ * (low-accuracy theory, good to a fraction of a degree for the moons).
+ *
+ * System III is obtained from Meeus's System II meridian by adding the
+ * difference of the IAU prime meridians, W_III - W_II = 241.65° + 0.266°/day.
+ * Meeus's u angles count from inferior conjunction; the returned longitudes
+ * are shifted by 180° so they count prograde from superior conjunction, the
+ * scene's +x axis pointing away from Earth. Passing `out` fills in an
+ * existing result instead of allocating one.
+ */
+export const jupiterEphemeris = (
+  jd: number,
+  out?: JupiterEphemeris
+): JupiterEphemeris => {
+  const d = jd - J2000;
+  const V = 172.74 + 0.00111588 * d;
+  const M = 357.529 + 0.9856003 * d;
+  const N = 20.02 + 0.0830853 * d + 0.329 * Math.sin(V * DEG);
+  const J = 66.115 + 0.9025179 * d - 0.329 * Math.sin(V * DEG);
+  const A = 1.915 * Math.sin(M * DEG) + 0.02 * Math.sin(2 * M * DEG);
+  const B = 5.555 * Math.sin(N * DEG) + 0.168 * Math.sin(2 * N * DEG);
+  const K = J + A - B;
+  const R =
+    1.00014 - 0.01671 * Math.cos(M * DEG) - 0.00014 * Math.cos(2 * M * DEG);
+  const r =
+    5.20872 - 0.25208 * Math.cos(N * DEG) - 0.00611 * Math.cos(2 * N * DEG);
+  const delta = Math.sqrt(r * r + R * R - 2 * r * R * Math.cos(K * DEG));
+  const psi = Math.asin((R / delta) * Math.sin(K * DEG)) / DEG;
+
+  // Light-time corrected days
+  const t = d - delta / 173;
+  const centralMeridian = normalizeDegrees(68.88 + 870.4529088 * t + psi - B);
+
+  let u1 = 163.8069 + 203.4058646 * t + psi - B;
+  let u2 = 358.414 + 101.2916335 * t + psi - B;
+  let u3 = 5.7176 + 50.234518 * t + psi - B;
+  let u4 = 224.8092 + 21.48798 * t + psi - B;
+
+  // Mutual perturbations
+  const G = 331.18 + 50.310482 * t;
+  const H = 87.45 + 21.569231 * t;
+  const c1 = 0.473 * Math.sin(2 * (u1 - u2) * DEG);
+  const c2 = 1.065 * Math.sin(2 * (u2 - u3) * DEG);
+  u1 += c1;
+  u2 += c2;
+  u3 += 0.165 * Math.sin(G * DEG);
+  u4 += 0.843 * Math.sin(H * DEG);
+
+  const result = out ?? {
+    julianDay: jd,
+    centralMeridian,
+    longitudes: { io: 0, europa: 0, ganymede: 0, callisto: 0 },
+    ioSystemIII: 0,
+    earthDistance: delta,
+  };
+  result.julianDay = jd;
+  result.centralMeridian = centralMeridian;
+  result.earthDistance = delta;
+  result.longitudes.io = normalizeDegrees(u1 + 180);
+  result.longitudes.europa = normalizeDegrees(u2 + 180);
+  result.longitudes.ganymede = normalizeDegrees(u3 + 180);
+  result.longitudes.callisto = normalizeDegrees(u4 + 180);
+
+  // At inferior conjunction Io sits over the central meridian; System III
+  // longitudes increase westward, against the rotation
+  result.ioSystemIII = normalizeDegrees(centralMeridian - u1);
+  return result;
+};
+
+/**
+ * Jupiter's rotation angle about +y (radians) in the scene frame for a
+ * central meridian longitude. Earth lies along -x, and the angle is chosen so
+ * that the dipole, which is tilted toward the body's local +z axis, points
+ * at DIPOLE_TILT_LONGITUDE.
+ */
+export const jupiterRotationFromMeridian = (centralMeridian: number) =>
+  (centralMeridian - 90 - DIPOLE_TILT_LONGITUDE) * DEG;
@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  ERUPTION_SCENARIOS,
+  EruptionScenario,
+  eventStrength,
+  parseEruptionScenario,
+  ScheduledEruption,
+  scenarioEnd,
+} from "./eruption-scenarios";
+import { FIXED_TIMESTEP } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import { IO_VOLCANOES } from "./volcanoes";
+
+const event = (
+  decay: ScheduledEruption["decay"],
+  volcano = "Pele"
+): ScheduledEruption => ({
+  volcano,
+  start: 2,
+  duration: 4,
+  strength: 3,
+  decay,
+});
+
+describe("eruption scenarios", () => {
+  test("events follow their decay profile and are off outside their span", () => {
+    for (const decay of [
+      "constant",
+      "linear",
+      "exponential",
+      "gaussian",
+    ] as const) {
+      assert.equal(eventStrength(event(decay), 1.99), 0);
+      assert.equal(eventStrength(event(decay), 6), 0);
+    }
+    assert.equal(eventStrength(event("constant"), 5), 3);
+    assert.equal(eventStrength(event("linear"), 2), 3);
+    assert.equal(eventStrength(event("linear"), 4), 1.5);
+    assert.ok(
+      Math.abs(eventStrength(event("exponential"), 6 - 1e-9) / 3 - 0.05) < 0.01
+    );
+    assert.equal(eventStrength(event("gaussian"), 4), 3);
+    assert.ok(eventStrength(event("gaussian"), 2.5) < 1);
+  });
+
+  test("a scenario ends with its last event", () => {
+    assert.equal(
+      scenarioEnd({
+        name: "Test",
+        events: [
+          event("constant"),
+          { ...event("linear"), start: 0, duration: 9 },
+        ],
+      }),
+      9
+    );
+  });
+
+  test("scenario files are validated and their events sorted", () => {
+    const scenario = parseEruptionScenario({
+      name: "Test",
+      events: [
+        { ...event("constant"), start: 5 },
+        { ...event("linear", "Loki"), start: 1 },
+      ],
+    });
+    assert.deepEqual(
+      scenario.events.map(({ volcano }) => volcano),
+      ["Loki", "Pele"]
+    );
+
+    assert.throws(
+      () =>
+        parseEruptionScenario({
+          name: "Test",
+          events: [event("constant", "Etna")],
+        }),
+      /No volcano named Etna/
+    );
+    for (const bad of [
+      null,
+      { events: [] },
+      { name: "Test", events: [{ ...event("constant"), duration: 0 }] },
+      { name: "Test", events: [{ ...event("constant"), decay: "sudden" }] },
+    ]) {
+      assert.throws(() => parseEruptionScenario(bad), /Malformed/);
+    }
+  });
+
+  test("the bundled presets load", () => {
+    assert.equal(ERUPTION_SCENARIOS.length, 2);
+    for (const scenario of ERUPTION_SCENARIOS) {
+      assert.ok(scenario.events.length > 0);
+    }
+  });
+
+  test("a scenario replaces the random eruption cycle", () => {
+    const pele = IO_VOLCANOES.findIndex(({ name }) => name === "Pele");
+    const scenario: EruptionScenario = {
+      name: "Test",
+      events: [{ ...event("constant"), start: 1, duration: 1 }],
+    };
+    const simulation = new PlasmaTorusSimulation(
+      { eruptionChance: 1e6, baseEmissionRate: 0 },
+      5
+    );
+    simulation.setEruptionScenario(scenario);
+    const steps = (seconds: number) => {
+      for (let i = 0; i < Math.round(seconds / FIXED_TIMESTEP); i++) {
+        simulation.step(FIXED_TIMESTEP);
+      }
+    };
+
+    steps(0.5);
+    assert.equal(simulation.activeParticles, 0);
+    steps(1);
+    assert.ok(simulation.volcanoes[pele].isActive);
+    steps(1);
+    assert.ok(simulation.volcanoes.every(({ isActive }) => !isActive));
+    simulation.volcanoes.forEach(({ eruptions }, v) =>
+      assert.equal(eruptions, v === pele ? 1 : 0)
+    );
+    for (let i = 0; i < simulation.activeParticles; i++) {
+      assert.equal(simulation.sources[i], pele);
+    }
+    assert.ok(simulation.activeParticles > 0);
+  });
+});
@@ -0,0 +1,127 @@
+import outburst from "./eruption-presets/outburst-2015.json";
+import tvashtar from "./eruption-presets/tvashtar-2007.json";
+import { IO_VOLCANOES } from "./volcanoes";
+
+export type DecayProfile = "constant" | "linear" | "exponential" | "gaussian";
+
+/**
+ * How an event's output varies over its duration, as a fraction of its
+ * strength.
+ *
+ * - constant: full output throughout
+ * - linear: falls from full to nothing
+ * - exponential: falls by e three times over (to 5%), as after an outburst
+ * - gaussian: rises and falls, peaking halfway through
+ */
+export const DECAY_PROFILES: DecayProfile[] = [
+  "constant",
+  "linear",
+  "exponential",
+  "gaussian",
+];
+
+const EXPONENTIAL_FOLDS = 3;
+const GAUSSIAN_WIDTH = 0.2; // Standard deviation, as a fraction of the duration
+
+export interface ScheduledEruption {
+  volcano: string; // Name in IO_VOLCANOES
+  start: number; // Simulated seconds since the run began
+  duration: number; // Seconds
+  strength: number; // Multiple of the volcano's usual plume output
+  decay: DecayProfile;
+  label?: string;
+}
+
+/**
+ * A timed list of eruptions that replaces the random eruption cycle, as
+ * loaded from JSON. Times are simulated seconds (an Io orbit takes about
+ * 21), so a scenario replays the same way whenever its run is restarted.
+ */
+export interface EruptionScenario {
+  name: string;
+  description?: string;
+  events: ScheduledEruption[];
+}
+
+// Output of an event at `time`, as a multiple of the volcano's usual plume
+// output; zero outside the event
+export const eventStrength = (
+  { start, duration, strength, decay }: ScheduledEruption,
+  time: number
+) => {
+  const progress = (time - start) / duration;
+  if (!(progress >= 0 && progress < 1)) return 0;
+  switch (decay) {
+    case "constant":
+      return strength;
+    case "linear":
+      return strength * (1 - progress);
+    case "exponential":
+      return strength * Math.exp(-EXPONENTIAL_FOLDS * progress);
+    case "gaussian":
+      return (
+        strength * Math.exp(-0.5 * ((progress - 0.5) / GAUSSIAN_WIDTH) ** 2)
+      );
+  }
+};
+
+// When the last event of a scenario ends
+export const scenarioEnd = ({ events }: EruptionScenario) =>
+  events.reduce(
+    (end, { start, duration }) => Math.max(end, start + duration),
+    0
+  );
+
+const VOLCANO_NAMES = IO_VOLCANOES.map(({ name }) => name);
+
+const isScheduledEruption = (event: unknown): event is ScheduledEruption => {
+  const { volcano, start, duration, strength, decay, label } = (
+    typeof event === "object" && event !== null ? event : {}
+  ) as Record<string, unknown>;
+  return (
+    typeof volcano === "string" &&
+    typeof start === "number" &&
+    start >= 0 &&
+    typeof duration === "number" &&
+    duration > 0 &&
+    typeof strength === "number" &&
+    strength >= 0 &&
+    DECAY_PROFILES.includes(decay as DecayProfile) &&
+    (label === undefined || typeof label === "string")
+  );
+};
+
+/**
+ * Validate an eruption scenario file, with its events sorted by start
+ * time. Throws if the file is not of the expected shape or names a volcano
+ * that is not in IO_VOLCANOES.
+ */
+export const parseEruptionScenario = (json: unknown): EruptionScenario => {
+  const { name, description, events } = (json ?? {}) as Record<string, unknown>;
+  if (
+    typeof name !== "string" ||
+    (description !== undefined && typeof description !== "string") ||
+    !Array.isArray(events) ||
+    !events.every(isScheduledEruption)
+  ) {
+    throw new Error("Malformed eruption scenario");
+  }
+  const missing = events.find(
+    ({ volcano }) => !VOLCANO_NAMES.includes(volcano)
+  );
+  if (missing) {
+    throw new Error(`No volcano named ${missing.volcano} in the catalog`);
+  }
+
+  return {
+    name,
+    description,
+    events: events
+      .map((event) => ({ ...event }))
+      .sort((a, b) => a.start - b.start),
+  };
+};
+
+export const ERUPTION_SCENARIOS = [outburst, tvashtar].map(
+  parseEruptionScenario
+);
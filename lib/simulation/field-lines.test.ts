@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { traceFieldLine } from "./field-lines";
+import { FieldModelParams } from "./magnetic-field";
+import { DEFAULT_PARAMS } from "./params";
+
+const DIPOLE: FieldModelParams = {
+  ...DEFAULT_PARAMS,
+  fieldModel: "dipole",
+  magneticTilt: 0,
+  dipoleOffsetX: 0,
+  dipoleOffsetY: 0,
+  dipoleOffsetZ: 0,
+  magnetodisc: false,
+};
+
+// Distance and colatitude of every traced point
+const radii = (points: number[]) =>
+  Array.from({ length: points.length / 3 }, (_, i) => {
+    const [x, y, z] = points.slice(i * 3, i * 3 + 3);
+    const r = Math.hypot(x, y, z);
+    return { r, colatitude: Math.acos(y / r) };
+  });
+
+describe("traceFieldLine", () => {
+  test("dipole lines follow r = L sin²θ from footprint to footprint", () => {
+    const L = 6;
+    const { points, footprints } = traceFieldLine([L, 0, 0], DIPOLE);
+    radii(points).forEach(({ r, colatitude }) =>
+      assert.ok(
+        Math.abs(r / (L * Math.sin(colatitude) ** 2) - 1) < 1e-4,
+        `r = ${r} at colatitude ${colatitude}`
+      )
+    );
+
+    // Both ends land at the invariant latitude, one in each hemisphere
+    assert.equal(footprints.length, 2);
+    const surface = Math.sqrt(1 - 1 / L);
+    const ys = footprints.map(([, y]) => y).sort();
+    assert.ok(Math.abs(ys[0] + surface) < 1e-4);
+    assert.ok(Math.abs(ys[1] - surface) < 1e-4);
+    footprints.forEach((footprint) =>
+      assert.ok(Math.abs(Math.hypot(...footprint) - 1) < 1e-12)
+    );
+  });
+
+  test("points run from one footprint through the start to the other", () => {
+    const { points, footprints } = traceFieldLine([4, 0.5, 1], DIPOLE);
+    const first = points.slice(0, 3);
+    const last = points.slice(-3);
+    assert.deepEqual([first, last].sort(), [...footprints].sort());
+    const r = radii(points).map(({ r }) => r);
+    assert.ok(r.includes(Math.hypot(4, 0.5, 1)));
+  });
+
+  test("lines reaching past maxRadius are open", () => {
+    const { footprints } = traceFieldLine([30, 0, 0], DIPOLE, 20);
+    assert.equal(footprints.length, 0);
+    const closed = traceFieldLine([15, 0, 0], DIPOLE, 20);
+    assert.equal(closed.footprints.length, 2);
+  });
+
+  test("the tilted dipole's lines peak on its magnetic equator", () => {
+    const tilt = 0.3;
+    const tilted = { ...DIPOLE, magneticTilt: tilt };
+    // On the magnetic equator, at right angles to the tilted axis
+    const start: [number, number, number] = [
+      0,
+      -8 * Math.sin(tilt),
+      8 * Math.cos(tilt),
+    ];
+    const { points } = traceFieldLine(start, tilted);
+    const apex = Math.max(...radii(points).map(({ r }) => r));
+    assert.ok(Math.abs(apex - 8) < 1e-6);
+  });
+});
@@ -0,0 +1,117 @@
+import { FieldModelParams, getBodyField, Vec3 } from "./magnetic-field";
+
+const MAX_STEPS = 2000;
+
+export interface FieldLine {
+  points: number[]; // xyz triplets in the body frame, planet radii
+  footprints: Vec3[]; // Where the line meets the surface (r = 1)
+}
+
+const field: Vec3 = [0, 0, 0];
+const k1: Vec3 = [0, 0, 0];
+const k2: Vec3 = [0, 0, 0];
+const k3: Vec3 = [0, 0, 0];
+const k4: Vec3 = [0, 0, 0];
+
+// Unit field direction times `sign`, written into `out`
+const direction = (
+  x: number,
+  y: number,
+  z: number,
+  sign: number,
+  model: FieldModelParams,
+  out: Vec3
+) => {
+  getBodyField(x, y, z, model, field);
+  const magnitude = Math.hypot(field[0], field[1], field[2]) || Infinity;
+  out[0] = (sign * field[0]) / magnitude;
+  out[1] = (sign * field[1]) / magnitude;
+  out[2] = (sign * field[2]) / magnitude;
+  return out;
+};
+
+// Follow the field one way from `start`, appending points; returns the
+// surface footprint if the line reaches the planet
+const traceHalf = (
+  start: Vec3,
+  sign: number,
+  model: FieldModelParams,
+  maxRadius: number,
+  stepScale: number,
+  points: number[]
+): Vec3 | null => {
+  let [x, y, z] = start;
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const r = Math.hypot(x, y, z);
+    const ds = stepScale * r;
+
+    direction(x, y, z, sign, model, k1);
+    direction(
+      x + (k1[0] * ds) / 2,
+      y + (k1[1] * ds) / 2,
+      z + (k1[2] * ds) / 2,
+      sign,
+      model,
+      k2
+    );
+    direction(
+      x + (k2[0] * ds) / 2,
+      y + (k2[1] * ds) / 2,
+      z + (k2[2] * ds) / 2,
+      sign,
+      model,
+      k3
+    );
+    direction(x + k3[0] * ds, y + k3[1] * ds, z + k3[2] * ds, sign, model, k4);
+    const nx = x + ((k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]) * ds) / 6;
+    const ny = y + ((k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]) * ds) / 6;
+    const nz = z + ((k1[2] + 2 * k2[2] + 2 * k3[2] + k4[2]) * ds) / 6;
+    const nr = Math.hypot(nx, ny, nz);
+
+    if (nr <= 1) {
+      // Interpolate the surface crossing and project it onto r = 1
+      const t = (r - 1) / (r - nr);
+      const fx = x + (nx - x) * t;
+      const fy = y + (ny - y) * t;
+      const fz = z + (nz - z) * t;
+      const length = Math.hypot(fx, fy, fz);
+      const footprint: Vec3 = [fx / length, fy / length, fz / length];
+      points.push(...footprint);
+      return footprint;
+    }
+
+    x = nx;
+    y = ny;
+    z = nz;
+    points.push(x, y, z);
+    if (nr > maxRadius) return null;
+  }
+  return null;
+};
+
+/**
+ * Trace the field line through `start` (body frame, planet radii) in both
+ * directions until each end reaches the planet's surface, `maxRadius` or a
+ * step limit. Steps are RK4 along the unit field direction, sized to a
+ * fraction `stepScale` of the local radius.
+ */
+export const traceFieldLine = (
+  start: Vec3,
+  model: FieldModelParams,
+  maxRadius = 40,
+  stepScale = 0.02
+): FieldLine => {
+  const backward: number[] = [];
+  const forward: number[] = [];
+  const footprints = [
+    traceHalf(start, -1, model, maxRadius, stepScale, backward),
+    traceHalf(start, 1, model, maxRadius, stepScale, forward),
+  ].filter((footprint): footprint is Vec3 => footprint !== null);
+
+  const points: number[] = [];
+  for (let i = backward.length - 3; i >= 0; i -= 3) {
+    points.push(backward[i], backward[i + 1], backward[i + 2]);
+  }
+  points.push(start[0], start[1], start[2], ...forward);
+  return { points, footprints };
+};
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { ForceModel, INTEGRATOR_STEPS, INTEGRATORS } from "./integrators";
+import { Vec3 } from "./magnetic-field";
+
+// A uniform field along z, so a particle gyrates in a circle of period 2π
+// with nothing else acting on it
+const uniformField: ForceModel = {
+  field: (x, y, z, out) => {
+    out[0] = 0;
+    out[1] = 0;
+    out[2] = 1;
+    return out;
+  },
+  acceleration: (x, y, z, vx, vy, vz, out) => {
+    out[0] = 0;
+    out[1] = 0;
+    out[2] = 0;
+    return out;
+  },
+};
+
+// Gyrate for one period from (1, 0, 0), moving at unit speed; the orbit is
+// the unit circle about the origin
+const gyrate = (integrator: keyof typeof INTEGRATOR_STEPS, steps: number) => {
+  const position: Vec3 = [1, 0, 0];
+  const velocity: Vec3 = [0, -1, 0];
+  const dt = (2 * Math.PI) / steps;
+  for (let i = 0; i < steps; i++) {
+    INTEGRATOR_STEPS[integrator](position, velocity, dt, uniformField);
+  }
+  return { position, velocity };
+};
+
+const distanceFrom = ([x, y, z]: Vec3, [a, b, c]: Vec3) =>
+  Math.hypot(x - a, y - b, z - c);
+
+describe("integrators", () => {
+  test("every listed integrator has a step", () => {
+    INTEGRATORS.forEach(({ name }) =>
+      assert.equal(typeof INTEGRATOR_STEPS[name], "function")
+    );
+  });
+
+  test("the Boris pusher conserves speed in a magnetic field", () => {
+    const { velocity } = gyrate("boris", 50);
+    assert.ok(Math.abs(Math.hypot(...velocity) - 1) < 1e-12);
+  });
+
+  test("explicit Euler gains energy while gyrating", () => {
+    const { velocity } = gyrate("euler", 50);
+    assert.ok(Math.hypot(...velocity) > 1.01);
+  });
+
+  test("every integrator closes the orbit as the step shrinks", () => {
+    INTEGRATORS.forEach(({ name }) => {
+      const coarse = distanceFrom(gyrate(name, 100).position, [1, 0, 0]);
+      const fine = distanceFrom(gyrate(name, 1000).position, [1, 0, 0]);
+      assert.ok(fine < coarse, `${name} does not converge`);
+      assert.ok(fine < 0.1, `${name} misses by ${fine}`);
+    });
+  });
+
+  test("RK4 converges at fourth order", () => {
+    const coarse = distanceFrom(gyrate("rk4", 50).position, [1, 0, 0]);
+    const fine = distanceFrom(gyrate("rk4", 100).position, [1, 0, 0]);
+    // Halving the step cuts the error by about 2^4
+    assert.ok(coarse / fine > 12, `error ratio ${coarse / fine}`);
+  });
+});
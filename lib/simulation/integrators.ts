@@ -0,0 +1,219 @@
+import { Vec3 } from "./magnetic-field";
+
+export type IntegratorName = "euler" | "boris" | "rk4";
+
+export const INTEGRATORS: { name: IntegratorName; label: string }[] = [
+  { name: "euler", label: "Explicit Euler" },
+  { name: "boris", label: "Boris pusher" },
+  { name: "rk4", label: "Runge-Kutta 4" },
+];
+
+/**
+ * Forces acting on a single particle. The magnetic part is kept separate
+ * from the other accelerations so that the Boris pusher can apply it as a
+ * pure rotation of the velocity.
+ */
+export interface ForceModel {
+  // Magnetic field at a position (the force is v × B)
+  field(x: number, y: number, z: number, out: Vec3): Vec3;
+  // Every non-magnetic acceleration (corotation, containment, damping)
+  acceleration(
+    x: number,
+    y: number,
+    z: number,
+    vx: number,
+    vy: number,
+    vz: number,
+    out: Vec3
+  ): Vec3;
+}
+
+const field: Vec3 = [0, 0, 0];
+const accel: Vec3 = [0, 0, 0];
+
+// Full acceleration v × B + a(x, v), written into `out`
+const totalAcceleration = (
+  model: ForceModel,
+  x: number,
+  y: number,
+  z: number,
+  vx: number,
+  vy: number,
+  vz: number,
+  out: Vec3
+): Vec3 => {
+  model.field(x, y, z, field);
+  model.acceleration(x, y, z, vx, vy, vz, accel);
+  out[0] = vy * field[2] - vz * field[1] + accel[0];
+  out[1] = vz * field[0] - vx * field[2] + accel[1];
+  out[2] = vx * field[1] - vy * field[0] + accel[2];
+  return out;
+};
+
+const eulerAccel: Vec3 = [0, 0, 0];
+
+/**
+ * Semi-implicit Euler: kick the velocity with the full acceleration, then
+ * drift the position with the new velocity. This is the original scheme and
+ * slowly gains energy while gyrating, which is why the simulation clamps the
+ * speed when it is selected.
+ */
+export const eulerStep = (
+  position: Vec3,
+  velocity: Vec3,
+  dt: number,
+  model: ForceModel
+) => {
+  const [x, y, z] = position;
+  const [vx, vy, vz] = velocity;
+  totalAcceleration(model, x, y, z, vx, vy, vz, eulerAccel);
+
+  velocity[0] += eulerAccel[0] * dt;
+  velocity[1] += eulerAccel[1] * dt;
+  velocity[2] += eulerAccel[2] * dt;
+  position[0] += velocity[0] * dt;
+  position[1] += velocity[1] * dt;
+  position[2] += velocity[2] * dt;
+};
+
+const borisField: Vec3 = [0, 0, 0];
+const borisAccel: Vec3 = [0, 0, 0];
+
+/**
+ * Boris pusher: half kick from the non-magnetic acceleration, an exact-norm
+ * rotation about B, a second half kick, then drift. The magnetic rotation
+ * conserves speed, so gyration stays bounded without clamping.
+ */
+export const borisStep = (
+  position: Vec3,
+  velocity: Vec3,
+  dt: number,
+  model: ForceModel
+) => {
+  const [x, y, z] = position;
+  const halfDt = dt / 2;
+
+  // First half kick
+  model.acceleration(
+    x,
+    y,
+    z,
+    velocity[0],
+    velocity[1],
+    velocity[2],
+    borisAccel
+  );
+  let vx = velocity[0] + borisAccel[0] * halfDt;
+  let vy = velocity[1] + borisAccel[1] * halfDt;
+  let vz = velocity[2] + borisAccel[2] * halfDt;
+
+  // Magnetic rotation
+  model.field(x, y, z, borisField);
+  const tx = borisField[0] * halfDt;
+  const ty = borisField[1] * halfDt;
+  const tz = borisField[2] * halfDt;
+  const t2 = tx * tx + ty * ty + tz * tz;
+  const sx = (2 * tx) / (1 + t2);
+  const sy = (2 * ty) / (1 + t2);
+  const sz = (2 * tz) / (1 + t2);
+
+  const px = vx + (vy * tz - vz * ty);
+  const py = vy + (vz * tx - vx * tz);
+  const pz = vz + (vx * ty - vy * tx);
+  vx += py * sz - pz * sy;
+  vy += pz * sx - px * sz;
+  vz += px * sy - py * sx;
+
+  // Second half kick
+  model.acceleration(x, y, z, vx, vy, vz, borisAccel);
+  vx += borisAccel[0] * halfDt;
+  vy += borisAccel[1] * halfDt;
+  vz += borisAccel[2] * halfDt;
+
+  velocity[0] = vx;
+  velocity[1] = vy;
+  velocity[2] = vz;
+  position[0] += vx * dt;
+  position[1] += vy * dt;
+  position[2] += vz * dt;
+};
+
+const k1: Vec3 = [0, 0, 0];
+const k2: Vec3 = [0, 0, 0];
+const k3: Vec3 = [0, 0, 0];
+const k4: Vec3 = [0, 0, 0];
+
+/**
+ * Classic fourth-order Runge-Kutta on the combined (x, v) state.
+ */
+export const rk4Step = (
+  position: Vec3,
+  velocity: Vec3,
+  dt: number,
+  model: ForceModel
+) => {
+  const [x, y, z] = position;
+  const [vx, vy, vz] = velocity;
+  const halfDt = dt / 2;
+
+  totalAcceleration(model, x, y, z, vx, vy, vz, k1);
+
+  const v2x = vx + k1[0] * halfDt;
+  const v2y = vy + k1[1] * halfDt;
+  const v2z = vz + k1[2] * halfDt;
+  totalAcceleration(
+    model,
+    x + vx * halfDt,
+    y + vy * halfDt,
+    z + vz * halfDt,
+    v2x,
+    v2y,
+    v2z,
+    k2
+  );
+
+  const v3x = vx + k2[0] * halfDt;
+  const v3y = vy + k2[1] * halfDt;
+  const v3z = vz + k2[2] * halfDt;
+  totalAcceleration(
+    model,
+    x + v2x * halfDt,
+    y + v2y * halfDt,
+    z + v2z * halfDt,
+    v3x,
+    v3y,
+    v3z,
+    k3
+  );
+
+  const v4x = vx + k3[0] * dt;
+  const v4y = vy + k3[1] * dt;
+  const v4z = vz + k3[2] * dt;
+  totalAcceleration(
+    model,
+    x + v3x * dt,
+    y + v3y * dt,
+    z + v3z * dt,
+    v4x,
+    v4y,
+    v4z,
+    k4
+  );
+
+  const sixthDt = dt / 6;
+  position[0] += (vx + 2 * v2x + 2 * v3x + v4x) * sixthDt;
+  position[1] += (vy + 2 * v2y + 2 * v3y + v4y) * sixthDt;
+  position[2] += (vz + 2 * v2z + 2 * v3z + v4z) * sixthDt;
+  velocity[0] += (k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]) * sixthDt;
+  velocity[1] += (k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]) * sixthDt;
+  velocity[2] += (k1[2] + 2 * k2[2] + 2 * k3[2] + k4[2]) * sixthDt;
+};
+
+export const INTEGRATOR_STEPS: Record<
+  IntegratorName,
+  (position: Vec3, velocity: Vec3, dt: number, model: ForceModel) => void
+> = {
+  euler: eulerStep,
+  boris: borisStep,
+  rk4: rk4Step,
+};
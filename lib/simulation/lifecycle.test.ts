@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  drawLifetime,
+  LOSS_CHANNELS,
+  LOSS_INDEX,
+  recombinationChance,
+} from "./lifecycle";
+import { FIXED_TIMESTEP } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import { createRandom } from "./random";
+import { CHARGE_TO_MASS } from "./species";
+
+// A run with live ions and neutrals, and no losses but the ones provoked
+const run = () => {
+  const simulation = new PlasmaTorusSimulation(
+    { maxParticles: 2000, recombinationRate: 0, residenceTime: 1e9 },
+    13
+  );
+  for (let i = 0; i < 600; i++) simulation.step(FIXED_TIMESTEP);
+  simulation.losses.fill(0);
+  return simulation;
+};
+
+// First live particle that is charged, or neutral
+const find = (simulation: PlasmaTorusSimulation, charged: boolean) =>
+  simulation.alive.findIndex(
+    (alive, i) =>
+      alive === 1 && CHARGE_TO_MASS[simulation.species[i]] > 0 === charged
+  );
+
+const moveTo = (
+  simulation: PlasmaTorusSimulation,
+  index: number,
+  position: number[]
+) => {
+  simulation.positions.set(position, index * 3);
+  simulation.velocities.fill(0, index * 3, index * 3 + 3);
+};
+
+describe("lifecycle", () => {
+  test("lifetimes are exponential with the given mean", () => {
+    const random = createRandom(8);
+    let sum = 0;
+    let beyondMean = 0;
+    for (let i = 0; i < 20000; i++) {
+      const lifetime = drawLifetime(50, random());
+      sum += lifetime;
+      if (lifetime > 50) beyondMean++;
+    }
+    assert.ok(Math.abs(sum / 20000 / 50 - 1) < 0.03);
+    // A fraction 1/e of the draws outlive the mean
+    assert.ok(Math.abs(beyondMean / 20000 - Math.exp(-1)) < 0.02);
+  });
+
+  test("recombination grows with the square of the charge", () => {
+    assert.equal(recombinationChance(0), 0);
+    assert.equal(recombinationChance(2), 4 * recombinationChance(1));
+    assert.equal(recombinationChance(3), 9 * recombinationChance(1));
+  });
+
+  test("loss channels are indexed in order", () => {
+    LOSS_CHANNELS.forEach(({ name }, index) =>
+      assert.equal(LOSS_INDEX[name], index)
+    );
+  });
+
+  test("each boundary loses particles through its own channel", () => {
+    const simulation = run();
+    const { minDistance, maxDistance } = simulation.params;
+    const ion = find(simulation, true);
+    const neutral = find(simulation, false);
+    const sinking = simulation.alive.findIndex(
+      (alive, i) => alive === 1 && i !== ion && i !== neutral
+    );
+    assert.ok(ion >= 0 && neutral >= 0 && sinking >= 0);
+
+    moveTo(simulation, ion, [maxDistance + 5, 0, 0]);
+    moveTo(simulation, neutral, [0, 0, maxDistance + 5]);
+    moveTo(simulation, sinking, [minDistance / 2, 0, 0]);
+    simulation.step(FIXED_TIMESTEP);
+
+    for (const index of [ion, neutral, sinking]) {
+      assert.equal(simulation.alive[index], 0);
+    }
+    assert.equal(simulation.losses[LOSS_INDEX.transport], 1);
+    assert.equal(simulation.losses[LOSS_INDEX.escape], 1);
+    assert.equal(simulation.losses[LOSS_INDEX.precipitation], 1);
+  });
+
+  test("invalid values are lost as numerical, not patched over", () => {
+    const simulation = run();
+    const index = simulation.alive.indexOf(1);
+    moveTo(simulation, index, [NaN, 0, 0]);
+    simulation.step(FIXED_TIMESTEP);
+    assert.equal(simulation.alive[index], 0);
+    assert.equal(simulation.losses[LOSS_INDEX.numerical], 1);
+  });
+
+  test("ions leave at the end of their residence time", () => {
+    const simulation = run();
+    const ion = find(simulation, true);
+    simulation.lifetimes[ion] = 0;
+    simulation.step(FIXED_TIMESTEP);
+    assert.equal(simulation.alive[ion], 0);
+    assert.equal(simulation.losses[LOSS_INDEX.transport], 1);
+  });
+});
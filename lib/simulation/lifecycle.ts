@@ -0,0 +1,55 @@
+export type LossChannel =
+  | "transport"
+  | "precipitation"
+  | "escape"
+  | "recombination"
+  | "capacity"
+  | "numerical"
+  | "magnetopause";
+
+/**
+ * Ways a particle leaves the simulation. The position in this list is the
+ * index into `PlasmaTorusSimulation.losses`, and the code the GPU path
+ * stores for a particle lost that way.
+ *
+ * - transport: an ion carried outwards by radial transport, past the outer
+ *   boundary while the magnetopause is off or, in the artistic torus model,
+ *   at the end of its torus residence time
+ * - precipitation: anything reaching the inner boundary, into Jupiter's
+ *   atmosphere
+ * - escape: a neutral leaving past the outer boundary
+ * - recombination: an ion recombining with an electron; the fast neutral
+ *   it becomes leaves the torus
+ * - capacity: overwritten by a new emission because every slot was in use
+ * - numerical: the integrator produced invalid values
+ * - magnetopause: an ion crossing the magnetopause, while it is on, and
+ *   carried off by the solar wind, or leaving down the closed-off tail
+ */
+export const LOSS_CHANNELS: { name: LossChannel; label: string }[] = [
+  { name: "transport", label: "Radial transport" },
+  { name: "precipitation", label: "Precipitation" },
+  { name: "escape", label: "Neutral escape" },
+  { name: "recombination", label: "Recombination" },
+  { name: "capacity", label: "Buffer full" },
+  { name: "numerical", label: "Numerical" },
+  { name: "magnetopause", label: "Magnetopause" },
+];
+
+export const LOSS_INDEX = Object.fromEntries(
+  LOSS_CHANNELS.map(({ name }, index) => [name, index])
+) as Record<LossChannel, number>;
+
+// Chance per frame that a singly charged ion recombines, before the
+// recombinationRate multiplier; radiative recombination grows roughly with
+// the square of the charge state
+export const RECOMBINATION_RATE = 0.0001;
+
+export const recombinationChance = (charge: number) =>
+  RECOMBINATION_RATE * charge * charge;
+
+/**
+ * An exponentially distributed residence time with the given mean, from a
+ * uniform deviate in [0, 1).
+ */
+export const drawLifetime = (mean: number, uniform: number) =>
+  -mean * Math.log(1 - uniform);
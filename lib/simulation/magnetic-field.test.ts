@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  dipoleAxis,
+  FieldModelParams,
+  getBodyField,
+  getMagneticFieldVector,
+  Vec3,
+  worldToBody,
+} from "./magnetic-field";
+import { DEFAULT_PARAMS, JUPITER_RADIUS } from "./params";
+
+const DIPOLE: FieldModelParams = {
+  ...DEFAULT_PARAMS,
+  fieldModel: "dipole",
+  magneticTilt: 0,
+  dipoleOffsetX: 0,
+  dipoleOffsetY: 0,
+  dipoleOffsetZ: 0,
+  magnetodisc: false,
+};
+const JRM09: FieldModelParams = { ...DIPOLE, fieldModel: "jrm09" };
+
+const magnitude = (v: Vec3) => Math.hypot(...v);
+const angleBetween = (a: Vec3, b: Vec3) =>
+  Math.acos(
+    (a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) / (magnitude(a) * magnitude(b))
+  );
+
+describe("magnetic field", () => {
+  test("the centred dipole points north at the equator, outwards at the pole", () => {
+    const equator = getBodyField(2, 0, 0, DIPOLE, [0, 0, 0]);
+    assert.deepEqual(equator, [0, -1 / 8, 0]);
+    const pole = getBodyField(0, 2, 0, DIPOLE, [0, 0, 0]);
+    assert.deepEqual(pole, [0, 2 / 8, 0]);
+  });
+
+  test("an offset dipole is centred on its offset", () => {
+    const offset = { ...DIPOLE, dipoleOffsetX: 0.1, dipoleOffsetZ: -0.05 };
+    assert.deepEqual(
+      getBodyField(2.1, 0, -0.05, offset, [0, 0, 0]),
+      getBodyField(2, 0, 0, DIPOLE, [0, 0, 0])
+    );
+  });
+
+  test("scene fields turn with Jupiter and scale with the strength", () => {
+    const tilted = { ...DIPOLE, magneticTilt: 0.2 };
+    const rotation = 0.9;
+    const position: Vec3 = [12, 3, -7];
+    const scene = getMagneticFieldVector(
+      ...position,
+      rotation,
+      tilted,
+      50,
+      [0, 0, 0]
+    );
+
+    // Evaluate in the body frame and rotate back by hand
+    const body = worldToBody(...position, rotation, [0, 0, 0]);
+    const b = getBodyField(...body, tilted, [0, 0, 0]);
+    const scale = 50 / JUPITER_RADIUS ** 3;
+    const expected = [
+      (b[0] * Math.cos(rotation) + b[2] * Math.sin(rotation)) * scale,
+      b[1] * scale,
+      (-b[0] * Math.sin(rotation) + b[2] * Math.cos(rotation)) * scale,
+    ];
+    scene.forEach((value, axis) =>
+      assert.ok(Math.abs(value - expected[axis]) < 1e-15)
+    );
+  });
+
+  test("the untilted dipole does not change as Jupiter turns", () => {
+    const a = getMagneticFieldVector(20, 1, 4, 0, DIPOLE, 1, [0, 0, 0]);
+    const b = getMagneticFieldVector(20, 1, 4, 2.5, DIPOLE, 1, [0, 0, 0]);
+    a.forEach((value, axis) => assert.ok(Math.abs(value - b[axis]) < 1e-15));
+  });
+
+  test("JRM09's dipole is tilted about 10.3° towards the tilted dipole's", () => {
+    const axis = dipoleAxis(JRM09, [0, 0, 0]);
+    const tilt = (angleBetween(axis, [0, 1, 0]) * 180) / Math.PI;
+    assert.ok(Math.abs(tilt - 10.31) < 0.05, `tilt ${tilt}`);
+    const lean = angleBetween([axis[0], 0, axis[2]], [0, 0, 1]);
+    assert.ok((lean * 180) / Math.PI < 10);
+  });
+
+  test("far out, JRM09 approaches a dipole of unit moment", () => {
+    const tilted = { ...DIPOLE, magneticTilt: (10.31 * Math.PI) / 180 };
+    for (let angle = 0; angle < 2 * Math.PI; angle += Math.PI / 3) {
+      const position: Vec3 = [30 * Math.cos(angle), 0, 30 * Math.sin(angle)];
+      const ratio =
+        magnitude(getBodyField(...position, JRM09, [0, 0, 0])) /
+        magnitude(getBodyField(...position, tilted, [0, 0, 0]));
+      assert.ok(Math.abs(ratio - 1) < 0.03, `ratio ${ratio}`);
+    }
+  });
+});
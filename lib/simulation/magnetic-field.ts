@@ -0,0 +1,269 @@
+import { DIPOLE_TILT_LONGITUDE } from "./ephemeris";
+import jrm09 from "./field-models/jrm09.json";
+import { JUPITER_RADIUS, SimulationParams } from "./params";
+import {
+  parseSphericalHarmonicModel,
+  sphericalHarmonicField,
+} from "./spherical-harmonics";
+
+export type Vec3 = [number, number, number];
+
+export type FieldModelName = "dipole" | "jrm09";
+
+export const FIELD_MODELS: { name: FieldModelName; label: string }[] = [
+  { name: "dipole", label: "Offset tilted dipole" },
+  { name: "jrm09", label: "JRM09 (degree 4)" },
+];
+
+export const SPHERICAL_HARMONIC_MODELS = {
+  jrm09: parseSphericalHarmonicModel(jrm09),
+};
+
+export type FieldModelParams = Pick<
+  SimulationParams,
+  | "fieldModel"
+  | "magneticTilt"
+  | "dipoleOffsetX"
+  | "dipoleOffsetY"
+  | "dipoleOffsetZ"
+  | "magnetodisc"
+>;
+
+const DEG = Math.PI / 180;
+
+// East longitude of the body frame's +z axis; see sphericalToBody
+export const BODY_Z_LONGITUDE = -DIPOLE_TILT_LONGITUDE * DEG;
+
+const spherical: Vec3 = [0, 0, 0];
+
+/**
+ * Body-fixed (System III) position for a radius, colatitude and east
+ * longitude, written into `out`. The body frame has +y along the spin axis
+ * and +z towards west longitude DIPOLE_TILT_LONGITUDE; east longitude
+ * increases from +z towards +x, the direction of rotation. The Jupiter mesh
+ * rotates this frame into the scene by `jupiterRotation` about +y.
+ */
+export const sphericalToBody = (
+  r: number,
+  colatitude: number,
+  longitude: number,
+  out: Vec3
+): Vec3 => {
+  const horizontal = r * Math.sin(colatitude);
+  const angle = longitude - BODY_Z_LONGITUDE;
+  out[0] = horizontal * Math.sin(angle);
+  out[1] = r * Math.cos(colatitude);
+  out[2] = horizontal * Math.cos(angle);
+  return out;
+};
+
+/**
+ * Scene position (scene units) to the body frame in planet radii, written
+ * into `out`.
+ */
+export const worldToBody = (
+  x: number,
+  y: number,
+  z: number,
+  jupiterRotation: number,
+  out: Vec3
+): Vec3 => {
+  const cos = Math.cos(jupiterRotation);
+  const sin = Math.sin(jupiterRotation);
+  out[0] = (x * cos - z * sin) / JUPITER_RADIUS;
+  out[1] = y / JUPITER_RADIUS;
+  out[2] = (x * sin + z * cos) / JUPITER_RADIUS;
+  return out;
+};
+
+/**
+ * Unit dipole axis of a field model in the body frame, written into `out`.
+ * The tilted dipole leans towards +z; spherical harmonic models take the
+ * axis from their degree-1 coefficients.
+ */
+export const dipoleAxis = (model: FieldModelParams, out: Vec3): Vec3 => {
+  if (model.fieldModel === "dipole") {
+    out[0] = 0;
+    out[1] = Math.cos(model.magneticTilt);
+    out[2] = Math.sin(model.magneticTilt);
+    return out;
+  }
+
+  const { g, h, degree, dipoleMoment } =
+    SPHERICAL_HARMONIC_MODELS[model.fieldModel];
+  const size = degree + 1;
+  return sphericalToBody(
+    1,
+    Math.acos(g[size] / dipoleMoment),
+    Math.atan2(h[size + 1], g[size + 1]),
+    out
+  );
+};
+
+/**
+ * Centre of a field model's dipole in the body frame (planet radii), written
+ * into `out`.
+ */
+export const dipoleCentre = (model: FieldModelParams, out: Vec3): Vec3 => {
+  const offset = model.fieldModel === "dipole";
+  out[0] = offset ? model.dipoleOffsetX : 0;
+  out[1] = offset ? model.dipoleOffsetY : 0;
+  out[2] = offset ? model.dipoleOffsetZ : 0;
+  return out;
+};
+
+// Internal field in the body frame at (x, y, z) planet radii, written into
+// `out`, normalized to a unit dipole moment
+const getInternalField = (
+  x: number,
+  y: number,
+  z: number,
+  model: FieldModelParams,
+  out: Vec3
+): Vec3 => {
+  if (model.fieldModel === "dipole") {
+    // B = (3(m·r)r - mr²)/r⁵ about the offset centre, m tilted towards +z
+    const dx = x - model.dipoleOffsetX;
+    const dy = y - model.dipoleOffsetY;
+    const dz = z - model.dipoleOffsetZ;
+    const my = Math.cos(model.magneticTilt);
+    const mz = Math.sin(model.magneticTilt);
+    const r2 = dx * dx + dy * dy + dz * dz;
+    const r5 = r2 * r2 * Math.sqrt(r2);
+    const mDotR = my * dy + mz * dz;
+    out[0] = (3 * mDotR * dx) / r5;
+    out[1] = (3 * mDotR * dy - my * r2) / r5;
+    out[2] = (3 * mDotR * dz - mz * r2) / r5;
+    return out;
+  }
+
+  const harmonics = SPHERICAL_HARMONIC_MODELS[model.fieldModel];
+  const horizontal = Math.hypot(x, z);
+  const r = Math.hypot(horizontal, y);
+  const colatitude = Math.atan2(horizontal, y);
+  sphericalHarmonicField(
+    harmonics,
+    r,
+    colatitude,
+    Math.atan2(x, z) + BODY_Z_LONGITUDE,
+    spherical
+  );
+
+  // Spherical (r, θ, φ) components to body cartesian
+  const [br, btheta, bphi] = spherical;
+  const sinTheta = horizontal / r;
+  const cosTheta = y / r;
+  const sinAngle = horizontal > 0 ? x / horizontal : 0;
+  const cosAngle = horizontal > 0 ? z / horizontal : 1;
+  const bh = br * sinTheta + btheta * cosTheta;
+  const scale = 1 / harmonics.dipoleMoment;
+  out[0] = (bh * sinAngle + bphi * cosAngle) * scale;
+  out[1] = (br * cosTheta - btheta * sinTheta) * scale;
+  out[2] = (bh * cosAngle - bphi * sinAngle) * scale;
+  return out;
+};
+
+/**
+ * Jupiter's magnetodisc after Connerney et al. (1981): an azimuthal current
+ * sheet about the magnetic equator between `inner` and `outer` planet radii,
+ * `halfThickness` thick either side, with a current density falling as 1/ρ
+ * and μ₀I₀/2 = `field` nT.
+ */
+export const MAGNETODISC = {
+  inner: 5,
+  outer: 50,
+  halfThickness: 2.5,
+  field: 225,
+};
+
+// ρ times the radial field just off the sheet, μ₀I₀/2 · 2D, in units of the
+// JRM09 dipole's equatorial surface field like the internal field models
+export const MAGNETODISC_STRENGTH =
+  (2 * MAGNETODISC.field * MAGNETODISC.halfThickness) /
+  SPHERICAL_HARMONIC_MODELS.jrm09.dipoleMoment;
+
+const discAxis: Vec3 = [0, 0, 0];
+
+/**
+ * Add the magnetodisc's field at body-frame (x, y, z) planet radii to `out`.
+ * Only the sheet's radial field is kept, B_ρ = μ₀I₀/2 · 2D/ρ · tanh(z/D)
+ * with z along the dipole axis, which stretches field lines outwards and is
+ * free of divergence across the disc; it tapers as (ρ/inner)² inside the
+ * disc and (outer/ρ)² beyond it.
+ */
+export const addMagnetodiscField = (
+  x: number,
+  y: number,
+  z: number,
+  model: FieldModelParams,
+  out: Vec3
+): Vec3 => {
+  const [ax, ay, az] = dipoleAxis(model, discAxis);
+  const height = x * ax + y * ay + z * az;
+  const rx = x - height * ax;
+  const ry = y - height * ay;
+  const rz = z - height * az;
+  const rho = Math.hypot(rx, ry, rz);
+  if (!(rho > 0)) return out;
+
+  const { inner, outer, halfThickness } = MAGNETODISC;
+  const taper =
+    rho < inner ? (rho / inner) ** 2 : rho > outer ? (outer / rho) ** 2 : 1;
+  // Over ρ twice: once for the field, once to normalize (rx, ry, rz)
+  const radial =
+    (MAGNETODISC_STRENGTH * taper * Math.tanh(height / halfThickness)) /
+    (rho * rho);
+  out[0] += rx * radial;
+  out[1] += ry * radial;
+  out[2] += rz * radial;
+  return out;
+};
+
+/**
+ * Field in the body frame at (x, y, z) planet radii, written into `out`:
+ * the selected internal model, plus the magnetodisc if it is on. Every
+ * internal model is normalized to a unit dipole moment, so switching models
+ * changes the field's shape but not its overall strength.
+ */
+export const getBodyField = (
+  x: number,
+  y: number,
+  z: number,
+  model: FieldModelParams,
+  out: Vec3
+): Vec3 => {
+  getInternalField(x, y, z, model, out);
+  return model.magnetodisc ? addMagnetodiscField(x, y, z, model, out) : out;
+};
+
+/**
+ * Planetary field at scene position (x, y, z), written into `out`.
+ *
+ * The position is rotated into the body frame by Jupiter's current rotation
+ * and scaled to planet radii (the rendered planet's radius, JUPITER_RADIUS),
+ * the field (see getBodyField) is evaluated there, and the result is
+ * rotated back to world coordinates. For the centred dipole this reduces to
+ * strength · (3(m·r)r - mr²)/r⁵ in scene units.
+ */
+export const getMagneticFieldVector = (
+  x: number,
+  y: number,
+  z: number,
+  jupiterRotation: number,
+  model: FieldModelParams,
+  strength: number,
+  out: Vec3
+): Vec3 => {
+  worldToBody(x, y, z, jupiterRotation, out);
+  getBodyField(out[0], out[1], out[2], model, out);
+
+  const cos = Math.cos(jupiterRotation);
+  const sin = Math.sin(jupiterRotation);
+  const scale = strength / JUPITER_RADIUS ** 3;
+  const bx = out[0];
+  const bz = out[2];
+  out[0] = (bx * cos + bz * sin) * scale;
+  out[1] *= scale;
+  out[2] = (-bx * sin + bz * cos) * scale;
+  return out;
+};
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { LOSS_INDEX } from "./lifecycle";
+import {
+  magnetopauseStandoff,
+  MAGNETOTAIL_LENGTH,
+  outsideMagnetopause,
+  parseSolarWindSeries,
+  sceneStandoff,
+  SOLAR_WIND_PRESETS,
+  SolarWindSeries,
+  solarWindHours,
+  SUN_DIRECTION,
+  upstreamPressure,
+} from "./magnetosphere";
+import { FIXED_TIMESTEP, JUPITER_RADIUS, SOLAR_WIND_PRESSURE } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import { CHARGE_TO_MASS } from "./species";
+
+// The point `distance` out at `angle` from the Sun direction, turned away
+// from it in the plane holding the Sun and +y
+const fromSun = (distance: number, angle: number) => {
+  const [sx, sy, sz] = SUN_DIRECTION;
+  // A unit vector perpendicular to the Sun direction
+  const px = -sx * sy;
+  const py = 1 - sy * sy;
+  const pz = -sz * sy;
+  const length = Math.hypot(px, py, pz);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    distance * (cos * sx + (sin * px) / length),
+    distance * (cos * sy + (sin * py) / length),
+    distance * (cos * sz + (sin * pz) / length),
+  ] as const;
+};
+
+const outside = (distance: number, angle: number, standoff: number) =>
+  outsideMagnetopause(...fromSun(distance, angle), standoff);
+
+// A series hours after the run began
+const SERIES: SolarWindSeries = {
+  name: "Test",
+  samples: [
+    { hours: 10, pressure: 0.1 },
+    { hours: 20, pressure: 0.5 },
+  ],
+};
+
+// Simulated seconds at `hours` real hours
+const at = (hours: number) => hours / solarWindHours(1);
+
+describe("magnetosphere", () => {
+  test("the standoff shrinks with the solar wind's pressure", () => {
+    assert.equal(magnetopauseStandoff(SOLAR_WIND_PRESSURE), 60);
+    assert.ok(
+      Math.abs(
+        magnetopauseStandoff(2 * SOLAR_WIND_PRESSURE) / 60 - 2 ** -0.22
+      ) < 1e-12
+    );
+  });
+
+  test("the magnetopause stands off sunward and flares out on the flanks", () => {
+    assert.ok(!outside(0.99 * 40, 0, 40));
+    assert.ok(outside(1.01 * 40, 0, 40));
+    const flank = 40 * 2 ** 0.6;
+    assert.ok(!outside(0.99 * flank, Math.PI / 2, 40));
+    assert.ok(outside(1.01 * flank, Math.PI / 2, 40));
+  });
+
+  test("the tail is closed off about 2.8 standoffs downtail", () => {
+    assert.ok(Math.abs(MAGNETOTAIL_LENGTH - 2.78) < 0.01);
+    const tail = MAGNETOTAIL_LENGTH * 40;
+    assert.ok(!outside(0.99 * tail, Math.PI, 40));
+    assert.ok(outside(1.01 * tail, Math.PI, 40));
+  });
+
+  test("the upstream pressure follows the series, held beyond its ends", () => {
+    assert.equal(upstreamPressure(null, 0.3, at(15)), 0.3);
+    assert.equal(upstreamPressure(SERIES, 0.3, at(0)), 0.1);
+    assert.ok(Math.abs(upstreamPressure(SERIES, 0.3, at(15)) - 0.3) < 1e-9);
+    assert.equal(upstreamPressure(SERIES, 0.3, at(40)), 0.5);
+  });
+
+  test("the scene standoff is zero while the magnetopause is off", () => {
+    const params = {
+      magnetopause: true,
+      solarWindPressure: SOLAR_WIND_PRESSURE,
+      sceneScale: "true" as const,
+    };
+    assert.equal(sceneStandoff(null, params, 0), 60 * JUPITER_RADIUS);
+    assert.equal(sceneStandoff(null, { ...params, magnetopause: false }, 0), 0);
+  });
+
+  test("solar wind files are validated and sorted by time", () => {
+    const series = parseSolarWindSeries({
+      name: "Test",
+      samples: [SERIES.samples[1], SERIES.samples[0]],
+    });
+    assert.deepEqual(series.samples, SERIES.samples);
+    for (const bad of [
+      null,
+      { name: "Test", samples: [] },
+      { name: "Test", samples: [{ hours: 1, pressure: 0 }] },
+      { samples: SERIES.samples },
+    ]) {
+      assert.throws(() => parseSolarWindSeries(bad), /Malformed/);
+    }
+    assert.equal(SOLAR_WIND_PRESETS.length, 2);
+  });
+
+  test("while on, the magnetopause replaces the outer boundary for ions", () => {
+    const simulation = new PlasmaTorusSimulation(
+      {
+        maxParticles: 2000,
+        magnetopause: true,
+        recombinationRate: 0,
+        residenceTime: 1e9,
+      },
+      21
+    );
+    for (let i = 0; i < 600; i++) simulation.step(FIXED_TIMESTEP);
+    simulation.losses.fill(0);
+    const { magnetopauseStandoff: standoff } = simulation;
+    const { maxDistance } = simulation.params;
+    assert.ok(standoff > maxDistance * 1.2);
+
+    const ions = [];
+    for (let i = 0; ions.length < 2; i++) {
+      if (simulation.alive[i] && CHARGE_TO_MASS[simulation.species[i]] > 0) {
+        ions.push(i);
+      }
+    }
+    const [kept, lost] = ions;
+    simulation.positions.set(fromSun(maxDistance * 1.1, 0), kept * 3);
+    simulation.positions.set(fromSun(standoff * 1.1, 0), lost * 3);
+    simulation.velocities.fill(0, kept * 3, kept * 3 + 3);
+    simulation.velocities.fill(0, lost * 3, lost * 3 + 3);
+    simulation.step(FIXED_TIMESTEP);
+
+    assert.equal(simulation.alive[kept], 1);
+    assert.equal(simulation.alive[lost], 0);
+    assert.equal(simulation.losses[LOSS_INDEX.magnetopause], 1);
+  });
+});
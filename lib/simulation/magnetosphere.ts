@@ -0,0 +1,185 @@
+import { Vec3 } from "./magnetic-field";
+import compression from "./solar-wind-presets/compression-region.json";
+import shock from "./solar-wind-presets/interplanetary-shock.json";
+import { SOLAR_WIND_PRESSURE } from "./params";
+import { fromJupiterRadii, SceneScaleName, TIME_SCALE } from "./units";
+
+/**
+ * Where the Sun is in the scene, fixed in the inertial frame; the page's
+ * sunlight shines from here. Jupiter's magnetopause and bow shock face
+ * SUN_DIRECTION.
+ */
+export const SUN_POSITION: Vec3 = [50, 20, 50];
+const sunDistance = Math.hypot(...SUN_POSITION);
+export const SUN_DIRECTION = SUN_POSITION.map(
+  (component) => component / sunDistance
+) as Vec3;
+
+// The solar wind's dynamic pressure at Jupiter swings over two orders of
+// magnitude about SOLAR_WIND_PRESSURE through compressions and rarefactions
+const TYPICAL_STANDOFF = 60; // Jupiter radii at SOLAR_WIND_PRESSURE
+const PRESSURE_EXPONENT = -0.22; // Huddleston et al. (1998)
+export const BOW_SHOCK_RATIO = 1.3; // Bow shock over magnetopause standoff
+
+/**
+ * How far the boundaries flare away from the Sun, in the form of Shue et
+ * al. (1997): r = standoff · (2 / (1 + cos θ))^flaring at angle θ from the
+ * Sun. Above 0.5 the surface stays open down the tail.
+ */
+export const MAGNETOPAUSE_FLARING = 0.6;
+export const BOW_SHOCK_FLARING = 0.8;
+
+// Magnetopause standoff distance, Jupiter radii, for a dynamic pressure in nPa
+export const magnetopauseStandoff = (pressure: number) =>
+  TYPICAL_STANDOFF * (pressure / SOLAR_WIND_PRESSURE) ** PRESSURE_EXPONENT;
+
+// Distance of a boundary from Jupiter at `cosAngle` from the Sun direction
+export const boundaryRadius = (
+  standoff: number,
+  flaring: number,
+  cosAngle: number
+) => standoff * (2 / (1 + cosAngle)) ** flaring;
+
+// Angle from the Sun at which the open tail is closed off, and where the
+// drawn boundaries end
+export const MAGNETOTAIL_ANGLE = (140 * Math.PI) / 180;
+
+// Distance of that closure down the tail in magnetopause standoffs, about
+// 2.8; anything further downtail has left the magnetosphere
+export const MAGNETOTAIL_LENGTH =
+  -Math.cos(MAGNETOTAIL_ANGLE) *
+  boundaryRadius(1, MAGNETOPAUSE_FLARING, Math.cos(MAGNETOTAIL_ANGLE));
+
+/**
+ * Whether scene position (x, y, z) lies beyond a magnetopause `standoff`
+ * scene units out. Written as r · ((1 + cos θ) / 2)^flaring > standoff so
+ * that it holds down the tail, where the boundary's radius is infinite,
+ * and closed there by a plane MAGNETOTAIL_LENGTH standoffs downtail.
+ */
+export const outsideMagnetopause = (
+  x: number,
+  y: number,
+  z: number,
+  standoff: number
+) => {
+  const [sx, sy, sz] = SUN_DIRECTION;
+  const sunward = x * sx + y * sy + z * sz;
+  const r = Math.hypot(x, y, z);
+  const cosAngle = r > 0 ? sunward / r : 1;
+  return (
+    r * ((1 + cosAngle) / 2) ** MAGNETOPAUSE_FLARING > standoff ||
+    -sunward > MAGNETOTAIL_LENGTH * standoff
+  );
+};
+
+export interface SolarWindSample {
+  hours: number; // Real hours since the run began
+  pressure: number; // Dynamic pressure, nPa
+}
+
+/**
+ * Upstream solar wind dynamic pressure over time, as loaded from JSON.
+ * Times are real hours (a simulated second stands for TIME_SCALE real
+ * ones, so a day passes in about two simulated minutes), and the pressure
+ * is interpolated linearly between samples and held beyond the ends.
+ */
+export interface SolarWindSeries {
+  name: string;
+  description?: string;
+  samples: SolarWindSample[];
+}
+
+// Real hours since the run began at simulated time `time`
+export const solarWindHours = (time: number) => (time * TIME_SCALE) / 3600;
+
+/**
+ * Dynamic pressure in nPa upstream of Jupiter at simulated time `time`:
+ * from the series if there is one, otherwise `constantPressure`.
+ */
+export const upstreamPressure = (
+  series: SolarWindSeries | null,
+  constantPressure: number,
+  time: number
+) => {
+  if (!series || series.samples.length === 0) return constantPressure;
+  const { samples } = series;
+  const hours = solarWindHours(time);
+  const next = samples.findIndex((sample) => sample.hours > hours);
+  if (next === 0) return samples[0].pressure;
+  if (next < 0) return samples[samples.length - 1].pressure;
+  const before = samples[next - 1];
+  const after = samples[next];
+  return (
+    before.pressure +
+    ((after.pressure - before.pressure) * (hours - before.hours)) /
+      (after.hours - before.hours)
+  );
+};
+
+/**
+ * Magnetopause standoff in scene units at simulated time `time`, for the
+ * run's scene scale; 0 while the magnetopause is off.
+ */
+export const sceneStandoff = (
+  series: SolarWindSeries | null,
+  {
+    magnetopause,
+    solarWindPressure,
+    sceneScale,
+  }: {
+    magnetopause: boolean;
+    solarWindPressure: number;
+    sceneScale: SceneScaleName;
+  },
+  time: number
+) =>
+  magnetopause
+    ? fromJupiterRadii(
+        magnetopauseStandoff(upstreamPressure(series, solarWindPressure, time)),
+        sceneScale
+      )
+    : 0;
+
+const isSolarWindSample = (sample: unknown): sample is SolarWindSample => {
+  const { hours, pressure } = (
+    typeof sample === "object" && sample !== null ? sample : {}
+  ) as Record<string, unknown>;
+  return (
+    typeof hours === "number" &&
+    hours >= 0 &&
+    typeof pressure === "number" &&
+    pressure > 0
+  );
+};
+
+/**
+ * Validate a solar wind series file, with its samples sorted by time.
+ * Throws if the file is not of the expected shape or has no samples.
+ */
+export const parseSolarWindSeries = (json: unknown): SolarWindSeries => {
+  const { name, description, samples } = (json ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof name !== "string" ||
+    (description !== undefined && typeof description !== "string") ||
+    !Array.isArray(samples) ||
+    samples.length === 0 ||
+    !samples.every(isSolarWindSample)
+  ) {
+    throw new Error("Malformed solar wind series");
+  }
+
+  return {
+    name,
+    description,
+    samples: samples
+      .map(({ hours, pressure }) => ({ hours, pressure }))
+      .sort((a, b) => a.hours - b.hours),
+  };
+};
+
+export const SOLAR_WIND_PRESETS = [compression, shock].map(
+  parseSolarWindSeries
+);
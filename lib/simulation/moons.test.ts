@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { Vec3 } from "./magnetic-field";
+import {
+  MOON_ORBITS,
+  moonLongitude,
+  moonPosition,
+  orbitRadius,
+  placeMoon,
+} from "./moons";
+import { FIXED_TIMESTEP, IO_ORBIT_RADIUS, JUPITER_RADIUS } from "./params";
+import { PlasmaTorusSimulation, SOURCE_NAMES } from "./plasma-torus-simulation";
+
+const [io, europa, ganymede] = MOON_ORBITS;
+
+// Wrap an angle in radians into (-π, π]
+const wrap = (angle: number) =>
+  angle - 2 * Math.PI * Math.ceil((angle - Math.PI) / (2 * Math.PI));
+
+describe("moons", () => {
+  test("the moons hold the Laplace resonance at every time", () => {
+    for (const days of [0, 1.7, 365.25, 10000]) {
+      const laplace =
+        moonLongitude(io, days) -
+        3 * moonLongitude(europa, days) +
+        2 * moonLongitude(ganymede, days);
+      assert.ok(
+        Math.abs(Math.abs(wrap(laplace)) - Math.PI) < 1e-3,
+        `Laplace angle ${laplace} at day ${days}`
+      );
+    }
+  });
+
+  test("Io, Europa and Ganymede orbit in close to 1:2:4", () => {
+    assert.ok(Math.abs(io.meanMotion / europa.meanMotion - 2) < 0.01);
+    assert.ok(Math.abs(europa.meanMotion / ganymede.meanMotion - 2) < 0.02);
+  });
+
+  test("Io sits at IO_ORBIT_RADIUS, and at true scale at 5.9 planet radii", () => {
+    assert.equal(orbitRadius(io), IO_ORBIT_RADIUS);
+    assert.equal(orbitRadius(io, "true"), io.semiMajorAxis * JUPITER_RADIUS);
+    MOON_ORBITS.slice(1).forEach((moon, i) =>
+      assert.ok(orbitRadius(moon) > orbitRadius(MOON_ORBITS[i]))
+    );
+  });
+
+  test("orbits are equatorial and prograde about +y", () => {
+    const start = moonPosition(europa, 0, [0, 0, 0]);
+    const later = moonPosition(europa, 0.1, [0, 0, 0]);
+    assert.equal(start[1], 0);
+    assert.ok(Math.abs(Math.hypot(...later) - orbitRadius(europa)) < 1e-9);
+    // Counterclockwise from above: r × v points along +y
+    const cross = start[2] * later[0] - start[0] * later[2];
+    assert.ok(cross > 0);
+
+    const quarter: Vec3 = placeMoon(io, Math.PI / 2, [0, 0, 0]);
+    assert.ok(Math.abs(quarter[0]) < 1e-9);
+    assert.ok(Math.abs(quarter[2] + IO_ORBIT_RADIUS) < 1e-9);
+  });
+
+  test("moon sources emit from each moon that has one", () => {
+    // Moons past the outer boundary would emit nothing, so take it out to
+    // Callisto, and quieten Io so that nothing overwrites the moons' particles
+    const simulation = new PlasmaTorusSimulation(
+      {
+        moonSources: true,
+        maxDistance: 100,
+        baseEmissionRate: 0,
+        eruptionChance: 0,
+      },
+      5
+    );
+    for (let i = 0; i < 3000; i++) simulation.step(FIXED_TIMESTEP);
+    const emitted = new Set<string>();
+    for (let i = 0; i < simulation.activeParticles; i++) {
+      emitted.add(SOURCE_NAMES[simulation.sources[i]]);
+    }
+    MOON_ORBITS.forEach(({ label, source }) =>
+      assert.equal(emitted.has(label), source !== undefined, label)
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { Vec3 } from "./magnetic-field";
+import { IO_ORBIT_RADIUS, JUPITER_RADIUS } from "./params";
+import { SpeciesKey } from "./species";
+import { SceneScaleName } from "./units";
+
+export type MoonName = "io" | "europa" | "ganymede" | "callisto";
+
+export interface MoonSource {
+  rate: number; // Chance per frame to emit a particle
+  spread: number; // Size of the emission cube around the moon
+  speed: number; // Initial outward speed
+  species: SpeciesKey; // Species of emitted particles
+}
+
+export interface MoonOrbit {
+  name: MoonName;
+  label: string;
+  semiMajorAxis: number; // Jupiter radii
+  meanMotion: number; // Degrees per day
+  initialLongitude: number; // Degrees at ephemeris time zero
+  source?: MoonSource; // Optional neutral/plasma source besides Io's volcanoes
+}
+
+/**
+ * Galilean moon orbits. Mean motions are the observed values, which satisfy
+ * the Laplace relation n_Io - 3 n_Europa + 2 n_Ganymede = 0; the initial
+ * longitudes are chosen so that λ_Io - 3 λ_Europa + 2 λ_Ganymede = 180°, as
+ * in the real resonance.
+ */
+export const MOON_ORBITS: MoonOrbit[] = [
+  {
+    name: "io",
+    label: "Io",
+    semiMajorAxis: 5.905,
+    meanMotion: 203.4889538,
+    initialLongitude: 0,
+  },
+  {
+    name: "europa",
+    label: "Europa",
+    semiMajorAxis: 9.397,
+    meanMotion: 101.3747235,
+    initialLongitude: 180,
+    source: { rate: 0.02, spread: 0.8, speed: 0.015, species: "O" },
+  },
+  {
+    name: "ganymede",
+    label: "Ganymede",
+    semiMajorAxis: 14.99,
+    meanMotion: 50.3176081,
+    initialLongitude: 0,
+    source: { rate: 0.005, spread: 1.0, speed: 0.01, species: "O" },
+  },
+  {
+    name: "callisto",
+    label: "Callisto",
+    semiMajorAxis: 26.37,
+    meanMotion: 21.5710715,
+    initialLongitude: 90,
+    source: { rate: 0.002, spread: 1.0, speed: 0.01, species: "O" },
+  },
+];
+
+const IO = MOON_ORBITS[0];
+
+// Scene units per Jupiter radius, pinned so that Io sits at IO_ORBIT_RADIUS
+export const ORBIT_SCALE = IO_ORBIT_RADIUS / IO.semiMajorAxis;
+
+// Scene units per Jupiter radius of orbital distance; at true scale the
+// orbits share the planet's scale
+export const orbitScale = (scale: SceneScaleName = "artistic") =>
+  scale === "true" ? JUPITER_RADIUS : ORBIT_SCALE;
+
+export const orbitRadius = (
+  moon: MoonOrbit,
+  scale: SceneScaleName = "artistic"
+) => moon.semiMajorAxis * orbitScale(scale);
+
+// Io's mean motion in radians per day, used to convert Io's orbit speed
+// into ephemeris days
+export const IO_MEAN_MOTION = (IO.meanMotion * Math.PI) / 180;
+
+/**
+ * Orbital longitude in radians at `days` of ephemeris time.
+ */
+export const moonLongitude = (moon: MoonOrbit, days: number) =>
+  ((moon.initialLongitude + moon.meanMotion * days) * Math.PI) / 180;
+
+/**
+ * Position on a circular equatorial orbit, written into `out`.
+ */
+export const moonPosition = (
+  moon: MoonOrbit,
+  days: number,
+  out: Vec3,
+  scale: SceneScaleName = "artistic"
+) => placeMoon(moon, moonLongitude(moon, days), out, scale);
+
+/**
+ * Position on a circular equatorial orbit at a longitude in radians, written
+ * into `out`. Longitude increases prograde, counterclockwise seen from
+ * Jupiter's north pole (+y), i.e. from +x towards -z.
+ */
+export const placeMoon = (
+  moon: MoonOrbit,
+  longitude: number,
+  out: Vec3,
+  scale: SceneScaleName = "artistic"
+) => {
+  const radius = orbitRadius(moon, scale);
+  out[0] = radius * Math.cos(longitude);
+  out[1] = 0;
+  out[2] = -radius * Math.sin(longitude);
+  return out;
+};
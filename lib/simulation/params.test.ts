@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DEFAULT_PARAMS, PARAM_CONTROLS } from "./params";
+
+describe("PARAM_CONTROLS", () => {
+  test("each slider controls a distinct numeric parameter", () => {
+    const keys = PARAM_CONTROLS.map(({ key }) => key);
+    assert.equal(new Set(keys).size, keys.length);
+    keys.forEach((key) => assert.equal(typeof DEFAULT_PARAMS[key], "number"));
+  });
+
+  test("each slider's range holds its default", () => {
+    PARAM_CONTROLS.forEach(({ key, min, max, step }) => {
+      assert.ok(min < max, key);
+      assert.ok(step > 0, key);
+      assert.ok(
+        DEFAULT_PARAMS[key] >= min && DEFAULT_PARAMS[key] <= max,
+        `${key} defaults to ${DEFAULT_PARAMS[key]}, outside ${min}–${max}`
+      );
+    });
+  });
+
+  test("logarithmic sliders stay above zero", () => {
+    PARAM_CONTROLS.filter(({ logarithmic }) => logarithmic).forEach(
+      ({ key, min }) => assert.ok(min > 0, key)
+    );
+  });
+});
@@ -0,0 +1,340 @@
+import { IntegratorName } from "./integrators";
+import { FieldModelName } from "./magnetic-field";
+import { TorusModelName } from "./torus-models";
+import { SceneScaleName } from "./units";
+
+// Rates below are expressed per reference frame of 1/60 s, the frame rate the
+// visualization was originally tuned at
+export const REFERENCE_FRAME_RATE = 60;
+export const FIXED_TIMESTEP = 1 / REFERENCE_FRAME_RATE; // Physics step in seconds
+export const MAX_STEPS_PER_ADVANCE = 10; // Drop backlog after a long stall
+
+export const MAX_PARTICLES = 1000;
+export const JUPITER_RADIUS = 5; // Rendered planet radius; the field models' length unit
+export const MAGNETIC_TILT = Math.PI / 10; // ~18 degrees tilt
+export const JUPITER_ROTATION_SPEED = 0.002;
+export const MAGNETIC_FIELD_STRENGTH = 0.2; // Increased field strength
+export const TORUS_RADIUS = 10; // Slightly inside Io's orbit
+export const MAX_DISTANCE = 30; // Maximum allowed distance from Jupiter
+export const MIN_DISTANCE = 3; // Minimum allowed distance from Jupiter
+export const RESIDENCE_TIME = 120; // Mean seconds an ion stays in the torus
+export const TRANSPORT_TIME = 400; // Seconds for transport to move flux tubes out e-fold, ~20 Io orbits
+export const SOLAR_WIND_PRESSURE = 0.09; // Typical dynamic pressure at Jupiter, nPa
+
+// Volcanic eruption parameters
+export const ERUPTION_DURATION = 100; // How long an eruption lasts
+export const ERUPTION_COOLDOWN = 200; // Minimum time between eruptions
+export const ERUPTION_CHANCE = 0.005; // Chance per frame of an eruption starting somewhere on Io
+export const PARTICLES_PER_FRAME_DURING_ERUPTION = 5; // How many particles to emit during active eruption
+export const BASE_EMISSION_RATE = 0.1; // Background emission rate when not erupting
+
+// Io orbital parameters (scaled for visualization)
+export const IO_ORBIT_RADIUS = 12;
+export const IO_ORBIT_SPEED = 0.005;
+export const IO_RADIUS = 0.5; // Rendered moon radius; volcanoes sit on its surface
+
+/**
+ * Every tunable of the simulation. Instances can be edited while the
+ * simulation runs through `PlasmaTorusSimulation.setParams`.
+ */
+export interface SimulationParams {
+  maxParticles: number;
+  magneticTilt: number; // Radians
+  magneticFieldStrength: number;
+  dipoleOffsetX: number; // Body frame, planet radii
+  dipoleOffsetY: number;
+  dipoleOffsetZ: number;
+  jupiterRotationSpeed: number;
+  torusRadius: number;
+  maxDistance: number;
+  minDistance: number;
+  residenceTime: number; // Mean seconds before radial transport removes an ion
+  transportTime: number; // Radial transport e-folding time in seconds
+  eruptionDuration: number;
+  eruptionCooldown: number;
+  eruptionChance: number;
+  particlesPerFrameDuringEruption: number;
+  baseEmissionRate: number;
+  ioOrbitSpeed: number;
+  dissociationRate: number; // Multipliers on the TRANSITIONS rates
+  ionizationRate: number;
+  chargeExchangeRate: number;
+  recombinationRate: number; // Multiplier on RECOMBINATION_RATE
+  integrator: IntegratorName;
+  fieldModel: FieldModelName;
+  torusModel: TorusModelName;
+  moonSources: boolean; // Inject Europa, Ganymede and Callisto sources
+  sceneScale: SceneScaleName; // See SCENE_SCALES; switch with sceneScaleParams
+  magnetodisc: boolean; // Add the magnetodisc's field to the internal field
+  magnetopause: boolean; // Lose ions that cross the magnetopause
+  solarWindPressure: number; // nPa, while no solar wind series is loaded
+}
+
+export const DEFAULT_PARAMS: Readonly<SimulationParams> = {
+  maxParticles: MAX_PARTICLES,
+  magneticTilt: MAGNETIC_TILT,
+  magneticFieldStrength: MAGNETIC_FIELD_STRENGTH,
+  dipoleOffsetX: 0,
+  dipoleOffsetY: 0,
+  dipoleOffsetZ: 0,
+  jupiterRotationSpeed: JUPITER_ROTATION_SPEED,
+  torusRadius: TORUS_RADIUS,
+  maxDistance: MAX_DISTANCE,
+  minDistance: MIN_DISTANCE,
+  residenceTime: RESIDENCE_TIME,
+  transportTime: TRANSPORT_TIME,
+  eruptionDuration: ERUPTION_DURATION,
+  eruptionCooldown: ERUPTION_COOLDOWN,
+  eruptionChance: ERUPTION_CHANCE,
+  particlesPerFrameDuringEruption: PARTICLES_PER_FRAME_DURING_ERUPTION,
+  baseEmissionRate: BASE_EMISSION_RATE,
+  ioOrbitSpeed: IO_ORBIT_SPEED,
+  dissociationRate: 1,
+  ionizationRate: 1,
+  chargeExchangeRate: 1,
+  recombinationRate: 1,
+  integrator: "euler",
+  fieldModel: "dipole",
+  torusModel: "artistic",
+  moonSources: false,
+  sceneScale: "artistic",
+  magnetodisc: false,
+  magnetopause: false,
+  solarWindPressure: SOLAR_WIND_PRESSURE,
+};
+
+export type NumericParam = Exclude<
+  keyof SimulationParams,
+  | "integrator"
+  | "fieldModel"
+  | "torusModel"
+  | "moonSources"
+  | "sceneScale"
+  | "magnetodisc"
+  | "magnetopause"
+>;
+
+/**
+ * Slider ranges for the control panel. `scale` converts the stored value to
+ * the displayed one (e.g. radians to degrees); `dipoleOnly` sliders have no
+ * effect on spherical harmonic field models, sliders with a
+ * `torusModel` only affect that model, `randomOnly` sliders have no
+ * effect while an eruption scenario times the eruptions, and
+ * `steadyWindOnly` sliders only matter while the magnetopause is on and no
+ * solar wind series drives it.
+ */
+export const PARAM_CONTROLS: {
+  key: NumericParam;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  scale?: number;
+  logarithmic?: boolean; // Slider moves through powers of ten
+  dipoleOnly?: boolean;
+  torusModel?: TorusModelName;
+  randomOnly?: boolean;
+  steadyWindOnly?: boolean;
+  group: "Magnetosphere" | "Torus" | "Eruptions" | "Chemistry" | "Orbits";
+}[] = [
+  {
+    key: "magneticTilt",
+    label: "Magnetic tilt (°)",
+    min: 0,
+    max: 45,
+    step: 0.5,
+    scale: 180 / Math.PI,
+    dipoleOnly: true,
+    group: "Magnetosphere",
+  },
+  {
+    key: "dipoleOffsetX",
+    label: "Dipole offset x (R_J)",
+    min: -0.5,
+    max: 0.5,
+    step: 0.01,
+    dipoleOnly: true,
+    group: "Magnetosphere",
+  },
+  {
+    key: "dipoleOffsetY",
+    label: "Dipole offset y (R_J)",
+    min: -0.5,
+    max: 0.5,
+    step: 0.01,
+    dipoleOnly: true,
+    group: "Magnetosphere",
+  },
+  {
+    key: "dipoleOffsetZ",
+    label: "Dipole offset z (R_J)",
+    min: -0.5,
+    max: 0.5,
+    step: 0.01,
+    dipoleOnly: true,
+    group: "Magnetosphere",
+  },
+  {
+    key: "magneticFieldStrength",
+    label: "Field strength",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    group: "Magnetosphere",
+  },
+  {
+    key: "jupiterRotationSpeed",
+    label: "Jupiter rotation (rad/frame)",
+    min: 0,
+    max: 0.01,
+    step: 0.0001,
+    group: "Magnetosphere",
+  },
+  {
+    key: "solarWindPressure",
+    label: "Solar wind pressure (nPa)",
+    min: 0.01,
+    max: 1,
+    step: 0.001,
+    logarithmic: true,
+    steadyWindOnly: true,
+    group: "Magnetosphere",
+  },
+  {
+    key: "torusRadius",
+    label: "Torus radius",
+    min: 5,
+    max: 40,
+    step: 0.1,
+    torusModel: "artistic",
+    group: "Torus",
+  },
+  {
+    key: "minDistance",
+    label: "Inner boundary",
+    min: 0,
+    max: 10,
+    step: 0.1,
+    group: "Torus",
+  },
+  {
+    key: "maxDistance",
+    label: "Outer boundary",
+    min: 15,
+    max: 400,
+    step: 1,
+    group: "Torus",
+  },
+  {
+    key: "residenceTime",
+    label: "Ion residence time (s)",
+    min: 10,
+    max: 10000,
+    step: 10,
+    logarithmic: true,
+    torusModel: "artistic",
+    group: "Torus",
+  },
+  {
+    key: "transportTime",
+    label: "Transport e-folding time (s)",
+    min: 10,
+    max: 10000,
+    step: 10,
+    logarithmic: true,
+    torusModel: "transport",
+    group: "Torus",
+  },
+  {
+    key: "maxParticles",
+    label: "Max particles",
+    min: 100,
+    max: 1000000,
+    step: 100,
+    logarithmic: true,
+    group: "Torus",
+  },
+  {
+    key: "eruptionChance",
+    label: "Eruption chance (/frame)",
+    min: 0,
+    max: 0.05,
+    step: 0.001,
+    randomOnly: true,
+    group: "Eruptions",
+  },
+  {
+    key: "eruptionDuration",
+    label: "Eruption duration (frames)",
+    min: 10,
+    max: 500,
+    step: 10,
+    randomOnly: true,
+    group: "Eruptions",
+  },
+  {
+    key: "eruptionCooldown",
+    label: "Eruption cooldown (frames)",
+    min: 0,
+    max: 1000,
+    step: 10,
+    randomOnly: true,
+    group: "Eruptions",
+  },
+  {
+    key: "particlesPerFrameDuringEruption",
+    label: "Eruption particles (/frame)",
+    min: 0,
+    max: 50,
+    step: 1,
+    group: "Eruptions",
+  },
+  {
+    key: "baseEmissionRate",
+    label: "Background emission (/frame)",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    group: "Eruptions",
+  },
+  {
+    key: "dissociationRate",
+    label: "SO₂ dissociation (×)",
+    min: 0,
+    max: 5,
+    step: 0.1,
+    group: "Chemistry",
+  },
+  {
+    key: "ionizationRate",
+    label: "Electron-impact ionization (×)",
+    min: 0,
+    max: 5,
+    step: 0.1,
+    group: "Chemistry",
+  },
+  {
+    key: "chargeExchangeRate",
+    label: "Charge exchange (×)",
+    min: 0,
+    max: 5,
+    step: 0.1,
+    group: "Chemistry",
+  },
+  {
+    key: "recombinationRate",
+    label: "Recombination (×)",
+    min: 0,
+    max: 5,
+    step: 0.1,
+    group: "Chemistry",
+  },
+  {
+    key: "ioOrbitSpeed",
+    label: "Io orbit speed (rad/frame)",
+    min: 0,
+    max: 0.02,
+    step: 0.0001,
+    group: "Orbits",
+  },
+];
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DEFAULT_PARAMS } from "./params";
+import { InspectedSimulation, inspectParticle } from "./particle-inspector";
+import { SOURCE_NAMES } from "./plasma-torus-simulation";
+import { SPECIES_INDEX } from "./species";
+import { toJupiterRadii } from "./units";
+
+// One S⁺ ion in slot 1 at `position` with `velocity`, in an untilted dipole
+const inspected = (
+  position: number[],
+  velocity: number[]
+): InspectedSimulation => ({
+  params: { ...DEFAULT_PARAMS, magneticTilt: 0 },
+  time: 50,
+  jupiterRotation: 0.3,
+  positions: Float32Array.of(0, 0, 0, ...position),
+  velocities: Float32Array.of(0, 0, 0, ...velocity),
+  species: Uint8Array.of(0, SPECIES_INDEX["S+"]),
+  alive: Uint8Array.of(0, 1),
+  birthTimes: Float64Array.of(0, 20),
+  generations: Uint32Array.of(0, 4),
+  sources: Uint16Array.of(0, 1),
+});
+
+describe("inspectParticle", () => {
+  test("an empty slot has nothing to inspect", () => {
+    assert.equal(inspectParticle(inspected([8, 0, 0], [0, 0, 0]), 0), null);
+  });
+
+  test("a particle reports where it came from and how old it is", () => {
+    const details = inspectParticle(inspected([8, 0, 0], [0, 0, 0]), 1)!;
+    assert.equal(details.index, 1);
+    assert.equal(details.generation, 4);
+    assert.equal(details.species, SPECIES_INDEX["S+"]);
+    assert.equal(details.source, SOURCE_NAMES[1]);
+    assert.equal(details.birthTime, 20);
+    assert.equal(details.age, 30);
+    assert.deepEqual(details.position, [8, 0, 0]);
+    assert.equal(details.distance, toJupiterRadii(8, "artistic"));
+  });
+
+  test("on the dipole equator the L-shell is the particle's distance", () => {
+    for (const distance of [6, 8, 12]) {
+      const { lShell, distance: radius } = inspectParticle(
+        inspected([0, 0, distance], [0, 0, 0]),
+        1
+      )!;
+      assert.ok(Math.abs(lShell / radius - 1) < 0.02, `${lShell} ${radius}`);
+    }
+  });
+
+  test("pitch angles are measured against corotation", () => {
+    const omega = DEFAULT_PARAMS.jupiterRotationSpeed;
+    const [x, z] = [8, 0];
+    const corotating = inspectParticle(
+      inspected([x, 0, z], [omega * z, 0, -omega * x]),
+      1
+    )!;
+    assert.equal(corotating.pitchAngle, 90);
+    assert.ok(corotating.speed > 0);
+
+    // The equatorial field is vertical
+    const along = inspectParticle(
+      inspected([x, 0, z], [omega * z, 0.01, -omega * x]),
+      1
+    )!;
+    assert.ok(
+      Math.min(along.pitchAngle, 180 - along.pitchAngle) < 1e-3,
+      `${along.pitchAngle}`
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { traceFieldLine } from "./field-lines";
+import { getMagneticFieldVector, Vec3, worldToBody } from "./magnetic-field";
+import { JUPITER_RADIUS } from "./params";
+import { SOURCE_NAMES } from "./plasma-torus-simulation";
+import { SimulationSource } from "./simulation-worker-client";
+import { toJupiterRadii, toKilometresPerSecond, toNanotesla } from "./units";
+
+// Field lines reaching further out than this count as open, in the field
+// models' planet radii
+const MAX_L_SHELL = 40;
+
+/**
+ * One particle as the inspector shows it. `generation` tells it apart from
+ * later particles in the same slot.
+ */
+export interface ParticleDetails {
+  index: number;
+  generation: number;
+  species: number; // Index into SPECIES
+  source: string; // Volcano or other source it was emitted from
+  birthTime: number; // Simulated seconds
+  age: number;
+  position: Vec3; // Scene units
+  distance: number; // From Jupiter's centre, Jupiter radii at the scene scale
+  speed: number; // km/s
+  field: number; // Magnetic field strength, nT
+  lShell: number; // Apex of its field line, like distance; Infinity if open
+  pitchAngle: number; // Degrees between velocity and field, corotating
+}
+
+export type InspectedSimulation = Pick<
+  SimulationSource,
+  | "params"
+  | "time"
+  | "jupiterRotation"
+  | "positions"
+  | "velocities"
+  | "species"
+  | "alive"
+  | "birthTimes"
+  | "generations"
+  | "sources"
+>;
+
+const body: Vec3 = [0, 0, 0];
+const field: Vec3 = [0, 0, 0];
+
+// Furthest a field line gets from the planet's centre, planet radii
+const apex = (points: number[]) => {
+  let furthest = 0;
+  for (let i = 0; i < points.length; i += 3) {
+    furthest = Math.max(
+      furthest,
+      Math.hypot(points[i], points[i + 1], points[i + 2])
+    );
+  }
+  return furthest;
+};
+
+/**
+ * The current state of a particle, or null if its slot is empty.
+ * The L-shell is the apex of the field line through the particle, traced
+ * through the simulation's field model, so it holds for JRM09 as well as
+ * the dipole, and read in the same Jupiter radii as the distance. The
+ * pitch angle is measured in the frame corotating with Jupiter, where the
+ * field is at rest; a particle at rest in that frame reads 90°.
+ */
+export const inspectParticle = (
+  simulation: InspectedSimulation,
+  index: number
+): ParticleDetails | null => {
+  if (!simulation.alive[index]) return null;
+  const { positions, velocities, params, jupiterRotation } = simulation;
+  const i3 = index * 3;
+  const x = positions[i3];
+  const y = positions[i3 + 1];
+  const z = positions[i3 + 2];
+  const vx = velocities[i3];
+  const vy = velocities[i3 + 1];
+  const vz = velocities[i3 + 2];
+
+  worldToBody(x, y, z, jupiterRotation, body);
+  const { points, footprints } = traceFieldLine(body, params, MAX_L_SHELL);
+  const lShell =
+    footprints.length === 2
+      ? toJupiterRadii(apex(points) * JUPITER_RADIUS, params.sceneScale)
+      : Infinity;
+
+  // Velocity relative to rigid corotation, Ω × r with Ω along +y
+  const omega = params.jupiterRotationSpeed;
+  const ux = vx - omega * z;
+  const uz = vz + omega * x;
+  getMagneticFieldVector(x, y, z, jupiterRotation, params, 1, field);
+  const fieldStrength = Math.hypot(field[0], field[1], field[2]);
+  const along = ux * field[0] + vy * field[1] + uz * field[2];
+  const magnitudes = Math.hypot(ux, vy, uz) * fieldStrength;
+  const pitchAngle =
+    magnitudes > 0
+      ? (Math.acos(Math.max(-1, Math.min(1, along / magnitudes))) * 180) /
+        Math.PI
+      : 90;
+
+  const birthTime = simulation.birthTimes[index];
+  return {
+    index,
+    generation: simulation.generations[index],
+    species: simulation.species[index],
+    source: SOURCE_NAMES[simulation.sources[index]] ?? "Unknown",
+    birthTime,
+    age: simulation.time - birthTime,
+    position: [x, y, z],
+    distance: toJupiterRadii(Math.hypot(x, y, z), params.sceneScale),
+    speed: toKilometresPerSecond(Math.hypot(vx, vy, vz), params.sceneScale),
+    field: toNanotesla(fieldStrength, params.magneticFieldStrength),
+    lShell,
+    pitchAngle,
+  };
+};
@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { computeDiagnostics } from "./diagnostics";
+import { LOSS_CHANNELS, LOSS_INDEX } from "./lifecycle";
+import { FIXED_TIMESTEP, MAX_STEPS_PER_ADVANCE } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import { createFramePose, framePose } from "./reference-frames";
+
+const SEED = 42;
+
+const run = (
+  steps: number,
+  params: ConstructorParameters<typeof PlasmaTorusSimulation>[0] = {},
+  seed = SEED
+) => {
+  const simulation = new PlasmaTorusSimulation(params, seed);
+  for (let i = 0; i < steps; i++) simulation.step(FIXED_TIMESTEP);
+  return simulation;
+};
+
+// Every per-particle array, for comparing two runs exactly
+const particleState = (simulation: PlasmaTorusSimulation) => ({
+  positions: simulation.positions,
+  velocities: simulation.velocities,
+  species: simulation.species,
+  alive: simulation.alive,
+  birthTimes: simulation.birthTimes,
+  lifetimes: simulation.lifetimes,
+  generations: simulation.generations,
+  sources: simulation.sources,
+});
+
+const totalLosses = (simulation: PlasmaTorusSimulation) =>
+  simulation.losses.reduce((sum, count) => sum + count, 0);
+
+describe("PlasmaTorusSimulation", () => {
+  test("the same seed and parameters give identical runs", () => {
+    const a = run(600);
+    const b = run(600);
+    assert.ok(a.liveParticles > 0);
+    assert.deepEqual(particleState(a), particleState(b));
+    assert.deepEqual(a.losses, b.losses);
+  });
+
+  test("a different seed gives a different run", () => {
+    const a = run(600);
+    const b = run(600, {}, SEED + 1);
+    assert.notDeepEqual(a.positions, b.positions);
+  });
+
+  test("the radial profile peaks near the torus radius", () => {
+    for (const torusRadius of [8, 10, 14]) {
+      const simulation = run(3000, { torusRadius });
+      const { peakRadius } = computeDiagnostics(
+        simulation,
+        framePose("inertial", simulation, createFramePose()),
+        simulation.params.maxDistance,
+        null
+      );
+      assert.ok(
+        Math.abs(peakRadius - torusRadius) < 2,
+        `peak at ${peakRadius.toFixed(2)} for a torus radius of ${torusRadius}`
+      );
+    }
+  });
+
+  test("advance takes whole fixed steps and carries the remainder", () => {
+    const simulation = new PlasmaTorusSimulation({}, SEED);
+    assert.equal(simulation.advance(FIXED_TIMESTEP * 2.5), 2);
+    assert.equal(simulation.advance(FIXED_TIMESTEP * 0.25), 0);
+    assert.equal(simulation.advance(FIXED_TIMESTEP * 0.5), 1);
+    assert.ok(Math.abs(simulation.time - FIXED_TIMESTEP * 3) < 1e-12);
+    // A long stall drops its backlog rather than catching up
+    assert.equal(simulation.advance(10), MAX_STEPS_PER_ADVANCE);
+    assert.equal(simulation.advance(0), 0);
+  });
+
+  test("the run does not depend on the frame rate", () => {
+    const slow = new PlasmaTorusSimulation({}, SEED);
+    const fast = new PlasmaTorusSimulation({}, SEED);
+    let steps = 0;
+    for (let i = 0; i < 100; i++) steps += slow.advance(FIXED_TIMESTEP * 3);
+    for (let i = 0; i < 300; i++) fast.advance(FIXED_TIMESTEP);
+    assert.equal(steps, 300);
+    assert.deepEqual(particleState(slow), particleState(run(300)));
+    assert.deepEqual(particleState(fast), particleState(run(300)));
+  });
+
+  test("a new particle limit applies live, keeping the first particles", () => {
+    const simulation = run(600, { maxParticles: 500 });
+    const positions = simulation.positions.slice(0, 200 * 3);
+    simulation.setParams({ maxParticles: 200 });
+    assert.equal(simulation.maxParticles, 200);
+    assert.equal(simulation.positions.length, 200 * 3);
+    assert.deepEqual(simulation.positions, positions);
+    let live = 0;
+    for (let i = 0; i < 200; i++) live += simulation.alive[i];
+    assert.equal(simulation.liveParticles, live);
+
+    simulation.setParams({ maxParticles: 1000 });
+    assert.deepEqual(simulation.positions.slice(0, 200 * 3), positions);
+    for (let i = 0; i < 300; i++) simulation.step(FIXED_TIMESTEP);
+    assert.ok(simulation.activeParticles > 200);
+  });
+
+  test("restoring a snapshot continues the run bit for bit", () => {
+    const original = run(400);
+    const state = original.snapshot();
+
+    const restored = new PlasmaTorusSimulation({}, 1);
+    restored.restore(state);
+    for (let i = 0; i < 400; i++) {
+      original.step(FIXED_TIMESTEP);
+      restored.step(FIXED_TIMESTEP);
+    }
+    assert.equal(restored.time, original.time);
+    assert.equal(restored.liveParticles, original.liveParticles);
+    assert.deepEqual(particleState(restored), particleState(original));
+    assert.deepEqual(restored.losses, original.losses);
+  });
+
+  test("a snapshot is a copy that later steps leave alone", () => {
+    const simulation = run(200);
+    const state = simulation.snapshot();
+    const positions = state.positions.slice();
+    for (let i = 0; i < 100; i++) simulation.step(FIXED_TIMESTEP);
+    assert.deepEqual(state.positions, positions);
+    assert.notDeepEqual(simulation.positions, positions);
+    assert.ok(state.time < simulation.time);
+  });
+
+  test("particle arrays are carved from the given allocator", () => {
+    const buffers: SharedArrayBuffer[] = [];
+    const simulation = new PlasmaTorusSimulation(
+      { maxParticles: 100 },
+      SEED,
+      (byteLength) => {
+        const buffer = new SharedArrayBuffer(byteLength);
+        buffers.push(buffer);
+        return buffer;
+      }
+    );
+    for (const array of Object.values(particleState(simulation))) {
+      assert.ok(buffers.includes(array.buffer as SharedArrayBuffer));
+    }
+    assert.ok(simulation.colors.buffer instanceof SharedArrayBuffer);
+
+    // Reallocating draws fresh memory from the same allocator
+    const count = buffers.length;
+    simulation.setParams({ maxParticles: 200 });
+    assert.ok(buffers.length > count);
+    assert.ok(simulation.positions.buffer instanceof SharedArrayBuffer);
+  });
+
+  test("emission fills free slots from the allocation cursor", () => {
+    const simulation = run(300, { maxParticles: 500 });
+    const { alive, activeParticles } = simulation;
+    let live = 0;
+    for (let i = 0; i < alive.length; i++) live += alive[i];
+    assert.equal(simulation.liveParticles, live);
+    assert.ok(activeParticles <= 500);
+    // Nothing is emitted past the slots in use
+    for (let i = activeParticles; i < alive.length; i++) {
+      assert.equal(alive[i], 0);
+      assert.equal(simulation.generations[i], 0);
+    }
+  });
+
+  test("a full buffer overwrites slots in order, skipping pinned ones", () => {
+    const simulation = run(2000, {
+      maxParticles: 100,
+      residenceTime: 1e6,
+      eruptionChance: 0.05,
+    });
+    assert.equal(simulation.liveParticles, 100);
+    assert.ok(simulation.losses[LOSS_INDEX.capacity] > 0);
+
+    const pinned = simulation.alive.indexOf(1);
+    simulation.setPinned(pinned, true);
+    const generation = simulation.generations[pinned];
+    const capacity = simulation.losses[LOSS_INDEX.capacity];
+    for (let i = 0; i < 600; i++) simulation.step(FIXED_TIMESTEP);
+    assert.ok(simulation.losses[LOSS_INDEX.capacity] > capacity + 100);
+    assert.equal(simulation.alive[pinned], 1);
+    assert.equal(simulation.generations[pinned], generation);
+  });
+
+  test("every emitted particle is either live or counted as lost", () => {
+    const simulation = run(2000, { maxParticles: 300 });
+    const emitted = Array.from(simulation.generations).reduce(
+      (sum, count) => sum + count,
+      0
+    );
+    assert.equal(LOSS_CHANNELS.length, simulation.losses.length);
+    assert.ok(totalLosses(simulation) > 0);
+    assert.equal(emitted, simulation.liveParticles + totalLosses(simulation));
+  });
+
+  test("lose frees the slot and counts the channel once", () => {
+    const simulation = run(200);
+    const index = simulation.alive.indexOf(1);
+    const live = simulation.liveParticles;
+    simulation.lose(index, LOSS_INDEX.numerical);
+    simulation.lose(index, LOSS_INDEX.numerical);
+    assert.equal(simulation.alive[index], 0);
+    assert.equal(simulation.liveParticles, live - 1);
+    assert.equal(simulation.losses[LOSS_INDEX.numerical], 1);
+    assert.deepEqual(
+      Array.from(simulation.positions.subarray(index * 3, index * 3 + 3)),
+      [0, 0, 0]
+    );
+  });
+
+  test("reset returns to an empty run with the same seed", () => {
+    const simulation = run(300);
+    simulation.reset();
+    assert.equal(simulation.time, 0);
+    assert.equal(simulation.liveParticles, 0);
+    assert.equal(totalLosses(simulation), 0);
+    for (let i = 0; i < 300; i++) simulation.step(FIXED_TIMESTEP);
+    assert.deepEqual(particleState(simulation), particleState(run(300)));
+  });
+});
@@ -0,0 +1,1042 @@
+import {
+  JupiterEphemeris,
+  jupiterEphemeris,
+  jupiterRotationFromMeridian,
+} from "./ephemeris";
+import { EruptionScenario, eventStrength } from "./eruption-scenarios";
+import { ForceModel, INTEGRATOR_STEPS } from "./integrators";
+import {
+  drawLifetime,
+  LOSS_CHANNELS,
+  LOSS_INDEX,
+  recombinationChance,
+} from "./lifecycle";
+import { getMagneticFieldVector, Vec3 } from "./magnetic-field";
+import {
+  outsideMagnetopause,
+  sceneStandoff,
+  SolarWindSeries,
+} from "./magnetosphere";
+import {
+  IO_MEAN_MOTION,
+  MOON_ORBITS,
+  MoonName,
+  MoonOrbit,
+  moonPosition,
+  placeMoon,
+} from "./moons";
+import {
+  DEFAULT_PARAMS,
+  FIXED_TIMESTEP,
+  IO_RADIUS,
+  MAX_STEPS_PER_ADVANCE,
+  REFERENCE_FRAME_RATE,
+  SimulationParams,
+} from "./params";
+import { createRandom, Random, randomSeed } from "./random";
+import {
+  CHARGE_TO_MASS,
+  RATE_PARAMS,
+  SPECIES,
+  SPECIES_INDEX,
+  SpeciesKey,
+  TRANSITIONS_BY_SPECIES,
+} from "./species";
+import { transportAcceleration } from "./torus-models";
+import {
+  IO_VOLCANOES,
+  MEAN_SO2_OUTPUT,
+  PLUME_HALF_ANGLE,
+  PLUME_SPEED_SCALE,
+  synchronousRotation,
+  TOTAL_ACTIVITY,
+  volcanoNormal,
+} from "./volcanoes";
+
+// Force model constants, shared with the GPU particle shader
+export const EULER_MAX_SPEED = 0.2; // Keeps the explicit Euler scheme from blowing up
+export const VERTICAL_DAMPING = 0.95; // Per-frame damping factor on vertical velocity
+export const COROTATION_SCALE = 15; // Distance over which corotation builds up
+export const RADIAL_CONTAINMENT = 0.01; // Pull towards the torus radius
+export const EQUATORIAL_CONTAINMENT = 0.02; // Pull towards the equator
+
+/**
+ * Real-date mode: geometry follows the analytic ephemeris from `epoch`
+ * (Julian day) onwards, with `ephemerisDays` counting days since the epoch.
+ */
+export interface EphemerisClock {
+  epoch: number;
+  daysPerSecond: number;
+}
+
+/**
+ * Alternative per-particle update, e.g. GpuParticleSystem. When one is set,
+ * `step` still advances the geometry and emits particles into the arrays,
+ * listing their indices in `emitted`, but leaves integration to it.
+ */
+export interface ParticleIntegrator {
+  // Take over the particles listed in `emitted`, then advance every particle
+  step(frames: number): void;
+  // Drop all particle state, as after `PlasmaTorusSimulation.reset`
+  reset(): void;
+  // Copy the particle state back into the simulation's arrays
+  sync(): void;
+}
+
+/**
+ * Where a particle was emitted, as stored in `sources`: a volcano's index in
+ * IO_VOLCANOES, or one of the codes after them. Moon sources count up from
+ * SOURCE_MOONS in MOON_ORBITS order.
+ */
+export const SOURCE_IO_ATMOSPHERE = IO_VOLCANOES.length;
+export const SOURCE_MOONS = IO_VOLCANOES.length + 1;
+
+// Names of the codes in `sources`, indexed by code
+export const SOURCE_NAMES = [
+  ...IO_VOLCANOES.map(({ name }) => name),
+  "Io's atmosphere",
+  ...MOON_ORBITS.map(({ label }) => label),
+];
+
+// Eruption cycle of one volcano, in frames
+export interface EruptionState {
+  isActive: boolean;
+  countdown: number;
+  cooldown: number;
+  eruptions: number; // Started since the last reset
+}
+
+// Backing memory for the particle arrays, e.g. a SharedArrayBuffer so that
+// another thread can read them
+export type BufferAllocator = (byteLength: number) => ArrayBufferLike;
+
+const allocateArrayBuffer: BufferAllocator = (byteLength) =>
+  new ArrayBuffer(byteLength);
+
+/**
+ * Everything `restore` needs to continue a run exactly where `snapshot` left
+ * it, including the PRNG's position in its sequence.
+ */
+export interface SimulationState {
+  params: SimulationParams;
+  seed: number;
+  randomState: number;
+  time: number;
+  jupiterRotation: number;
+  ephemerisDays: number;
+  ephemerisClock: EphemerisClock | null;
+  eruptionScenario: EruptionScenario | null;
+  solarWind: SolarWindSeries | null;
+  volcanoes: EruptionState[];
+  activeParticles: number;
+  allocationCursor: number;
+  losses: number[];
+  positions: Float32Array;
+  velocities: Float32Array;
+  species: Uint8Array;
+  alive: Uint8Array;
+  birthTimes: Float64Array;
+  lifetimes: Float32Array;
+  generations: Uint32Array;
+  sources: Uint16Array;
+}
+
+/**
+ * Io plasma torus particle simulation, independent of any renderer.
+ *
+ * Io erupts from the hotspots in IO_VOLCANOES, each with its own eruption
+ * cycle (`volcanoes`, indexed like the catalog); plumes launch from the
+ * volcano's surface position on the synchronously rotating moon. Eruptions
+ * start at random, or follow the timed events of an `eruptionScenario`
+ * when one is set.
+ *
+ * State lives in flat typed arrays (xyz triplets per particle) so a renderer
+ * can hand `positions` and `colors` straight to a buffer geometry. `species`
+ * tags every particle with an index into SPECIES; the Lorentz and corotation
+ * forces scale with the species' charge-to-mass ratio and chemistry
+ * transitions change the tag (and color) stochastically. Each call
+ * to `step` advances Jupiter's rotation, Io's orbit, eruption state, emission
+ * and the per-particle forces by `dt` seconds. `advance` feeds real elapsed
+ * time through an accumulator so the physics always runs at FIXED_TIMESTEP
+ * regardless of the display's refresh rate.
+ *
+ * Particles live and die explicitly. Emission claims the next free slot
+ * after an allocation cursor that sweeps the buffer like a ring; only when
+ * every slot is `alive` does it overwrite the slot at the cursor (roughly
+ * the oldest), passing over `pinned` ones. Particles are lost through the
+ * channels in LOSS_CHANNELS, each counted in `losses`: ions past the outer
+ * boundary, or in the artistic torus model (see TORUS_MODELS) at the end of
+ * their drawn residence time (`lifetimes`), leave by radial transport,
+ * neutrals past it escape, anything inside the inner boundary
+ * precipitates, and ions may recombine. A lost particle's slot is parked at
+ * the origin with a black color, which draws as nothing under additive
+ * blending, until emission reuses it.
+ *
+ * With `magnetopause` on, ions beyond the magnetopause, or down the tail
+ * past its closure, are lost to the solar wind. It replaces the outer
+ * boundary for them; neutrals still escape past `maxDistance`. Its standoff
+ * (`magnetopauseStandoff`) follows the upstream pressure, from the
+ * `solarWind` series when one is set.
+ *
+ * Each slot also records when and where its particle was emitted
+ * (`birthTimes`, `sources`) and counts the particles it has held
+ * (`generations`), so a viewer can tell a particle from the one that
+ * replaces it. Pins belong to the viewer rather than the run, so reset and
+ * restore leave them alone.
+ *
+ * Every stochastic decision draws from a PRNG seeded with `seed`, so two
+ * simulations with the same seed and parameters evolve identically.
+ *
+ * Tunables live in `params` and may be changed between steps with
+ * `setParams`. Changing `maxParticles` reallocates the buffers, so renderers
+ * should re-read `positions` and `colors` after calling it. The buffers are
+ * carved from memory returned by `allocate`.
+ */
+export class PlasmaTorusSimulation {
+  readonly params: SimulationParams;
+  positions: Float32Array;
+  velocities: Float32Array;
+  colors: Float32Array;
+  species: Uint8Array;
+  alive: Uint8Array;
+  birthTimes: Float64Array; // Simulated seconds
+  lifetimes: Float32Array; // Torus residence time drawn at emission, seconds
+  generations: Uint32Array;
+  sources: Uint16Array; // See SOURCE_IO_ATMOSPHERE
+  pinned: Uint8Array;
+  activeParticles = 0; // Slots used since the last reset; the rest are empty
+  liveParticles = 0;
+  readonly losses = LOSS_CHANNELS.map(() => 0); // Indexed like LOSS_CHANNELS
+  private allocationCursor = 0; // Where the search for a free slot starts
+
+  readonly volcanoes: EruptionState[] = IO_VOLCANOES.map(() => ({
+    isActive: false,
+    countdown: 0,
+    cooldown: 0,
+    eruptions: 0,
+  }));
+
+  time = 0; // Simulated seconds
+  jupiterRotation = 0;
+  ephemerisDays = 0; // Shared clock for every moon's orbit
+  readonly moonPositions = Object.fromEntries(
+    MOON_ORBITS.map((moon) => [moon.name, moonPosition(moon, 0, [0, 0, 0])])
+  ) as Record<MoonName, Vec3>;
+  readonly ioPosition = this.moonPositions.io;
+  ephemerisClock: EphemerisClock | null = null;
+  ephemeris: JupiterEphemeris | null = null; // Latest real-date geometry
+  eruptionScenario: EruptionScenario | null = null; // Null for random eruptions
+  solarWind: SolarWindSeries | null = null; // Null for a steady solar wind
+  magnetopauseStandoff = 0; // Scene units; 0 while the magnetopause is off
+
+  private accumulator = 0;
+  private readonly position: Vec3 = [0, 0, 0];
+  private readonly normal: Vec3 = [0, 0, 0];
+  private readonly velocity: Vec3 = [0, 0, 0];
+  private readonly flowField: Vec3 = [0, 0, 0];
+  private readonly forces: ForceModel;
+  private chargeToMass = 1; // Of the particle being integrated
+  particleIntegrator: ParticleIntegrator | null = null;
+  emitted: number[] = []; // Particles emitted this step, for particleIntegrator
+
+  seed: number;
+  private random: Random;
+  private readonly allocate: BufferAllocator;
+
+  constructor(
+    params: Partial<SimulationParams> = {},
+    seed = randomSeed(),
+    allocate = allocateArrayBuffer
+  ) {
+    this.params = { ...DEFAULT_PARAMS, ...params };
+    this.allocate = allocate;
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.forces = this.createForceModel();
+    this.positions = new Float32Array(0);
+    this.velocities = new Float32Array(0);
+    this.colors = new Float32Array(0);
+    this.species = new Uint8Array(0);
+    this.alive = new Uint8Array(0);
+    this.birthTimes = new Float64Array(0);
+    this.lifetimes = new Float32Array(0);
+    this.generations = new Uint32Array(0);
+    this.sources = new Uint16Array(0);
+    this.pinned = new Uint8Array(0);
+    this.resize(this.params.maxParticles);
+    this.setEphemerisDays(0); // At the scene scale in params
+  }
+
+  get maxParticles() {
+    return this.params.maxParticles;
+  }
+
+  setParams(params: Partial<SimulationParams>) {
+    Object.assign(this.params, params);
+    if (this.positions.length !== this.params.maxParticles * 3) {
+      this.resize(this.params.maxParticles);
+    }
+    // Move the moons out or in at once, even while paused
+    if (params.sceneScale !== undefined) {
+      this.setEphemerisDays(this.ephemerisDays);
+    }
+  }
+
+  /**
+   * Restart the run from time zero with empty buffers, optionally with a new
+   * seed. Parameters are kept.
+   */
+  reset(seed = this.seed) {
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.time = 0;
+    this.jupiterRotation = 0;
+    this.setEphemerisDays(0);
+    this.accumulator = 0;
+    for (const volcano of this.volcanoes) {
+      volcano.isActive = false;
+      volcano.countdown = 0;
+      volcano.cooldown = 0;
+      volcano.eruptions = 0;
+    }
+    this.positions.fill(0);
+    this.velocities.fill(0);
+    this.species.fill(SPECIES_INDEX.SO2);
+    this.colors.fill(0);
+    this.alive.fill(0);
+    this.birthTimes.fill(0);
+    this.lifetimes.fill(0);
+    this.generations.fill(0);
+    this.sources.fill(0);
+    this.activeParticles = 0;
+    this.liveParticles = 0;
+    this.allocationCursor = 0;
+    this.losses.fill(0);
+    this.emitted.length = 0;
+    this.particleIntegrator?.reset();
+  }
+
+  // Copy of the full run state; see restore
+  snapshot(): SimulationState {
+    this.particleIntegrator?.sync();
+    return {
+      params: { ...this.params },
+      seed: this.seed,
+      randomState: this.random.state,
+      time: this.time,
+      jupiterRotation: this.jupiterRotation,
+      ephemerisDays: this.ephemerisDays,
+      ephemerisClock: this.ephemerisClock && { ...this.ephemerisClock },
+      eruptionScenario: this.eruptionScenario,
+      solarWind: this.solarWind,
+      volcanoes: this.volcanoes.map((volcano) => ({ ...volcano })),
+      activeParticles: this.activeParticles,
+      allocationCursor: this.allocationCursor,
+      losses: this.losses.slice(),
+      positions: this.positions.slice(),
+      velocities: this.velocities.slice(),
+      species: this.species.slice(),
+      alive: this.alive.slice(),
+      birthTimes: this.birthTimes.slice(),
+      lifetimes: this.lifetimes.slice(),
+      generations: this.generations.slice(),
+      sources: this.sources.slice(),
+    };
+  }
+
+  /**
+   * Continue from a snapshot, possibly taken in another simulation (or
+   * thread). The state's arrays must match its `maxParticles`.
+   */
+  restore(state: SimulationState) {
+    this.setParams(state.params);
+    this.seed = state.seed;
+    this.random = createRandom(state.seed);
+    this.random.state = state.randomState;
+    this.time = state.time;
+    this.accumulator = 0;
+    this.setEphemerisClock(state.ephemerisClock);
+    this.setEphemerisDays(state.ephemerisDays);
+    this.jupiterRotation = state.jupiterRotation;
+    this.eruptionScenario = state.eruptionScenario;
+    this.solarWind = state.solarWind;
+    this.volcanoes.forEach((volcano, i) =>
+      Object.assign(volcano, state.volcanoes[i])
+    );
+    this.activeParticles = state.activeParticles;
+    this.allocationCursor = state.allocationCursor;
+    state.losses.forEach((count, i) => (this.losses[i] = count));
+    this.positions.set(state.positions);
+    this.velocities.set(state.velocities);
+    this.alive.set(state.alive);
+    this.birthTimes.set(state.birthTimes);
+    this.lifetimes.set(state.lifetimes);
+    this.generations.set(state.generations);
+    this.sources.set(state.sources);
+    this.liveParticles = 0;
+    for (let i = 0; i < state.species.length; i++) {
+      this.setSpecies(i, state.species[i]);
+      if (this.alive[i]) {
+        this.liveParticles++;
+      } else {
+        this.hide(i);
+      }
+    }
+    this.emitted.length = 0;
+    this.particleIntegrator?.reset();
+  }
+
+  // Number of live particles of each species, indexed like SPECIES
+  speciesCounts() {
+    const counts = SPECIES.map(() => 0);
+    for (let i = 0; i < this.activeParticles; i++) {
+      if (this.alive[i]) counts[this.species[i]]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Keep a particle's slot from being overwritten by new emissions when
+   * the buffer is full, e.g. while it is being inspected. It can still be
+   * lost through the other channels.
+   */
+  setPinned(index: number, pinned: boolean) {
+    if (index < this.pinned.length) this.pinned[index] = pinned ? 1 : 0;
+  }
+
+  // Reallocate particle buffers, keeping as many existing particles as fit
+  private resize(maxParticles: number) {
+    this.particleIntegrator?.sync();
+    const vectorBytes = maxParticles * 3 * Float32Array.BYTES_PER_ELEMENT;
+    const positions = new Float32Array(this.allocate(vectorBytes));
+    const velocities = new Float32Array(this.allocate(vectorBytes));
+    const colors = new Float32Array(this.allocate(vectorBytes));
+    const species = new Uint8Array(this.allocate(maxParticles));
+    const alive = new Uint8Array(this.allocate(maxParticles));
+    const birthTimes = new Float64Array(
+      this.allocate(maxParticles * Float64Array.BYTES_PER_ELEMENT)
+    );
+    const lifetimes = new Float32Array(
+      this.allocate(maxParticles * Float32Array.BYTES_PER_ELEMENT)
+    );
+    const generations = new Uint32Array(
+      this.allocate(maxParticles * Uint32Array.BYTES_PER_ELEMENT)
+    );
+    const sources = new Uint16Array(
+      this.allocate(maxParticles * Uint16Array.BYTES_PER_ELEMENT)
+    );
+    const pinned = new Uint8Array(this.allocate(maxParticles));
+    const kept = Math.min(this.species.length, maxParticles);
+    positions.set(this.positions.subarray(0, kept * 3));
+    velocities.set(this.velocities.subarray(0, kept * 3));
+    colors.set(this.colors.subarray(0, kept * 3));
+    species.set(this.species.subarray(0, kept));
+    alive.set(this.alive.subarray(0, kept));
+    birthTimes.set(this.birthTimes.subarray(0, kept));
+    lifetimes.set(this.lifetimes.subarray(0, kept));
+    generations.set(this.generations.subarray(0, kept));
+    sources.set(this.sources.subarray(0, kept));
+    pinned.set(this.pinned.subarray(0, kept));
+
+    this.positions = positions;
+    this.velocities = velocities;
+    this.colors = colors;
+    this.species = species;
+    this.alive = alive;
+    this.birthTimes = birthTimes;
+    this.lifetimes = lifetimes;
+    this.generations = generations;
+    this.sources = sources;
+    this.pinned = pinned;
+
+    // New slots start empty
+    species.fill(SPECIES_INDEX.SO2, kept);
+    this.activeParticles = Math.min(this.activeParticles, maxParticles);
+    if (this.allocationCursor >= maxParticles) this.allocationCursor = 0;
+    this.liveParticles = 0;
+    for (let i = 0; i < kept; i++) this.liveParticles += alive[i];
+  }
+
+  /**
+   * Advance by real elapsed seconds in whole fixed steps, carrying the
+   * remainder to the next call. Returns the number of steps taken.
+   */
+  advance(elapsed: number) {
+    this.accumulator += elapsed;
+    let steps = 0;
+    while (this.accumulator >= FIXED_TIMESTEP) {
+      if (steps === MAX_STEPS_PER_ADVANCE) {
+        this.accumulator = 0;
+        break;
+      }
+      this.step(FIXED_TIMESTEP);
+      this.accumulator -= FIXED_TIMESTEP;
+      steps++;
+    }
+    return steps;
+  }
+
+  step(dt = FIXED_TIMESTEP) {
+    const frames = dt * REFERENCE_FRAME_RATE;
+    this.time += dt;
+
+    // Rotate Jupiter and magnetic field
+    if (!this.ephemerisClock) {
+      this.jupiterRotation += this.params.jupiterRotationSpeed * frames;
+    }
+
+    // Advance the moons; in free-running mode Io's orbit speed sets how
+    // fast ephemeris time runs
+    if (this.ephemerisClock) {
+      this.setEphemerisDays(
+        this.ephemerisDays + this.ephemerisClock.daysPerSecond * dt
+      );
+    } else {
+      this.setEphemerisDays(
+        this.ephemerisDays +
+          (this.params.ioOrbitSpeed * frames) / IO_MEAN_MOTION
+      );
+    }
+
+    this.magnetopauseStandoff = sceneStandoff(
+      this.solarWind,
+      this.params,
+      this.time
+    );
+    this.updateVolcanoes(frames);
+    if (this.params.moonSources) {
+      for (const moon of MOON_ORBITS) this.updateMoonSource(moon, frames);
+    }
+    if (this.particleIntegrator) {
+      this.particleIntegrator.step(frames);
+      this.emitted.length = 0;
+    } else {
+      this.updateParticles(frames);
+    }
+  }
+
+  /**
+   * Follow a scenario's eruptions from now on, or go back to random ones
+   * with null. Events are timed from the start of the run, so ones already
+   * past do not happen; restart the run to play a scenario from the start.
+   */
+  setEruptionScenario(scenario: EruptionScenario | null) {
+    this.eruptionScenario = scenario;
+    for (const volcano of this.volcanoes) {
+      volcano.isActive = false;
+      volcano.countdown = 0;
+      volcano.cooldown = 0;
+    }
+  }
+
+  /**
+   * Drive the magnetopause from a series of upstream pressures, timed from
+   * the start of the run, or from the constant `solarWindPressure` with
+   * null.
+   */
+  setSolarWind(series: SolarWindSeries | null) {
+    this.solarWind = series;
+  }
+
+  /**
+   * Switch to real-date mode (or back to free-running with null). Jupiter's
+   * rotation and the moons jump to the geometry at the clock's epoch, unless
+   * only the rate changed.
+   */
+  setEphemerisClock(clock: EphemerisClock | null) {
+    const sameEpoch =
+      clock !== null &&
+      this.ephemerisClock !== null &&
+      clock.epoch === this.ephemerisClock.epoch;
+    this.ephemerisClock = clock;
+    this.ephemeris = null;
+    this.setEphemerisDays(sameEpoch ? this.ephemerisDays : 0);
+  }
+
+  // Place Jupiter and every moon at the given ephemeris time
+  setEphemerisDays(days: number) {
+    this.ephemerisDays = days;
+
+    if (!this.ephemerisClock) {
+      for (const moon of MOON_ORBITS) {
+        moonPosition(
+          moon,
+          days,
+          this.moonPositions[moon.name],
+          this.params.sceneScale
+        );
+      }
+      return;
+    }
+
+    // Reuse the previous result rather than allocating every step
+    const ephemeris = jupiterEphemeris(
+      this.ephemerisClock.epoch + days,
+      this.ephemeris ?? undefined
+    );
+    this.ephemeris = ephemeris;
+    this.jupiterRotation = jupiterRotationFromMeridian(
+      ephemeris.centralMeridian
+    );
+    for (const moon of MOON_ORBITS) {
+      placeMoon(
+        moon,
+        (ephemeris.longitudes[moon.name] * Math.PI) / 180,
+        this.moonPositions[moon.name],
+        this.params.sceneScale
+      );
+    }
+  }
+
+  // Weak neutral/plasma source from a moon other than Io's volcanoes
+  private updateMoonSource(moon: MoonOrbit, frames: number) {
+    const { source } = moon;
+    if (!source) return;
+
+    // Sources outside the simulated volume would be recycled immediately
+    const origin = this.moonPositions[moon.name];
+    if (Math.hypot(origin[0], origin[1], origin[2]) > this.params.maxDistance) {
+      return;
+    }
+    if (this.random() >= source.rate * frames) return;
+
+    this.emit(
+      origin,
+      source.spread,
+      source.speed * (1 + this.random() * 0.5),
+      source.species,
+      SOURCE_MOONS + MOON_ORBITS.indexOf(moon)
+    );
+  }
+
+  // Advance every volcano's eruption cycle and emit from the active ones
+  private updateVolcanoes(frames: number) {
+    const { params } = this;
+
+    for (let v = 0; v < IO_VOLCANOES.length; v++) {
+      const volcano = IO_VOLCANOES[v];
+      const eruption = this.volcanoes[v];
+
+      if (this.eruptionScenario) {
+        const strength = this.updateScriptedEruption(v, frames);
+        this.emitPlumes(v, strength * frames);
+      } else if (eruption.isActive) {
+        eruption.countdown -= frames;
+        if (eruption.countdown <= 0) {
+          // End eruption and start cooldown
+          eruption.isActive = false;
+          eruption.cooldown = params.eruptionCooldown;
+        }
+
+        this.emitPlumes(v, frames);
+      } else if (eruption.cooldown > 0) {
+        eruption.cooldown -= frames;
+      } else if (
+        this.random() <
+        ((params.eruptionChance * volcano.activity) / TOTAL_ACTIVITY) * frames
+      ) {
+        // Io's eruption chance is shared out by activity
+        eruption.isActive = true;
+        eruption.countdown = params.eruptionDuration;
+        eruption.eruptions++;
+      }
+    }
+
+    // Background emission from Io's patchy atmosphere
+    if (this.random() < params.baseEmissionRate * frames) {
+      this.emit(
+        this.ioPosition,
+        0.8,
+        0.02 + this.random() * 0.01,
+        "SO2",
+        SOURCE_IO_ATMOSPHERE
+      );
+    }
+  }
+
+  /**
+   * Bring a volcano's EruptionState in line with the scenario's events at
+   * the current time, counting events that began this step, and return the
+   * summed output of its active events.
+   */
+  private updateScriptedEruption(v: number, frames: number) {
+    const eruption = this.volcanoes[v];
+    const { name } = IO_VOLCANOES[v];
+    const stepStart = this.time - frames / REFERENCE_FRAME_RATE;
+    let strength = 0;
+    let remaining = 0;
+    for (const event of this.eruptionScenario!.events) {
+      if (event.volcano !== name) continue;
+      if (event.start >= stepStart && event.start < this.time) {
+        eruption.eruptions++;
+      }
+      const output = eventStrength(event, this.time);
+      if (output > 0) {
+        strength += output;
+        remaining = Math.max(
+          remaining,
+          event.start + event.duration - this.time
+        );
+      }
+    }
+    eruption.isActive = strength > 0;
+    eruption.countdown = remaining * REFERENCE_FRAME_RATE;
+    eruption.cooldown = 0;
+    return strength;
+  }
+
+  /**
+   * Launch plume particles in proportion to the volcano's SO₂ output, 80%
+   * of particlesPerFrameDuringEruption for an average volcano, over
+   * `frames` frames of its usual output.
+   */
+  private emitPlumes(v: number, frames: number) {
+    let expected =
+      0.8 *
+      this.params.particlesPerFrameDuringEruption *
+      (IO_VOLCANOES[v].so2Output / MEAN_SO2_OUTPUT) *
+      frames;
+    for (; expected > 0; expected--) {
+      if (this.random() < expected) this.emitPlume(v);
+    }
+  }
+
+  /**
+   * Claim a slot for a particle emitted now from `source`: the first free
+   * one from the allocation cursor on. If every slot is in use, the one at
+   * the cursor is overwritten instead, or the next unpinned one after it.
+   */
+  private nextParticle(source: number) {
+    const { alive, pinned, maxParticles } = this;
+    let index = this.allocationCursor;
+    if (this.liveParticles < maxParticles) {
+      while (alive[index]) index = (index + 1) % maxParticles;
+    } else {
+      for (let i = 0; i < maxParticles && pinned[index]; i++) {
+        index = (index + 1) % maxParticles;
+      }
+      this.lose(index, LOSS_INDEX.capacity);
+    }
+    this.allocationCursor = (index + 1) % maxParticles;
+    this.activeParticles = Math.max(this.activeParticles, index + 1);
+
+    alive[index] = 1;
+    this.liveParticles++;
+    this.birthTimes[index] = this.time;
+    this.lifetimes[index] = drawLifetime(
+      this.params.residenceTime,
+      this.random()
+    );
+    this.generations[index]++;
+    this.sources[index] = source;
+    return index;
+  }
+
+  /**
+   * Remove a particle through `channel`, an index into LOSS_CHANNELS,
+   * freeing its slot. Integrators that run elsewhere (see
+   * ParticleIntegrator) report the particles they lose through this.
+   */
+  lose(index: number, channel: number) {
+    if (!this.alive[index]) return;
+    this.alive[index] = 0;
+    this.liveParticles--;
+    this.losses[channel]++;
+    const i3 = index * 3;
+    this.positions[i3] = 0;
+    this.positions[i3 + 1] = 0;
+    this.positions[i3 + 2] = 0;
+    this.velocities[i3] = 0;
+    this.velocities[i3 + 1] = 0;
+    this.velocities[i3 + 2] = 0;
+    this.hide(index);
+  }
+
+  // Draw an empty slot as nothing
+  private hide(index: number) {
+    const i3 = index * 3;
+    this.colors[i3] = 0;
+    this.colors[i3 + 1] = 0;
+    this.colors[i3 + 2] = 0;
+  }
+
+  /**
+   * Launch an SO₂ particle from a volcano's vent: the plume's velocities
+   * fill a cone about the local vertical, with a speed set by the plume's
+   * height.
+   */
+  private emitPlume(volcanoIndex: number) {
+    const { positions, velocities, normal, ioPosition } = this;
+    const volcano = IO_VOLCANOES[volcanoIndex];
+
+    // Vent normal in the scene, with Io turned to face Jupiter
+    volcanoNormal(volcano, normal);
+    const rotation = synchronousRotation(ioPosition);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const nx = normal[0] * cos + normal[2] * sin;
+    const ny = normal[1];
+    const nz = -normal[0] * sin + normal[2] * cos;
+
+    // Tilt the vertical by a random angle in a random direction; the tilt
+    // axes are any two unit vectors perpendicular to the normal
+    const horizontal = Math.hypot(nx, nz);
+    const ux = horizontal > 0 ? nz / horizontal : 1;
+    const uz = horizontal > 0 ? -nx / horizontal : 0;
+    const wx = ny * uz;
+    const wy = nz * ux - nx * uz;
+    const wz = -ny * ux;
+    const tilt = PLUME_HALF_ANGLE * Math.sqrt(this.random());
+    const azimuth = this.random() * Math.PI * 2;
+    const along = Math.sin(tilt) * Math.cos(azimuth);
+    const across = Math.sin(tilt) * Math.sin(azimuth);
+    const up = Math.cos(tilt);
+    const speed =
+      PLUME_SPEED_SCALE *
+      Math.sqrt(volcano.plumeHeight) *
+      (0.75 + this.random() * 0.5);
+
+    const i3 = this.nextParticle(volcanoIndex) * 3;
+    positions[i3] = ioPosition[0] + nx * IO_RADIUS;
+    positions[i3 + 1] = ioPosition[1] + ny * IO_RADIUS;
+    positions[i3 + 2] = ioPosition[2] + nz * IO_RADIUS;
+    velocities[i3] = (nx * up + ux * along + wx * across) * speed;
+    velocities[i3 + 1] = (ny * up + wy * across) * speed;
+    velocities[i3 + 2] = (nz * up + uz * along + wz * across) * speed;
+
+    this.setSpecies(i3 / 3, SPECIES_INDEX.SO2);
+    if (this.particleIntegrator) this.emitted.push(i3 / 3);
+  }
+
+  // Place a particle near a source moving radially away from Jupiter
+  private emit(
+    origin: Vec3,
+    spread: number,
+    speed: number,
+    species: SpeciesKey,
+    source: number
+  ) {
+    const { positions, velocities } = this;
+
+    const particleIndex = this.nextParticle(source);
+
+    const i3 = particleIndex * 3;
+    positions[i3] = origin[0] + (this.random() - 0.5) * spread;
+    positions[i3 + 1] = origin[1] + (this.random() - 0.5) * spread;
+    positions[i3 + 2] = origin[2] + (this.random() - 0.5) * spread;
+
+    const length = Math.hypot(
+      positions[i3],
+      positions[i3 + 1],
+      positions[i3 + 2]
+    );
+    velocities[i3] = (positions[i3] / length) * speed;
+    velocities[i3 + 1] = (positions[i3 + 1] / length) * speed;
+    velocities[i3 + 2] = (positions[i3 + 2] / length) * speed;
+
+    this.setSpecies(particleIndex, SPECIES_INDEX[species]);
+    if (this.particleIntegrator) this.emitted.push(particleIndex);
+  }
+
+  // Tag a particle with a species and color it accordingly
+  setSpecies(index: number, species: number) {
+    const [red, green, blue] = SPECIES[species].color;
+    const i3 = index * 3;
+    this.species[index] = species;
+    this.colors[i3] = red;
+    this.colors[i3 + 1] = green;
+    this.colors[i3 + 2] = blue;
+  }
+
+  // Apply at most one chemistry transition to a particle
+  private transition(index: number, frames: number) {
+    const transitions = TRANSITIONS_BY_SPECIES[this.species[index]];
+    let roll = this.random();
+    for (let t = 0; t < transitions.length; t++) {
+      const { kind, rate, to } = transitions[t];
+      const chance = rate * this.params[RATE_PARAMS[kind]] * frames;
+      if (roll < chance) {
+        this.setSpecies(index, to[Math.floor(this.random() * to.length)]);
+        return;
+      }
+      roll -= chance;
+    }
+  }
+
+  // Forces in per-frame units, evaluated against the current rotation
+  private createForceModel(): ForceModel {
+    return {
+      // Field pre-scaled by q/m so that the force v × B is per unit mass
+      field: (x, y, z, out) =>
+        getMagneticFieldVector(
+          x,
+          y,
+          z,
+          this.jupiterRotation,
+          this.params,
+          this.params.magneticFieldStrength * this.chargeToMass,
+          out
+        ),
+      acceleration: (x, y, z, vx, vy, vz, out) => {
+        const distance = Math.hypot(x, y, z);
+        const horizontal = Math.hypot(x, z);
+        out[0] = 0;
+        out[1] = 0;
+        out[2] = 0;
+
+        // Neutrals move ballistically; only ions are picked up by the field
+        if (this.chargeToMass === 0) return out;
+
+        const { params } = this;
+        if (params.torusModel === "transport") {
+          getMagneticFieldVector(
+            x,
+            y,
+            z,
+            this.jupiterRotation,
+            params,
+            params.magneticFieldStrength * this.chargeToMass,
+            this.flowField
+          );
+          return transportAcceleration(
+            x,
+            y,
+            z,
+            vx,
+            vy,
+            vz,
+            this.flowField,
+            params.jupiterRotationSpeed,
+            1 / (params.transportTime * REFERENCE_FRAME_RATE),
+            out
+          );
+        }
+
+        // Corotation with Jupiter's magnetic field (prograde, like the
+        // planet's spin)
+        if (horizontal > 0) {
+          const corotationSpeed =
+            this.params.jupiterRotationSpeed *
+            (1.0 - Math.exp(-distance / COROTATION_SCALE));
+          out[0] += (z / horizontal) * corotationSpeed;
+          out[2] += (-x / horizontal) * corotationSpeed;
+        }
+
+        // Radial containment towards the torus radius
+        if (distance > 0) {
+          const radialStrength =
+            -RADIAL_CONTAINMENT * (distance - this.params.torusRadius);
+          out[0] += (x / distance) * radialStrength;
+          out[1] += (y / distance) * radialStrength;
+          out[2] += (z / distance) * radialStrength;
+        }
+
+        // Vertical containment: damp vertical motion and pull towards the
+        // equator
+        out[1] += Math.log(VERTICAL_DAMPING) * vy - y * EQUATORIAL_CONTAINMENT;
+        return out;
+      },
+    };
+  }
+
+  private updateParticles(frames: number) {
+    const {
+      positions,
+      velocities,
+      species,
+      alive,
+      position,
+      velocity,
+      params,
+    } = this;
+    const integrate = INTEGRATOR_STEPS[params.integrator];
+
+    for (let i = 0; i < this.activeParticles; i++) {
+      if (!alive[i]) continue;
+      const i3 = i * 3;
+      const px = positions[i3];
+      const py = positions[i3 + 1];
+      const pz = positions[i3 + 2];
+
+      if (isNaN(px) || isNaN(py) || isNaN(pz)) {
+        this.lose(i, LOSS_INDEX.numerical);
+        continue;
+      }
+
+      // Losses across the boundaries, and ions at the end of their stay.
+      // The magnetopause, when on, stands in for the outer boundary for ions
+      const charged = CHARGE_TO_MASS[species[i]] > 0;
+      const bounded = charged && this.magnetopauseStandoff > 0;
+      const distance = Math.hypot(px, py, pz);
+      if (
+        bounded &&
+        outsideMagnetopause(px, py, pz, this.magnetopauseStandoff)
+      ) {
+        this.lose(i, LOSS_INDEX.magnetopause);
+        continue;
+      }
+      if (!bounded && distance > params.maxDistance) {
+        this.lose(i, charged ? LOSS_INDEX.transport : LOSS_INDEX.escape);
+        continue;
+      }
+      if (distance < params.minDistance) {
+        this.lose(i, LOSS_INDEX.precipitation);
+        continue;
+      }
+      if (
+        charged &&
+        params.torusModel === "artistic" &&
+        this.time - this.birthTimes[i] > this.lifetimes[i]
+      ) {
+        this.lose(i, LOSS_INDEX.transport);
+        continue;
+      }
+
+      position[0] = px;
+      position[1] = py;
+      position[2] = pz;
+      velocity[0] = velocities[i3];
+      velocity[1] = velocities[i3 + 1];
+      velocity[2] = velocities[i3 + 2];
+
+      this.transition(i, frames);
+      const { charge } = SPECIES[species[i]];
+      if (
+        this.random() <
+        recombinationChance(charge) * params.recombinationRate * frames
+      ) {
+        this.lose(i, LOSS_INDEX.recombination);
+        continue;
+      }
+      this.chargeToMass = CHARGE_TO_MASS[species[i]];
+      integrate(position, velocity, frames, this.forces);
+
+      // Limit maximum velocity, which only Euler needs to stay stable
+      const currentSpeed = Math.hypot(velocity[0], velocity[1], velocity[2]);
+      if (params.integrator === "euler" && currentSpeed > EULER_MAX_SPEED) {
+        const scale = EULER_MAX_SPEED / currentSpeed;
+        position[0] = px + (position[0] - px) * scale;
+        position[1] = py + (position[1] - py) * scale;
+        position[2] = pz + (position[2] - pz) * scale;
+        velocity[0] *= scale;
+        velocity[1] *= scale;
+        velocity[2] *= scale;
+      }
+
+      if (
+        isNaN(currentSpeed) ||
+        isNaN(position[0] + position[1] + position[2])
+      ) {
+        this.lose(i, LOSS_INDEX.numerical);
+        continue;
+      }
+
+      positions[i3] = position[0];
+      positions[i3 + 1] = position[1];
+      positions[i3 + 2] = position[2];
+      velocities[i3] = velocity[0];
+      velocities[i3 + 1] = velocity[1];
+      velocities[i3 + 2] = velocity[2];
+    }
+  }
+}
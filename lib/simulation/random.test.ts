@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createRandom, randomSeed } from "./random";
+
+const draw = (random: () => number, count: number) =>
+  Array.from({ length: count }, () => random());
+
+describe("createRandom", () => {
+  test("the same seed gives the same sequence", () => {
+    assert.deepEqual(draw(createRandom(7), 100), draw(createRandom(7), 100));
+    assert.notDeepEqual(draw(createRandom(7), 100), draw(createRandom(8), 100));
+  });
+
+  test("draws lie in [0, 1) and spread over it", () => {
+    const values = draw(createRandom(1), 10000);
+    assert.ok(values.every((value) => value >= 0 && value < 1));
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    assert.ok(Math.abs(mean - 0.5) < 0.01, `mean ${mean}`);
+  });
+
+  test("restoring the state resumes the sequence", () => {
+    const random = createRandom(123);
+    draw(random, 10);
+    const resumed = createRandom(0);
+    resumed.state = random.state;
+    assert.deepEqual(draw(resumed, 50), draw(random, 50));
+  });
+
+  test("seeds are 32-bit unsigned integers", () => {
+    for (let i = 0; i < 100; i++) {
+      const seed = randomSeed();
+      assert.ok(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32);
+    }
+    assert.equal(createRandom(-1).state, 2 ** 32 - 1);
+  });
+});
@@ -0,0 +1,25 @@
+// Callable PRNG; `state` may be saved and restored to resume the sequence
+export interface Random {
+  (): number;
+  state: number;
+}
+
+/**
+ * Seeded PRNG (mulberry32) returning floats in [0, 1). Small and fast, with
+ * a full 2³² period, which is plenty for the simulation's stochastic
+ * decisions and makes runs reproducible from a single integer seed.
+ */
+export const createRandom = (seed: number): Random => {
+  const random = (() => {
+    random.state = (random.state + 0x6d2b79f5) >>> 0;
+    let t = random.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as Random;
+  random.state = seed >>> 0;
+  return random;
+};
+
+// Fresh seed for a run that was not given one
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { Vec3 } from "./magnetic-field";
+import { DEFAULT_PARAMS } from "./params";
+import {
+  centrifugalTilt,
+  createFramePose,
+  FrameSource,
+  framePose,
+  ReferenceFrameName,
+  toFrame,
+} from "./reference-frames";
+
+const close = (actual: Vec3, expected: number[], tolerance = 1e-9) =>
+  assert.ok(
+    actual.every((value, axis) => Math.abs(value - expected[axis]) < tolerance),
+    `${actual} is not ${expected}`
+  );
+
+const source = (
+  jupiterRotation: number,
+  params = DEFAULT_PARAMS
+): FrameSource => ({
+  jupiterRotation,
+  ioPosition: [6, 0, -8],
+  params,
+});
+
+// Frame coordinates of a scene point
+const inFrame = (name: ReferenceFrameName, from: FrameSource, point: Vec3) =>
+  toFrame(
+    framePose(name, from, createFramePose()),
+    point[0],
+    point[1],
+    point[2],
+    [0, 0, 0]
+  );
+
+describe("reference frames", () => {
+  test("the inertial frame is the scene's own", () => {
+    close(inFrame("inertial", source(1.2), [3, -4, 5]), [3, -4, 5]);
+  });
+
+  test("a point turning with Jupiter holds still in System III", () => {
+    const point: Vec3 = [10, 1, 2];
+    const expected = inFrame("system3", source(0), point);
+    for (const rotation of [0.5, 2, -3]) {
+      // Turned about +y as three.js turns Jupiter's mesh
+      const turned: Vec3 = [
+        point[0] * Math.cos(rotation) + point[2] * Math.sin(rotation),
+        point[1],
+        -point[0] * Math.sin(rotation) + point[2] * Math.cos(rotation),
+      ];
+      close(inFrame("system3", source(rotation), turned), expected);
+    }
+  });
+
+  test("the Io frame sits on Io with Jupiter along -x", () => {
+    const from = source(0);
+    close(inFrame("io", from, from.ioPosition), [0, 0, 0]);
+    close(inFrame("io", from, [0, 0, 0]), [-10, 0, 0]);
+  });
+
+  test("frames only turn and shift, keeping distances", () => {
+    const from = source(0.7);
+    for (const name of ["system3", "centrifugal"] as const) {
+      const [x, y, z] = inFrame(name, from, [3, -4, 12]);
+      assert.ok(Math.abs(Math.hypot(x, y, z) - 13) < 1e-9);
+    }
+  });
+
+  test("the centrifugal equator tilts two thirds as far as the dipole", () => {
+    const params = { ...DEFAULT_PARAMS, fieldModel: "dipole" as const };
+    const alpha = params.magneticTilt;
+    const lambda = centrifugalTilt(params);
+    assert.ok(Math.abs(Math.tan(lambda) - (2 / 3) * Math.tan(alpha)) < 1e-12);
+    assert.equal(centrifugalTilt({ ...params, magneticTilt: 0 }), 0);
+
+    // The centrifugal pole, between the spin and dipole axes, is the
+    // frame's +y
+    const pole: Vec3 = [0, Math.cos(lambda), Math.sin(lambda)];
+    close(inFrame("centrifugal", source(0, params), pole), [0, 1, 0]);
+  });
+});
@@ -0,0 +1,164 @@
+import { dipoleAxis, FieldModelParams, Vec3 } from "./magnetic-field";
+
+export type ReferenceFrameName = "inertial" | "system3" | "centrifugal" | "io";
+
+export const REFERENCE_FRAMES: { name: ReferenceFrameName; label: string }[] = [
+  { name: "inertial", label: "Inertial" },
+  { name: "system3", label: "System III" },
+  { name: "centrifugal", label: "Centrifugal equator" },
+  { name: "io", label: "Io-centred" },
+];
+
+export type Quaternion = [number, number, number, number]; // x, y, z, w
+
+/**
+ * Where a frame sits in the inertial scene: its origin, the rotation taking
+ * frame axes to scene axes, and the yaw about +y within that rotation. A
+ * scene point p has frame coordinates R⁻¹(p − origin).
+ */
+export interface FramePose {
+  origin: Vec3;
+  rotation: Quaternion;
+  yaw: number;
+}
+
+export interface FrameSource {
+  jupiterRotation: number;
+  ioPosition: Vec3;
+  params: FieldModelParams;
+}
+
+export const createFramePose = (): FramePose => ({
+  origin: [0, 0, 0],
+  rotation: [0, 0, 0, 1],
+  yaw: 0,
+});
+
+// Rotation by `angle` about the unit vector (x, y, z)
+const axisAngle = (
+  x: number,
+  y: number,
+  z: number,
+  angle: number,
+  out: Quaternion
+) => {
+  const sin = Math.sin(angle / 2);
+  out[0] = x * sin;
+  out[1] = y * sin;
+  out[2] = z * sin;
+  out[3] = Math.cos(angle / 2);
+  return out;
+};
+
+// a × b, the rotation b followed by a, written into `out`
+const multiply = (a: Quaternion, b: Quaternion, out: Quaternion) => {
+  const [ax, ay, az, aw] = a;
+  const [bx, by, bz, bw] = b;
+  out[0] = aw * bx + ax * bw + ay * bz - az * by;
+  out[1] = aw * by - ax * bz + ay * bw + az * bx;
+  out[2] = aw * bz + ax * by - ay * bx + az * bw;
+  out[3] = aw * bw - ax * bx - ay * by - az * bz;
+  return out;
+};
+
+const tilt: Quaternion = [0, 0, 0, 1];
+const spin: Quaternion = [0, 0, 0, 1];
+const axis: Vec3 = [0, 0, 0];
+
+/**
+ * Latitude of the centrifugal equator's pole from the spin axis, towards the
+ * dipole axis. Far from the planet, plasma collects where the field line
+ * is furthest from the spin axis, tan λ = (2/3) tan α for a dipole tilted
+ * by α (Hill et al. 1974).
+ */
+export const centrifugalTilt = (params: FieldModelParams) => {
+  const [x, y, z] = dipoleAxis(params, axis);
+  const alpha = Math.atan2(Math.hypot(x, z), Math.abs(y));
+  return Math.atan((2 / 3) * Math.tan(alpha));
+};
+
+// The System III frame, turning with Jupiter
+export const systemIIIPose = (jupiterRotation: number, out: FramePose) => {
+  out.origin[0] = out.origin[1] = out.origin[2] = 0;
+  out.yaw = jupiterRotation;
+  axisAngle(0, 1, 0, jupiterRotation, out.rotation);
+  return out;
+};
+
+/**
+ * The pose of a reference frame at the simulation's current state, written
+ * into `out`. System III turns with Jupiter; the centrifugal frame also
+ * tips its equator onto the centrifugal equator; the Io-centred frame sits
+ * on Io and turns with its orbit, so Jupiter stays along -x.
+ */
+export const framePose = (
+  name: ReferenceFrameName,
+  { jupiterRotation, ioPosition, params }: FrameSource,
+  out: FramePose
+): FramePose => {
+  out.origin[0] = out.origin[1] = out.origin[2] = 0;
+  out.yaw = 0;
+  switch (name) {
+    case "inertial":
+      break;
+    case "system3":
+      return systemIIIPose(jupiterRotation, out);
+    case "centrifugal": {
+      // Tip +y towards the dipole axis in the body frame, about the
+      // horizontal axis perpendicular to it
+      const [x, y, z] = dipoleAxis(params, axis);
+      const sign = y < 0 ? -1 : 1;
+      const horizontal = Math.hypot(x, z);
+      if (horizontal > 0) {
+        axisAngle(
+          (sign * z) / horizontal,
+          0,
+          (-sign * x) / horizontal,
+          centrifugalTilt(params),
+          tilt
+        );
+      } else {
+        axisAngle(0, 1, 0, 0, tilt);
+      }
+      out.yaw = jupiterRotation;
+      axisAngle(0, 1, 0, jupiterRotation, spin);
+      multiply(spin, tilt, out.rotation);
+      return out;
+    }
+    case "io": {
+      const [x, y, z] = ioPosition;
+      out.origin[0] = x;
+      out.origin[1] = y;
+      out.origin[2] = z;
+      out.yaw = Math.atan2(-z, x); // Prograde runs from +x towards -z
+      break;
+    }
+  }
+  axisAngle(0, 1, 0, out.yaw, out.rotation);
+  return out;
+};
+
+// Frame coordinates of the scene point (x, y, z), written into `out`
+export const toFrame = (
+  { origin, rotation }: FramePose,
+  x: number,
+  y: number,
+  z: number,
+  out: Vec3
+): Vec3 => {
+  const vx = x - origin[0];
+  const vy = y - origin[1];
+  const vz = z - origin[2];
+  // Rotate by the conjugate: v + w t + q × t with t = 2 q × v, q negated
+  const qx = -rotation[0];
+  const qy = -rotation[1];
+  const qz = -rotation[2];
+  const qw = rotation[3];
+  const tx = 2 * (qy * vz - qz * vy);
+  const ty = 2 * (qz * vx - qx * vz);
+  const tz = 2 * (qx * vy - qy * vx);
+  out[0] = vx + qw * tx + (qy * tz - qz * ty);
+  out[1] = vy + qw * ty + (qz * tx - qx * tz);
+  out[2] = vz + qw * tz + (qx * ty - qy * tx);
+  return out;
+};
@@ -0,0 +1,305 @@
+import { JupiterEphemeris, jupiterEphemeris } from "./ephemeris";
+import { EruptionScenario } from "./eruption-scenarios";
+import { LOSS_CHANNELS } from "./lifecycle";
+import { Vec3 } from "./magnetic-field";
+import { SolarWindSeries } from "./magnetosphere";
+import { MOON_ORBITS, MoonName } from "./moons";
+import { SimulationParams } from "./params";
+import {
+  EphemerisClock,
+  EruptionState,
+  PlasmaTorusSimulation,
+  SimulationState,
+} from "./plasma-torus-simulation";
+import { SPECIES } from "./species";
+import { IO_VOLCANOES } from "./volcanoes";
+import {
+  STATE_ACTIVE_PARTICLES,
+  STATE_EPHEMERIS_DAYS,
+  STATE_JUPITER_ROTATION,
+  STATE_LIVE_PARTICLES,
+  STATE_LOSSES,
+  STATE_MOON_POSITIONS,
+  STATE_TIME,
+  STATE_VOLCANOES,
+  WorkerRequest,
+  WorkerResponse,
+} from "./worker-protocol";
+
+/**
+ * What a renderer reads and drives, whether the run lives on its own thread
+ * (PlasmaTorusSimulation) or in the worker (SimulationWorkerClient).
+ */
+export type SimulationSource = Pick<
+  PlasmaTorusSimulation,
+  | "params"
+  | "seed"
+  | "time"
+  | "positions"
+  | "velocities"
+  | "colors"
+  | "species"
+  | "alive"
+  | "birthTimes"
+  | "lifetimes"
+  | "generations"
+  | "sources"
+  | "pinned"
+  | "maxParticles"
+  | "activeParticles"
+  | "liveParticles"
+  | "losses"
+  | "jupiterRotation"
+  | "ephemerisDays"
+  | "moonPositions"
+  | "ioPosition"
+  | "volcanoes"
+  | "ephemerisClock"
+  | "ephemeris"
+  | "eruptionScenario"
+  | "solarWind"
+  | "setParams"
+  | "setEphemerisClock"
+  | "setEruptionScenario"
+  | "setSolarWind"
+  | "reset"
+  | "setPinned"
+  | "step"
+  | "speciesCounts"
+>;
+
+/**
+ * Main-thread handle on a PlasmaTorusSimulation running in a Web Worker.
+ *
+ * Commands are posted to the worker as WorkerRequest messages and return at
+ * once; the worker runs its own real-time loop while started. Particles and
+ * scalar state arrive through SharedArrayBuffers, so rendering never waits
+ * on the physics: `update` pulls the latest scalars once per frame, and the
+ * particle arrays are live views the worker writes into (a frame may show a
+ * step that is still in progress). Parameters, seed, clock, eruption
+ * scenario and solar wind are mirrored locally as they are sent, so reads
+ * reflect them immediately.
+ */
+export class SimulationWorkerClient implements SimulationSource {
+  readonly params: SimulationParams;
+  seed: number;
+  time = 0;
+  positions: Float32Array = new Float32Array(0);
+  velocities: Float32Array = new Float32Array(0);
+  colors: Float32Array = new Float32Array(0);
+  species: Uint8Array = new Uint8Array(0);
+  alive: Uint8Array = new Uint8Array(0);
+  birthTimes: Float64Array = new Float64Array(0);
+  lifetimes: Float32Array = new Float32Array(0);
+  generations: Uint32Array = new Uint32Array(0);
+  sources: Uint16Array = new Uint16Array(0);
+  pinned: Uint8Array = new Uint8Array(0);
+  activeParticles = 0;
+  liveParticles = 0;
+  readonly losses = LOSS_CHANNELS.map(() => 0);
+  jupiterRotation = 0;
+  ephemerisDays = 0;
+  readonly moonPositions = Object.fromEntries(
+    MOON_ORBITS.map(({ name }) => [name, [0, 0, 0]])
+  ) as Record<MoonName, Vec3>;
+  readonly ioPosition = this.moonPositions.io;
+  readonly volcanoes: EruptionState[] = IO_VOLCANOES.map(() => ({
+    isActive: false,
+    countdown: 0,
+    cooldown: 0,
+    eruptions: 0,
+  }));
+  ephemerisClock: EphemerisClock | null;
+  ephemeris: JupiterEphemeris | null = null;
+  eruptionScenario: EruptionScenario | null;
+  solarWind: SolarWindSeries | null;
+
+  private readonly worker: Worker;
+  private state: Float64Array = new Float64Array(0);
+  private speed: number | null = null; // While started
+  private readonly snapshots: {
+    resolve: (state: SimulationState) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  // Shared memory needs a cross-origin isolated page
+  static isSupported() {
+    return (
+      typeof Worker !== "undefined" &&
+      typeof SharedArrayBuffer !== "undefined" &&
+      typeof crossOriginIsolated !== "undefined" &&
+      crossOriginIsolated
+    );
+  }
+
+  // Start a worker that continues from `initial`, paused
+  constructor(initial: SimulationState) {
+    this.params = { ...initial.params };
+    this.seed = initial.seed;
+    this.ephemerisClock = initial.ephemerisClock;
+    this.eruptionScenario = initial.eruptionScenario;
+    this.solarWind = initial.solarWind;
+    this.worker = new Worker(
+      new URL("./simulation.worker.ts", import.meta.url)
+    );
+    this.worker.addEventListener("message", this.receive);
+    this.worker.addEventListener("error", this.fail);
+    this.load(initial);
+  }
+
+  get maxParticles() {
+    return this.params.maxParticles;
+  }
+
+  // Replace the worker's run, e.g. with one handed over from the GPU path
+  load(state: SimulationState) {
+    Object.assign(this.params, state.params);
+    this.seed = state.seed;
+    this.ephemerisClock = state.ephemerisClock;
+    this.ephemeris = null;
+    this.eruptionScenario = state.eruptionScenario;
+    this.solarWind = state.solarWind;
+    this.send({ type: "load", state });
+  }
+
+  // Run in real time at `speed` times normal; repeated calls are cheap
+  start(speed: number) {
+    if (this.speed === speed) return;
+    this.speed = speed;
+    this.send({ type: "start", speed });
+  }
+
+  pause() {
+    if (this.speed === null) return;
+    this.speed = null;
+    this.send({ type: "pause" });
+  }
+
+  step() {
+    this.send({ type: "step" });
+  }
+
+  setParams(params: Partial<SimulationParams>) {
+    Object.assign(this.params, params);
+    this.send({ type: "setParams", params });
+  }
+
+  setEphemerisClock(clock: EphemerisClock | null) {
+    this.ephemerisClock = clock;
+    this.ephemeris = null;
+    this.send({ type: "setEphemerisClock", clock });
+  }
+
+  setEruptionScenario(scenario: EruptionScenario | null) {
+    this.eruptionScenario = scenario;
+    this.send({ type: "setEruptionScenario", scenario });
+  }
+
+  setSolarWind(series: SolarWindSeries | null) {
+    this.solarWind = series;
+    this.send({ type: "setSolarWind", series });
+  }
+
+  reset(seed = this.seed) {
+    this.seed = seed;
+    this.send({ type: "reset", seed });
+  }
+
+  setPinned(index: number, pinned: boolean) {
+    this.send({ type: "pin", index, pinned });
+  }
+
+  // The worker's full state, after every command sent so far. Rejects if
+  // the worker fails or is disposed first
+  snapshot() {
+    return new Promise<SimulationState>((resolve, reject) => {
+      this.snapshots.push({ resolve, reject });
+      this.send({ type: "snapshot" });
+    });
+  }
+
+  // Pull the scalar state the worker last published
+  update() {
+    const { state } = this;
+    if (state.length === 0) return;
+    this.time = state[STATE_TIME];
+    this.jupiterRotation = state[STATE_JUPITER_ROTATION];
+    this.ephemerisDays = state[STATE_EPHEMERIS_DAYS];
+    this.activeParticles = state[STATE_ACTIVE_PARTICLES];
+    this.liveParticles = state[STATE_LIVE_PARTICLES];
+    this.losses.forEach((_, i) => (this.losses[i] = state[STATE_LOSSES + i]));
+    MOON_ORBITS.forEach(({ name }, i) => {
+      const position = this.moonPositions[name];
+      const offset = STATE_MOON_POSITIONS + i * 3;
+      position[0] = state[offset];
+      position[1] = state[offset + 1];
+      position[2] = state[offset + 2];
+    });
+    this.volcanoes.forEach((volcano, i) => {
+      const offset = STATE_VOLCANOES + i * 4;
+      volcano.isActive = state[offset] === 1;
+      volcano.countdown = state[offset + 1];
+      volcano.cooldown = state[offset + 2];
+      volcano.eruptions = state[offset + 3];
+    });
+    if (this.ephemerisClock) {
+      this.ephemeris = jupiterEphemeris(
+        this.ephemerisClock.epoch + this.ephemerisDays,
+        this.ephemeris ?? undefined
+      );
+    }
+  }
+
+  // Number of live particles of each species, indexed like SPECIES
+  speciesCounts() {
+    const counts = SPECIES.map(() => 0);
+    for (let i = 0; i < this.species.length; i++) {
+      if (this.alive[i]) counts[this.species[i]]++;
+    }
+    return counts;
+  }
+
+  dispose() {
+    this.worker.removeEventListener("message", this.receive);
+    this.worker.removeEventListener("error", this.fail);
+    this.worker.terminate();
+    this.rejectSnapshots(new Error("The simulation worker was stopped"));
+  }
+
+  private send(request: WorkerRequest) {
+    this.worker.postMessage(request);
+  }
+
+  private receive = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    switch (response.type) {
+      case "buffers":
+        this.positions = response.positions;
+        this.velocities = response.velocities;
+        this.colors = response.colors;
+        this.species = response.species;
+        this.alive = response.alive;
+        this.birthTimes = response.birthTimes;
+        this.lifetimes = response.lifetimes;
+        this.generations = response.generations;
+        this.sources = response.sources;
+        this.pinned = response.pinned;
+        this.state = response.state;
+        this.update();
+        break;
+      case "snapshot":
+        this.snapshots.shift()?.resolve(response.state);
+        break;
+    }
+  };
+
+  private fail = (event: ErrorEvent) => {
+    this.rejectSnapshots(
+      new Error(event.message || "The simulation worker failed")
+    );
+  };
+
+  private rejectSnapshots(error: Error) {
+    this.snapshots.splice(0).forEach(({ reject }) => reject(error));
+  }
+}
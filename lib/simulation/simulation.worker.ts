@@ -0,0 +1,134 @@
+import { FIXED_TIMESTEP } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import { MOON_ORBITS } from "./moons";
+import {
+  STATE_ACTIVE_PARTICLES,
+  STATE_EPHEMERIS_DAYS,
+  STATE_JUPITER_ROTATION,
+  STATE_LENGTH,
+  STATE_LIVE_PARTICLES,
+  STATE_LOSSES,
+  STATE_MOON_POSITIONS,
+  STATE_TIME,
+  STATE_VOLCANOES,
+  WorkerRequest,
+  WorkerResponse,
+} from "./worker-protocol";
+
+// Steps the CPU simulation off the main thread, writing particles and
+// scalar state straight into shared memory for the page to render
+
+const allocateShared = (byteLength: number) =>
+  new SharedArrayBuffer(byteLength);
+
+const simulation = new PlasmaTorusSimulation({}, 0, allocateShared);
+const state = new Float64Array(
+  allocateShared(STATE_LENGTH * Float64Array.BYTES_PER_ELEMENT)
+);
+
+let sharedPositions: Float32Array | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+let speed = 1;
+let lastTick = 0;
+
+const post = (response: WorkerResponse) => postMessage(response);
+
+// Share the particle arrays again if they were reallocated
+const shareBuffers = () => {
+  if (sharedPositions === simulation.positions) return;
+  sharedPositions = simulation.positions;
+  post({
+    type: "buffers",
+    positions: simulation.positions,
+    velocities: simulation.velocities,
+    colors: simulation.colors,
+    species: simulation.species,
+    alive: simulation.alive,
+    birthTimes: simulation.birthTimes,
+    lifetimes: simulation.lifetimes,
+    generations: simulation.generations,
+    sources: simulation.sources,
+    pinned: simulation.pinned,
+    state,
+  });
+};
+
+const publish = () => {
+  state[STATE_TIME] = simulation.time;
+  state[STATE_JUPITER_ROTATION] = simulation.jupiterRotation;
+  state[STATE_EPHEMERIS_DAYS] = simulation.ephemerisDays;
+  state[STATE_ACTIVE_PARTICLES] = simulation.activeParticles;
+  state[STATE_LIVE_PARTICLES] = simulation.liveParticles;
+  state.set(simulation.losses, STATE_LOSSES);
+  MOON_ORBITS.forEach(({ name }, i) =>
+    state.set(simulation.moonPositions[name], STATE_MOON_POSITIONS + i * 3)
+  );
+  simulation.volcanoes.forEach(
+    ({ isActive, countdown, cooldown, eruptions }, i) => {
+      const offset = STATE_VOLCANOES + i * 4;
+      state[offset] = isActive ? 1 : 0;
+      state[offset + 1] = countdown;
+      state[offset + 2] = cooldown;
+      state[offset + 3] = eruptions;
+    }
+  );
+};
+
+// Real-time loop, paced to the fixed step
+const tick = () => {
+  const now = performance.now();
+  simulation.advance(((now - lastTick) / 1000) * speed);
+  lastTick = now;
+  publish();
+  timer = setTimeout(tick, FIXED_TIMESTEP * 1000);
+};
+
+const pause = () => {
+  clearTimeout(timer);
+  timer = undefined;
+};
+
+addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "load":
+      simulation.restore(request.state);
+      break;
+    case "start":
+      speed = request.speed;
+      if (timer === undefined) {
+        lastTick = performance.now();
+        timer = setTimeout(tick, 0);
+      }
+      break;
+    case "pause":
+      pause();
+      break;
+    case "step":
+      simulation.step();
+      break;
+    case "setParams":
+      simulation.setParams(request.params);
+      break;
+    case "setEphemerisClock":
+      simulation.setEphemerisClock(request.clock);
+      break;
+    case "setEruptionScenario":
+      simulation.setEruptionScenario(request.scenario);
+      break;
+    case "setSolarWind":
+      simulation.setSolarWind(request.series);
+      break;
+    case "reset":
+      simulation.reset(request.seed);
+      break;
+    case "pin":
+      simulation.setPinned(request.index, request.pinned);
+      break;
+    case "snapshot":
+      post({ type: "snapshot", state: simulation.snapshot() });
+      break;
+  }
+  shareBuffers();
+  publish();
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { FIXED_TIMESTEP } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import {
+  CHARGE_TO_MASS,
+  SPECIES,
+  SPECIES_INDEX,
+  SpeciesKey,
+  TRANSITIONS,
+  TRANSITIONS_BY_SPECIES,
+} from "./species";
+
+const element = (key: SpeciesKey) => key.replace(/[^A-Z]/g, "");
+const charge = (key: SpeciesKey) => SPECIES[SPECIES_INDEX[key]].charge;
+const ratio = (key: SpeciesKey) => CHARGE_TO_MASS[SPECIES_INDEX[key]];
+
+// No chemistry at all, so every particle keeps the species it was born as
+const INERT = {
+  dissociationRate: 0,
+  ionizationRate: 0,
+  chargeExchangeRate: 0,
+  recombinationRate: 0,
+};
+
+describe("species", () => {
+  test("charge-to-mass is relative to S²⁺ and O⁺, and zero for neutrals", () => {
+    assert.equal(ratio("S++"), 1);
+    assert.equal(ratio("O+"), 1);
+    assert.equal(ratio("S+"), 0.5);
+    assert.equal(ratio("S+++"), 1.5);
+    assert.equal(ratio("O++"), 2);
+    (["SO2", "S", "O"] as const).forEach((key) => assert.equal(ratio(key), 0));
+  });
+
+  test("transitions keep the element and step the charge by one", () => {
+    TRANSITIONS.forEach(({ from, to, kind }) => {
+      if (kind === "dissociation") {
+        assert.deepEqual(to.map(element).sort(), ["O", "O", "S"]);
+        return;
+      }
+      const [product] = to;
+      assert.equal(element(product), element(from));
+      assert.equal(
+        charge(product) - charge(from),
+        kind === "ionization" ? 1 : -1,
+        `${from} → ${product}`
+      );
+    });
+  });
+
+  test("transitions are indexed by species tag", () => {
+    assert.equal(TRANSITIONS_BY_SPECIES.length, SPECIES.length);
+    const fromSO2 = TRANSITIONS_BY_SPECIES[SPECIES_INDEX.SO2];
+    assert.deepEqual(fromSO2[0].to, [
+      SPECIES_INDEX.S,
+      SPECIES_INDEX.O,
+      SPECIES_INDEX.O,
+    ]);
+    assert.equal(TRANSITIONS_BY_SPECIES[SPECIES_INDEX["S+++"]].length, 1);
+  });
+
+  test("chemistry turns the emitted gas into every species", () => {
+    const simulation = new PlasmaTorusSimulation({}, 11);
+    for (let i = 0; i < 1500; i++) simulation.step(FIXED_TIMESTEP);
+    const present = new Set<number>();
+    for (let i = 0; i < simulation.activeParticles; i++) {
+      if (simulation.alive[i]) present.add(simulation.species[i]);
+    }
+    assert.equal(present.size, SPECIES.length);
+  });
+
+  test("without chemistry, particles keep their species", () => {
+    const simulation = new PlasmaTorusSimulation(INERT, 11);
+    for (let i = 0; i < 300; i++) simulation.step(FIXED_TIMESTEP);
+    const species = simulation.species.slice();
+    const generations = simulation.generations.slice();
+    for (let i = 0; i < 300; i++) simulation.step(FIXED_TIMESTEP);
+    for (let i = 0; i < simulation.activeParticles; i++) {
+      if (simulation.alive[i] && simulation.generations[i] === generations[i]) {
+        assert.equal(simulation.species[i], species[i]);
+      }
+    }
+  });
+
+  test("neutrals coast, unaffected by the field and corotation", () => {
+    const simulation = new PlasmaTorusSimulation(INERT, 11);
+    for (let i = 0; i < 300; i++) simulation.step(FIXED_TIMESTEP);
+    const neutrals: number[] = [];
+    for (let i = 0; i < simulation.activeParticles; i++) {
+      if (simulation.alive[i] && CHARGE_TO_MASS[simulation.species[i]] === 0) {
+        neutrals.push(i);
+      }
+    }
+    assert.ok(neutrals.length > 0);
+    const positions = simulation.positions.slice();
+    const velocities = simulation.velocities.slice();
+    simulation.step(FIXED_TIMESTEP);
+    neutrals
+      .filter((i) => simulation.alive[i])
+      .forEach((i) => {
+        for (let axis = i * 3; axis < i * 3 + 3; axis++) {
+          assert.equal(simulation.velocities[axis], velocities[axis]);
+          const moved = positions[axis] + velocities[axis];
+          assert.ok(Math.abs(simulation.positions[axis] - moved) < 1e-5);
+        }
+      });
+  });
+});
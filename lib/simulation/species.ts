@@ -0,0 +1,98 @@
+import { Vec3 } from "./magnetic-field";
+import { SimulationParams } from "./params";
+
+export type SpeciesKey =
+  "SO2" | "S" | "O" | "S+" | "S++" | "S+++" | "O+" | "O++";
+
+export interface Species {
+  key: SpeciesKey;
+  label: string;
+  charge: number; // Elementary charges
+  mass: number; // Atomic mass units
+  color: Vec3;
+}
+
+/**
+ * Neutrals and ions of the Io torus. The position in this list is the tag
+ * stored per particle in `PlasmaTorusSimulation.species`.
+ */
+export const SPECIES: Species[] = [
+  { key: "SO2", label: "SO₂", charge: 0, mass: 64, color: [1.0, 0.85, 0.3] },
+  { key: "S", label: "S", charge: 0, mass: 32, color: [1.0, 0.55, 0.15] },
+  { key: "O", label: "O", charge: 0, mass: 16, color: [1.0, 0.3, 0.3] },
+  { key: "S+", label: "S⁺", charge: 1, mass: 32, color: [0.3, 1.0, 0.4] },
+  { key: "S++", label: "S²⁺", charge: 2, mass: 32, color: [0.2, 0.7, 1.0] },
+  { key: "S+++", label: "S³⁺", charge: 3, mass: 32, color: [0.5, 0.4, 1.0] },
+  { key: "O+", label: "O⁺", charge: 1, mass: 16, color: [1.0, 0.4, 0.9] },
+  { key: "O++", label: "O²⁺", charge: 2, mass: 16, color: [0.9, 0.9, 1.0] },
+];
+
+export const SPECIES_INDEX = Object.fromEntries(
+  SPECIES.map((species, index) => [species.key, index])
+) as Record<SpeciesKey, number>;
+
+// q/m at which the magnetic force equals the original species-blind model
+// (S²⁺ and O⁺, the dominant torus ions, both have q/m = 1/16)
+const REFERENCE_CHARGE_TO_MASS = 1 / 16;
+
+/**
+ * Charge-to-mass ratio of each species relative to the reference ion; zero
+ * for neutrals, which feel neither the magnetic nor the corotation force.
+ */
+export const CHARGE_TO_MASS = SPECIES.map(
+  ({ charge, mass }) => charge / mass / REFERENCE_CHARGE_TO_MASS
+);
+
+export type TransitionKind = "dissociation" | "ionization" | "chargeExchange";
+
+export interface Transition {
+  from: SpeciesKey;
+  to: SpeciesKey[]; // Equally likely products
+  kind: TransitionKind;
+  rate: number; // Probability per frame before the kind's multiplier
+}
+
+/**
+ * Chemistry network: SO₂ dissociates, neutrals are ionized by electron
+ * impact, ions are ionized to higher charge states, and charge exchange with
+ * the neutral cloud lowers charge states (producing fast neutrals from
+ * singly charged ions).
+ */
+export const TRANSITIONS: Transition[] = [
+  { from: "SO2", to: ["S", "O", "O"], kind: "dissociation", rate: 0.01 },
+  { from: "S", to: ["S+"], kind: "ionization", rate: 0.005 },
+  { from: "O", to: ["O+"], kind: "ionization", rate: 0.004 },
+  { from: "S+", to: ["S++"], kind: "ionization", rate: 0.002 },
+  { from: "S++", to: ["S+++"], kind: "ionization", rate: 0.0005 },
+  { from: "O+", to: ["O++"], kind: "ionization", rate: 0.0005 },
+  { from: "S++", to: ["S+"], kind: "chargeExchange", rate: 0.001 },
+  { from: "S+++", to: ["S++"], kind: "chargeExchange", rate: 0.001 },
+  { from: "O++", to: ["O+"], kind: "chargeExchange", rate: 0.001 },
+  { from: "S+", to: ["S"], kind: "chargeExchange", rate: 0.0003 },
+  { from: "O+", to: ["O"], kind: "chargeExchange", rate: 0.0003 },
+];
+
+/**
+ * Outgoing transitions of each species, indexed by species tag, with
+ * products as tags.
+ */
+export const TRANSITIONS_BY_SPECIES = SPECIES.map(({ key }) =>
+  TRANSITIONS.filter(({ from }) => from === key).map((transition) => ({
+    kind: transition.kind,
+    rate: transition.rate,
+    to: transition.to.map((product) => SPECIES_INDEX[product]),
+  }))
+);
+
+// Parameter that scales each kind of transition
+export const RATE_PARAMS: Record<
+  TransitionKind,
+  keyof Pick<
+    SimulationParams,
+    "dissociationRate" | "ionizationRate" | "chargeExchangeRate"
+  >
+> = {
+  dissociation: "dissociationRate",
+  ionization: "ionizationRate",
+  chargeExchange: "chargeExchangeRate",
+};
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { Vec3 } from "./magnetic-field";
+import {
+  parseSphericalHarmonicModel,
+  sphericalHarmonicField,
+} from "./spherical-harmonics";
+
+const close = (actual: number, expected: number, message?: string) =>
+  assert.ok(
+    Math.abs(actual - expected) < 1e-12,
+    message ?? `${actual} is not ${expected}`
+  );
+
+// A degree-1 model, a dipole with the given Gauss coefficients
+const dipoleModel = (g10: number, g11: number, h11: number) =>
+  parseSphericalHarmonicModel({
+    name: "Dipole",
+    g: [[], [g10, g11]],
+    h: [[], [0, h11]],
+  });
+
+describe("spherical harmonics", () => {
+  test("an axial dipole gives B_r = 2g₁₀cos θ / r³ and B_θ = g₁₀sin θ / r³", () => {
+    const model = dipoleModel(3, 0, 0);
+    const out: Vec3 = [0, 0, 0];
+    for (const [r, colatitude] of [
+      [1, 0.3],
+      [2.5, 1.2],
+      [6, 2.9],
+    ]) {
+      sphericalHarmonicField(model, r, colatitude, 0.7, out);
+      close(out[0], (2 * 3 * Math.cos(colatitude)) / r ** 3);
+      close(out[1], (3 * Math.sin(colatitude)) / r ** 3);
+      close(out[2], 0);
+    }
+  });
+
+  test("an equatorial dipole points along its longitude", () => {
+    const model = dipoleModel(0, 2, -1);
+    const out: Vec3 = [0, 0, 0];
+    const r = 3;
+    const colatitude = 1;
+    const longitude = 2;
+    const term = 2 * Math.cos(longitude) - Math.sin(longitude);
+    sphericalHarmonicField(model, r, colatitude, longitude, out);
+    close(out[0], (2 * term * Math.sin(colatitude)) / r ** 3);
+    close(out[1], (-term * Math.cos(colatitude)) / r ** 3);
+    close(out[2], (2 * Math.sin(longitude) + Math.cos(longitude)) / r ** 3);
+  });
+
+  test("higher degrees fall off faster with distance", () => {
+    const model = parseSphericalHarmonicModel({
+      name: "Quadrupole",
+      g: [[], [0, 0], [1, 0, 0]],
+      h: [[], [0, 0], [0, 0, 0]],
+    });
+    const near: Vec3 = sphericalHarmonicField(model, 2, 0.4, 0, [0, 0, 0]);
+    const far: Vec3 = sphericalHarmonicField(model, 4, 0.4, 0, [0, 0, 0]);
+    close(near[0] / far[0], 2 ** 4);
+  });
+
+  test("the dipole moment comes from the degree-1 coefficients", () => {
+    assert.equal(dipoleModel(3, 0, 4).dipoleMoment, 5);
+    assert.equal(dipoleModel(3, 0, 4).degree, 1);
+  });
+
+  test("malformed coefficient files are rejected", () => {
+    [
+      null,
+      { g: [[], [1, 0]], h: [[], [0, 0]] },
+      { name: "Short", g: [[]], h: [[]] },
+      { name: "Ragged", g: [[], [1]], h: [[], [0, 0]] },
+      { name: "Mismatched", g: [[], [1, 0]], h: [[], [0, 0], [0, 0, 0]] },
+    ].forEach((json) =>
+      assert.throws(
+        () => parseSphericalHarmonicModel(json),
+        /Malformed spherical harmonic model/
+      )
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { Vec3 } from "./magnetic-field";
+
+/**
+ * Internal field model given as Schmidt semi-normalized Gauss coefficients
+ * g[n][m] and h[n][m] (right-handed System III, east longitude), in a JSON
+ * file such as field-models/jrm09.json.
+ */
+export interface SphericalHarmonicModel {
+  name: string;
+  reference?: string;
+  degree: number;
+  dipoleMoment: number; // √(g₁₀² + g₁₁² + h₁₁²), in the coefficients' units
+  g: Float64Array; // Coefficients times Schmidt factors, index n·(degree+1)+m
+  h: Float64Array;
+  legendre: Float64Array; // Scratch space for evaluation
+  legendreDerivative: Float64Array;
+}
+
+const isCoefficientTable = (table: unknown): table is number[][] =>
+  Array.isArray(table) &&
+  table.length >= 2 &&
+  table.every(
+    (row, n) =>
+      Array.isArray(row) &&
+      (n === 0 || row.length === n + 1) &&
+      row.every((value) => typeof value === "number")
+  );
+
+/**
+ * Validate a coefficient file and precompute what evaluation needs. Throws
+ * if the file is not of the expected shape.
+ */
+export const parseSphericalHarmonicModel = (
+  json: unknown
+): SphericalHarmonicModel => {
+  const { name, reference, g, h } = (json ?? {}) as Record<string, unknown>;
+  if (
+    typeof name !== "string" ||
+    !isCoefficientTable(g) ||
+    !isCoefficientTable(h) ||
+    g.length !== h.length
+  ) {
+    throw new Error("Malformed spherical harmonic model");
+  }
+
+  const degree = g.length - 1;
+  const size = degree + 1;
+  const scaledG = new Float64Array(size * size);
+  const scaledH = new Float64Array(size * size);
+
+  // Schmidt factors convert the Gauss-normalized functions computed below
+  let schmidt = 1;
+  for (let n = 1; n <= degree; n++) {
+    schmidt *= (2 * n - 1) / n;
+    let factor = schmidt;
+    for (let m = 0; m <= n; m++) {
+      if (m > 0) {
+        factor *= Math.sqrt(((n - m + 1) * (m === 1 ? 2 : 1)) / (n + m));
+      }
+      scaledG[n * size + m] = g[n][m] * factor;
+      scaledH[n * size + m] = h[n][m] * factor;
+    }
+  }
+
+  return {
+    name,
+    reference: typeof reference === "string" ? reference : undefined,
+    degree,
+    dipoleMoment: Math.hypot(g[1][0], g[1][1], h[1][1]),
+    g: scaledG,
+    h: scaledH,
+    legendre: new Float64Array(size * size),
+    legendreDerivative: new Float64Array(size * size),
+  };
+};
+
+/**
+ * Field B = -∇V of the internal potential at radius `r` (planet radii),
+ * colatitude and east longitude (radians), written into `out` as
+ * (B_r, B_θ, B_φ).
+ */
+export const sphericalHarmonicField = (
+  model: SphericalHarmonicModel,
+  r: number,
+  colatitude: number,
+  longitude: number,
+  out: Vec3
+): Vec3 => {
+  const { degree, g, h, legendre: P, legendreDerivative: dP } = model;
+  const size = degree + 1;
+  const cosTheta = Math.cos(colatitude);
+  const sinTheta = Math.sin(colatitude);
+
+  // Gauss-normalized associated Legendre functions and their θ derivatives
+  P[0] = 1;
+  dP[0] = 0;
+  for (let n = 1; n <= degree; n++) {
+    for (let m = 0; m <= n; m++) {
+      const i = n * size + m;
+      const above = (n - 1) * size + m;
+      if (m === n) {
+        const diagonal = (n - 1) * size + m - 1;
+        P[i] = sinTheta * P[diagonal];
+        dP[i] = sinTheta * dP[diagonal] + cosTheta * P[diagonal];
+      } else {
+        const k =
+          n > 1 ? ((n - 1) ** 2 - m * m) / ((2 * n - 1) * (2 * n - 3)) : 0;
+        const twoAbove = n > 1 ? (n - 2) * size + m : 0;
+        P[i] = cosTheta * P[above] - k * P[twoAbove];
+        dP[i] = cosTheta * dP[above] - sinTheta * P[above] - k * dP[twoAbove];
+      }
+    }
+  }
+
+  let br = 0;
+  let btheta = 0;
+  let bphi = 0;
+  let radial = 1 / (r * r);
+  for (let n = 1; n <= degree; n++) {
+    radial /= r; // (1/r)^(n+2)
+    for (let m = 0; m <= n; m++) {
+      const i = n * size + m;
+      const cosM = Math.cos(m * longitude);
+      const sinM = Math.sin(m * longitude);
+      const term = g[i] * cosM + h[i] * sinM;
+      br += (n + 1) * radial * term * P[i];
+      btheta -= radial * term * dP[i];
+      bphi += radial * m * (g[i] * sinM - h[i] * cosM) * P[i];
+    }
+  }
+
+  out[0] = br;
+  out[1] = btheta;
+  out[2] = bphi / Math.max(sinTheta, 1e-9);
+  return out;
+};
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { FIXED_TIMESTEP } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import { TimeSeriesRecorder } from "./time-series";
+
+describe("TimeSeriesRecorder", () => {
+  test("every eruption is recorded once, at the sample that saw it", () => {
+    const simulation = new PlasmaTorusSimulation(
+      { maxParticles: 2000, eruptionChance: 0.05, eruptionDuration: 30 },
+      3
+    );
+    const recorder = new TimeSeriesRecorder();
+    for (let sample = 0; sample < 20; sample++) {
+      for (let i = 0; i < 60; i++) simulation.step(FIXED_TIMESTEP);
+      recorder.record(simulation);
+      recorder.record(simulation); // Same time, so not sampled again
+    }
+    assert.equal(recorder.samples.length, 20);
+
+    const started = simulation.volcanoes.reduce(
+      (sum, { eruptions }) => sum + eruptions,
+      0
+    );
+    assert.ok(started > 0);
+    assert.equal(recorder.eruptions.length, started);
+    const times = recorder.samples.map(({ time }) => time);
+    for (const { time, volcano } of recorder.eruptions) {
+      assert.ok(times.includes(time));
+      assert.ok(simulation.volcanoes[volcano].eruptions > 0);
+    }
+  });
+
+  test("a run that goes back in time starts a new series", () => {
+    const simulation = new PlasmaTorusSimulation({ maxParticles: 500 }, 3);
+    const recorder = new TimeSeriesRecorder();
+    for (let sample = 0; sample < 3; sample++) {
+      simulation.step(FIXED_TIMESTEP);
+      recorder.record(simulation);
+    }
+    simulation.reset();
+    simulation.step(FIXED_TIMESTEP);
+    recorder.record(simulation);
+    assert.equal(recorder.samples.length, 1);
+    assert.equal(recorder.samples[0].time, simulation.time);
+  });
+});
@@ -0,0 +1,127 @@
+import { computeDiagnostics, ParticleArrays } from "./diagnostics";
+import { createFramePose, systemIIIPose } from "./reference-frames";
+import { SimulationParams } from "./params";
+import {
+  EruptionState,
+  PlasmaTorusSimulation,
+} from "./plasma-torus-simulation";
+
+export interface TimeSeriesSample {
+  time: number; // Simulated seconds
+  speciesCounts: number[]; // Indexed like SPECIES
+  peakRadius: number;
+  scaleHeight: number;
+  radial: number[]; // Radial profile, RADIAL_BINS from 0 to maxDistance
+}
+
+export interface EruptionEvent {
+  time: number; // Sample at which the eruption was first seen
+  volcano: number; // Index into IO_VOLCANOES
+}
+
+export interface RecordedRun extends ParticleArrays {
+  time: number;
+  jupiterRotation: number;
+  params: Pick<SimulationParams, "maxDistance">;
+  volcanoes: EruptionState[];
+}
+
+// Samples are always binned in System III, whatever the view shows
+const systemIII = createFramePose();
+
+/**
+ * Samples of the diagnostics over a run, for export. Eruptions are counted
+ * from each volcano's running total, so none are missed between samples;
+ * their times are those of the sample that first saw them.
+ */
+export class TimeSeriesRecorder {
+  readonly samples: TimeSeriesSample[] = [];
+  readonly eruptions: EruptionEvent[] = [];
+  private eruptionCounts: number[] | null = null;
+
+  record(run: RecordedRun) {
+    // A run that went back in time was reset or replaced; start over
+    const last = this.samples[this.samples.length - 1];
+    if (last && run.time < last.time) this.clear();
+    if (last && run.time === last.time) return;
+
+    const diagnostics = computeDiagnostics(
+      run,
+      systemIIIPose(run.jupiterRotation, systemIII),
+      run.params.maxDistance,
+      null
+    );
+    this.samples.push({
+      time: run.time,
+      speciesCounts: diagnostics.speciesCounts,
+      peakRadius: diagnostics.peakRadius,
+      scaleHeight: diagnostics.scaleHeight,
+      radial: Array.from(diagnostics.radial),
+    });
+
+    const counts = run.volcanoes.map(({ eruptions }) => eruptions);
+    counts.forEach((count, volcano) => {
+      const previous = this.eruptionCounts?.[volcano] ?? 0;
+      for (let n = previous; n < count; n++) {
+        this.eruptions.push({ time: run.time, volcano });
+      }
+    });
+    this.eruptionCounts = counts;
+  }
+
+  clear() {
+    this.samples.length = 0;
+    this.eruptions.length = 0;
+    this.eruptionCounts = null;
+  }
+}
+
+// Samples an ActivityTrace keeps; ten minutes at four a second
+export const ACTIVITY_TRACE_LENGTH = 2400;
+
+/**
+ * The live particle count and eruption starts over the recent past, for the
+ * eruption timeline. Cheap enough to sample continuously; older samples
+ * drop off past ACTIVITY_TRACE_LENGTH.
+ */
+export class ActivityTrace {
+  readonly times: number[] = [];
+  readonly live: number[] = [];
+  readonly eruptions: EruptionEvent[] = [];
+  private eruptionCounts: number[] | null = null;
+
+  record(
+    run: Pick<PlasmaTorusSimulation, "time" | "liveParticles" | "volcanoes">
+  ) {
+    const last = this.times[this.times.length - 1];
+    if (last !== undefined && run.time < last) this.clear();
+    if (last !== undefined && run.time === last) return;
+
+    this.times.push(run.time);
+    this.live.push(run.liveParticles);
+    if (this.times.length > ACTIVITY_TRACE_LENGTH) {
+      this.times.shift();
+      this.live.shift();
+      const oldest = this.times[0];
+      while (this.eruptions.length > 0 && this.eruptions[0].time < oldest) {
+        this.eruptions.shift();
+      }
+    }
+
+    const counts = run.volcanoes.map(({ eruptions }) => eruptions);
+    counts.forEach((count, volcano) => {
+      const previous = this.eruptionCounts?.[volcano] ?? 0;
+      for (let n = previous; n < count; n++) {
+        this.eruptions.push({ time: run.time, volcano });
+      }
+    });
+    this.eruptionCounts = counts;
+  }
+
+  clear() {
+    this.times.length = 0;
+    this.live.length = 0;
+    this.eruptions.length = 0;
+    this.eruptionCounts = null;
+  }
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createRandom } from "./random";
+import { SPECIES_INDEX } from "./species";
+import { relativeIonDensity } from "./torus-density";
+
+const TORUS_RADIUS = 6;
+
+// Ions spread evenly through the 4×4 ring about the torus centre line
+const uniformRing = (count: number, species = SPECIES_INDEX["S+"]) => {
+  const random = createRandom(1);
+  const positions = new Float32Array(count * 3);
+  const inner = (TORUS_RADIUS - 2) ** 2;
+  const outer = (TORUS_RADIUS + 2) ** 2;
+  for (let i = 0; i < count; i++) {
+    const r = Math.sqrt(inner + random() * (outer - inner));
+    const angle = random() * 2 * Math.PI;
+    positions[i * 3] = r * Math.cos(angle);
+    positions[i * 3 + 1] = (random() - 0.5) * 4;
+    positions[i * 3 + 2] = r * Math.sin(angle);
+  }
+  return { positions, species: new Uint8Array(count).fill(species) };
+};
+
+describe("relativeIonDensity", () => {
+  test("Io in evenly filled torus plasma sees about the mean density", () => {
+    const density = relativeIonDensity(
+      uniformRing(40000),
+      [TORUS_RADIUS, 0, 0],
+      TORUS_RADIUS
+    );
+    assert.ok(Math.abs(density - 1) < 0.15, `${density}`);
+  });
+
+  test("Io away from the plasma sees none", () => {
+    const density = relativeIonDensity(
+      uniformRing(4000),
+      [TORUS_RADIUS + 5, 0, 0],
+      TORUS_RADIUS
+    );
+    assert.equal(density, 0);
+  });
+
+  test("neutrals and unemitted slots do not count", () => {
+    assert.equal(
+      relativeIonDensity(
+        uniformRing(4000, SPECIES_INDEX.SO2),
+        [TORUS_RADIUS, 0, 0],
+        TORUS_RADIUS
+      ),
+      0
+    );
+    assert.equal(
+      relativeIonDensity(
+        {
+          positions: new Float32Array(300),
+          species: new Uint8Array(100).fill(SPECIES_INDEX["S+"]),
+        },
+        [0, 0, 0],
+        TORUS_RADIUS
+      ),
+      0
+    );
+  });
+});
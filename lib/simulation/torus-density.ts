@@ -0,0 +1,53 @@
+import { DIAGNOSTICS_SAMPLE } from "./diagnostics";
+import { Vec3 } from "./magnetic-field";
+import { SPECIES } from "./species";
+
+// Radius of the sphere sampled around Io, scene units (three Io radii)
+export const IO_SAMPLE_RADIUS = 1.5;
+
+// Half the width and height of the ring the density is compared against
+const TORUS_HALF_WIDTH = 2;
+
+/**
+ * Ion density within IO_SAMPLE_RADIUS of `centre`, relative to the mean ion
+ * density over a ring around the torus centre line measured in the same
+ * pass: about 1 when Io sits in typical torus plasma, 0 when no ions are
+ * near it. Large runs are estimated from an evenly strided sample.
+ */
+export const relativeIonDensity = (
+  { positions, species }: { positions: Float32Array; species: Uint8Array },
+  [cx, cy, cz]: Vec3,
+  torusRadius: number
+): number => {
+  const particles = species.length;
+  const stride = Math.max(1, Math.ceil(particles / DIAGNOSTICS_SAMPLE));
+  const sampleRadiusSquared = IO_SAMPLE_RADIUS * IO_SAMPLE_RADIUS;
+  let near = 0;
+  let ring = 0;
+
+  for (let i = 0; i < particles; i += stride) {
+    if (SPECIES[species[i]].charge <= 0) continue;
+    const i3 = i * 3;
+    const x = positions[i3];
+    const y = positions[i3 + 1];
+    const z = positions[i3 + 2];
+    if (x === 0 && y === 0 && z === 0) continue; // Not yet emitted
+
+    const dx = x - cx;
+    const dy = y - cy;
+    const dz = z - cz;
+    if (dx * dx + dy * dy + dz * dz < sampleRadiusSquared) near++;
+    if (
+      Math.abs(Math.hypot(x, z) - torusRadius) < TORUS_HALF_WIDTH &&
+      Math.abs(y) < TORUS_HALF_WIDTH
+    ) {
+      ring++;
+    }
+  }
+
+  if (ring === 0) return 0;
+  const nearVolume = (4 / 3) * Math.PI * IO_SAMPLE_RADIUS ** 3;
+  const ringVolume =
+    2 * Math.PI * torusRadius * (2 * TORUS_HALF_WIDTH) * (2 * TORUS_HALF_WIDTH);
+  return near / nearVolume / (ring / ringVolume);
+};
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { Vec3 } from "./magnetic-field";
+import { FIXED_TIMESTEP, JUPITER_ROTATION_SPEED } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import { CHARGE_TO_MASS } from "./species";
+import {
+  CENTRIFUGAL_CONFINEMENT,
+  PARALLEL_DAMPING,
+  PICKUP_RATE,
+  transportAcceleration,
+} from "./torus-models";
+
+const OMEGA = JUPITER_ROTATION_SPEED;
+const RATE = 0.001;
+
+// The flow u = Ω × r + r⊥ / τ at (x, y, z)
+const flow = (x: number, z: number): Vec3 => [
+  OMEGA * z + RATE * x,
+  0,
+  -OMEGA * x + RATE * z,
+];
+
+const close = (actual: number[], expected: number[]) =>
+  assert.ok(
+    actual.every((value, axis) => Math.abs(value - expected[axis]) < 1e-12),
+    `${actual} is not ${expected}`
+  );
+
+describe("transport model", () => {
+  test("plasma moving with the flow keeps to it", () => {
+    const [x, z] = [6, -3];
+    const [ux, , uz] = flow(x, z);
+    const field: Vec3 = [0, 0.4, 0]; // Vertical, as on the dipole equator
+    const [ax, ay, az] = transportAcceleration(
+      x,
+      0,
+      z,
+      ux,
+      0,
+      uz,
+      field,
+      OMEGA,
+      RATE,
+      [0, 0, 0]
+    );
+
+    // Adding the magnetic force u × B leaves the flow's own acceleration
+    const by = field[1];
+    close(
+      [ax - uz * by, ay, az + ux * by],
+      [
+        (RATE * RATE - OMEGA * OMEGA) * x + 2 * OMEGA * RATE * z,
+        0,
+        (RATE * RATE - OMEGA * OMEGA) * z - 2 * OMEGA * RATE * x,
+      ]
+    );
+  });
+
+  test("along a tilted field, ions are pushed towards the centrifugal equator", () => {
+    const [x, z] = [6, 0];
+    const [ux, , uz] = flow(x, z);
+    const tilt = 0.2;
+    const field: Vec3 = [Math.sin(tilt), Math.cos(tilt), 0];
+    const a = transportAcceleration(
+      x,
+      0,
+      z,
+      ux,
+      0,
+      uz,
+      field,
+      OMEGA,
+      RATE,
+      [0, 0, 0]
+    );
+    const along = a[0] * field[0] + a[1] * field[1] + a[2] * field[2];
+    assert.ok(
+      Math.abs(
+        along - CENTRIFUGAL_CONFINEMENT * OMEGA * OMEGA * x * Math.sin(tilt)
+      ) < 1e-12
+    );
+  });
+
+  test("motion relative to the flow decays", () => {
+    const [x, z] = [6, 2];
+    const [ux, , uz] = flow(x, z);
+    const field: Vec3 = [0, 0.4, 0];
+    const at = (vx: number, vy: number, vz: number) =>
+      transportAcceleration(x, 0, z, vx, vy, vz, field, OMEGA, RATE, [0, 0, 0]);
+    const still = at(ux, 0, uz);
+    const drifting = at(ux + 0.1, 0.1, uz);
+    // Picked up across the field, and damped along it
+    close(
+      [drifting[0] - still[0], drifting[1] - still[1], drifting[2] - still[2]],
+      [-PICKUP_RATE * 0.1, Math.log(PARALLEL_DAMPING) * 0.1, 0]
+    );
+  });
+
+  test("ions stay past their residence time, leaving only by the boundaries", () => {
+    const simulation = new PlasmaTorusSimulation(
+      { maxParticles: 2000, torusModel: "transport", recombinationRate: 0 },
+      17
+    );
+    for (let i = 0; i < 600; i++) simulation.step(FIXED_TIMESTEP);
+    const ion = simulation.alive.findIndex(
+      (alive, i) => alive === 1 && CHARGE_TO_MASS[simulation.species[i]] > 0
+    );
+    assert.ok(ion >= 0);
+    simulation.lifetimes[ion] = 0;
+    simulation.step(FIXED_TIMESTEP);
+    assert.equal(simulation.alive[ion], 1);
+  });
+});
@@ -0,0 +1,98 @@
+import { Vec3 } from "./magnetic-field";
+import { JUPITER_ROTATION_SPEED } from "./params";
+
+export type TorusModelName = "artistic" | "transport";
+
+/**
+ * How ions are held in the torus.
+ *
+ * - artistic: a spring pulls ions towards the torus radius and the spin
+ *   equator, and corotation is a push along the orbit. The torus takes the
+ *   shape it is given; ions leave at the end of a drawn residence time.
+ * - transport: ions are tied to their flux tubes, which corotate and
+ *   interchange outwards, and the centrifugal force along the field
+ *   gathers them at the centrifugal equator. The torus forms where Io
+ *   supplies it and spreads outwards, and ions leave past the outer
+ *   boundary.
+ */
+export const TORUS_MODELS: { name: TorusModelName; label: string }[] = [
+  { name: "artistic", label: "Artistic (spring)" },
+  { name: "transport", label: "Centrifugal + transport" },
+];
+
+// Boost on the centrifugal force along the field. The visualization's
+// Jupiter spins far too slowly for the real force to confine the torus;
+// at the default spin this pulls towards the centrifugal equator about as
+// hard as the artistic model pulls towards the spin equator
+export const CENTRIFUGAL_CONFINEMENT = 0.02 / (3 * JUPITER_ROTATION_SPEED ** 2);
+export const PARALLEL_DAMPING = 0.95; // Per-frame damping of motion along the field
+export const PICKUP_RATE = 0.2; // Per frame, at which motion across the field joins the flow
+
+/**
+ * Non-magnetic acceleration of an ion in the transport model, per frame,
+ * given the field at its position pre-scaled by q/m (as ForceModel.field).
+ *
+ * Ions are followed as guiding centres frozen to a flow u = Ω × r + r⊥ / τ:
+ * rigid corotation plus an outward interchange drift that moves flux tubes
+ * out e-fold every τ, in the spirit of Delamere & Bagenal (2003). The
+ * flow's motional electric field −u × B cancels the magnetic force on
+ * plasma moving with it, the flow's own acceleration (the centripetal pull
+ * the field exerts on corotating plasma) keeps ions on it, and any motion
+ * across the field relative to it, such as a fresh ion's gyration, decays
+ * at PICKUP_RATE. The field is far too weak at these scales to hold ions to
+ * the flow by itself. Along the field, the (boosted) centrifugal force
+ * Ω² r⊥ · b̂ pushes ions towards where the field line is furthest from
+ * the spin axis, the centrifugal equator, and motion relative to the flow
+ * is damped.
+ */
+export const transportAcceleration = (
+  x: number,
+  y: number,
+  z: number,
+  vx: number,
+  vy: number,
+  vz: number,
+  field: Vec3,
+  rotationSpeed: number, // Ω, radians per frame
+  outflowRate: number, // 1 / τ, per frame
+  out: Vec3
+): Vec3 => {
+  const omega = rotationSpeed;
+  const rate = outflowRate;
+  const [bx, by, bz] = field;
+
+  // The flow, and the acceleration of plasma moving with it, (u · ∇)u
+  const ux = omega * z + rate * x;
+  const uz = -omega * x + rate * z;
+  const flowX = (rate * rate - omega * omega) * x + 2 * omega * rate * z;
+  const flowZ = (rate * rate - omega * omega) * z - 2 * omega * rate * x;
+
+  // Motional electric field
+  out[0] = uz * by;
+  out[1] = ux * bz - uz * bx;
+  out[2] = -ux * by;
+
+  const strength = Math.hypot(bx, by, bz);
+  if (strength === 0) return out;
+  const nx = bx / strength;
+  const ny = by / strength;
+  const nz = bz / strength;
+
+  // Across the field: follow the flow
+  const wx = PICKUP_RATE * (ux - vx) + flowX;
+  const wy = -PICKUP_RATE * vy;
+  const wz = PICKUP_RATE * (uz - vz) + flowZ;
+  const across = wx * nx + wy * ny + wz * nz;
+  out[0] += wx - across * nx;
+  out[1] += wy - across * ny;
+  out[2] += wz - across * nz;
+
+  // Along it: centrifugal confinement and damping
+  const along =
+    CENTRIFUGAL_CONFINEMENT * omega * omega * (x * nx + z * nz) +
+    Math.log(PARALLEL_DAMPING) * ((vx - ux) * nx + vy * ny + (vz - uz) * nz);
+  out[0] += along * nx;
+  out[1] += along * ny;
+  out[2] += along * nz;
+  return out;
+};
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { getMagneticFieldVector, Vec3 } from "./magnetic-field";
+import { MOON_ORBITS, orbitRadius } from "./moons";
+import {
+  DEFAULT_PARAMS,
+  JUPITER_ROTATION_SPEED,
+  REFERENCE_FRAME_RATE,
+} from "./params";
+import {
+  fromJupiterRadii,
+  IO_ORBITAL_PERIOD,
+  ioLShell,
+  JUPITER_ROTATION_PERIOD,
+  sceneScaleParams,
+  TIME_SCALE,
+  toJupiterRadii,
+  toKilometresPerSecond,
+  toNanotesla,
+} from "./units";
+
+const [io] = MOON_ORBITS;
+
+const near = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(
+    Math.abs(actual / expected - 1) < tolerance,
+    `${actual} is not about ${expected}`
+  );
+
+describe("units", () => {
+  test("Jupiter radii convert both ways at either scale", () => {
+    for (const scale of ["artistic", "true"] as const) {
+      assert.equal(toJupiterRadii(fromJupiterRadii(5.9, scale), scale), 5.9);
+      near(toJupiterRadii(orbitRadius(io, scale), scale), 5.9, 0.01);
+    }
+    near(ioLShell("true"), 5.9, 0.01);
+  });
+
+  test("one spin of Jupiter lasts its real period", () => {
+    const secondsPerSpin =
+      (2 * Math.PI) / (JUPITER_ROTATION_SPEED * REFERENCE_FRAME_RATE);
+    near(secondsPerSpin * TIME_SCALE, JUPITER_ROTATION_PERIOD, 1e-12);
+  });
+
+  test("corotation at Io runs at about 74 km/s", () => {
+    for (const scale of ["artistic", "true"] as const) {
+      const speed = JUPITER_ROTATION_SPEED * orbitRadius(io, scale);
+      near(toKilometresPerSecond(speed, scale), 74, 0.02);
+    }
+  });
+
+  test("at true scale the field at Io reads about 2,000 nT", () => {
+    const params = { ...DEFAULT_PARAMS, ...sceneScaleParams("true") };
+    const field: Vec3 = [0, 0, 0];
+    getMagneticFieldVector(orbitRadius(io, "true"), 0, 0, 0, params, 1, field);
+    near(
+      toNanotesla(Math.hypot(...field), params.magneticFieldStrength),
+      2000,
+      0.1
+    );
+  });
+
+  test("switching scale keeps the torus in place in Jupiter radii", () => {
+    const artistic = sceneScaleParams("artistic");
+    const real = sceneScaleParams("true");
+    for (const key of ["torusRadius", "maxDistance"] as const) {
+      near(
+        toJupiterRadii(real[key]!, "true"),
+        toJupiterRadii(artistic[key]!, "artistic"),
+        1e-12
+      );
+    }
+    // At true scale Io orbits at its real period against Jupiter's spin
+    near(
+      JUPITER_ROTATION_SPEED / real.ioOrbitSpeed!,
+      IO_ORBITAL_PERIOD / JUPITER_ROTATION_PERIOD,
+      1e-12
+    );
+  });
+});
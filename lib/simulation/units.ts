@@ -0,0 +1,96 @@
+import { SPHERICAL_HARMONIC_MODELS } from "./magnetic-field";
+import { MOON_ORBITS, orbitRadius, orbitScale } from "./moons";
+import {
+  IO_ORBIT_SPEED,
+  JUPITER_RADIUS,
+  JUPITER_ROTATION_SPEED,
+  MAGNETIC_FIELD_STRENGTH,
+  MAX_DISTANCE,
+  REFERENCE_FRAME_RATE,
+  SimulationParams,
+  TORUS_RADIUS,
+} from "./params";
+
+export type SceneScaleName = "artistic" | "true";
+
+/**
+ * How far from the planet the moons, torus and outer boundary are drawn.
+ * Jupiter is JUPITER_RADIUS across either way, and the field models always
+ * take scene positions in units of it.
+ *
+ * - artistic: orbits are pulled in so Io sits at IO_ORBIT_RADIUS, well
+ *   inside its real 5.9 planet radii; distances from the planet read in
+ *   the orbits' compressed Jupiter radii
+ * - true: orbits at their real distances on the planet's own scale, so
+ *   the field at Io is the field Io feels
+ */
+export const SCENE_SCALES: { name: SceneScaleName; label: string }[] = [
+  { name: "artistic", label: "Artistic" },
+  { name: "true", label: "True scale" },
+];
+
+export const JUPITER_RADIUS_KM = 71492; // Equatorial, at 1 bar
+export const JUPITER_ROTATION_PERIOD = 35729.7; // System III, seconds
+export const IO_ORBITAL_PERIOD = 152853.5; // Seconds
+
+// Jupiter's real equatorial surface dipole field, nT (JRM09)
+export const JUPITER_DIPOLE_FIELD =
+  SPHERICAL_HARMONIC_MODELS.jrm09.dipoleMoment;
+
+/**
+ * Real seconds per simulated second. The default spin turns Jupiter once in
+ * about 52 simulated seconds, which stands for its real 9.9 hours, so a
+ * simulated second is about 11 real minutes.
+ */
+export const TIME_SCALE =
+  (JUPITER_ROTATION_PERIOD * JUPITER_ROTATION_SPEED * REFERENCE_FRAME_RATE) /
+  (2 * Math.PI);
+
+// Scene distances from Jupiter's centre to Jupiter radii and kilometres,
+// and back
+export const toJupiterRadii = (units: number, scale: SceneScaleName) =>
+  units / orbitScale(scale);
+export const fromJupiterRadii = (radii: number, scale: SceneScaleName) =>
+  radii * orbitScale(scale);
+export const toKilometres = (units: number, scale: SceneScaleName) =>
+  toJupiterRadii(units, scale) * JUPITER_RADIUS_KM;
+
+// Scene units per frame to km/s
+export const toKilometresPerSecond = (speed: number, scale: SceneScaleName) =>
+  (toKilometres(speed, scale) * REFERENCE_FRAME_RATE) / TIME_SCALE;
+
+/**
+ * A field magnitude from getMagneticFieldVector called with strength 1,
+ * in nT for a field `magneticFieldStrength` strong. The default strength
+ * stands for Jupiter's real dipole moment, so at true scale the field at
+ * Io reads about 2,000 nT.
+ */
+export const toNanotesla = (field: number, magneticFieldStrength: number) =>
+  (field * JUPITER_RADIUS ** 3 * JUPITER_DIPOLE_FIELD * magneticFieldStrength) /
+  MAGNETIC_FIELD_STRENGTH;
+
+/**
+ * Parameters to switch to a scene scale with. The torus and outer boundary
+ * keep their distances in Jupiter radii, and at true scale Io slows to its
+ * real period against Jupiter's default spin, so it orbits once every 4.3
+ * Jupiter days rather than 2.5 times in one.
+ */
+export const sceneScaleParams = (
+  sceneScale: SceneScaleName
+): Partial<SimulationParams> => {
+  const rescale = (units: number) =>
+    fromJupiterRadii(toJupiterRadii(units, "artistic"), sceneScale);
+  return {
+    sceneScale,
+    torusRadius: rescale(TORUS_RADIUS),
+    maxDistance: rescale(MAX_DISTANCE),
+    ioOrbitSpeed:
+      sceneScale === "true"
+        ? (JUPITER_ROTATION_SPEED * JUPITER_ROTATION_PERIOD) / IO_ORBITAL_PERIOD
+        : IO_ORBIT_SPEED,
+  };
+};
+
+// Io's distance from Jupiter's centre in the field models' planet radii
+export const ioLShell = (scale: SceneScaleName) =>
+  orbitRadius(MOON_ORBITS[0], scale) / JUPITER_RADIUS;
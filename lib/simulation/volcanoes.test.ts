@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { Vec3 } from "./magnetic-field";
+import { FIXED_TIMESTEP, IO_RADIUS } from "./params";
+import { PlasmaTorusSimulation } from "./plasma-torus-simulation";
+import {
+  IO_VOLCANOES,
+  parseVolcanoCatalog,
+  synchronousRotation,
+  volcanoNormal,
+} from "./volcanoes";
+
+// Body-frame vector `v` turned about +y by `rotation`, as the simulation
+// turns Io's vents into the scene
+const rotate = (v: Vec3, rotation: number): Vec3 => [
+  v[0] * Math.cos(rotation) + v[2] * Math.sin(rotation),
+  v[1],
+  -v[0] * Math.sin(rotation) + v[2] * Math.cos(rotation),
+];
+
+const loki = {
+  name: "Loki",
+  latitude: 13,
+  longitude: 309,
+  plumeHeight: 150,
+  activity: 0.9,
+  so2Output: 3,
+};
+
+describe("volcanoes", () => {
+  test("the Io catalog holds the named hotspots", () => {
+    const names = IO_VOLCANOES.map(({ name }) => name);
+    for (const name of ["Loki", "Pele", "Prometheus", "Tvashtar"]) {
+      assert.ok(names.includes(name), name);
+    }
+  });
+
+  test("catalogs are validated and copied", () => {
+    const json = { name: "Test", volcanoes: [loki] };
+    const catalog = parseVolcanoCatalog(json);
+    assert.deepEqual(catalog.volcanoes, [loki]);
+    assert.notEqual(catalog.volcanoes[0], loki);
+    assert.equal(catalog.reference, undefined);
+
+    for (const bad of [
+      null,
+      { name: "Test", volcanoes: [] },
+      { name: "Test", volcanoes: [{ ...loki, latitude: 95 }] },
+      { name: "Test", volcanoes: [{ ...loki, activity: -1 }] },
+      { name: "Test", volcanoes: [{ ...loki, plumeHeight: "high" }] },
+      { volcanoes: [loki] },
+    ]) {
+      assert.throws(() => parseVolcanoCatalog(bad), /Malformed/);
+    }
+  });
+
+  test("vent normals are unit vectors, with 0° longitude facing +x", () => {
+    const normal: Vec3 = [0, 0, 0];
+    for (const volcano of IO_VOLCANOES) {
+      volcanoNormal(volcano, normal);
+      assert.ok(Math.abs(Math.hypot(...normal) - 1) < 1e-12);
+    }
+    volcanoNormal({ ...loki, latitude: 0, longitude: 0 }, normal);
+    assert.deepEqual(normal, [1, 0, 0]);
+    volcanoNormal({ ...loki, latitude: 90 }, normal);
+    assert.ok(Math.abs(normal[1] - 1) < 1e-12);
+  });
+
+  test("the synchronous rotation keeps the sub-Jupiter point facing Jupiter", () => {
+    for (const position of [
+      [6, 0, 0],
+      [0, 0, 6],
+      [-4, 0.1, -3],
+      [3, 0, -5],
+    ] as Vec3[]) {
+      const [x, y, z] = rotate([1, 0, 0], synchronousRotation(position));
+      const r = Math.hypot(position[0], position[2]);
+      assert.ok(Math.abs(x + position[0] / r) < 1e-12);
+      assert.equal(y, 0);
+      assert.ok(Math.abs(z + position[2] / r) < 1e-12);
+    }
+  });
+
+  test("plumes launch from their vent on Io's surface", () => {
+    const simulation = new PlasmaTorusSimulation(
+      { eruptionChance: 1e6, baseEmissionRate: 0 },
+      7
+    );
+    simulation.step(FIXED_TIMESTEP); // Every volcano starts erupting
+    assert.ok(simulation.volcanoes.every(({ isActive }) => isActive));
+    simulation.step(FIXED_TIMESTEP);
+
+    const { positions, sources, ioPosition } = simulation;
+    const rotation = synchronousRotation(ioPosition);
+    const launched = new Set<number>();
+    for (let i = 0; i < simulation.activeParticles; i++) {
+      const v = sources[i];
+      assert.ok(v < IO_VOLCANOES.length);
+      launched.add(v);
+
+      const offset: Vec3 = [
+        positions[i * 3] - ioPosition[0],
+        positions[i * 3 + 1] - ioPosition[1],
+        positions[i * 3 + 2] - ioPosition[2],
+      ];
+      const distance = Math.hypot(...offset);
+      assert.ok(distance > IO_RADIUS * 0.9 && distance < IO_RADIUS * 1.5);
+      const normal = rotate(
+        volcanoNormal(IO_VOLCANOES[v], [0, 0, 0]),
+        rotation
+      );
+      const cosine =
+        (offset[0] * normal[0] +
+          offset[1] * normal[1] +
+          offset[2] * normal[2]) /
+        distance;
+      assert.ok(cosine > 0.9, `${IO_VOLCANOES[v].name}: ${cosine}`);
+    }
+    assert.equal(launched.size, IO_VOLCANOES.length);
+  });
+});
@@ -0,0 +1,103 @@
+import { Vec3 } from "./magnetic-field";
+import ioCatalog from "./volcano-catalogs/io.json";
+
+export interface Volcano {
+  name: string;
+  latitude: number; // Degrees north
+  longitude: number; // Degrees west; 0° faces Jupiter, 90° leads the orbit
+  plumeHeight: number; // km
+  activity: number; // Relative eruption frequency, 0-1
+  so2Output: number; // Tonnes per second while erupting
+}
+
+/**
+ * Volcanic sources on a tidally locked moon, in a JSON file such as
+ * volcano-catalogs/io.json.
+ */
+export interface VolcanoCatalog {
+  name: string;
+  reference?: string;
+  volcanoes: Volcano[];
+}
+
+const isVolcano = (volcano: unknown): volcano is Volcano => {
+  const { name, latitude, longitude, plumeHeight, activity, so2Output } = (
+    typeof volcano === "object" && volcano !== null ? volcano : {}
+  ) as Record<string, unknown>;
+  return (
+    typeof name === "string" &&
+    typeof latitude === "number" &&
+    Math.abs(latitude) <= 90 &&
+    typeof longitude === "number" &&
+    typeof plumeHeight === "number" &&
+    plumeHeight >= 0 &&
+    typeof activity === "number" &&
+    activity >= 0 &&
+    typeof so2Output === "number" &&
+    so2Output >= 0
+  );
+};
+
+/**
+ * Validate a volcano catalog file. Throws if the file is not of the
+ * expected shape.
+ */
+export const parseVolcanoCatalog = (json: unknown): VolcanoCatalog => {
+  const { name, reference, volcanoes } = (json ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof name !== "string" ||
+    !Array.isArray(volcanoes) ||
+    volcanoes.length === 0 ||
+    !volcanoes.every(isVolcano)
+  ) {
+    throw new Error("Malformed volcano catalog");
+  }
+
+  return {
+    name,
+    reference: typeof reference === "string" ? reference : undefined,
+    volcanoes: volcanoes.map((volcano) => ({ ...volcano })),
+  };
+};
+
+export const IO_VOLCANOES = parseVolcanoCatalog(ioCatalog).volcanoes;
+
+// Io's eruption frequency and output are shared out relative to these
+export const TOTAL_ACTIVITY = IO_VOLCANOES.reduce(
+  (sum, { activity }) => sum + activity,
+  0
+);
+export const MEAN_SO2_OUTPUT =
+  IO_VOLCANOES.reduce((sum, { so2Output }) => sum + so2Output, 0) /
+  IO_VOLCANOES.length;
+
+// Ballistic launch speed √(2gh) grows with the square root of plume height;
+// scaled so a Pele-class plume launches at the old eruption speed
+export const PLUME_SPEED_SCALE = 0.003; // Units per frame per √km
+export const PLUME_HALF_ANGLE = 0.5; // Radians either side of the vertical
+
+const DEG = Math.PI / 180;
+
+/**
+ * Rotation about +y that keeps a tidally locked moon at `position` facing
+ * Jupiter: it takes the moon's body frame (+x towards Jupiter, +y north, +z
+ * along the orbit) into the scene.
+ */
+export const synchronousRotation = (position: Vec3) =>
+  Math.atan2(position[2], -position[0]);
+
+/**
+ * Unit surface normal at a volcano in its moon's body frame (see
+ * synchronousRotation), written into `out`.
+ */
+export const volcanoNormal = (volcano: Volcano, out: Vec3): Vec3 => {
+  const latitude = volcano.latitude * DEG;
+  const longitude = volcano.longitude * DEG;
+  out[0] = Math.cos(latitude) * Math.cos(longitude);
+  out[1] = Math.sin(latitude);
+  out[2] = Math.cos(latitude) * Math.sin(longitude);
+  return out;
+};
@@ -0,0 +1,58 @@
+import { EruptionScenario } from "./eruption-scenarios";
+import { LOSS_CHANNELS } from "./lifecycle";
+import { SolarWindSeries } from "./magnetosphere";
+import { MOON_ORBITS } from "./moons";
+import { SimulationParams } from "./params";
+import { EphemerisClock, SimulationState } from "./plasma-torus-simulation";
+import { IO_VOLCANOES } from "./volcanoes";
+
+/**
+ * Messages from the page to the simulation worker. Messages are handled in
+ * order, so e.g. a `snapshot` sent after `pause` sees the paused run.
+ */
+export type WorkerRequest =
+  | { type: "load"; state: SimulationState } // Replace the whole run
+  | { type: "start"; speed: number } // Run in real time at `speed`
+  | { type: "pause" }
+  | { type: "step" } // One fixed step
+  | { type: "setParams"; params: Partial<SimulationParams> }
+  | { type: "setEphemerisClock"; clock: EphemerisClock | null }
+  | { type: "setEruptionScenario"; scenario: EruptionScenario | null }
+  | { type: "setSolarWind"; series: SolarWindSeries | null }
+  | { type: "reset"; seed: number }
+  | { type: "pin"; index: number; pinned: boolean } // See setPinned
+  | { type: "snapshot" };
+
+/** Messages from the simulation worker to the page. */
+export type WorkerResponse =
+  | {
+      // Shared views of the particle arrays and scalar state, sent after a
+      // load and whenever the particle arrays are reallocated
+      type: "buffers";
+      positions: Float32Array;
+      velocities: Float32Array;
+      colors: Float32Array;
+      species: Uint8Array;
+      alive: Uint8Array;
+      birthTimes: Float64Array;
+      lifetimes: Float32Array;
+      generations: Uint32Array;
+      sources: Uint16Array;
+      pinned: Uint8Array;
+      state: Float64Array;
+    }
+  | { type: "snapshot"; state: SimulationState };
+
+// Slots of the shared scalar state; losses follow in LOSS_CHANNELS order,
+// then moon positions as xyz triplets in MOON_ORBITS order, then each
+// volcano's EruptionState (isActive, countdown, cooldown, eruptions) in
+// IO_VOLCANOES order
+export const STATE_TIME = 0;
+export const STATE_JUPITER_ROTATION = 1;
+export const STATE_EPHEMERIS_DAYS = 2;
+export const STATE_ACTIVE_PARTICLES = 3;
+export const STATE_LIVE_PARTICLES = 4;
+export const STATE_LOSSES = 5;
+export const STATE_MOON_POSITIONS = STATE_LOSSES + LOSS_CHANNELS.length;
+export const STATE_VOLCANOES = STATE_MOON_POSITIONS + MOON_ORBITS.length * 3;
+export const STATE_LENGTH = STATE_VOLCANOES + IO_VOLCANOES.length * 4;
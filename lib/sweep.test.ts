@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DEFAULT_PARAMS } from "./simulation/params";
+import { sceneScaleParams } from "./simulation/units";
+import {
+  parseSweepConfig,
+  runSweep,
+  sweepRuns,
+  sweepToCsv,
+  sweepToJson,
+  SWEEP_FORMAT,
+} from "./sweep";
+
+describe("parameter sweeps", () => {
+  test("configs are filled in with defaults", () => {
+    const config = parseSweepConfig({ steps: 10, sweep: {} });
+    assert.deepEqual(config, {
+      steps: 10,
+      seeds: [1],
+      params: {},
+      sweep: {},
+      frame: "inertial",
+      eruptionScenario: null,
+      solarWind: null,
+    });
+  });
+
+  test("bad configs are rejected with the reason", () => {
+    assert.throws(() => parseSweepConfig({ sweep: {} }), /Malformed/);
+    assert.throws(
+      () => parseSweepConfig({ steps: 10, seeds: [-1], sweep: {} }),
+      /Malformed/
+    );
+    assert.throws(
+      () => parseSweepConfig({ steps: 10, sweep: { warpSpeed: [1] } }),
+      /No parameter named warpSpeed/
+    );
+    assert.throws(
+      () => parseSweepConfig({ steps: 10, sweep: { integrator: ["magic"] } }),
+      /Invalid values for integrator/
+    );
+    assert.throws(
+      () =>
+        parseSweepConfig({
+          steps: 10,
+          params: { maxParticles: 1.5 },
+          sweep: {},
+        }),
+      /Invalid fixed parameters/
+    );
+  });
+
+  test("runs cover every combination, seed fastest", () => {
+    const runs = sweepRuns(
+      parseSweepConfig({
+        steps: 10,
+        seeds: [1, 2],
+        params: { maxParticles: 500 },
+        sweep: { integrator: ["euler", "rk4"], torusRadius: [8, 10, 12] },
+      })
+    );
+    assert.equal(runs.length, 2 * 3 * 2);
+    assert.deepEqual(
+      runs
+        .slice(0, 3)
+        .map(({ index, seed, values }) => ({ index, seed, values })),
+      [
+        { index: 0, seed: 1, values: { integrator: "euler", torusRadius: 8 } },
+        { index: 1, seed: 2, values: { integrator: "euler", torusRadius: 8 } },
+        { index: 2, seed: 1, values: { integrator: "euler", torusRadius: 10 } },
+      ]
+    );
+    assert.deepEqual(runs[11].values, { integrator: "rk4", torusRadius: 12 });
+    assert.ok(runs.every(({ params }) => params.maxParticles === 500));
+  });
+
+  test("a run's scene scale brings its distances with it", () => {
+    const [artistic, real] = sweepRuns(
+      parseSweepConfig({
+        steps: 10,
+        sweep: { sceneScale: ["artistic", "true"] },
+      })
+    );
+    // Unless the config sets them itself
+    const [fixed] = sweepRuns(
+      parseSweepConfig({
+        steps: 10,
+        params: { torusRadius: 50 },
+        sweep: { sceneScale: ["true"] },
+      })
+    );
+    assert.equal(artistic.params.torusRadius, DEFAULT_PARAMS.torusRadius);
+    assert.deepEqual(real.params, {
+      ...DEFAULT_PARAMS,
+      ...sceneScaleParams("true"),
+    });
+    assert.equal(fixed.params.torusRadius, 50);
+  });
+
+  test("results are written in run order as CSV and JSON", () => {
+    const config = parseSweepConfig({
+      steps: 30,
+      params: { maxParticles: 300 },
+      sweep: { baseEmissionRate: [0.5, 1] },
+    });
+    const results = sweepRuns(config)
+      .map((run) => runSweep(config, run))
+      .reverse();
+    assert.ok(results.every(({ live }) => live > 0));
+
+    const lines = sweepToCsv(config, results).trimEnd().split("\n");
+    assert.equal(JSON.parse(lines[0].slice(2)).format, SWEEP_FORMAT);
+    const header = lines[1].split(",");
+    assert.deepEqual(header.slice(0, 3), ["run", "seed", "baseEmissionRate"]);
+    assert.deepEqual(
+      lines.slice(2).map((line) => line.split(",").slice(0, 3)),
+      [
+        ["0", "1", "0.5"],
+        ["1", "1", "1"],
+      ]
+    );
+    assert.ok(
+      lines.slice(2).every((line) => line.split(",").length === header.length)
+    );
+
+    const json = JSON.parse(sweepToJson(config, results));
+    assert.deepEqual(
+      json.results.map(({ run }: { run: number }) => run),
+      [0, 1]
+    );
+  });
+});
@@ -0,0 +1,281 @@
+import { isParams } from "./run-export";
+import { computeDiagnostics, RADIAL_BINS } from "./simulation/diagnostics";
+import {
+  EruptionScenario,
+  parseEruptionScenario,
+} from "./simulation/eruption-scenarios";
+import { LOSS_CHANNELS } from "./simulation/lifecycle";
+import {
+  parseSolarWindSeries,
+  SolarWindSeries,
+} from "./simulation/magnetosphere";
+import {
+  DEFAULT_PARAMS,
+  FIXED_TIMESTEP,
+  SimulationParams,
+} from "./simulation/params";
+import { PlasmaTorusSimulation } from "./simulation/plasma-torus-simulation";
+import {
+  createFramePose,
+  framePose,
+  REFERENCE_FRAMES,
+  ReferenceFrameName,
+} from "./simulation/reference-frames";
+import { SPECIES } from "./simulation/species";
+import { sceneScaleParams, toJupiterRadii } from "./simulation/units";
+
+export const SWEEP_FORMAT = "io-plasma-torus-sweep";
+export const SWEEP_VERSION = 1;
+
+export type SweptValues = {
+  [K in keyof SimulationParams]?: SimulationParams[K][];
+};
+
+/**
+ * A parameter sweep as loaded from JSON: every combination of the `sweep`
+ * values, over `params` and the defaults, is run once per seed for `steps`
+ * fixed steps, and the particles are then binned in `frame`.
+ */
+export interface SweepConfig {
+  steps: number;
+  seeds: number[];
+  params: Partial<SimulationParams>; // Shared by every run
+  sweep: SweptValues;
+  frame: ReferenceFrameName;
+  eruptionScenario: EruptionScenario | null; // Null for random eruptions
+  solarWind: SolarWindSeries | null; // Null for a steady solar wind
+}
+
+export interface SweepRun {
+  index: number;
+  seed: number;
+  values: Partial<SimulationParams>; // The swept parameters' values
+  params: SimulationParams;
+}
+
+/**
+ * Summary of one run at its last step. Distances are in Jupiter radii at
+ * the run's scene scale.
+ */
+export interface SweepResult {
+  run: number;
+  seed: number;
+  values: Partial<SimulationParams>;
+  time: number; // Simulated seconds
+  live: number;
+  retention: number; // Live particles over all particles emitted
+  eruptions: number; // Started, summed over the volcanoes
+  losses: number[]; // Indexed like LOSS_CHANNELS
+  speciesCounts: number[]; // Indexed like SPECIES
+  peakRadius: number;
+  scaleHeight: number; // RMS distance of ions from the frame's equator
+  maxDistance: number; // Outer edge of the radial profile
+  radial: number[];
+  milliseconds: number;
+}
+
+const isSeed = (seed: unknown): seed is number =>
+  Number.isInteger(seed) && (seed as number) >= 0;
+
+/**
+ * Validate a sweep config, filling in one seed (1), no fixed parameters,
+ * the inertial frame, random eruptions and a steady solar wind where they
+ * are left out. Throws if the file is not of the expected shape, names an
+ * unknown parameter or gives one a value it cannot take.
+ */
+export const parseSweepConfig = (json: unknown): SweepConfig => {
+  const {
+    steps,
+    seeds = [1],
+    params = {},
+    sweep,
+    frame = "inertial",
+    eruptionScenario = null,
+    solarWind = null,
+  } = (json ?? {}) as Record<string, unknown>;
+  if (
+    !Number.isInteger(steps) ||
+    (steps as number) <= 0 ||
+    !Array.isArray(seeds) ||
+    seeds.length === 0 ||
+    !seeds.every(isSeed) ||
+    typeof params !== "object" ||
+    params === null ||
+    typeof sweep !== "object" ||
+    sweep === null ||
+    !REFERENCE_FRAMES.some(({ name }) => name === frame)
+  ) {
+    throw new Error("Malformed sweep config");
+  }
+
+  const unknown = [...Object.keys(params), ...Object.keys(sweep)].find(
+    (key) => !(key in DEFAULT_PARAMS)
+  );
+  if (unknown) throw new Error(`No parameter named ${unknown}`);
+  if (!isParams({ ...DEFAULT_PARAMS, ...params })) {
+    throw new Error("Invalid fixed parameters in sweep config");
+  }
+  for (const [key, values] of Object.entries(sweep)) {
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      !values.every((value) =>
+        isParams({ ...DEFAULT_PARAMS, ...params, [key]: value })
+      )
+    ) {
+      throw new Error(`Invalid values for ${key} in sweep config`);
+    }
+  }
+
+  return {
+    steps: steps as number,
+    seeds,
+    params,
+    sweep: sweep as SweptValues,
+    frame: frame as ReferenceFrameName,
+    eruptionScenario:
+      eruptionScenario === null
+        ? null
+        : parseEruptionScenario(eruptionScenario),
+    solarWind: solarWind === null ? null : parseSolarWindSeries(solarWind),
+  };
+};
+
+/**
+ * Every run of a sweep, varying the last swept parameter fastest and the
+ * seed fastest of all. A run's scene scale brings its torus, outer boundary
+ * and Io's speed with it, as switching scale on the page does, unless the
+ * config sets them itself.
+ */
+export const sweepRuns = ({ seeds, params, sweep }: SweepConfig) => {
+  let combinations: Partial<SimulationParams>[] = [{}];
+  for (const [key, values] of Object.entries(sweep)) {
+    combinations = combinations.flatMap((combination) =>
+      (values as unknown[]).map((value) => ({ ...combination, [key]: value }))
+    );
+  }
+  return combinations
+    .flatMap((values) =>
+      seeds.map((seed) => ({
+        seed,
+        values,
+        params: {
+          ...DEFAULT_PARAMS,
+          ...sceneScaleParams(
+            values.sceneScale ?? params.sceneScale ?? DEFAULT_PARAMS.sceneScale
+          ),
+          ...params,
+          ...values,
+        },
+      }))
+    )
+    .map((run, index): SweepRun => ({ index, ...run }));
+};
+
+/**
+ * Run one sweep run to the end on the CPU path, with the same simulation
+ * and fixed step the page uses, and summarize it.
+ */
+export const runSweep = (
+  { steps, frame, eruptionScenario, solarWind }: SweepConfig,
+  { index, seed, values, params }: SweepRun
+): SweepResult => {
+  const start = performance.now();
+  const simulation = new PlasmaTorusSimulation(params, seed);
+  simulation.setEruptionScenario(eruptionScenario);
+  simulation.setSolarWind(solarWind);
+  for (let i = 0; i < steps; i++) simulation.step(FIXED_TIMESTEP);
+
+  const { sceneScale } = simulation.params;
+  const diagnostics = computeDiagnostics(
+    simulation,
+    framePose(frame, simulation, createFramePose()),
+    simulation.params.maxDistance,
+    null
+  );
+  const lost = simulation.losses.reduce((sum, count) => sum + count, 0);
+  const live = simulation.liveParticles;
+  return {
+    run: index,
+    seed,
+    values,
+    time: simulation.time,
+    live,
+    retention: live + lost > 0 ? live / (live + lost) : 0,
+    eruptions: simulation.volcanoes.reduce(
+      (sum, { eruptions }) => sum + eruptions,
+      0
+    ),
+    losses: simulation.losses.slice(),
+    speciesCounts: diagnostics.speciesCounts,
+    peakRadius: toJupiterRadii(diagnostics.peakRadius, sceneScale),
+    scaleHeight: toJupiterRadii(diagnostics.scaleHeight, sceneScale),
+    maxDistance: toJupiterRadii(diagnostics.maxDistance, sceneScale),
+    radial: Array.from(diagnostics.radial),
+    milliseconds: performance.now() - start,
+  };
+};
+
+// Swept parameters in the order sweepRuns varies them
+const sweptKeys = ({ sweep }: SweepConfig) =>
+  Object.keys(sweep) as (keyof SimulationParams)[];
+
+/**
+ * Results as CSV, one row per run in run order, with the config as a
+ * leading JSON comment.
+ */
+export const sweepToCsv = (config: SweepConfig, results: SweepResult[]) => {
+  const keys = sweptKeys(config);
+  const header = [
+    "run",
+    "seed",
+    ...keys,
+    "time",
+    "live",
+    "retention",
+    "eruptions_started",
+    ...LOSS_CHANNELS.map(({ name }) => `lost_${name}`),
+    ...SPECIES.map(({ key }) => `count_${key}`),
+    "peak_radius",
+    "scale_height",
+    "max_distance",
+    ...Array.from({ length: RADIAL_BINS }, (_, bin) => `radial_${bin}`),
+  ];
+  const rows = [
+    `# ${JSON.stringify({ format: SWEEP_FORMAT, version: SWEEP_VERSION, config })}`,
+    header.join(","),
+  ];
+  [...results]
+    .sort((a, b) => a.run - b.run)
+    .forEach((result) =>
+      rows.push(
+        [
+          result.run,
+          result.seed,
+          ...keys.map((key) => result.values[key]),
+          result.time,
+          result.live,
+          result.retention,
+          result.eruptions,
+          ...result.losses,
+          ...result.speciesCounts,
+          result.peakRadius,
+          result.scaleHeight,
+          result.maxDistance,
+          ...result.radial,
+        ].join(",")
+      )
+    );
+  return rows.join("\n") + "\n";
+};
+
+// Results as JSON, in run order
+export const sweepToJson = (config: SweepConfig, results: SweepResult[]) =>
+  JSON.stringify({
+    format: SWEEP_FORMAT,
+    version: SWEEP_VERSION,
+    config,
+    lossChannels: LOSS_CHANNELS.map(({ name }) => name),
+    speciesNames: SPECIES.map(({ key }) => key),
+    results: [...results].sort((a, b) => a.run - b.run),
+  });
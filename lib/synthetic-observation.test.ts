@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { gaussianBlur } from "./synthetic-observation";
+
+// A width × height image with one bright pixel
+const point = (width: number, height: number, x: number, y: number) => {
+  const data = new Float32Array(width * height);
+  data[y * width + x] = 100;
+  return data;
+};
+
+const sum = (data: Float32Array) =>
+  data.reduce((total, value) => total + value, 0);
+
+describe("gaussianBlur", () => {
+  test("a point spreads evenly about itself, keeping its light", () => {
+    const data = gaussianBlur(point(21, 21, 10, 10), 21, 21, 1.5);
+    assert.ok(Math.abs(sum(data) - 100) < 1e-3);
+    assert.ok(data[10 * 21 + 10] < 100);
+    for (const [dx, dy] of [
+      [1, 0],
+      [3, 2],
+    ]) {
+      const at = (x: number, y: number) => data[(10 + y) * 21 + 10 + x];
+      const value = at(dx, dy);
+      assert.ok(value > 0);
+      for (const [x, y] of [
+        [-dx, dy],
+        [dx, -dy],
+        [dy, dx],
+      ]) {
+        assert.ok(Math.abs(at(x, y) - value) < 1e-6);
+      }
+    }
+  });
+
+  test("light spread past the edges is lost", () => {
+    const data = gaussianBlur(point(10, 10, 0, 5), 10, 10, 2);
+    assert.ok(sum(data) < 70);
+  });
+
+  test("a zero-width PSF leaves the image alone", () => {
+    const data = point(5, 5, 2, 2);
+    assert.deepEqual(gaussianBlur(data, 5, 5, 0), point(5, 5, 2, 2));
+  });
+});
@@ -0,0 +1,419 @@
+// Synthetic telescope images of the torus in its emission lines: each ion's
+// emission is summed along the line of sight into a float render target as
+// seen from Earth, Juno or the interactive camera, blurred by a point-spread
+// function and saved as FITS, or as PNG with the WCS in a JSON sidecar
+
+import * as THREE from "three";
+import { canvasToPng } from "./capture";
+import { encodeFits, FitsCard } from "./fits";
+import {
+  EMISSION_LINES,
+  EmissionLineName,
+  EmittingParticles,
+  lineEmission,
+} from "./simulation/emission-lines";
+import { JUPITER_RADIUS } from "./simulation/params";
+import { ZipWriter } from "./zip";
+
+export type ObserverName = "earth" | "juno" | "camera";
+
+export const OBSERVERS: {
+  name: ObserverName;
+  label: string;
+  pixelScale: number; // Default, arcseconds per pixel
+}[] = [
+  { name: "earth", label: "Earth", pixelScale: 0.5 },
+  { name: "juno", label: "Juno", pixelScale: 120 },
+  { name: "camera", label: "Free camera", pixelScale: 240 },
+];
+
+export type ObservationFormat = "fits" | "png";
+
+export interface ObservationSettings {
+  observer: ObserverName;
+  line: EmissionLineName;
+  width: number; // Detector pixels
+  height: number;
+  pixelScale: number; // Arcseconds per pixel
+  psf: number; // Full width at half maximum, arcseconds
+  format: ObservationFormat;
+}
+
+const ARCSEC = Math.PI / 180 / 3600;
+const KM_PER_AU = 149597870.7;
+const JUPITER_RADIUS_KM = 71492;
+
+// Used when the run has no real date to take Earth's distance from
+export const TYPICAL_EARTH_DISTANCE = 4.2; // AU, near opposition
+
+// Juno looks down on the torus from high northern latitude on the side
+// facing Earth, as on its outbound legs
+const JUNO_DISTANCE = 20 * JUPITER_RADIUS;
+const JUNO_LATITUDE = (60 * Math.PI) / 180;
+
+// Scene units in front of and behind Jupiter the observation sees
+const DEPTH_EXTENT = 500;
+
+// Softening of the asinh stretch of PNG images, relative to the peak
+const STRETCH_SOFTENING = 0.02;
+
+/**
+ * World coordinates of an image in the spirit of FITS WCS: linear offsets
+ * on the sky, in degrees from the pointing (Jupiter's centre from Earth and
+ * Juno), with +X to the right and +Y up. Up is Jupiter's north from Earth
+ * and Juno, and the camera's up for the free camera.
+ */
+export interface ObservationWcs {
+  ctype: [string, string];
+  cunit: [string, string];
+  crpix: [number, number]; // 1-based reference pixel, at the pointing
+  crval: [number, number];
+  cdelt: [number, number]; // Degrees per pixel
+  observer: ObserverName;
+  line: string;
+  wavelength: number; // nm
+  psf: number; // FWHM, arcseconds
+  observerDistance: number; // From Jupiter's centre, planet radii
+  jupiterRadius: number; // Angular radius of Jupiter, arcseconds
+  dateObs: string | null; // ISO date in real-date mode
+  bunit: string;
+}
+
+export interface ObservationImage {
+  data: Float32Array; // Row by row from the bottom left, as in FITS
+  width: number;
+  height: number;
+  wcs: ObservationWcs;
+}
+
+const observationVertexShader = `
+attribute float emission;
+varying float vEmission;
+
+void main() {
+  vEmission = emission;
+  gl_PointSize = 1.0;
+  gl_Position = emission > 0.0
+    ? projectionMatrix * modelViewMatrix * vec4(position, 1.0)
+    : vec4(2.0, 2.0, 2.0, 1.0); // Clipped
+}
+`;
+
+const observationFragmentShader = `
+varying float vEmission;
+
+void main() {
+  gl_FragColor = vec4(vEmission, 0.0, 0.0, 1.0);
+}
+`;
+
+// Rendering and reading back float targets needs WebGL 2's float color
+// buffers
+export const canObserve = (renderer: THREE.WebGLRenderer) =>
+  renderer.capabilities.isWebGL2 &&
+  renderer.extensions.has("EXT_color_buffer_float");
+
+/**
+ * A camera at the observer, in the simulation's own frame. From Earth the
+ * camera sits at Earth's true distance, so the torus has the perspective a
+ * telescope sees; the free camera is the interactive one, taken out of the
+ * reference frame `frame` the scene is shown in. Either way the field of
+ * view is the detector's size times its pixel scale.
+ */
+export const observerCamera = (
+  { observer, width, height, pixelScale }: ObservationSettings,
+  earthDistance: number, // AU
+  view: THREE.Camera,
+  frame: THREE.Object3D
+): THREE.PerspectiveCamera => {
+  const fov =
+    (2 * Math.atan((height / 2) * pixelScale * ARCSEC) * 180) / Math.PI;
+  const camera = new THREE.PerspectiveCamera(fov, width / height);
+
+  switch (observer) {
+    case "earth":
+      camera.position.set(
+        -((earthDistance * KM_PER_AU) / JUPITER_RADIUS_KM) * JUPITER_RADIUS,
+        0,
+        0
+      );
+      camera.lookAt(0, 0, 0);
+      break;
+    case "juno":
+      camera.position.set(
+        -Math.cos(JUNO_LATITUDE) * JUNO_DISTANCE,
+        Math.sin(JUNO_LATITUDE) * JUNO_DISTANCE,
+        0
+      );
+      camera.lookAt(0, 0, 0);
+      break;
+    case "camera":
+      view.updateMatrixWorld();
+      frame.updateMatrixWorld();
+      camera.matrix
+        .copy(frame.matrixWorld)
+        .invert()
+        .multiply(view.matrixWorld)
+        .decompose(camera.position, camera.quaternion, camera.scale);
+      break;
+  }
+
+  const distance = camera.position.length();
+  camera.near = Math.max(0.01, distance - DEPTH_EXTENT);
+  camera.far = distance + DEPTH_EXTENT;
+  camera.updateProjectionMatrix();
+  camera.updateMatrixWorld();
+  return camera;
+};
+
+/**
+ * Separable Gaussian blur of an image in place. Light spread past the
+ * edges is lost, as on a real detector.
+ */
+export const gaussianBlur = (
+  data: Float32Array,
+  width: number,
+  height: number,
+  sigma: number // Pixels
+) => {
+  if (sigma <= 0) return data;
+  const radius = Math.ceil(3 * sigma);
+  const kernel = new Float32Array(2 * radius + 1);
+  let total = 0;
+  for (let k = -radius; k <= radius; k++) {
+    kernel[k + radius] = Math.exp(-(k * k) / (2 * sigma * sigma));
+    total += kernel[k + radius];
+  }
+  for (let k = 0; k < kernel.length; k++) kernel[k] /= total;
+
+  const pass = (
+    source: Float32Array,
+    target: Float32Array,
+    step: number, // Between neighbours along the pass
+    length: number,
+    lines: number,
+    lineStep: number
+  ) => {
+    for (let line = 0; line < lines; line++) {
+      const start = line * lineStep;
+      for (let i = 0; i < length; i++) {
+        let sum = 0;
+        const from = Math.max(0, i - radius);
+        const to = Math.min(length - 1, i + radius);
+        for (let j = from; j <= to; j++) {
+          sum += kernel[j - i + radius] * source[start + j * step];
+        }
+        target[start + i * step] = sum;
+      }
+    }
+  };
+
+  const scratch = new Float32Array(data.length);
+  pass(data, scratch, 1, width, height, width);
+  pass(scratch, data, width, height, width, 1);
+  return data;
+};
+
+/**
+ * Render the particles' emission in the settings' line from `camera` and
+ * blur it by the settings' PSF. Each ion is a single-pixel point added into
+ * a float render target (half float where float targets cannot blend), and
+ * Jupiter's disk occults what lies behind it; the planet's own reflected
+ * light is left out, as if masked. Pixels are then divided by their area
+ * in the sky plane at Jupiter's distance, so the image is in emission
+ * measure per square planet radius whatever the pixel scale.
+ */
+export const observe = (
+  renderer: THREE.WebGLRenderer,
+  particles: EmittingParticles,
+  camera: THREE.PerspectiveCamera,
+  settings: ObservationSettings,
+  dateObs: string | null
+): ObservationImage => {
+  const { width, height, pixelScale, psf } = settings;
+  const line = EMISSION_LINES.find(({ name }) => name === settings.line)!;
+  const emission = lineEmission(
+    particles,
+    line,
+    new Float32Array(particles.species.length)
+  );
+
+  const scene = new THREE.Scene();
+  const geometry = new THREE.BufferGeometry()
+    .setAttribute("position", new THREE.BufferAttribute(particles.positions, 3))
+    .setAttribute("emission", new THREE.BufferAttribute(emission, 1));
+  const material = new THREE.ShaderMaterial({
+    vertexShader: observationVertexShader,
+    fragmentShader: observationFragmentShader,
+    blending: THREE.CustomBlending,
+    blendSrc: THREE.OneFactor,
+    blendDst: THREE.OneFactor,
+    depthWrite: false,
+  });
+  const points = new THREE.Points(geometry, material);
+  points.frustumCulled = false;
+  scene.add(points);
+
+  const occulterGeometry = new THREE.SphereGeometry(JUPITER_RADIUS, 64, 32);
+  const occulterMaterial = new THREE.MeshBasicMaterial({ colorWrite: false });
+  const occulter = new THREE.Mesh(occulterGeometry, occulterMaterial);
+  occulter.renderOrder = -1; // Depth first
+  scene.add(occulter);
+
+  const float = renderer.extensions.has("EXT_float_blend");
+  const target = new THREE.WebGLRenderTarget(width, height, {
+    type: float ? THREE.FloatType : THREE.HalfFloatType,
+    depthBuffer: true,
+  });
+
+  const previousTarget = renderer.getRenderTarget();
+  const clearColor = renderer.getClearColor(new THREE.Color());
+  const clearAlpha = renderer.getClearAlpha();
+  renderer.setClearColor(0x000000, 0);
+  renderer.setRenderTarget(target);
+  renderer.render(scene, camera);
+
+  const pixels = width * height;
+  const data = new Float32Array(pixels);
+  if (float) {
+    const rgba = new Float32Array(pixels * 4);
+    renderer.readRenderTargetPixels(target, 0, 0, width, height, rgba);
+    for (let i = 0; i < pixels; i++) data[i] = rgba[i * 4];
+  } else {
+    const rgba = new Uint16Array(pixels * 4);
+    renderer.readRenderTargetPixels(target, 0, 0, width, height, rgba);
+    for (let i = 0; i < pixels; i++) {
+      data[i] = THREE.DataUtils.fromHalfFloat(rgba[i * 4]);
+    }
+  }
+
+  renderer.setRenderTarget(previousTarget);
+  renderer.setClearColor(clearColor, clearAlpha);
+  target.dispose();
+  geometry.dispose();
+  material.dispose();
+  occulterGeometry.dispose();
+  occulterMaterial.dispose();
+
+  gaussianBlur(
+    data,
+    width,
+    height,
+    psf / pixelScale / (2 * Math.sqrt(2 * Math.log(2)))
+  );
+
+  const distance = camera.position.length() / JUPITER_RADIUS;
+  const pixelSide = distance * Math.tan(pixelScale * ARCSEC);
+  for (let i = 0; i < pixels; i++) data[i] /= pixelSide * pixelSide;
+
+  const degrees = pixelScale / 3600;
+  return {
+    data,
+    width,
+    height,
+    wcs: {
+      ctype: ["XOFFSET", "YOFFSET"],
+      cunit: ["deg", "deg"],
+      crpix: [(width + 1) / 2, (height + 1) / 2],
+      crval: [0, 0],
+      cdelt: [degrees, degrees],
+      observer: settings.observer,
+      line: line.label,
+      wavelength: line.wavelength,
+      psf,
+      observerDistance: distance,
+      jupiterRadius: Math.asin(Math.min(1, 1 / distance)) / ARCSEC,
+      dateObs,
+      bunit: "emission measure / RJ^2 (relative)",
+    },
+  };
+};
+
+const wcsCards = (wcs: ObservationWcs): FitsCard[] => [
+  { keyword: "BUNIT", value: wcs.bunit },
+  ...[0, 1].flatMap((axis) => [
+    { keyword: `CTYPE${axis + 1}`, value: wcs.ctype[axis] },
+    { keyword: `CUNIT${axis + 1}`, value: wcs.cunit[axis] },
+    { keyword: `CRPIX${axis + 1}`, value: wcs.crpix[axis] },
+    { keyword: `CRVAL${axis + 1}`, value: wcs.crval[axis] },
+    { keyword: `CDELT${axis + 1}`, value: wcs.cdelt[axis] },
+  ]),
+  { keyword: "OBSERVER", value: wcs.observer },
+  { keyword: "EMLINE", value: wcs.line },
+  { keyword: "WAVELNTH", value: wcs.wavelength, comment: "nm" },
+  { keyword: "PSFFWHM", value: wcs.psf, comment: "arcsec" },
+  { keyword: "OBSDIST", value: wcs.observerDistance, comment: "Jupiter radii" },
+  { keyword: "RJANGLE", value: wcs.jupiterRadius, comment: "arcsec" },
+  // FITS dates are UTC without the zone suffix
+  ...(wcs.dateObs
+    ? [{ keyword: "DATE-OBS", value: wcs.dateObs.replace(/Z$/, "") }]
+    : []),
+  { keyword: "ORIGIN", value: "Io plasma torus simulation" },
+];
+
+export const observationToFits = ({
+  data,
+  width,
+  height,
+  wcs,
+}: ObservationImage) => encodeFits(data, width, height, wcsCards(wcs));
+
+/**
+ * The image in 8-bit grey, with an asinh stretch from zero to the peak so
+ * the faint outer torus shows next to the ribbon.
+ */
+export const observationCanvas = ({
+  data,
+  width,
+  height,
+}: ObservationImage) => {
+  let peak = 0;
+  for (let i = 0; i < data.length; i++) peak = Math.max(peak, data[i]);
+  const softening = peak * STRETCH_SOFTENING || 1;
+  const scale = 255 / Math.asinh(peak / softening || 1);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d")!;
+  const image = context.createImageData(width, height);
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      // Canvas rows run from the top
+      const value = data[(height - 1 - row) * width + column];
+      const grey = Math.round(Math.asinh(value / softening) * scale);
+      const offset = (row * width + column) * 4;
+      image.data[offset] = grey;
+      image.data[offset + 1] = grey;
+      image.data[offset + 2] = grey;
+      image.data[offset + 3] = 255;
+    }
+  }
+  context.putImageData(image, 0, 0);
+  return {
+    canvas,
+    stretch: { type: "asinh", softening, black: 0, white: peak },
+  };
+};
+
+// The stretched PNG zipped with a JSON sidecar holding the WCS and stretch
+export const observationToPng = async (
+  observation: ObservationImage,
+  name: string
+): Promise<Blob> => {
+  const { canvas, stretch } = observationCanvas(observation);
+  const sidecar = {
+    ...observation.wcs,
+    naxis: [observation.width, observation.height],
+    stretch,
+    rows: "PNG rows run from the top; CRPIX counts from the bottom left",
+  };
+  const png = await canvasToPng(canvas);
+  const zip = new ZipWriter();
+  zip.add(`${name}.png`, new Uint8Array(await png.arrayBuffer()));
+  zip.add(
+    `${name}.json`,
+    new TextEncoder().encode(JSON.stringify(sidecar, null, 2))
+  );
+  return zip.finish();
+};
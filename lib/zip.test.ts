@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { decodeNpz, encodeNpz } from "./npz";
+import { ascii, ZipWriter } from "./zip";
+
+describe("ZipWriter", () => {
+  test("members are stored with their CRC-32 and sizes", async () => {
+    const zip = new ZipWriter();
+    zip.add("check.txt", ascii("123456789"));
+    zip.add("empty.txt", new Uint8Array(0));
+    assert.equal(zip.count, 2);
+
+    const blob = zip.finish();
+    assert.equal(blob.type, "application/zip");
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    assert.equal(view.getUint32(0, true), 0x04034b50);
+    assert.equal(view.getUint32(14, true), 0xcbf43926); // The CRC-32 check value
+    assert.equal(view.getUint32(18, true), 9);
+    assert.equal(new TextDecoder().decode(bytes.subarray(30, 39)), "check.txt");
+    assert.equal(new TextDecoder().decode(bytes.subarray(39, 48)), "123456789");
+
+    // The end record counts both members
+    const end = bytes.length - 22;
+    assert.equal(view.getUint32(end, true), 0x06054b50);
+    assert.equal(view.getUint16(end + 10, true), 2);
+  });
+
+  test("npz archives read back array for array", async () => {
+    const arrays = {
+      positions: { data: Float32Array.of(1, 2, 3, 4, 5, 6), shape: [2, 3] },
+      species: { data: Uint8Array.of(0, 7), shape: [2] },
+      times: { data: Float64Array.of(Math.PI), shape: [1] },
+      sources: { data: Uint16Array.of(65535, 1, 2), shape: [3] },
+    };
+    const decoded = decodeNpz(await encodeNpz(arrays).arrayBuffer());
+    assert.deepEqual(decoded, arrays);
+  });
+});
@@ -0,0 +1,85 @@
+// Minimal writer for uncompressed (stored) zip archives. Members are kept as
+// Blobs so long captures can be paged out by the browser instead of held in
+// one contiguous buffer.
+
+const DOS_DATE = (1 << 5) | 1; // 1980-01-01; members carry no real timestamp
+
+export const ascii = (text: string) =>
+  Uint8Array.from(text, (character) => character.charCodeAt(0));
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private central: Uint8Array[] = [];
+  private offset = 0;
+
+  get count() {
+    return this.central.length;
+  }
+
+  add(name: string, file: Uint8Array) {
+    const fileName = ascii(name);
+    const crc = crc32(file);
+
+    const local = new Uint8Array(30 + fileName.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // Version needed
+    localView.setUint16(12, DOS_DATE, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, file.length, true);
+    localView.setUint32(22, file.length, true);
+    localView.setUint16(26, fileName.length, true);
+    local.set(fileName, 30);
+
+    const entry = new Uint8Array(46 + fileName.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(4, 20, true); // Version made by
+    entryView.setUint16(6, 20, true); // Version needed
+    entryView.setUint16(14, DOS_DATE, true);
+    entryView.setUint32(16, crc, true);
+    entryView.setUint32(20, file.length, true);
+    entryView.setUint32(24, file.length, true);
+    entryView.setUint16(28, fileName.length, true);
+    entryView.setUint32(42, this.offset, true);
+    entry.set(fileName, 46);
+
+    this.parts.push(new Blob([local, file]));
+    this.central.push(entry);
+    this.offset += local.length + file.length;
+  }
+
+  finish(type = "application/zip"): Blob {
+    const centralSize = this.central.reduce(
+      (size, entry) => size + entry.length,
+      0
+    );
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, this.central.length, true);
+    endView.setUint16(10, this.central.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, this.offset, true);
+
+    return new Blob([...this.parts, ...this.central, end], { type });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Headless benchmark of the CPU particle path:
+ *
+ *   npm run benchmark -- [integrator...]
+ *
+ * The GPU path needs WebGL; the /benchmark page runs both paths in any
+ * browser, headless ones included, and logs the same table.
+ */
+import {
+  BENCHMARK_PARTICLE_COUNTS,
+  benchmarkSimulation,
+} from "../lib/simulation/benchmark";
+import { INTEGRATORS, IntegratorName } from "../lib/simulation/integrators";
+import { PlasmaTorusSimulation } from "../lib/simulation/plasma-torus-simulation";
+
+const requested = process.argv.slice(2);
+const unknown = requested.filter(
+  (name) => !INTEGRATORS.some((integrator) => integrator.name === name)
+);
+if (unknown.length > 0) {
+  console.error(`Unknown integrator: ${unknown.join(", ")}`);
+  process.exit(1);
+}
+const integrators = (
+  requested.length > 0 ? requested : INTEGRATORS.map(({ name }) => name)
+) as IntegratorName[];
+
+const results = integrators.flatMap((integrator) =>
+  BENCHMARK_PARTICLE_COUNTS.map((maxParticles) =>
+    benchmarkSimulation(
+      "cpu",
+      new PlasmaTorusSimulation({ integrator, maxParticles }, 1)
+    )
+  )
+);
+
+console.table(
+  results.map(({ particlesPerMs, milliseconds, ...result }) => ({
+    ...result,
+    milliseconds: Math.round(milliseconds),
+    particlesPerMs: Math.round(particlesPerMs),
+  }))
+);
@@ -0,0 +1,131 @@
+/**
+ * Headless parameter sweep of the CPU particle path:
+ *
+ *   npm run sweep -- config.json [results.csv|results.json] [--workers N]
+ *
+ * Runs every combination of the config's swept values for each seed on a
+ * pool of worker threads, one run per thread at a time, and writes one row
+ * of summary metrics per run. See lib/sweep.ts for the config and the
+ * metrics, and scripts/sweep-example.json for an example.
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { availableParallelism } from "node:os";
+import {
+  isMainThread,
+  parentPort,
+  Worker,
+  workerData,
+} from "node:worker_threads";
+import {
+  parseSweepConfig,
+  runSweep,
+  SweepConfig,
+  SweepResult,
+  SweepRun,
+  sweepRuns,
+  sweepToCsv,
+  sweepToJson,
+} from "../lib/sweep";
+
+// Run whatever the main thread sends, one run at a time
+const work = () => {
+  const config = workerData as SweepConfig;
+  parentPort!.on("message", (run: SweepRun) =>
+    parentPort!.postMessage(runSweep(config, run))
+  );
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const workersFlag = args.indexOf("--workers");
+  const workers =
+    workersFlag >= 0 ? Number(args.splice(workersFlag, 2)[1]) : undefined;
+  const [configPath, outputPath = "sweep-results.csv"] = args;
+  if (
+    !configPath ||
+    !/\.(csv|json)$/.test(outputPath) ||
+    (workers !== undefined && !(Number.isInteger(workers) && workers > 0))
+  ) {
+    console.error(
+      "Usage: npm run sweep -- config.json [results.csv|results.json] [--workers N]"
+    );
+    process.exit(1);
+  }
+
+  let config: SweepConfig;
+  try {
+    config = parseSweepConfig(JSON.parse(readFileSync(configPath, "utf8")));
+  } catch (error) {
+    console.error(`Could not read ${configPath}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const runs = sweepRuns(config);
+  const threads = Math.min(runs.length, workers ?? availableParallelism());
+  console.error(
+    `${runs.length} runs of ${config.steps} steps on ${threads} threads`
+  );
+
+  const results: SweepResult[] = [];
+  const pool: Worker[] = [];
+  let next = 0;
+  await Promise.all(
+    Array.from(
+      { length: threads },
+      () =>
+        new Promise<void>((resolve, reject) => {
+          // Workers load this file through tsx's require hook, as the
+          // main thread's loader does not carry over to them
+          const worker = new Worker(
+            `require("tsx/cjs"); require(${JSON.stringify(__filename)});`,
+            { eval: true, workerData: config }
+          );
+          pool.push(worker);
+          let finished = false;
+          const dispatch = () => {
+            if (next < runs.length) {
+              worker.postMessage(runs[next++]);
+            } else {
+              finished = true;
+              worker.terminate().then(() => resolve(), reject);
+            }
+          };
+          worker.on("message", (result: SweepResult) => {
+            results.push(result);
+            console.error(
+              `Run ${result.run + 1}/${runs.length} done in ${Math.round(result.milliseconds)} ms`
+            );
+            dispatch();
+          });
+          worker.on("error", reject);
+          worker.on("exit", (code) => {
+            if (!finished) {
+              reject(new Error(`A sweep worker stopped with code ${code}`));
+            }
+          });
+          dispatch();
+        })
+    )
+  ).catch((error) => {
+    // One failed run fails the sweep, so stop the rest rather than wait
+    pool.forEach((worker) => worker.terminate());
+    throw error;
+  });
+
+  writeFileSync(
+    outputPath,
+    outputPath.endsWith(".json")
+      ? sweepToJson(config, results)
+      : sweepToCsv(config, results)
+  );
+  console.error(`Wrote ${outputPath}`);
+};
+
+if (isMainThread) {
+  main().catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  });
+} else {
+  work();
+}
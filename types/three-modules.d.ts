@@ -1,12 +1,18 @@
 declare module "three/examples/jsm/controls/OrbitControls" {
-  import { Camera, EventDispatcher } from "three";
-  export class OrbitControls extends EventDispatcher {
+  import { Camera, EventDispatcher, Vector3 } from "three";
+  export class OrbitControls extends EventDispatcher<{
+    change: object;
+    start: object;
+    end: object;
+  }> {
     constructor(camera: Camera, domElement?: HTMLElement);
     enabled: boolean;
     enableDamping: boolean;
     dampingFactor: number;
     minDistance: number;
     maxDistance: number;
+    target: Vector3;
     update(): void;
+    dispose(): void;
   }
 }